@@ -4,7 +4,8 @@ import {
   text, 
   integer, 
   real,
-  index
+  index,
+  uniqueIndex
 } from 'drizzle-orm/sqlite-core';
 import { 
   pgTable, 
@@ -15,7 +16,10 @@ import {
   serial,
   bigint,
   decimal,
-  index as pgIndex
+  integer as pgInteger,
+  index as pgIndex,
+  uniqueIndex as pgUniqueIndex,
+  customType
 } from 'drizzle-orm/pg-core';
 
 // Environment-based table creation
@@ -44,6 +48,14 @@ export const ProcessingStatus = {
   FAILED: 'failed'
 } as const;
 
+// Background job status enum
+export const JobStatus = {
+  QUEUED: 'queued',
+  RUNNING: 'running',
+  COMPLETED: 'completed',
+  FAILED: 'failed'
+} as const;
+
 // SQLite Tables (Development)
 export const sqliteUsers = sqliteTable('users', {
   id: text('id').primaryKey(),
@@ -95,8 +107,12 @@ export const sqliteFiles = sqliteTable('files', {
   uploadedBy: text('uploaded_by').notNull().references(() => sqliteUsers.id),
   gcsPath: text('gcs_path').notNull(),
   thumbnailPath: text('thumbnail_path'),
+  contentHash: text('content_hash'), // SHA-256 of the stored bytes
+  version: integer('version').notNull().default(1), // Current file_versions.version_number
   aiDescription: text('ai_description'),
   aiTags: text('ai_tags'), // JSON string array
+  extractedText: text('extracted_text'), // Text layer of documents, pages separated by form feeds
+  perceptualHash: text('perceptual_hash'), // 64-bit difference hash of the image or preview, hex
   processingStatus: text('processing_status', { enum: ['pending', 'processing', 'completed', 'failed'] }).notNull().default('pending'),
   metadata: text('metadata'), // JSON string
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
@@ -107,6 +123,77 @@ export const sqliteFiles = sqliteTable('files', {
   statusIdx: index('files_status_idx').on(table.processingStatus),
   uploadedByIdx: index('files_uploaded_by_idx').on(table.uploadedBy),
   filenameIdx: index('files_filename_idx').on(table.filename),
+  contentHashIdx: index('files_content_hash_idx').on(table.contentHash),
+}));
+
+export const sqliteFileVersions = sqliteTable('file_versions', {
+  id: text('id').primaryKey(),
+  fileId: text('file_id').notNull().references(() => sqliteFiles.id, { onDelete: 'cascade' }),
+  versionNumber: integer('version_number').notNull(),
+  originalName: text('original_name').notNull(),
+  mimeType: text('mime_type').notNull(),
+  size: integer('size').notNull(),
+  gcsPath: text('gcs_path').notNull(),
+  thumbnailPath: text('thumbnail_path'),
+  contentHash: text('content_hash'),
+  uploadedBy: text('uploaded_by').notNull().references(() => sqliteUsers.id),
+  restoredFrom: integer('restored_from'), // Version number this one was restored from
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+}, (table) => ({
+  // Concurrent uploads can't both add the same version number
+  fileVersionIdx: uniqueIndex('file_versions_file_version_idx').on(table.fileId, table.versionNumber),
+  gcsPathIdx: index('file_versions_gcs_path_idx').on(table.gcsPath),
+}));
+
+export const sqliteProcessingJobs = sqliteTable('processing_jobs', {
+  id: text('id').primaryKey(),
+  fileId: text('file_id').notNull().references(() => sqliteFiles.id, { onDelete: 'cascade' }),
+  status: text('status', { enum: ['queued', 'running', 'completed', 'failed'] }).notNull().default('queued'),
+  attempts: integer('attempts').notNull().default(0),
+  maxAttempts: integer('max_attempts').notNull(),
+  lastError: text('last_error'),
+  errorCode: text('error_code'),
+  runAt: integer('run_at', { mode: 'timestamp' }).notNull(), // Earliest time the next attempt may start
+  lockedAt: integer('locked_at', { mode: 'timestamp' }), // When a worker claimed the job
+  completedAt: integer('completed_at', { mode: 'timestamp' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+}, (table) => ({
+  statusRunAtIdx: index('processing_jobs_status_run_at_idx').on(table.status, table.runAt),
+  fileIdx: index('processing_jobs_file_idx').on(table.fileId),
+}));
+
+export const sqliteFileEmbeddings = sqliteTable('file_embeddings', {
+  fileId: text('file_id').primaryKey().references(() => sqliteFiles.id, { onDelete: 'cascade' }),
+  model: text('model').notNull(), // Provider and model that produced the vector
+  dimensions: integer('dimensions').notNull(),
+  embedding: text('embedding', { mode: 'json' }).$type<number[]>().notNull(), // JSON number array
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+}, (table) => ({
+  modelIdx: index('file_embeddings_model_idx').on(table.model),
+}));
+
+export const sqliteUploadSessions = sqliteTable('upload_sessions', {
+  id: text('id').primaryKey(),
+  fileId: text('file_id').notNull(), // Becomes files.id once the upload completes
+  userId: text('user_id').notNull().references(() => sqliteUsers.id),
+  siteId: text('site_id').notNull().references(() => sqliteSites.id, { onDelete: 'cascade' }),
+  category: text('category', { enum: ['plans', 'work_drawings', '3d', 'wip', 'finished'] }).notNull(),
+  originalName: text('original_name').notNull(),
+  mimeType: text('mime_type').notNull(),
+  size: integer('size').notNull(),
+  gcsPath: text('gcs_path').notNull(),
+  uploadUrl: text('upload_url'), // Resumable session URL
+  uploadId: text('upload_id'), // Multipart upload ID (S3-compatible storage)
+  versionOf: text('version_of'), // Existing files.id when uploading a new version
+  status: text('status', { enum: ['pending', 'completed'] }).notNull().default('pending'),
+  expiresAt: integer('expires_at', { mode: 'timestamp' }).notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+}, (table) => ({
+  userIdx: index('upload_sessions_user_idx').on(table.userId),
+  expiresIdx: index('upload_sessions_expires_idx').on(table.expiresAt),
 }));
 
 export const sqliteSearchQueries = sqliteTable('search_queries', {
@@ -122,13 +209,90 @@ export const sqliteSearchQueries = sqliteTable('search_queries', {
   queryIdx: index('search_queries_query_idx').on(table.query),
 }));
 
-export const sqliteSharedLinks = sqliteTable('shared_links', {
+// A search result as shown, at its position in the results, and whether it was then
+// opened or downloaded; clicks over impressions give click-through by query and tier
+export const sqliteSearchImpressions = sqliteTable('search_impressions', {
   id: text('id').primaryKey(),
+  searchId: text('search_id').notNull().references(() => sqliteSearchQueries.id, { onDelete: 'cascade' }),
   fileId: text('file_id').notNull().references(() => sqliteFiles.id, { onDelete: 'cascade' }),
+  position: integer('position').notNull(), // 1-based, across pages
+  matchedBy: text('matched_by').notNull(), // JSON SearchMatch[], the tiers that found the file
+  clickedAt: integer('clicked_at', { mode: 'timestamp' }), // First opened or downloaded
+  action: text('action', { enum: ['open', 'download'] }), // Download once it's been downloaded
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+}, (table) => ({
+  searchIdx: index('search_impressions_search_idx').on(table.searchId),
+  fileIdx: index('search_impressions_file_idx').on(table.fileId),
+}));
+
+// Suggestion dictionary: one row per term and source (a file's analysis, a site, or
+// searches people ran). Rows are replaced when their source changes.
+export const sqliteSearchTerms = sqliteTable('search_terms', {
+  id: text('id').primaryKey(),
+  kind: text('kind', { enum: ['tag', 'room', 'material', 'site', 'client', 'query'] }).notNull(),
+  term: text('term').notNull(), // As first seen
+  normalized: text('normalized').notNull(), // Lowercase, single spaces
+  siteId: text('site_id').references(() => sqliteSites.id, { onDelete: 'cascade' }), // For queries, a site searched
+  fileId: text('file_id').references(() => sqliteFiles.id, { onDelete: 'cascade' }),
+  weight: integer('weight').notNull().default(1), // Times a query was run in the site; 1 otherwise
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+}, (table) => ({
+  normalizedIdx: index('search_terms_normalized_idx').on(table.normalized),
+  fileIdx: index('search_terms_file_idx').on(table.fileId),
+  siteIdx: index('search_terms_site_idx').on(table.siteId),
+}));
+
+// Admin-defined search tuning. A synonym expands a query term to also match another
+// term; a boost raises (or, below 1, lowers) the rank of files matching a filter when
+// a query contains its term.
+export const sqliteSearchSynonyms = sqliteTable('search_synonyms', {
+  id: text('id').primaryKey(),
+  term: text('term').notNull(), // Normalized, e.g. settee
+  synonym: text('synonym').notNull(), // Normalized, e.g. sofa
+  createdBy: text('created_by').references(() => sqliteUsers.id, { onDelete: 'set null' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+}, (table) => ({
+  termIdx: index('search_synonyms_term_idx').on(table.term),
+}));
+
+export const sqliteSearchBoosts = sqliteTable('search_boosts', {
+  id: text('id').primaryKey(),
+  term: text('term').notNull(), // Normalized; empty applies to every search
+  filter: text('filter').notNull(), // Search query syntax, e.g. category:finished
+  weight: real('weight').notNull(), // Multiplies the file's structured and full-text rank scores
+  createdBy: text('created_by').references(() => sqliteUsers.id, { onDelete: 'set null' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+});
+
+export const sqliteSavedSearches = sqliteTable('saved_searches', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull().references(() => sqliteUsers.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  query: text('query').notNull(),
+  filters: text('filters'), // JSON string, the filters chosen outside the query text
+  lastViewedAt: integer('last_viewed_at', { mode: 'timestamp' }).notNull(), // Files uploaded since are new matches
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+}, (table) => ({
+  userIdx: index('saved_searches_user_idx').on(table.userId),
+}));
+
+export const sqliteSharedLinks = sqliteTable('shared_links', {
+  id: text('id').primaryKey(),
+  // Single-file links set fileId; collections use shared_link_files or a site/category filter
+  fileId: text('file_id').references(() => sqliteFiles.id, { onDelete: 'cascade' }),
+  siteId: text('site_id').references(() => sqliteSites.id, { onDelete: 'cascade' }),
+  category: text('category', { enum: ['plans', 'work_drawings', '3d', 'wip', 'finished'] }),
+  title: text('title'),
   createdBy: text('created_by').notNull().references(() => sqliteUsers.id),
   token: text('token').notNull().unique(),
   expiresAt: integer('expires_at', { mode: 'timestamp' }).notNull(),
   isActive: integer('is_active', { mode: 'boolean' }).notNull().default(true),
+  revokedAt: integer('revoked_at', { mode: 'timestamp' }),
+  passwordHash: text('password_hash'),
+  maxDownloads: integer('max_downloads'),
+  downloadCount: integer('download_count').notNull().default(0),
+  viewOnly: integer('view_only', { mode: 'boolean' }).notNull().default(false),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
 }, (table) => ({
   tokenIdx: index('shared_links_token_idx').on(table.token),
@@ -136,6 +300,26 @@ export const sqliteSharedLinks = sqliteTable('shared_links', {
   expiresIdx: index('shared_links_expires_idx').on(table.expiresAt),
 }));
 
+export const sqliteSharedLinkFiles = sqliteTable('shared_link_files', {
+  id: text('id').primaryKey(),
+  linkId: text('link_id').notNull().references(() => sqliteSharedLinks.id, { onDelete: 'cascade' }),
+  fileId: text('file_id').notNull().references(() => sqliteFiles.id, { onDelete: 'cascade' }),
+  position: integer('position').notNull().default(0),
+}, (table) => ({
+  linkIdx: index('shared_link_files_link_idx').on(table.linkId),
+}));
+
+export const sqliteShareLinkAccesses = sqliteTable('share_link_accesses', {
+  id: text('id').primaryKey(),
+  linkId: text('link_id').notNull().references(() => sqliteSharedLinks.id, { onDelete: 'cascade' }),
+  action: text('action', { enum: ['view', 'download', 'denied'] }).notNull(),
+  ipAddress: text('ip_address'),
+  userAgent: text('user_agent'),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+}, (table) => ({
+  linkIdx: index('share_link_accesses_link_idx').on(table.linkId),
+}));
+
 // PostgreSQL Tables (Production)
 export const pgUsers = pgTable('users', {
   id: varchar('id', { length: 255 }).primaryKey(),
@@ -187,8 +371,12 @@ export const pgFiles = pgTable('files', {
   uploadedBy: varchar('uploaded_by', { length: 255 }).notNull().references(() => pgUsers.id),
   gcsPath: varchar('gcs_path', { length: 500 }).notNull(),
   thumbnailPath: varchar('thumbnail_path', { length: 500 }),
+  contentHash: varchar('content_hash', { length: 64 }), // SHA-256 of the stored bytes
+  version: pgInteger('version').notNull().default(1), // Current file_versions.version_number
   aiDescription: pgText('ai_description'),
   aiTags: pgText('ai_tags'), // JSON string array
+  extractedText: pgText('extracted_text'), // Text layer of documents, pages separated by form feeds
+  perceptualHash: varchar('perceptual_hash', { length: 16 }), // 64-bit difference hash of the image or preview, hex
   processingStatus: varchar('processing_status', { length: 50 }).notNull().default('pending'),
   metadata: pgText('metadata'), // JSON string
   createdAt: timestamp('created_at').notNull().defaultNow(),
@@ -199,6 +387,83 @@ export const pgFiles = pgTable('files', {
   statusIdx: pgIndex('files_status_idx').on(table.processingStatus),
   uploadedByIdx: pgIndex('files_uploaded_by_idx').on(table.uploadedBy),
   filenameIdx: pgIndex('files_filename_idx').on(table.filename),
+  contentHashIdx: pgIndex('files_content_hash_idx').on(table.contentHash),
+}));
+
+export const pgFileVersions = pgTable('file_versions', {
+  id: varchar('id', { length: 255 }).primaryKey(),
+  fileId: varchar('file_id', { length: 255 }).notNull().references(() => pgFiles.id, { onDelete: 'cascade' }),
+  versionNumber: pgInteger('version_number').notNull(),
+  originalName: varchar('original_name', { length: 255 }).notNull(),
+  mimeType: varchar('mime_type', { length: 100 }).notNull(),
+  size: bigint('size', { mode: 'number' }).notNull(),
+  gcsPath: varchar('gcs_path', { length: 500 }).notNull(),
+  thumbnailPath: varchar('thumbnail_path', { length: 500 }),
+  contentHash: varchar('content_hash', { length: 64 }),
+  uploadedBy: varchar('uploaded_by', { length: 255 }).notNull().references(() => pgUsers.id),
+  restoredFrom: pgInteger('restored_from'), // Version number this one was restored from
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  fileVersionIdx: pgUniqueIndex('file_versions_file_version_idx').on(table.fileId, table.versionNumber),
+  gcsPathIdx: pgIndex('file_versions_gcs_path_idx').on(table.gcsPath),
+}));
+
+export const pgProcessingJobs = pgTable('processing_jobs', {
+  id: varchar('id', { length: 255 }).primaryKey(),
+  fileId: varchar('file_id', { length: 255 }).notNull().references(() => pgFiles.id, { onDelete: 'cascade' }),
+  status: varchar('status', { length: 50 }).notNull().default('queued'),
+  attempts: pgInteger('attempts').notNull().default(0),
+  maxAttempts: pgInteger('max_attempts').notNull(),
+  lastError: pgText('last_error'),
+  errorCode: varchar('error_code', { length: 50 }),
+  runAt: timestamp('run_at').notNull(), // Earliest time the next attempt may start
+  lockedAt: timestamp('locked_at'), // When a worker claimed the job
+  completedAt: timestamp('completed_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  statusRunAtIdx: pgIndex('processing_jobs_status_run_at_idx').on(table.status, table.runAt),
+  fileIdx: pgIndex('processing_jobs_file_idx').on(table.fileId),
+}));
+
+// pgvector column; dimensions aren't fixed because they depend on the embedding model
+const pgVector = customType<{ data: number[]; driverData: string }>({
+  dataType: () => 'vector',
+  toDriver: (value) => `[${value.join(',')}]`,
+  fromDriver: (value) => JSON.parse(value),
+});
+
+export const pgFileEmbeddings = pgTable('file_embeddings', {
+  fileId: varchar('file_id', { length: 255 }).primaryKey().references(() => pgFiles.id, { onDelete: 'cascade' }),
+  model: varchar('model', { length: 255 }).notNull(), // Provider and model that produced the vector
+  dimensions: pgInteger('dimensions').notNull(),
+  embedding: pgVector('embedding').notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  modelIdx: pgIndex('file_embeddings_model_idx').on(table.model),
+}));
+
+export const pgUploadSessions = pgTable('upload_sessions', {
+  id: varchar('id', { length: 255 }).primaryKey(),
+  fileId: varchar('file_id', { length: 255 }).notNull(), // Becomes files.id once the upload completes
+  userId: varchar('user_id', { length: 255 }).notNull().references(() => pgUsers.id),
+  siteId: varchar('site_id', { length: 255 }).notNull().references(() => pgSites.id, { onDelete: 'cascade' }),
+  category: varchar('category', { length: 50 }).notNull(),
+  originalName: varchar('original_name', { length: 255 }).notNull(),
+  mimeType: varchar('mime_type', { length: 100 }).notNull(),
+  size: bigint('size', { mode: 'number' }).notNull(),
+  gcsPath: varchar('gcs_path', { length: 500 }).notNull(),
+  uploadUrl: pgText('upload_url'), // Resumable session URL
+  uploadId: pgText('upload_id'), // Multipart upload ID (S3-compatible storage)
+  versionOf: varchar('version_of', { length: 255 }), // Existing files.id when uploading a new version
+  status: varchar('status', { length: 50 }).notNull().default('pending'),
+  expiresAt: timestamp('expires_at').notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  userIdx: pgIndex('upload_sessions_user_idx').on(table.userId),
+  expiresIdx: pgIndex('upload_sessions_expires_idx').on(table.expiresAt),
 }));
 
 export const pgSearchQueries = pgTable('search_queries', {
@@ -214,13 +479,83 @@ export const pgSearchQueries = pgTable('search_queries', {
   queryIdx: pgIndex('search_queries_query_idx').on(table.query),
 }));
 
-export const pgSharedLinks = pgTable('shared_links', {
+export const pgSearchImpressions = pgTable('search_impressions', {
   id: varchar('id', { length: 255 }).primaryKey(),
+  searchId: varchar('search_id', { length: 255 }).notNull().references(() => pgSearchQueries.id, { onDelete: 'cascade' }),
   fileId: varchar('file_id', { length: 255 }).notNull().references(() => pgFiles.id, { onDelete: 'cascade' }),
+  position: pgInteger('position').notNull(),
+  matchedBy: pgText('matched_by').notNull(),
+  clickedAt: timestamp('clicked_at'),
+  action: varchar('action', { length: 20, enum: ['open', 'download'] }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  searchIdx: pgIndex('search_impressions_search_idx').on(table.searchId),
+  fileIdx: pgIndex('search_impressions_file_idx').on(table.fileId),
+}));
+
+export const pgSearchTerms = pgTable('search_terms', {
+  id: varchar('id', { length: 255 }).primaryKey(),
+  kind: varchar('kind', { length: 20, enum: ['tag', 'room', 'material', 'site', 'client', 'query'] }).notNull(),
+  term: pgText('term').notNull(),
+  normalized: pgText('normalized').notNull(),
+  siteId: varchar('site_id', { length: 255 }).references(() => pgSites.id, { onDelete: 'cascade' }),
+  fileId: varchar('file_id', { length: 255 }).references(() => pgFiles.id, { onDelete: 'cascade' }),
+  weight: pgInteger('weight').notNull().default(1),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  normalizedIdx: pgIndex('search_terms_normalized_idx').on(table.normalized),
+  fileIdx: pgIndex('search_terms_file_idx').on(table.fileId),
+  siteIdx: pgIndex('search_terms_site_idx').on(table.siteId),
+}));
+
+export const pgSearchSynonyms = pgTable('search_synonyms', {
+  id: varchar('id', { length: 255 }).primaryKey(),
+  term: varchar('term', { length: 255 }).notNull(),
+  synonym: varchar('synonym', { length: 255 }).notNull(),
+  createdBy: varchar('created_by', { length: 255 }).references(() => pgUsers.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  termIdx: pgIndex('search_synonyms_term_idx').on(table.term),
+}));
+
+export const pgSearchBoosts = pgTable('search_boosts', {
+  id: varchar('id', { length: 255 }).primaryKey(),
+  term: varchar('term', { length: 255 }).notNull(),
+  filter: pgText('filter').notNull(),
+  weight: decimal('weight', { precision: 6, scale: 2 }).notNull(),
+  createdBy: varchar('created_by', { length: 255 }).references(() => pgUsers.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+export const pgSavedSearches = pgTable('saved_searches', {
+  id: varchar('id', { length: 255 }).primaryKey(),
+  userId: varchar('user_id', { length: 255 }).notNull().references(() => pgUsers.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 255 }).notNull(),
+  query: pgText('query').notNull(),
+  filters: pgText('filters'), // JSON string, the filters chosen outside the query text
+  lastViewedAt: timestamp('last_viewed_at').notNull().defaultNow(), // Files uploaded since are new matches
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  userIdx: pgIndex('saved_searches_user_idx').on(table.userId),
+}));
+
+export const pgSharedLinks = pgTable('shared_links', {
+  id: varchar('id', { length: 255 }).primaryKey(),
+  // Single-file links set fileId; collections use shared_link_files or a site/category filter
+  fileId: varchar('file_id', { length: 255 }).references(() => pgFiles.id, { onDelete: 'cascade' }),
+  siteId: varchar('site_id', { length: 255 }).references(() => pgSites.id, { onDelete: 'cascade' }),
+  category: varchar('category', { length: 50 }),
+  title: varchar('title', { length: 255 }),
   createdBy: varchar('created_by', { length: 255 }).notNull().references(() => pgUsers.id),
   token: varchar('token', { length: 255 }).notNull().unique(),
   expiresAt: timestamp('expires_at').notNull(),
   isActive: boolean('is_active').notNull().default(true),
+  revokedAt: timestamp('revoked_at'),
+  passwordHash: varchar('password_hash', { length: 255 }),
+  maxDownloads: pgInteger('max_downloads'),
+  downloadCount: pgInteger('download_count').notNull().default(0),
+  viewOnly: boolean('view_only').notNull().default(false),
   createdAt: timestamp('created_at').notNull().defaultNow(),
 }, (table) => ({
   tokenIdx: pgIndex('shared_links_token_idx').on(table.token),
@@ -228,19 +563,55 @@ export const pgSharedLinks = pgTable('shared_links', {
   expiresIdx: pgIndex('shared_links_expires_idx').on(table.expiresAt),
 }));
 
-// Export appropriate tables based on environment
-export const users = isLocal ? sqliteUsers : pgUsers;
-export const sites = isLocal ? sqliteSites : pgSites;
-export const sitePermissions = isLocal ? sqliteSitePermissions : pgSitePermissions;
-export const files = isLocal ? sqliteFiles : pgFiles;
-export const searchQueries = isLocal ? sqliteSearchQueries : pgSearchQueries;
-export const sharedLinks = isLocal ? sqliteSharedLinks : pgSharedLinks;
+export const pgSharedLinkFiles = pgTable('shared_link_files', {
+  id: varchar('id', { length: 255 }).primaryKey(),
+  linkId: varchar('link_id', { length: 255 }).notNull().references(() => pgSharedLinks.id, { onDelete: 'cascade' }),
+  fileId: varchar('file_id', { length: 255 }).notNull().references(() => pgFiles.id, { onDelete: 'cascade' }),
+  position: pgInteger('position').notNull().default(0),
+}, (table) => ({
+  linkIdx: pgIndex('shared_link_files_link_idx').on(table.linkId),
+}));
+
+export const pgShareLinkAccesses = pgTable('share_link_accesses', {
+  id: varchar('id', { length: 255 }).primaryKey(),
+  linkId: varchar('link_id', { length: 255 }).notNull().references(() => pgSharedLinks.id, { onDelete: 'cascade' }),
+  action: varchar('action', { length: 50 }).notNull(),
+  ipAddress: varchar('ip_address', { length: 255 }),
+  userAgent: pgText('user_agent'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  linkIdx: pgIndex('share_link_accesses_link_idx').on(table.linkId),
+}));
+
+// Export appropriate tables based on environment. They're typed as the SQLite tables,
+// which have the same columns and values as the PostgreSQL ones, so that queries on
+// the exported db type-check in both environments.
+const forEnvironment = <T>(sqliteTable: T, pgTable: unknown): T => (isLocal ? sqliteTable : pgTable) as T;
+
+export const users = forEnvironment(sqliteUsers, pgUsers);
+export const sites = forEnvironment(sqliteSites, pgSites);
+export const sitePermissions = forEnvironment(sqliteSitePermissions, pgSitePermissions);
+export const files = forEnvironment(sqliteFiles, pgFiles);
+export const fileVersions = forEnvironment(sqliteFileVersions, pgFileVersions);
+export const processingJobs = forEnvironment(sqliteProcessingJobs, pgProcessingJobs);
+export const fileEmbeddings = forEnvironment(sqliteFileEmbeddings, pgFileEmbeddings);
+export const searchQueries = forEnvironment(sqliteSearchQueries, pgSearchQueries);
+export const searchImpressions = forEnvironment(sqliteSearchImpressions, pgSearchImpressions);
+export const savedSearches = forEnvironment(sqliteSavedSearches, pgSavedSearches);
+export const searchTerms = forEnvironment(sqliteSearchTerms, pgSearchTerms);
+export const searchSynonyms = forEnvironment(sqliteSearchSynonyms, pgSearchSynonyms);
+export const searchBoosts = forEnvironment(sqliteSearchBoosts, pgSearchBoosts);
+export const uploadSessions = forEnvironment(sqliteUploadSessions, pgUploadSessions);
+export const sharedLinks = forEnvironment(sqliteSharedLinks, pgSharedLinks);
+export const sharedLinkFiles = forEnvironment(sqliteSharedLinkFiles, pgSharedLinkFiles);
+export const shareLinkAccesses = forEnvironment(sqliteShareLinkAccesses, pgShareLinkAccesses);
 
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   sitePermissions: many(sitePermissions),
   uploadedFiles: many(files),
   searchQueries: many(searchQueries),
+  savedSearches: many(savedSearches),
   sharedLinks: many(sharedLinks),
 }));
 
@@ -270,6 +641,34 @@ export const filesRelations = relations(files, ({ one, many }) => ({
     references: [users.id],
   }),
   sharedLinks: many(sharedLinks),
+  versions: many(fileVersions),
+  processingJobs: many(processingJobs),
+  embedding: one(fileEmbeddings),
+}));
+
+export const fileVersionsRelations = relations(fileVersions, ({ one }) => ({
+  file: one(files, {
+    fields: [fileVersions.fileId],
+    references: [files.id],
+  }),
+  uploader: one(users, {
+    fields: [fileVersions.uploadedBy],
+    references: [users.id],
+  }),
+}));
+
+export const processingJobsRelations = relations(processingJobs, ({ one }) => ({
+  file: one(files, {
+    fields: [processingJobs.fileId],
+    references: [files.id],
+  }),
+}));
+
+export const fileEmbeddingsRelations = relations(fileEmbeddings, ({ one }) => ({
+  file: one(files, {
+    fields: [fileEmbeddings.fileId],
+    references: [files.id],
+  }),
 }));
 
 export const searchQueriesRelations = relations(searchQueries, ({ one }) => ({
@@ -279,7 +678,14 @@ export const searchQueriesRelations = relations(searchQueries, ({ one }) => ({
   }),
 }));
 
-export const sharedLinksRelations = relations(sharedLinks, ({ one }) => ({
+export const savedSearchesRelations = relations(savedSearches, ({ one }) => ({
+  user: one(users, {
+    fields: [savedSearches.userId],
+    references: [users.id],
+  }),
+}));
+
+export const sharedLinksRelations = relations(sharedLinks, ({ one, many }) => ({
   file: one(files, {
     fields: [sharedLinks.fileId],
     references: [files.id],
@@ -288,6 +694,30 @@ export const sharedLinksRelations = relations(sharedLinks, ({ one }) => ({
     fields: [sharedLinks.createdBy],
     references: [users.id],
   }),
+  site: one(sites, {
+    fields: [sharedLinks.siteId],
+    references: [sites.id],
+  }),
+  files: many(sharedLinkFiles),
+  accesses: many(shareLinkAccesses),
+}));
+
+export const sharedLinkFilesRelations = relations(sharedLinkFiles, ({ one }) => ({
+  link: one(sharedLinks, {
+    fields: [sharedLinkFiles.linkId],
+    references: [sharedLinks.id],
+  }),
+  file: one(files, {
+    fields: [sharedLinkFiles.fileId],
+    references: [files.id],
+  }),
+}));
+
+export const shareLinkAccessesRelations = relations(shareLinkAccesses, ({ one }) => ({
+  link: one(sharedLinks, {
+    fields: [shareLinkAccesses.linkId],
+    references: [sharedLinks.id],
+  }),
 }));
 
 // Type exports
@@ -299,7 +729,29 @@ export type SitePermission = typeof sitePermissions.$inferSelect;
 export type NewSitePermission = typeof sitePermissions.$inferInsert;
 export type File = typeof files.$inferSelect;
 export type NewFile = typeof files.$inferInsert;
+export type FileVersion = typeof fileVersions.$inferSelect;
+export type NewFileVersion = typeof fileVersions.$inferInsert;
+export type ProcessingJob = typeof processingJobs.$inferSelect;
+export type NewProcessingJob = typeof processingJobs.$inferInsert;
+export type FileEmbedding = typeof fileEmbeddings.$inferSelect;
+export type NewFileEmbedding = typeof fileEmbeddings.$inferInsert;
+export type UploadSession = typeof uploadSessions.$inferSelect;
+export type NewUploadSession = typeof uploadSessions.$inferInsert;
 export type SearchQuery = typeof searchQueries.$inferSelect;
 export type NewSearchQuery = typeof searchQueries.$inferInsert;
+export type SearchImpression = typeof searchImpressions.$inferSelect;
+export type NewSearchImpression = typeof searchImpressions.$inferInsert;
+export type SearchTerm = typeof searchTerms.$inferSelect;
+export type NewSearchTerm = typeof searchTerms.$inferInsert;
+export type SearchSynonym = typeof searchSynonyms.$inferSelect;
+export type NewSearchSynonym = typeof searchSynonyms.$inferInsert;
+export type SearchBoost = typeof searchBoosts.$inferSelect;
+export type NewSearchBoost = typeof searchBoosts.$inferInsert;
+export type SavedSearch = typeof savedSearches.$inferSelect;
+export type NewSavedSearch = typeof savedSearches.$inferInsert;
 export type SharedLink = typeof sharedLinks.$inferSelect;
-export type NewSharedLink = typeof sharedLinks.$inferInsert;
\ No newline at end of file
+export type NewSharedLink = typeof sharedLinks.$inferInsert;
+export type SharedLinkFile = typeof sharedLinkFiles.$inferSelect;
+export type NewSharedLinkFile = typeof sharedLinkFiles.$inferInsert;
+export type ShareLinkAccess = typeof shareLinkAccesses.$inferSelect;
+export type NewShareLinkAccess = typeof shareLinkAccesses.$inferInsert;
\ No newline at end of file
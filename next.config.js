@@ -11,6 +11,8 @@ const nextConfig = {
       },
     ],
   },
+  // Native canvas bindings used to render PDF pages can't be bundled
+  serverExternalPackages: ['@napi-rs/canvas'],
   env: {
     DATABASE_URL: process.env.DATABASE_URL,
     GEMINI_API_KEY: process.env.GEMINI_API_KEY,
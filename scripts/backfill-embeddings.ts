@@ -0,0 +1,28 @@
+#!/usr/bin/env node
+
+/**
+ * Embed processed files that have no embedding from the configured model yet.
+ *
+ * Usage: npm run embed-files
+ *
+ * New files are embedded as they're processed; run this once for files processed
+ * before semantic search existed, and again after changing the embedding model.
+ */
+
+async function embedFiles() {
+  // Match the other scripts: SQLite unless running in production
+  Object.assign(process.env, { NODE_ENV: process.env.NODE_ENV || 'development' });
+
+  const { getAIProvider } = await import('../src/lib/ai');
+  const { backfillEmbeddings } = await import('../src/lib/embeddings');
+
+  console.log(`🔢 Embedding files with ${getAIProvider().embeddingModel}...`);
+  const embedded = await backfillEmbeddings((count) => console.log(`   ${count} files embedded`));
+  console.log(`✅ Done, ${embedded} files embedded`);
+  process.exit(0);
+}
+
+embedFiles().catch((error) => {
+  console.error('❌ Embedding backfill failed:', error);
+  process.exit(1);
+});
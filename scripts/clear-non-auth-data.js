@@ -20,8 +20,19 @@ const client = createClient({
 try {
   // List of tables to clear (except 'users')
   const tablesToClear = [
+    'share_link_accesses',
+    'shared_link_files',
     'shared_links',
+    'search_impressions',
     'search_queries',
+    'saved_searches',
+    'search_terms',
+    'search_synonyms',
+    'search_boosts',
+    'upload_sessions',
+    'file_versions',
+    'processing_jobs',
+    'file_embeddings',
     'files',
     'site_permissions',
     'sites'
@@ -0,0 +1,27 @@
+#!/usr/bin/env node
+
+/**
+ * Rebuild the search suggestion index from sites, processed files and the search log.
+ *
+ * Usage: npm run index-suggestions
+ *
+ * Terms are indexed as files are processed, sites are saved and searches are run;
+ * run this once for data from before suggestions were indexed, or after seeding.
+ */
+
+async function indexSuggestions() {
+  // Match the other scripts: SQLite unless running in production
+  Object.assign(process.env, { NODE_ENV: process.env.NODE_ENV || 'development' });
+
+  const { rebuildSuggestionIndex } = await import('../src/lib/suggestions');
+
+  console.log('🔤 Rebuilding search suggestions...');
+  const counts = await rebuildSuggestionIndex((count) => console.log(`   ${count} files indexed`));
+  console.log(`✅ Done, indexed ${counts.sites} sites, ${counts.files} files and ${counts.queries} popular queries`);
+  process.exit(0);
+}
+
+indexSuggestions().catch((error) => {
+  console.error('❌ Suggestion index rebuild failed:', error);
+  process.exit(1);
+});
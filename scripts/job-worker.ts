@@ -0,0 +1,38 @@
+#!/usr/bin/env node
+
+/**
+ * Run the AI processing worker on its own, outside the web server.
+ *
+ * Usage: npm run worker
+ *
+ * Set JOB_WORKER_ENABLED=false on the web servers when running this, so processing
+ * happens only here. Several workers can run at once; each claims jobs atomically.
+ */
+
+async function main() {
+  // Match the other scripts: SQLite unless running in production
+  Object.assign(process.env, { NODE_ENV: process.env.NODE_ENV || 'development' });
+
+  const { startJobWorker, stopJobWorker, getActiveJobCount } = await import('../src/lib/jobs');
+  startJobWorker();
+
+  // Let running jobs finish; anything cut short is recovered once its lock times out
+  const shutdown = () => {
+    console.log('Stopping processing worker...');
+    stopJobWorker();
+    const waitForJobs = setInterval(() => {
+      if (getActiveJobCount() === 0) {
+        clearInterval(waitForJobs);
+        process.exit(0);
+      }
+    }, 500);
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error('❌ Processing worker failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,153 @@
+#!/usr/bin/env node
+
+/**
+ * Copy every stored object referenced by the files and file_versions tables from
+ * one storage backend to another, verifying each copy with a SHA-256 checksum.
+ *
+ * Usage: npm run migrate-storage -- --from gcs --to s3 [--dry-run]
+ *
+ * Both backends are configured from the usual environment variables. Objects that
+ * already exist at the destination with a matching checksum are skipped, so the
+ * command can be re-run after a partial failure. It exits non-zero when any object
+ * is missing from the source or fails to copy.
+ */
+
+import crypto from 'crypto';
+import { pipeline, Transform, type Readable } from 'stream';
+import type { StorageDriver } from '../src/lib/storage';
+
+const args = process.argv.slice(2);
+const getArg = (name: string) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+const hashStream = (stream: Readable): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    stream.on('data', chunk => hash.update(chunk));
+    stream.on('end', () => resolve(hash.digest('hex')));
+    stream.on('error', reject);
+  });
+
+// Pass a stream through unchanged, hashing it on the way
+const hashingStream = () => {
+  const hash = crypto.createHash('sha256');
+  const stream = new Transform({
+    transform(chunk, _encoding, callback) {
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+  });
+  return { stream, digest: () => hash.digest('hex') };
+};
+
+type MigrationOutcome = 'copied' | 'skipped' | 'missing' | 'failed';
+
+async function migrateObject(
+  source: StorageDriver,
+  destination: StorageDriver,
+  objectPath: string,
+  dryRun: boolean
+): Promise<MigrationOutcome> {
+  const object = await source.stat(objectPath).catch(() => null);
+  if (!object) {
+    console.warn(`⚠️  Missing in source: ${objectPath}`);
+    return 'missing';
+  }
+
+  if (await destination.exists(objectPath)) {
+    const [sourceHash, destinationHash] = await Promise.all([
+      hashStream(source.createReadStream(objectPath)),
+      hashStream(destination.createReadStream(objectPath)),
+    ]);
+    if (sourceHash === destinationHash) {
+      return 'skipped';
+    }
+  }
+
+  if (dryRun) {
+    console.log(`[DRY RUN] Would copy ${objectPath} (${object.size} bytes)`);
+    return 'copied';
+  }
+
+  // Objects are streamed across rather than loaded, since they can be large. A read
+  // error destroys the hashing stream, which fails the upload.
+  const hashing = hashingStream();
+  const body = pipeline(source.createReadStream(objectPath), hashing.stream, () => {});
+  await destination.uploadStream(objectPath, body, object.size, {
+    contentType: object.contentType || 'application/octet-stream',
+    metadata: object.metadata,
+  });
+
+  const expected = hashing.digest();
+  const actual = await hashStream(destination.createReadStream(objectPath));
+  if (expected !== actual) {
+    console.error(`❌ Checksum mismatch for ${objectPath}: expected ${expected}, got ${actual}`);
+    return 'failed';
+  }
+
+  console.log(`✓ ${objectPath} (sha256 ${expected.slice(0, 12)}…)`);
+  return 'copied';
+}
+
+async function main() {
+  // Match the other scripts: SQLite unless running in production
+  Object.assign(process.env, { NODE_ENV: process.env.NODE_ENV || 'development' });
+
+  const { createStorageDriver, isStorageDriverName } = await import('../src/lib/storage');
+  const { db } = await import('../src/lib/db');
+  const { files, fileVersions } = await import('../database/schema');
+
+  const from = getArg('from');
+  const to = getArg('to');
+  const dryRun = args.includes('--dry-run');
+
+  if (!from || !to || !isStorageDriverName(from) || !isStorageDriverName(to) || from === to) {
+    console.error('Usage: npm run migrate-storage -- --from <gcs|s3|local> --to <gcs|s3|local> [--dry-run]');
+    process.exit(1);
+  }
+
+  console.log(`📦 Migrating storage from ${from} to ${to}${dryRun ? ' (dry run)' : ''}...`);
+
+  const source = createStorageDriver(from);
+  const destination = createStorageDriver(to);
+
+  type StoredPaths = { gcsPath: string; thumbnailPath: string | null };
+  const fileRows: StoredPaths[] = await db
+    .select({ gcsPath: files.gcsPath, thumbnailPath: files.thumbnailPath })
+    .from(files);
+  // Earlier versions keep their own objects
+  const versionRows: StoredPaths[] = await db
+    .select({ gcsPath: fileVersions.gcsPath, thumbnailPath: fileVersions.thumbnailPath })
+    .from(fileVersions);
+  const rows = [...fileRows, ...versionRows];
+
+  const objectPaths = Array.from(new Set(
+    rows.flatMap(row => (row.thumbnailPath ? [row.gcsPath, row.thumbnailPath] : [row.gcsPath]))
+  ));
+
+  const counts: Record<MigrationOutcome, number> = { copied: 0, skipped: 0, missing: 0, failed: 0 };
+
+  for (const objectPath of objectPaths) {
+    try {
+      counts[await migrateObject(source, destination, objectPath, dryRun)]++;
+    } catch (error) {
+      console.error(`❌ Failed to migrate ${objectPath}:`, error);
+      counts.failed++;
+    }
+  }
+
+  console.log(
+    `\n${dryRun ? 'Would copy' : 'Copied'} ${counts.copied}, skipped ${counts.skipped} already migrated, ` +
+    `${counts.missing} missing in source, ${counts.failed} failed (${objectPaths.length} objects)`
+  );
+
+  // Missing objects are reported as a failure too, since the destination is incomplete
+  process.exit(counts.failed > 0 || counts.missing > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error('❌ Storage migration failed:', error);
+  process.exit(1);
+});
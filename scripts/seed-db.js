@@ -34,8 +34,19 @@ function seedSQLite() {
     
     // Clear existing data (be careful in production!)
     console.log('🧹 Clearing existing data...');
+    client.execute('DELETE FROM share_link_accesses');
+    client.execute('DELETE FROM shared_link_files');
     client.execute('DELETE FROM shared_links');
+    client.execute('DELETE FROM search_impressions');
     client.execute('DELETE FROM search_queries');
+    client.execute('DELETE FROM saved_searches');
+    client.execute('DELETE FROM search_terms');
+    client.execute('DELETE FROM search_synonyms');
+    client.execute('DELETE FROM search_boosts');
+    client.execute('DELETE FROM upload_sessions');
+    client.execute('DELETE FROM file_versions');
+    client.execute('DELETE FROM processing_jobs');
+    client.execute('DELETE FROM file_embeddings');
     client.execute('DELETE FROM files');
     client.execute('DELETE FROM site_permissions');
     client.execute('DELETE FROM sites');
@@ -64,6 +75,7 @@ function seedSQLite() {
     client.close();
     
     console.log('✅ Database seeding completed successfully!');
+    console.log('💡 Run `npm run index-suggestions` to build search suggestions for the sample data');
     console.log('\nSample accounts created:');
     console.log('👤 Admin: admin@example.com / password123');
     console.log('👤 Employee: employee@example.com / password123');
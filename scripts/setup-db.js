@@ -24,6 +24,27 @@ if (!fs.existsSync(dbDir)) {
   console.log('✓ Created database directory');
 }
 
+// Columns added to tables that databases set up by earlier versions already have.
+// CREATE TABLE IF NOT EXISTS leaves those tables alone, so they're added on upgrade.
+const ADDED_COLUMNS = {
+  files: [
+    { name: 'content_hash', sqlite: 'TEXT', pg: 'VARCHAR(64)' },
+    { name: 'version', sqlite: 'INTEGER NOT NULL DEFAULT 1', pg: 'INTEGER NOT NULL DEFAULT 1' },
+    { name: 'extracted_text', sqlite: 'TEXT', pg: 'TEXT' },
+    { name: 'perceptual_hash', sqlite: 'TEXT', pg: 'VARCHAR(16)' },
+  ],
+  shared_links: [
+    { name: 'site_id', sqlite: 'TEXT REFERENCES sites(id) ON DELETE CASCADE', pg: 'VARCHAR(255) REFERENCES sites(id) ON DELETE CASCADE' },
+    { name: 'category', sqlite: 'TEXT', pg: 'VARCHAR(50)' },
+    { name: 'title', sqlite: 'TEXT', pg: 'VARCHAR(255)' },
+    { name: 'revoked_at', sqlite: 'INTEGER', pg: 'TIMESTAMP' },
+    { name: 'password_hash', sqlite: 'TEXT', pg: 'VARCHAR(255)' },
+    { name: 'max_downloads', sqlite: 'INTEGER', pg: 'INTEGER' },
+    { name: 'download_count', sqlite: 'INTEGER NOT NULL DEFAULT 0', pg: 'INTEGER NOT NULL DEFAULT 0' },
+    { name: 'view_only', sqlite: 'INTEGER NOT NULL DEFAULT 0', pg: 'BOOLEAN NOT NULL DEFAULT FALSE' },
+  ],
+};
+
 // Reset database if requested
 if (isReset && isLocal && fs.existsSync(dbFile)) {
   fs.unlinkSync(dbFile);
@@ -61,31 +82,62 @@ export default {
   console.log('✓ Created drizzle.config.ts');
 }
 
-try {
-  // Generate migrations
-  console.log('📝 Generating migrations...');
-  execSync('npx drizzle-kit generate:sqlite', { stdio: 'inherit' });
-  
-  // Apply migrations
-  console.log('🔄 Applying migrations...');
-  if (isLocal) {
-    // For SQLite, we need to run migrations programmatically
-    runSQLiteMigrations();
-  } else {
-    execSync('npx drizzle-kit migrate', { stdio: 'inherit' });
+(async () => {
+  try {
+    // Generate migrations
+    console.log('📝 Generating migrations...');
+    execSync('npx drizzle-kit generate:sqlite', { stdio: 'inherit' });
+    
+    // Apply migrations
+    console.log('🔄 Applying migrations...');
+    if (isLocal) {
+      // For SQLite, we need to run migrations programmatically
+      await runSQLiteMigrations();
+    } else {
+      enableVectorExtension();
+      execSync('npx drizzle-kit migrate', { stdio: 'inherit' });
+      await upgradePostgresTables();
+    }
+    
+    console.log('✅ Database setup completed successfully!');
+    console.log('\nNext steps:');
+    console.log('1. Run: npm run seed-db (to add sample data)');
+    console.log('2. Run: npm run dev (to start development server)');
+    
+  } catch (error) {
+    console.error('❌ Database setup failed:', error.message);
+    process.exit(1);
   }
-  
-  console.log('✅ Database setup completed successfully!');
-  console.log('\nNext steps:');
-  console.log('1. Run: npm run seed-db (to add sample data)');
-  console.log('2. Run: npm run dev (to start development server)');
-  
-} catch (error) {
-  console.error('❌ Database setup failed:', error.message);
-  process.exit(1);
+})();
+
+// Embedding search stores vectors with pgvector, which must exist before migrating
+function enableVectorExtension() {
+  const script = [
+    "const sql = require('postgres')(process.env.DATABASE_URL);",
+    "sql.unsafe('CREATE EXTENSION IF NOT EXISTS vector')",
+    '.then(() => sql.end(), (error) => { console.error(error.message); process.exit(1); });',
+  ].join(' ');
+  execSync(`node -e ${JSON.stringify(script)}`, { stdio: 'inherit' });
+  console.log('✓ Enabled pgvector extension');
 }
 
-function runSQLiteMigrations() {
+// Bring tables created by earlier versions up to date
+async function upgradePostgresTables() {
+  const sql = require('postgres')(process.env.DATABASE_URL);
+  try {
+    for (const [table, columns] of Object.entries(ADDED_COLUMNS)) {
+      const additions = columns.map(column => `ADD COLUMN IF NOT EXISTS ${column.name} ${column.pg}`);
+      await sql.unsafe(`ALTER TABLE IF EXISTS ${table} ${additions.join(', ')}`);
+    }
+    // Collections and site/category links have no single file
+    await sql.unsafe('ALTER TABLE IF EXISTS shared_links ALTER COLUMN file_id DROP NOT NULL');
+    console.log('✓ Upgraded existing tables');
+  } finally {
+    await sql.end();
+  }
+}
+
+async function runSQLiteMigrations() {
   const { createClient } = require('@libsql/client');
   
   try {
@@ -103,11 +155,11 @@ function runSQLiteMigrations() {
       console.log('✓ Applied database schema');
     } else {
       // Create tables manually if schema file doesn't exist
-      createTablesManually(client);
+      await createTablesManually(client);
     }
     
     // Setup full-text search
-    setupFullTextSearch(client);
+    await setupFullTextSearch(client);
     
     client.close();
     console.log('✓ SQLite migrations completed');
@@ -118,7 +170,7 @@ function runSQLiteMigrations() {
   }
 }
 
-function createTablesManually(client) {
+async function createTablesManually(client) {
   console.log('📝 Creating tables manually...');
   
   // Users table
@@ -176,8 +228,12 @@ function createTablesManually(client) {
       uploaded_by TEXT NOT NULL,
       gcs_path TEXT NOT NULL,
       thumbnail_path TEXT,
+      content_hash TEXT,
+      version INTEGER NOT NULL DEFAULT 1,
       ai_description TEXT,
       ai_tags TEXT,
+      extracted_text TEXT,
+      perceptual_hash TEXT,
       processing_status TEXT NOT NULL DEFAULT 'pending',
       metadata TEXT,
       created_at INTEGER NOT NULL,
@@ -187,6 +243,82 @@ function createTablesManually(client) {
     );
   `);
   
+  // File embeddings table (one vector per file, for semantic search)
+  client.execute(`
+    CREATE TABLE IF NOT EXISTS file_embeddings (
+      file_id TEXT PRIMARY KEY,
+      model TEXT NOT NULL,
+      dimensions INTEGER NOT NULL,
+      embedding TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      FOREIGN KEY (file_id) REFERENCES files(id) ON DELETE CASCADE
+    );
+  `);
+  
+  // File versions table (every stored revision of a file, including the current one)
+  client.execute(`
+    CREATE TABLE IF NOT EXISTS file_versions (
+      id TEXT PRIMARY KEY,
+      file_id TEXT NOT NULL,
+      version_number INTEGER NOT NULL,
+      original_name TEXT NOT NULL,
+      mime_type TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      gcs_path TEXT NOT NULL,
+      thumbnail_path TEXT,
+      content_hash TEXT,
+      uploaded_by TEXT NOT NULL,
+      restored_from INTEGER,
+      created_at INTEGER NOT NULL,
+      FOREIGN KEY (file_id) REFERENCES files(id) ON DELETE CASCADE,
+      FOREIGN KEY (uploaded_by) REFERENCES users(id)
+    );
+  `);
+  
+  // Processing jobs table (durable queue for AI processing)
+  client.execute(`
+    CREATE TABLE IF NOT EXISTS processing_jobs (
+      id TEXT PRIMARY KEY,
+      file_id TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'queued',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      max_attempts INTEGER NOT NULL,
+      last_error TEXT,
+      error_code TEXT,
+      run_at INTEGER NOT NULL,
+      locked_at INTEGER,
+      completed_at INTEGER,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      FOREIGN KEY (file_id) REFERENCES files(id) ON DELETE CASCADE
+    );
+  `);
+  
+  // Upload sessions table (resumable direct-to-storage uploads)
+  client.execute(`
+    CREATE TABLE IF NOT EXISTS upload_sessions (
+      id TEXT PRIMARY KEY,
+      file_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      site_id TEXT NOT NULL,
+      category TEXT NOT NULL,
+      original_name TEXT NOT NULL,
+      mime_type TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      gcs_path TEXT NOT NULL,
+      upload_url TEXT,
+      upload_id TEXT,
+      version_of TEXT,
+      status TEXT NOT NULL DEFAULT 'pending',
+      expires_at INTEGER NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users(id),
+      FOREIGN KEY (site_id) REFERENCES sites(id) ON DELETE CASCADE
+    );
+  `);
+  
   // Search queries table
   client.execute(`
     CREATE TABLE IF NOT EXISTS search_queries (
@@ -201,21 +333,108 @@ function createTablesManually(client) {
     );
   `);
   
+  // Search result impressions and clicks table
+  client.execute(`
+    CREATE TABLE IF NOT EXISTS search_impressions (
+      id TEXT PRIMARY KEY,
+      search_id TEXT NOT NULL,
+      file_id TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      matched_by TEXT NOT NULL,
+      clicked_at INTEGER,
+      action TEXT,
+      created_at INTEGER NOT NULL,
+      FOREIGN KEY (search_id) REFERENCES search_queries(id) ON DELETE CASCADE,
+      FOREIGN KEY (file_id) REFERENCES files(id) ON DELETE CASCADE
+    );
+  `);
+  
+  // Search suggestion terms table
+  client.execute(`
+    CREATE TABLE IF NOT EXISTS search_terms (
+      id TEXT PRIMARY KEY,
+      kind TEXT NOT NULL,
+      term TEXT NOT NULL,
+      normalized TEXT NOT NULL,
+      site_id TEXT,
+      file_id TEXT,
+      weight INTEGER NOT NULL DEFAULT 1,
+      updated_at INTEGER NOT NULL,
+      FOREIGN KEY (site_id) REFERENCES sites(id) ON DELETE CASCADE,
+      FOREIGN KEY (file_id) REFERENCES files(id) ON DELETE CASCADE
+    );
+  `);
+  
+  // Search synonyms table
+  client.execute(`
+    CREATE TABLE IF NOT EXISTS search_synonyms (
+      id TEXT PRIMARY KEY,
+      term TEXT NOT NULL,
+      synonym TEXT NOT NULL,
+      created_by TEXT,
+      created_at INTEGER NOT NULL,
+      FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+    );
+  `);
+  
+  // Search boosts table
+  client.execute(`
+    CREATE TABLE IF NOT EXISTS search_boosts (
+      id TEXT PRIMARY KEY,
+      term TEXT NOT NULL,
+      filter TEXT NOT NULL,
+      weight REAL NOT NULL,
+      created_by TEXT,
+      created_at INTEGER NOT NULL,
+      FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+    );
+  `);
+  
+  // Saved searches table
+  client.execute(`
+    CREATE TABLE IF NOT EXISTS saved_searches (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      query TEXT NOT NULL,
+      filters TEXT,
+      last_viewed_at INTEGER NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+  `);
+  
   // Shared links table
+  client.execute(sharedLinksTableSQL('shared_links'));
+
+  // Shared link files table (multi-file collections)
   client.execute(`
-    CREATE TABLE IF NOT EXISTS shared_links (
+    CREATE TABLE IF NOT EXISTS shared_link_files (
       id TEXT PRIMARY KEY,
+      link_id TEXT NOT NULL,
       file_id TEXT NOT NULL,
-      created_by TEXT NOT NULL,
-      token TEXT NOT NULL UNIQUE,
-      expires_at INTEGER NOT NULL,
-      is_active INTEGER NOT NULL DEFAULT 1,
+      position INTEGER NOT NULL DEFAULT 0,
+      FOREIGN KEY (link_id) REFERENCES shared_links(id) ON DELETE CASCADE,
+      FOREIGN KEY (file_id) REFERENCES files(id) ON DELETE CASCADE
+    );
+  `);
+
+  // Share link accesses table
+  client.execute(`
+    CREATE TABLE IF NOT EXISTS share_link_accesses (
+      id TEXT PRIMARY KEY,
+      link_id TEXT NOT NULL,
+      action TEXT NOT NULL,
+      ip_address TEXT,
+      user_agent TEXT,
       created_at INTEGER NOT NULL,
-      FOREIGN KEY (file_id) REFERENCES files(id) ON DELETE CASCADE,
-      FOREIGN KEY (created_by) REFERENCES users(id)
+      FOREIGN KEY (link_id) REFERENCES shared_links(id) ON DELETE CASCADE
     );
   `);
   
+  await upgradeSQLiteTables(client);
+
   // Create indexes
   client.execute(`
     CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
@@ -250,9 +469,48 @@ function createTablesManually(client) {
   client.execute(`
     CREATE INDEX IF NOT EXISTS idx_files_filename ON files(filename);
   `);
+  client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_files_content_hash ON files(content_hash);
+  `);
+  client.execute(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_file_versions_file_version ON file_versions(file_id, version_number);
+  `);
+  client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_file_versions_gcs_path ON file_versions(gcs_path);
+  `);
+  client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_processing_jobs_status_run_at ON processing_jobs(status, run_at);
+  `);
+  client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_processing_jobs_file ON processing_jobs(file_id);
+  `);
+  client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_file_embeddings_model ON file_embeddings(model);
+  `);
   client.execute(`
     CREATE INDEX IF NOT EXISTS idx_search_queries_user ON search_queries(user_id);
   `);
+  client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_search_impressions_search ON search_impressions(search_id);
+  `);
+  client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_search_impressions_file ON search_impressions(file_id);
+  `);
+  client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_saved_searches_user ON saved_searches(user_id);
+  `);
+  client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_search_terms_normalized ON search_terms(normalized);
+  `);
+  client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_search_terms_file ON search_terms(file_id);
+  `);
+  client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_search_terms_site ON search_terms(site_id);
+  `);
+  client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_search_synonyms_term ON search_synonyms(term);
+  `);
   client.execute(`
     CREATE INDEX IF NOT EXISTS idx_shared_links_token ON shared_links(token);
   `);
@@ -262,19 +520,160 @@ function createTablesManually(client) {
   client.execute(`
     CREATE INDEX IF NOT EXISTS idx_shared_links_expires ON shared_links(expires_at);
   `);
+  client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_upload_sessions_user ON upload_sessions(user_id);
+  `);
+  client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_shared_link_files_link ON shared_link_files(link_id);
+  `);
+  client.execute(`
+    CREATE INDEX IF NOT EXISTS idx_share_link_accesses_link ON share_link_accesses(link_id);
+  `);
   
   console.log('✓ Created database tables and indexes');
 }
 
-function setupFullTextSearch(client) {
-  console.log('🔍 Setting up basic text search...');
+function sharedLinksTableSQL(name) {
+  return `
+    CREATE TABLE IF NOT EXISTS ${name} (
+      id TEXT PRIMARY KEY,
+      file_id TEXT,
+      site_id TEXT,
+      category TEXT,
+      title TEXT,
+      created_by TEXT NOT NULL,
+      token TEXT NOT NULL UNIQUE,
+      expires_at INTEGER NOT NULL,
+      is_active INTEGER NOT NULL DEFAULT 1,
+      revoked_at INTEGER,
+      password_hash TEXT,
+      max_downloads INTEGER,
+      download_count INTEGER NOT NULL DEFAULT 0,
+      view_only INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL,
+      FOREIGN KEY (file_id) REFERENCES files(id) ON DELETE CASCADE,
+      FOREIGN KEY (site_id) REFERENCES sites(id) ON DELETE CASCADE,
+      FOREIGN KEY (created_by) REFERENCES users(id)
+    );
+  `;
+}
+
+// Bring tables created by earlier versions up to date. Runs before the indexes are
+// created, since some of them are on added columns.
+async function upgradeSQLiteTables(client) {
+  for (const [table, columns] of Object.entries(ADDED_COLUMNS)) {
+    const existing = await client.execute(`SELECT name FROM pragma_table_info('${table}')`);
+    const names = new Set(existing.rows.map(row => row.name));
+    for (const column of columns) {
+      if (!names.has(column.name)) {
+        await client.execute(`ALTER TABLE ${table} ADD COLUMN ${column.name} ${column.sqlite}`);
+      }
+    }
+  }
+
+  // SQLite can't drop NOT NULL from a column, so shared_links is rebuilt without it for
+  // collections and site/category links. Foreign keys are off so dropping the old table
+  // doesn't cascade to the rows that reference it.
+  const fileId = await client.execute(
+    "SELECT \"notnull\" AS required FROM pragma_table_info('shared_links') WHERE name = 'file_id'"
+  );
+  if (fileId.rows[0] && fileId.rows[0].required) {
+    const columns = await client.execute("SELECT name FROM pragma_table_info('shared_links')");
+    const names = columns.rows.map(row => row.name).join(', ');
+    await client.execute('PRAGMA foreign_keys = OFF');
+    try {
+      await client.batch([
+        'DROP TABLE IF EXISTS shared_links_new',
+        sharedLinksTableSQL('shared_links_new'),
+        `INSERT INTO shared_links_new (${names}) SELECT ${names} FROM shared_links`,
+        'DROP TABLE shared_links',
+        'ALTER TABLE shared_links_new RENAME TO shared_links',
+      ], 'write');
+    } finally {
+      await client.execute('PRAGMA foreign_keys = ON');
+    }
+  }
+
+  console.log('✓ Upgraded existing tables');
+}
+
+// FTS5 index over the searchable file fields, kept in step with files by triggers.
+// It stores its own copy rather than using files as external content, since VACUUM may
+// renumber the rowids of a table with a text primary key. files_fts_rowids gives each
+// file a stable rowid instead, so rows are found by rowid rather than by scanning.
+async function setupFullTextSearch(client) {
+  console.log('🔍 Setting up full-text search...');
   
   try {
-    // Note: LibSQL doesn't support FTS5 out of the box like better-sqlite3
-    // We'll rely on LIKE queries for now
-    console.log('✓ Text search setup completed (using LIKE queries)');
+    // Earlier versions keyed the index by an unindexed file_id column; it's rebuilt below
+    const legacy = await client.execute("SELECT 1 FROM pragma_table_info('files_fts') WHERE name = 'file_id'");
+    if (legacy.rows.length > 0) {
+      await client.batch([
+        'DROP TRIGGER IF EXISTS files_fts_insert',
+        'DROP TRIGGER IF EXISTS files_fts_delete',
+        'DROP TRIGGER IF EXISTS files_fts_update',
+        'DROP TABLE files_fts',
+      ], 'write');
+    }
+
+    await client.execute(`
+      CREATE TABLE IF NOT EXISTS files_fts_rowids (
+        id INTEGER PRIMARY KEY,
+        file_id TEXT NOT NULL UNIQUE
+      );
+    `);
+    await client.execute(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS files_fts USING fts5(
+        original_name,
+        ai_description,
+        ai_tags,
+        extracted_text,
+        tokenize = 'porter unicode61'
+      );
+    `);
+    await client.execute(`
+      CREATE TRIGGER IF NOT EXISTS files_fts_insert AFTER INSERT ON files BEGIN
+        INSERT OR IGNORE INTO files_fts_rowids (file_id) VALUES (new.id);
+        INSERT INTO files_fts (rowid, original_name, ai_description, ai_tags, extracted_text)
+        VALUES (
+          (SELECT id FROM files_fts_rowids WHERE file_id = new.id),
+          new.original_name, new.ai_description, new.ai_tags, new.extracted_text
+        );
+      END;
+    `);
+    await client.execute(`
+      CREATE TRIGGER IF NOT EXISTS files_fts_delete AFTER DELETE ON files BEGIN
+        DELETE FROM files_fts WHERE rowid = (SELECT id FROM files_fts_rowids WHERE file_id = old.id);
+        DELETE FROM files_fts_rowids WHERE file_id = old.id;
+      END;
+    `);
+    await client.execute(`
+      CREATE TRIGGER IF NOT EXISTS files_fts_update
+      AFTER UPDATE OF original_name, ai_description, ai_tags, extracted_text ON files BEGIN
+        DELETE FROM files_fts WHERE rowid = (SELECT id FROM files_fts_rowids WHERE file_id = old.id);
+        INSERT INTO files_fts (rowid, original_name, ai_description, ai_tags, extracted_text)
+        VALUES (
+          (SELECT id FROM files_fts_rowids WHERE file_id = new.id),
+          new.original_name, new.ai_description, new.ai_tags, new.extracted_text
+        );
+      END;
+    `);
+
+    // Index files from before the triggers existed
+    await client.execute(`
+      INSERT INTO files_fts_rowids (file_id)
+      SELECT id FROM files WHERE id NOT IN (SELECT file_id FROM files_fts_rowids);
+    `);
+    await client.execute(`
+      INSERT INTO files_fts (rowid, original_name, ai_description, ai_tags, extracted_text)
+      SELECT files_fts_rowids.id, original_name, ai_description, ai_tags, extracted_text
+      FROM files INNER JOIN files_fts_rowids ON files_fts_rowids.file_id = files.id
+      WHERE files_fts_rowids.id NOT IN (SELECT rowid FROM files_fts);
+    `);
+
+    console.log('✓ Full-text search setup completed (FTS5)');
     
   } catch (error) {
-    console.warn('⚠️ Text search setup failed (this is OK for development):', error.message);
+    console.warn('⚠️ Full-text search setup failed (this is OK for development):', error.message);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { eq, and, desc, inArray } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth';
+import { canViewSite } from '@/lib/permissions';
+import { createZipStream, getAttachmentHeader } from '@/lib/archive';
+import { slugify } from '@/lib/utils';
+import { files, sites, FileCategory } from '../../../../../database/schema';
+
+const zipRequestSchema = z.union([
+  z.object({
+    fileIds: z.array(z.string().min(1)).min(1).max(1000),
+  }),
+  z.object({
+    siteId: z.string().min(1),
+    category: z.nativeEnum(FileCategory).optional(),
+  }),
+]);
+
+// Stream a ZIP of selected files, or of every file in a site/category.
+// Accepts form posts (fileIds may repeat) so the browser can stream the response to disk.
+export async function POST(req: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const formData = await req.formData().catch(() => null);
+  const fileIds = formData?.getAll('fileIds').filter((id): id is string => typeof id === 'string') || [];
+  const parsed = zipRequestSchema.safeParse(
+    fileIds.length > 0
+      ? { fileIds }
+      : {
+          siteId: formData?.get('siteId') || undefined,
+          category: formData?.get('category') || undefined,
+        }
+  );
+
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Provide either fileIds or a siteId' }, { status: 400 });
+  }
+
+  try {
+    const query = db
+      .select({
+        originalName: files.originalName,
+        gcsPath: files.gcsPath,
+        siteId: files.siteId,
+        siteName: sites.name,
+      })
+      .from(files)
+      .innerJoin(sites, eq(sites.id, files.siteId));
+
+    const input = parsed.data;
+    let selectedFiles: Array<{ originalName: string; gcsPath: string; siteId: string; siteName: string }>;
+
+    if ('fileIds' in input) {
+      const uniqueIds = Array.from(new Set(input.fileIds));
+      selectedFiles = await query.where(inArray(files.id, uniqueIds)).orderBy(desc(files.createdAt));
+
+      if (selectedFiles.length !== uniqueIds.length) {
+        return NextResponse.json({ error: 'One or more files were not found' }, { status: 404 });
+      }
+    } else {
+      const conditions = [eq(files.siteId, input.siteId)];
+      if (input.category) {
+        conditions.push(eq(files.category, input.category));
+      }
+      selectedFiles = await query.where(and(...conditions)).orderBy(desc(files.createdAt));
+    }
+
+    // Check permissions for every site in the selection
+    const siteIds = Array.from(new Set(
+      'fileIds' in input ? selectedFiles.map(file => file.siteId) : [input.siteId]
+    ));
+    if (user.role !== 'admin') {
+      for (const siteId of siteIds) {
+        if (!(await canViewSite(user.id, siteId))) {
+          return NextResponse.json(
+            { error: 'You do not have permission to download these files' },
+            { status: 403 }
+          );
+        }
+      }
+    }
+
+    if (selectedFiles.length === 0) {
+      return NextResponse.json({ error: 'No files to download' }, { status: 404 });
+    }
+
+    const baseName = siteIds.length === 1
+      ? [selectedFiles[0].siteName, 'category' in input ? input.category : undefined].filter(Boolean).join(' ')
+      : `files-${new Date().toISOString().split('T')[0]}`;
+
+    const stream = createZipStream(
+      selectedFiles.map(file => ({ name: file.originalName, storagePath: file.gcsPath }))
+    );
+
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': getAttachmentHeader(`${slugify(baseName) || 'files'}.zip`),
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('ZIP download failed:', error);
+    return NextResponse.json({ error: 'Failed to create ZIP download' }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TRPCError } from '@trpc/server';
+import { getHTTPStatusCodeFromError } from '@trpc/server/http';
+import {
+  resolveShareLink,
+  getSharedLinkFiles,
+  checkSharePassword,
+  claimShareDownload,
+  recordShareAccess,
+} from '@/lib/share';
+import { createZipStream, getAttachmentHeader } from '@/lib/archive';
+import { slugify } from '@/lib/utils';
+
+// Stream every file in a share link as a single ZIP.
+// POST so the optional password is sent in the body rather than the URL.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+
+  try {
+    const formData = await req.formData().catch(() => null);
+    const password = formData?.get('password');
+
+    const link = await resolveShareLink(token);
+    await checkSharePassword(link, req, typeof password === 'string' && password ? password : undefined);
+
+    const sharedFiles = await getSharedLinkFiles(link);
+    if (sharedFiles.length === 0) {
+      return NextResponse.json({ error: 'This share link has no files' }, { status: 404 });
+    }
+
+    await claimShareDownload(link);
+    await recordShareAccess(link.id, req, 'download');
+
+    const archiveName = `${slugify(link.title || sharedFiles[0].siteName) || 'shared-files'}.zip`;
+    const stream = createZipStream(
+      sharedFiles.map(file => ({ name: file.originalName, storagePath: file.gcsPath }))
+    );
+
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': getAttachmentHeader(archiveName),
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      return NextResponse.json({ error: error.message }, { status: getHTTPStatusCodeFromError(error) });
+    }
+
+    console.error('Shared ZIP download failed:', error);
+    return NextResponse.json({ error: 'Failed to create ZIP download' }, { status: 500 });
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Readable } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { getStorageDriver, type LocalStorageDriver } from '@/lib/storage';
+
+type RouteParams = { params: Promise<{ path: string[] }> };
+
+// Serves signed URLs for the local storage driver. Other drivers hand out their own URLs.
+const getLocalDriver = (): LocalStorageDriver | null => {
+  const driver = getStorageDriver();
+  return driver.name === 'local' ? (driver as LocalStorageDriver) : null;
+};
+
+const verifyRequest = (
+  driver: LocalStorageDriver,
+  req: NextRequest,
+  filePath: string,
+  action: 'read' | 'write'
+): boolean => {
+  const { searchParams } = req.nextUrl;
+  return searchParams.get('action') === action && driver.verifySignature(
+    filePath,
+    action,
+    searchParams.get('expires') || '',
+    searchParams.get('signature') || ''
+  );
+};
+
+// Mirror the GCS resumable protocol: 308 with a Range header while bytes are still expected
+const uploadStatusResponse = (committed: number, complete: boolean) => {
+  if (complete) {
+    return new NextResponse(null, { status: 200 });
+  }
+
+  return new NextResponse(null, {
+    status: 308,
+    headers: committed > 0 ? { Range: `bytes=0-${committed - 1}` } : {},
+  });
+};
+
+// Download a stored object
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  const filePath = (await params).path.join('/');
+  const driver = getLocalDriver();
+  if (!driver) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    if (!verifyRequest(driver, req, filePath, 'read')) {
+      return NextResponse.json({ error: 'Invalid or expired signature' }, { status: 403 });
+    }
+
+    const object = await driver.stat(filePath);
+    const stream = Readable.toWeb(driver.createReadStream(filePath)) as ReadableStream<Uint8Array>;
+
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': object.contentType || 'application/octet-stream',
+        'Content-Length': String(object.size),
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    console.error('Local storage read failed:', error);
+    return NextResponse.json({ error: 'Failed to read file' }, { status: 500 });
+  }
+}
+
+// Write a whole object, or one chunk of a resumable upload when Content-Range is sent.
+// Only uploads still in progress can be written; finished objects are never replaced.
+export async function PUT(req: NextRequest, { params }: RouteParams) {
+  const filePath = (await params).path.join('/');
+  const driver = getLocalDriver();
+  if (!driver) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    if (!verifyRequest(driver, req, filePath, 'write')) {
+      return NextResponse.json({ error: 'Invalid or expired signature' }, { status: 403 });
+    }
+
+    const body = req.body
+      ? Readable.fromWeb(req.body as NodeReadableStream<Uint8Array>)
+      : Readable.from([]);
+
+    const contentRange = req.headers.get('content-range');
+    const status = await driver.getUploadStatus(filePath);
+    if (!contentRange) {
+      if (status.complete) {
+        return NextResponse.json({ error: 'Upload already completed' }, { status: 409 });
+      }
+      await driver.writeStream(filePath, body, req.headers.get('content-type') || 'application/octet-stream');
+      return new NextResponse(null, { status: 200 });
+    }
+
+    // "bytes */<total>" asks for status; "bytes <start>-<end>/<total>" carries data
+    const match = contentRange.match(/^bytes (?:\*|(\d+)-(\d+))\/(\d+)$/);
+    if (!match) {
+      return NextResponse.json({ error: 'Invalid Content-Range header' }, { status: 400 });
+    }
+
+    const totalSize = parseInt(match[3], 10);
+
+    if (match[1] === undefined) {
+      // A status query on an empty file is also how zero-byte uploads are finalized
+      if (!status.complete && totalSize === 0) {
+        const result = await driver.writeUploadChunk(filePath, 0, 0, body);
+        return uploadStatusResponse(result.committed, result.complete);
+      }
+      return uploadStatusResponse(status.committed, status.complete);
+    }
+
+    if (status.complete) {
+      return NextResponse.json({ error: 'Upload already completed' }, { status: 409 });
+    }
+
+    const result = await driver.writeUploadChunk(filePath, parseInt(match[1], 10), totalSize, body);
+    return uploadStatusResponse(result.committed, result.complete);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Upload session not found') {
+      return NextResponse.json({ error: 'Upload session not found' }, { status: 404 });
+    }
+
+    console.error('Local storage write failed:', error);
+    return NextResponse.json({ error: 'Failed to write file' }, { status: 500 });
+  }
+}
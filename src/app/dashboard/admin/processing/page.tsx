@@ -0,0 +1,203 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Activity, RotateCcw, Clock, CheckCircle, XCircle, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Navigation, MobileNavigation } from '@/components/Navigation';
+import { useRequireAdmin } from '@/hooks/useAuth';
+import { trpc } from '@/lib/trpc';
+import { formatDateTime, cn } from '@/lib/utils';
+
+type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+const STATUS_CARDS: Array<{ status: JobStatus; label: string; icon: React.ElementType; color: string }> = [
+  { status: 'queued', label: 'Queued', icon: Clock, color: 'bg-yellow-100 text-yellow-600' },
+  { status: 'running', label: 'Running', icon: Loader2, color: 'bg-blue-100 text-blue-600' },
+  { status: 'completed', label: 'Completed', icon: CheckCircle, color: 'bg-green-100 text-green-600' },
+  { status: 'failed', label: 'Failed', icon: XCircle, color: 'bg-red-100 text-red-600' },
+];
+
+const STATUS_COLORS: Record<JobStatus, string> = {
+  queued: 'bg-yellow-100 text-yellow-800',
+  running: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+export default function AdminProcessingPage() {
+  useRequireAdmin();
+
+  const [statusFilter, setStatusFilter] = useState<JobStatus | undefined>(undefined);
+
+  // Poll while the page is open so queue depth stays current
+  const {
+    data: queueData,
+    isLoading: queueLoading,
+    refetch: refetchQueue,
+  } = trpc.admin.getProcessingQueue.useQuery(
+    { status: statusFilter, limit: 100 },
+    { refetchInterval: 5000 }
+  );
+
+  const retryJobMutation = trpc.admin.retryProcessingJob.useMutation({
+    onSuccess: () => refetchQueue(),
+  });
+
+  const retryAllMutation = trpc.admin.retryFailedProcessing.useMutation({
+    onSuccess: () => refetchQueue(),
+  });
+
+  if (queueLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex">
+      {/* Desktop Sidebar */}
+      <div className="hidden lg:block">
+        <Navigation />
+      </div>
+
+      {/* Mobile Navigation */}
+      <MobileNavigation />
+
+      {/* Main Content */}
+      <div className="flex-1 flex flex-col min-w-0">
+        {/* Header */}
+        <header className="bg-white shadow-sm border-b border-gray-200">
+          <div className="px-4 sm:px-6 lg:px-8">
+            <div className="flex justify-between items-center py-6">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Processing Queue</h1>
+                <p className="text-sm text-gray-600">
+                  AI processing jobs, their attempts and errors ({queueData?.concurrency ?? 0} at a time per worker)
+                </p>
+              </div>
+
+              <Button
+                variant="outline"
+                onClick={() => retryAllMutation.mutate({ retryAll: true })}
+                loading={retryAllMutation.isLoading}
+                disabled={!queueData?.counts.failed}
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Retry All Failed
+              </Button>
+            </div>
+          </div>
+        </header>
+
+        {/* Main Content */}
+        <main className="flex-1 p-4 sm:p-6 lg:p-8">
+          <div className="space-y-6">
+            {/* Queue Depth */}
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-6">
+              {STATUS_CARDS.map(({ status, label, icon: Icon, color }) => (
+                <Card
+                  key={status}
+                  className={cn('cursor-pointer', statusFilter === status && 'ring-2 ring-blue-500')}
+                  onClick={() => setStatusFilter(statusFilter === status ? undefined : status)}
+                >
+                  <CardContent className="p-6">
+                    <div className="flex items-center">
+                      <div className={cn('w-8 h-8 rounded-lg flex items-center justify-center mr-3', color)}>
+                        <Icon className="w-5 h-5" />
+                      </div>
+                      <div>
+                        <p className="text-sm font-medium text-gray-600">{label}</p>
+                        <p className="text-xl font-bold text-gray-900">{queueData?.counts[status] || 0}</p>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            {/* Jobs Table */}
+            <Card>
+              <CardHeader>
+                <CardTitle>
+                  {statusFilter ? `${STATUS_CARDS.find(card => card.status === statusFilter)?.label} Jobs` : 'Recent Jobs'}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {!queueData || queueData.jobs.length === 0 ? (
+                  <div className="text-center py-12">
+                    <Activity className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                    <p className="text-gray-600">No processing jobs</p>
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="border-b border-gray-200">
+                          <th className="text-left py-3 px-4 font-medium text-gray-600">File</th>
+                          <th className="text-left py-3 px-4 font-medium text-gray-600">Status</th>
+                          <th className="text-left py-3 px-4 font-medium text-gray-600">Attempts</th>
+                          <th className="text-left py-3 px-4 font-medium text-gray-600">Last Error</th>
+                          <th className="text-left py-3 px-4 font-medium text-gray-600">Next Run</th>
+                          <th className="text-left py-3 px-4 font-medium text-gray-600">Updated</th>
+                          <th className="text-right py-3 px-4 font-medium text-gray-600">Actions</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {queueData.jobs.map((job) => (
+                          <tr key={job.id} className="border-b border-gray-100 hover:bg-gray-50">
+                            <td className="py-4 px-4">
+                              <p className="font-medium text-gray-900 truncate max-w-xs">{job.fileName || job.fileId}</p>
+                            </td>
+                            <td className="py-4 px-4">
+                              <span className={cn('px-2 py-1 text-xs rounded-full', STATUS_COLORS[job.status])}>
+                                {job.status}
+                              </span>
+                            </td>
+                            <td className="py-4 px-4 text-sm text-gray-600">
+                              {job.attempts} / {job.maxAttempts}
+                            </td>
+                            <td className="py-4 px-4 text-sm text-gray-600">
+                              {job.lastError ? (
+                                <span className="block truncate max-w-xs" title={job.lastError}>
+                                  {job.errorCode ? `${job.errorCode}: ` : ''}{job.lastError}
+                                </span>
+                              ) : (
+                                '—'
+                              )}
+                            </td>
+                            <td className="py-4 px-4 text-sm text-gray-600">
+                              {job.status === 'queued' ? formatDateTime(job.runAt) : '—'}
+                            </td>
+                            <td className="py-4 px-4 text-sm text-gray-600">{formatDateTime(job.updatedAt)}</td>
+                            <td className="py-4 px-4">
+                              <div className="flex items-center justify-end">
+                                {job.status === 'failed' && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => retryJobMutation.mutate({ id: job.id })}
+                                    disabled={retryJobMutation.isLoading}
+                                  >
+                                    <RotateCcw className="w-4 h-4 mr-1" />
+                                    Retry
+                                  </Button>
+                                )}
+                              </div>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,393 @@
+'use client';
+
+import React, { useState } from 'react';
+import { SearchX, MousePointerClick, ArrowRight, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Navigation, MobileNavigation } from '@/components/Navigation';
+import { useRequireAdmin } from '@/hooks/useAuth';
+import { trpc } from '@/lib/trpc';
+import { formatDateTime } from '@/lib/utils';
+
+const PERIODS = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+];
+
+const EMPTY_SYNONYM = { term: '', synonym: '', bothWays: true };
+const EMPTY_BOOST = { term: '', filter: '', weight: '2' };
+
+export default function AdminSearchTuningPage() {
+  useRequireAdmin();
+
+  const [days, setDays] = useState(30);
+  const [synonymForm, setSynonymForm] = useState(EMPTY_SYNONYM);
+  const [boostForm, setBoostForm] = useState(EMPTY_BOOST);
+
+  const { data: zeroResults, isLoading: zeroResultsLoading } = trpc.search.getZeroResultQueries.useQuery({ days });
+  const { data: lowClickThrough, isLoading: lowClickThroughLoading } = trpc.search.getLowClickThroughQueries.useQuery({ days });
+
+  const {
+    data: tuning,
+    isLoading: tuningLoading,
+    refetch: refetchTuning,
+  } = trpc.search.getSearchTuning.useQuery();
+
+  const addSynonymMutation = trpc.search.addSynonym.useMutation({
+    onSuccess: () => {
+      setSynonymForm(EMPTY_SYNONYM);
+      refetchTuning();
+    },
+  });
+  const deleteSynonymMutation = trpc.search.deleteSynonym.useMutation({
+    onSuccess: () => refetchTuning(),
+  });
+  const addBoostMutation = trpc.search.addBoost.useMutation({
+    onSuccess: () => {
+      setBoostForm(EMPTY_BOOST);
+      refetchTuning();
+    },
+  });
+  const deleteBoostMutation = trpc.search.deleteBoost.useMutation({
+    onSuccess: () => refetchTuning(),
+  });
+
+  const handleAddSynonym = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!synonymForm.term.trim() || !synonymForm.synonym.trim()) return;
+    addSynonymMutation.mutate(synonymForm);
+  };
+
+  const handleAddBoost = (e: React.FormEvent) => {
+    e.preventDefault();
+    const weight = parseFloat(boostForm.weight);
+    if (!boostForm.filter.trim() || isNaN(weight)) return;
+    addBoostMutation.mutate({ term: boostForm.term, filter: boostForm.filter, weight });
+  };
+
+  // Start a synonym for a query that found nothing or the wrong files, to be completed
+  // with what it means
+  const startSynonym = (query: string) => {
+    setSynonymForm({ ...EMPTY_SYNONYM, term: query });
+    document.getElementById('synonym-term')?.focus();
+  };
+
+  if (zeroResultsLoading || lowClickThroughLoading || tuningLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const zeroResultRate = zeroResults?.totalSearches
+    ? Math.round((zeroResults.zeroResultSearches / zeroResults.totalSearches) * 100)
+    : 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex">
+      {/* Desktop Sidebar */}
+      <div className="hidden lg:block">
+        <Navigation />
+      </div>
+
+      {/* Mobile Navigation */}
+      <MobileNavigation />
+
+      {/* Main Content */}
+      <div className="flex-1 flex flex-col min-w-0">
+        {/* Header */}
+        <header className="bg-white shadow-sm border-b border-gray-200">
+          <div className="px-4 sm:px-6 lg:px-8">
+            <div className="flex justify-between items-center py-6">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Search Tuning</h1>
+                <p className="text-sm text-gray-600">
+                  Find searches that come up empty or miss, and fix them with synonyms and boosts
+                </p>
+              </div>
+
+              <select
+                value={days}
+                onChange={(e) => setDays(Number(e.target.value))}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {PERIODS.map(period => (
+                  <option key={period.days} value={period.days}>{period.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </header>
+
+        {/* Main Content */}
+        <main className="flex-1 p-4 sm:p-6 lg:p-8">
+          <div className="space-y-6">
+            {/* Zero-Result Queries */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Searches With No Results</CardTitle>
+                <p className="text-sm text-gray-600">
+                  {zeroResults?.zeroResultSearches || 0} of {zeroResults?.totalSearches || 0} searches ({zeroResultRate}%) found nothing
+                </p>
+              </CardHeader>
+              <CardContent>
+                {!zeroResults || zeroResults.queries.length === 0 ? (
+                  <div className="text-center py-12">
+                    <SearchX className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                    <p className="text-gray-600">Every search found something</p>
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="border-b border-gray-200">
+                          <th className="text-left py-3 px-4 font-medium text-gray-600">Query</th>
+                          <th className="text-left py-3 px-4 font-medium text-gray-600">Searches</th>
+                          <th className="text-left py-3 px-4 font-medium text-gray-600">Users</th>
+                          <th className="text-left py-3 px-4 font-medium text-gray-600">Last Searched</th>
+                          <th className="text-right py-3 px-4 font-medium text-gray-600">Actions</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {zeroResults.queries.map((row) => (
+                          <tr key={row.query} className="border-b border-gray-100 hover:bg-gray-50">
+                            <td className="py-4 px-4">
+                              <p className="font-medium text-gray-900 truncate max-w-xs">{row.query}</p>
+                            </td>
+                            <td className="py-4 px-4 text-sm text-gray-600">{row.searches}</td>
+                            <td className="py-4 px-4 text-sm text-gray-600">{row.users}</td>
+                            <td className="py-4 px-4 text-sm text-gray-600">{formatDateTime(row.lastSearchedAt)}</td>
+                            <td className="py-4 px-4">
+                              <div className="flex items-center justify-end">
+                                <Button size="sm" variant="outline" onClick={() => startSynonym(row.query)}>
+                                  <Plus className="w-4 h-4 mr-1" />
+                                  Add Synonym
+                                </Button>
+                              </div>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Low Click-Through Queries */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Searches Whose Results Go Unopened</CardTitle>
+                <p className="text-sm text-gray-600">
+                  Queries searched at least a few times where results were seldom opened or downloaded
+                </p>
+              </CardHeader>
+              <CardContent>
+                {!lowClickThrough || lowClickThrough.queries.length === 0 ? (
+                  <div className="text-center py-12">
+                    <MousePointerClick className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                    <p className="text-gray-600">Not enough clicks recorded yet</p>
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="border-b border-gray-200">
+                          <th className="text-left py-3 px-4 font-medium text-gray-600">Query</th>
+                          <th className="text-left py-3 px-4 font-medium text-gray-600">Searches</th>
+                          <th className="text-left py-3 px-4 font-medium text-gray-600">Results Shown</th>
+                          <th className="text-left py-3 px-4 font-medium text-gray-600">Click-Through</th>
+                          <th className="text-right py-3 px-4 font-medium text-gray-600">Actions</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {lowClickThrough.queries.map((row) => (
+                          <tr key={row.query} className="border-b border-gray-100 hover:bg-gray-50">
+                            <td className="py-4 px-4">
+                              <p className="font-medium text-gray-900 truncate max-w-xs">{row.query}</p>
+                            </td>
+                            <td className="py-4 px-4 text-sm text-gray-600">{row.searches}</td>
+                            <td className="py-4 px-4 text-sm text-gray-600">{row.impressions}</td>
+                            <td className="py-4 px-4 text-sm text-gray-600">
+                              {Math.round(row.clickThrough * 100)}% ({row.clickedSearches} of {row.searches})
+                            </td>
+                            <td className="py-4 px-4">
+                              <div className="flex items-center justify-end">
+                                <Button size="sm" variant="outline" onClick={() => startSynonym(row.query)}>
+                                  <Plus className="w-4 h-4 mr-1" />
+                                  Add Synonym
+                                </Button>
+                              </div>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+              {/* Synonyms */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Synonyms</CardTitle>
+                  <p className="text-sm text-gray-600">
+                    A search for the term also matches files with the synonym, in names, text and fields
+                  </p>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <form onSubmit={handleAddSynonym} className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Input
+                        id="synonym-term"
+                        value={synonymForm.term}
+                        onChange={(e) => setSynonymForm({ ...synonymForm, term: e.target.value })}
+                        placeholder="Term, e.g. settee"
+                      />
+                      <ArrowRight className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                      <Input
+                        value={synonymForm.synonym}
+                        onChange={(e) => setSynonymForm({ ...synonymForm, synonym: e.target.value })}
+                        placeholder="Synonym, e.g. sofa"
+                      />
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <label className="flex items-center text-sm text-gray-600">
+                        <input
+                          type="checkbox"
+                          checked={synonymForm.bothWays}
+                          onChange={(e) => setSynonymForm({ ...synonymForm, bothWays: e.target.checked })}
+                          className="mr-2"
+                        />
+                        Both ways
+                      </label>
+                      <Button
+                        type="submit"
+                        size="sm"
+                        loading={addSynonymMutation.isLoading}
+                        disabled={!synonymForm.term.trim() || !synonymForm.synonym.trim()}
+                      >
+                        Add Synonym
+                      </Button>
+                    </div>
+                    {addSynonymMutation.error && (
+                      <p className="text-sm text-red-600">{addSynonymMutation.error.message}</p>
+                    )}
+                  </form>
+
+                  {!tuning || tuning.synonyms.length === 0 ? (
+                    <p className="text-sm text-gray-500">No synonyms yet</p>
+                  ) : (
+                    <ul className="divide-y divide-gray-100">
+                      {tuning.synonyms.map(synonym => (
+                        <li key={synonym.id} className="flex items-center justify-between py-2">
+                          <span className="flex items-center text-sm text-gray-900">
+                            {synonym.term}
+                            <ArrowRight className="w-3 h-3 mx-2 text-gray-400" />
+                            {synonym.synonym}
+                          </span>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => deleteSynonymMutation.mutate({ id: synonym.id })}
+                            disabled={deleteSynonymMutation.isLoading}
+                            title="Delete"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Boosts */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Boosts</CardTitle>
+                  <p className="text-sm text-gray-600">
+                    Files matching the filter rank higher (weight above 1) or lower (below 1) when the
+                    term is searched for, or in every search when no term is given
+                  </p>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <form onSubmit={handleAddBoost} className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Input
+                        value={boostForm.term}
+                        onChange={(e) => setBoostForm({ ...boostForm, term: e.target.value })}
+                        placeholder="Term (optional)"
+                      />
+                      <Input
+                        value={boostForm.filter}
+                        onChange={(e) => setBoostForm({ ...boostForm, filter: e.target.value })}
+                        placeholder="Filter, e.g. type:photo room:kitchen"
+                      />
+                      <Input
+                        type="number"
+                        min={0.1}
+                        max={10}
+                        step={0.1}
+                        value={boostForm.weight}
+                        onChange={(e) => setBoostForm({ ...boostForm, weight: e.target.value })}
+                        className="w-24 flex-shrink-0"
+                        title="Weight"
+                      />
+                    </div>
+                    <div className="flex items-center justify-end">
+                      <Button
+                        type="submit"
+                        size="sm"
+                        loading={addBoostMutation.isLoading}
+                        disabled={!boostForm.filter.trim()}
+                      >
+                        Add Boost
+                      </Button>
+                    </div>
+                    {addBoostMutation.error && (
+                      <p className="text-sm text-red-600">{addBoostMutation.error.message}</p>
+                    )}
+                  </form>
+
+                  {!tuning || tuning.boosts.length === 0 ? (
+                    <p className="text-sm text-gray-500">No boosts yet</p>
+                  ) : (
+                    <ul className="divide-y divide-gray-100">
+                      {tuning.boosts.map(boost => (
+                        <li key={boost.id} className="flex items-center justify-between py-2 gap-2">
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium text-gray-900 truncate">
+                              {boost.filter} × {boost.weight}
+                            </p>
+                            <p className="text-xs text-gray-500 truncate">
+                              {boost.term ? `When searching for "${boost.term}"` : 'Every search'}
+                            </p>
+                          </div>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => deleteBoostMutation.mutate({ id: boost.id })}
+                            disabled={deleteBoostMutation.isLoading}
+                            title="Delete"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
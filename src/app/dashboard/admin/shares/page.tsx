@@ -0,0 +1,210 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Share2, Search, XCircle, Clock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Navigation, MobileNavigation } from '@/components/Navigation';
+import { useRequireAdmin } from '@/hooks/useAuth';
+import { trpc, type RouterOutputs } from '@/lib/trpc';
+import { formatDateTime, formatCategoryLabel } from '@/lib/utils';
+
+type ActiveShareLink = RouterOutputs['admin']['getActiveShareLinks']['links'][number];
+
+// Single files show their name; collections their title or category
+const getLinkLabel = (link: ActiveShareLink) =>
+  link.fileName || link.title || (link.category ? formatCategoryLabel(link.category) : 'All files');
+
+export default function AdminSharesPage() {
+  useRequireAdmin();
+
+  const [searchQuery, setSearchQuery] = useState('');
+
+  // Fetch active share links
+  const {
+    data: linksData,
+    isLoading: linksLoading,
+    refetch: refetchLinks,
+  } = trpc.admin.getActiveShareLinks.useQuery({
+    page: 1,
+    limit: 100,
+  });
+
+  // Share link mutations
+  const revokeMutation = trpc.files.revokeShareLink.useMutation({
+    onSuccess: () => refetchLinks(),
+  });
+
+  const extendMutation = trpc.files.extendShareLink.useMutation({
+    onSuccess: () => refetchLinks(),
+  });
+
+  const cleanupMutation = trpc.admin.cleanupExpiredLinks.useMutation({
+    onSuccess: () => refetchLinks(),
+  });
+
+  // Filter links based on search
+  const filteredLinks = linksData?.links.filter(link =>
+    getLinkLabel(link).toLowerCase().includes(searchQuery.toLowerCase()) ||
+    (link.siteName || '').toLowerCase().includes(searchQuery.toLowerCase()) ||
+    (link.clientName || '').toLowerCase().includes(searchQuery.toLowerCase()) ||
+    link.creatorName.toLowerCase().includes(searchQuery.toLowerCase())
+  ) || [];
+
+  if (linksLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex">
+      {/* Desktop Sidebar */}
+      <div className="hidden lg:block">
+        <Navigation />
+      </div>
+
+      {/* Mobile Navigation */}
+      <MobileNavigation />
+
+      {/* Main Content */}
+      <div className="flex-1 flex flex-col min-w-0">
+        {/* Header */}
+        <header className="bg-white shadow-sm border-b border-gray-200">
+          <div className="px-4 sm:px-6 lg:px-8">
+            <div className="flex justify-between items-center py-6">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Shared Links</h1>
+                <p className="text-sm text-gray-600">
+                  Review and revoke every active share link across all sites
+                </p>
+              </div>
+
+              <Button
+                variant="outline"
+                onClick={() => cleanupMutation.mutate()}
+                loading={cleanupMutation.isLoading}
+              >
+                <Clock className="w-4 h-4 mr-2" />
+                Clean Up Expired
+              </Button>
+            </div>
+          </div>
+        </header>
+
+        {/* Main Content */}
+        <main className="flex-1 p-4 sm:p-6 lg:p-8">
+          <div className="space-y-6">
+            {/* Search and Stats */}
+            <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+              <div className="lg:col-span-3">
+                <Card>
+                  <CardContent className="p-6">
+                    <div className="relative">
+                      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                      <Input
+                        type="text"
+                        placeholder="Search by file, site, client or creator..."
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                        className="pl-10"
+                      />
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+
+              <Card>
+                <CardContent className="p-6">
+                  <div className="flex items-center">
+                    <div className="w-8 h-8 bg-blue-100 rounded-lg flex items-center justify-center mr-3">
+                      <Share2 className="w-5 h-5 text-blue-600" />
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-gray-600">Active Links</p>
+                      <p className="text-xl font-bold text-gray-900">{linksData?.total || 0}</p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Links Table */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Active Links</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {filteredLinks.length === 0 ? (
+                  <div className="text-center py-12">
+                    <Share2 className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                    <p className="text-gray-600">No active share links</p>
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="border-b border-gray-200">
+                          <th className="text-left py-3 px-4 font-medium text-gray-600">File</th>
+                          <th className="text-left py-3 px-4 font-medium text-gray-600">Site</th>
+                          <th className="text-left py-3 px-4 font-medium text-gray-600">Created By</th>
+                          <th className="text-left py-3 px-4 font-medium text-gray-600">Created</th>
+                          <th className="text-left py-3 px-4 font-medium text-gray-600">Expires</th>
+                          <th className="text-right py-3 px-4 font-medium text-gray-600">Actions</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {filteredLinks.map((link) => (
+                          <tr key={link.id} className="border-b border-gray-100 hover:bg-gray-50">
+                            <td className="py-4 px-4">
+                              <p className="font-medium text-gray-900 truncate max-w-xs">{getLinkLabel(link)}</p>
+                              {!link.fileId && (
+                                <p className="text-xs text-gray-500">Collection</p>
+                              )}
+                            </td>
+                            <td className="py-4 px-4">
+                              <p className="text-sm text-gray-900">{link.siteName || 'Multiple sites'}</p>
+                              <p className="text-sm text-gray-600">{link.clientName}</p>
+                            </td>
+                            <td className="py-4 px-4 text-sm text-gray-600">{link.creatorName}</td>
+                            <td className="py-4 px-4 text-sm text-gray-600">{formatDateTime(link.createdAt)}</td>
+                            <td className="py-4 px-4 text-sm text-gray-600">{formatDateTime(link.expiresAt)}</td>
+                            <td className="py-4 px-4">
+                              <div className="flex items-center justify-end space-x-2">
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => extendMutation.mutate({ id: link.id, expiresInHours: 24 })}
+                                  disabled={extendMutation.isLoading}
+                                >
+                                  +24h
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => revokeMutation.mutate({ id: link.id })}
+                                  disabled={revokeMutation.isLoading}
+                                  className="text-red-600 hover:text-red-700"
+                                >
+                                  <XCircle className="w-4 h-4 mr-1" />
+                                  Revoke
+                                </Button>
+                              </div>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
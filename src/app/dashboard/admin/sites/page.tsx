@@ -467,7 +467,7 @@ export default function AdminSitesPage() {
       >
         <div className="space-y-4">
           <p className="text-sm text-gray-600">
-            Are you sure you want to delete "{selectedSite?.name}"? This action cannot be undone.
+            Are you sure you want to delete &quot;{selectedSite?.name}&quot;? This action cannot be undone.
           </p>
           {selectedSite?.fileCount > 0 && (
             <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md">
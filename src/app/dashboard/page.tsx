@@ -93,7 +93,7 @@ export default function DashboardPage() {
               <div>
                 <h1 className="text-2xl font-bold text-gray-900">Dashboard</h1>
                 <p className="text-sm text-gray-600">
-                  Welcome back! Here's what's happening with your design assets.
+                  Welcome back! Here&apos;s what&apos;s happening with your design assets.
                 </p>
               </div>
               
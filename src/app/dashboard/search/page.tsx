@@ -12,7 +12,8 @@ import {
   Target,
   Eye,
   Download,
-  Share2
+  Share2,
+  MousePointerClick
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -23,7 +24,16 @@ import { useSearchAnalytics } from '@/hooks/useSearch';
 import { useSites } from '@/hooks/useSites';
 import { trpc } from '@/lib/trpc';
 import { formatNumber, formatDuration, formatDate, cn } from '@/lib/utils';
-import type { FileWithDetails } from '@/types';
+import type { FileWithDetails, SearchTier } from '@/types';
+
+const TIER_LABELS: Record<SearchTier, string> = {
+  structured: 'Name & fields',
+  fulltext: 'Full text',
+  semantic: 'Similar meaning',
+  visual: 'Looks similar',
+};
+
+const formatRate = (rate: number) => `${Math.round(rate * 100)}%`;
 
 export default function DashboardSearchPage() {
   useRequireAuth();
@@ -221,6 +231,55 @@ export default function DashboardSearchPage() {
                   </Card>
                 </div>
 
+                {/* Result Relevance */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center">
+                      <MousePointerClick className="w-5 h-5 mr-2" />
+                      Result Relevance
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {!analytics?.relevance.impressions ? (
+                      <div className="text-center py-8 text-gray-500">
+                        <p className="text-sm">No search results recorded yet</p>
+                        <p className="text-xs">Which results you open or download shows how well they&apos;re ranked</p>
+                      </div>
+                    ) : (
+                      <div className="space-y-4">
+                        <p className="text-sm text-gray-600">
+                          {formatRate(analytics.relevance.ctr)} of results shown were opened or downloaded
+                          {' '}• mean reciprocal rank {analytics.relevance.mrr.toFixed(2)} over {formatNumber(analytics.relevance.searches)} searches
+                        </p>
+                        <div className="overflow-x-auto">
+                          <table className="w-full">
+                            <thead>
+                              <tr className="border-b border-gray-200">
+                                <th className="text-left py-2 px-4 text-sm font-medium text-gray-600">Found By</th>
+                                <th className="text-left py-2 px-4 text-sm font-medium text-gray-600">Shown</th>
+                                <th className="text-left py-2 px-4 text-sm font-medium text-gray-600">Opened</th>
+                                <th className="text-left py-2 px-4 text-sm font-medium text-gray-600">CTR</th>
+                                <th className="text-left py-2 px-4 text-sm font-medium text-gray-600">MRR</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {analytics.relevance.tiers.map((tier) => (
+                                <tr key={tier.tier} className="border-b border-gray-100">
+                                  <td className="py-2 px-4 text-sm text-gray-900">{TIER_LABELS[tier.tier]}</td>
+                                  <td className="py-2 px-4 text-sm text-gray-600">{formatNumber(tier.impressions)}</td>
+                                  <td className="py-2 px-4 text-sm text-gray-600">{formatNumber(tier.clicks)}</td>
+                                  <td className="py-2 px-4 text-sm text-gray-600">{formatRate(tier.ctr)}</td>
+                                  <td className="py-2 px-4 text-sm text-gray-600">{tier.mrr.toFixed(2)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
                 {/* Recent Searches and Popular Queries */}
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
                   {/* Recent Searches */}
@@ -378,19 +437,31 @@ export default function DashboardSearchPage() {
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-blue-800">
                         <div>
                           <p className="font-medium mb-1">Natural Language:</p>
-                          <p>"modern dining chairs" or "brass pendant lights"</p>
+                          <p>&quot;modern dining chairs&quot; or &quot;brass pendant lights&quot;</p>
                         </div>
                         <div>
                           <p className="font-medium mb-1">Specific Filters:</p>
-                          <p>category:furniture or type:image</p>
+                          <p>room:kitchen material:oak color:&quot;sage green&quot; uploader:alex</p>
+                        </div>
+                        <div>
+                          <p className="font-medium mb-1">Sizes and Dates:</p>
+                          <p>size:&gt;10mb or date:2025-01..2025-03</p>
+                        </div>
+                        <div>
+                          <p className="font-medium mb-1">Excluding and Either:</p>
+                          <p>-tag:draft or (type:pdf OR type:dxf)</p>
                         </div>
                         <div>
                           <p className="font-medium mb-1">Room Types:</p>
-                          <p>"living room sofa" or "kitchen cabinets"</p>
+                          <p>&quot;living room sofa&quot; or &quot;kitchen cabinets&quot;</p>
                         </div>
                         <div>
                           <p className="font-medium mb-1">Materials:</p>
-                          <p>"wood flooring" or "marble countertops"</p>
+                          <p>&quot;wood flooring&quot; or &quot;marble countertops&quot;</p>
+                        </div>
+                        <div>
+                          <p className="font-medium mb-1">By Image:</p>
+                          <p>Use the image button in the search bar to find files that look like a photo</p>
                         </div>
                       </div>
                     </div>
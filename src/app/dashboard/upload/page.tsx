@@ -23,7 +23,7 @@ import { Navigation, MobileNavigation } from '@/components/Navigation';
 import { useRequireAuth } from '@/hooks/useAuth';
 import { useSites } from '@/hooks/useSites';
 import { trpc } from '@/lib/trpc';
-import { formatFileSize, formatDate, cn } from '@/lib/utils';
+import { formatFileSize, formatDate, cn, submitDownloadForm } from '@/lib/utils';
 import type { FileCategory, FileWithDetails } from '@/types';
 
 const FILE_CATEGORIES: { value: FileCategory; label: string; icon: string }[] = [
@@ -41,6 +41,8 @@ export default function DashboardUploadPage() {
   const [selectedSiteId, setSelectedSiteId] = useState<string | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<FileCategory | null>(null);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedFileIds, setSelectedFileIds] = useState<string[]>([]);
 
   const { uploadableSites, siteStats, isLoading: sitesLoading } = useSites();
   
@@ -73,6 +75,9 @@ export default function DashboardUploadPage() {
   // Create share link mutation
   const shareLinkMutation = trpc.files.createShareLink.useMutation();
 
+  // Share every file in the filtered site/category as one link
+  const shareCollectionMutation = trpc.files.createShareCollection.useMutation();
+
   const handleUploadComplete = (uploadedCount: number) => {
     console.log(`Successfully uploaded ${uploadedCount} files`);
     // Refresh data
@@ -114,6 +119,31 @@ export default function DashboardUploadPage() {
     }
   };
 
+  const handleDownloadFolder = () => {
+    if (!selectedSiteId) return;
+    submitDownloadForm('/api/files/zip', {
+      siteId: selectedSiteId,
+      category: selectedCategory || undefined,
+    });
+  };
+
+  const handleShareFolder = async () => {
+    if (!selectedSiteId) return;
+
+    try {
+      const result = await shareCollectionMutation.mutateAsync({
+        siteId: selectedSiteId,
+        category: selectedCategory || undefined,
+        expiresInHours: 24,
+      });
+
+      await navigator.clipboard.writeText(result.url);
+      alert('Share link copied to clipboard!');
+    } catch (error) {
+      console.error('Share failed:', error);
+    }
+  };
+
   const getProcessingStatusIcon = (status: string) => {
     switch (status) {
       case 'completed':
@@ -193,7 +223,7 @@ export default function DashboardUploadPage() {
                     <div>
                       <h3 className="text-lg font-medium text-yellow-800">No Upload Access</h3>
                       <p className="text-yellow-700 mt-1">
-                        You don't have upload permissions for any sites. Contact your administrator to request access.
+                        You don&apos;t have upload permissions for any sites. Contact your administrator to request access.
                       </p>
                     </div>
                   </div>
@@ -375,6 +405,37 @@ export default function DashboardUploadPage() {
                       {selectedSiteId || selectedCategory ? 'Filtered Files' : 'Recent Files'}
                     </CardTitle>
                     <div className="flex items-center space-x-2">
+                      <Button
+                        variant={selectionMode ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => {
+                          setSelectionMode(!selectionMode);
+                          setSelectedFileIds([]);
+                        }}
+                      >
+                        {selectionMode ? 'Done' : 'Select'}
+                      </Button>
+                      {selectedSiteId && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={handleDownloadFolder}
+                        >
+                          <Download className="w-4 h-4 mr-1" />
+                          Download ZIP
+                        </Button>
+                      )}
+                      {selectedSiteId && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={handleShareFolder}
+                          loading={shareCollectionMutation.isLoading}
+                        >
+                          <Share2 className="w-4 h-4 mr-1" />
+                          Share Folder
+                        </Button>
+                      )}
                       <Button
                         variant={viewMode === 'grid' ? 'default' : 'outline'}
                         size="sm"
@@ -404,6 +465,9 @@ export default function DashboardUploadPage() {
                       viewMode={viewMode}
                       onDownload={handleDownload}
                       onShare={handleShare}
+                      selectable={selectionMode}
+                      selectedFiles={selectedFileIds}
+                      onSelectionChange={setSelectedFileIds}
                       showActions={true}
                     />
                   ) : (
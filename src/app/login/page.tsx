@@ -244,7 +244,7 @@ export default function LoginPage() {
         {/* Footer */}
         <div className="text-center">
           <p className="text-sm text-gray-600">
-            Don't have an account?{' '}
+            Don&apos;t have an account?{' '}
             <span className="text-gray-400">Contact your administrator for access.</span>
           </p>
           <p className="mt-2 text-xs text-gray-500">
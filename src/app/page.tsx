@@ -95,7 +95,7 @@ export default function HomePage() {
               </CardHeader>
               <CardContent>
                 <p className="text-gray-600">
-                  Find files using natural language. Search for "modern dining chairs" and get intelligent results 
+                  Find files using natural language. Search for &quot;modern dining chairs&quot; and get intelligent results 
                   based on AI image analysis and descriptions.
                 </p>
               </CardContent>
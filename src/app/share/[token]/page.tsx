@@ -0,0 +1,345 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useParams } from 'next/navigation';
+import { Building, Download, Clock, FileText, File, Image, AlertCircle, Lock, Eye, Archive } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { trpc } from '@/lib/trpc';
+import { formatFileSize, formatDateTime, formatCategoryLabel, safeJsonParse, submitDownloadForm } from '@/lib/utils';
+
+export default function SharePage() {
+  const params = useParams<{ token: string }>();
+  const token = params?.token || '';
+  const [password, setPassword] = useState('');
+  const [downloadsMade, setDownloadsMade] = useState(0);
+
+  const { data: previewData, isLoading, error } = trpc.share.getShared.useQuery(
+    { token },
+    {
+      enabled: !!token,
+      retry: false,
+      refetchOnWindowFocus: false,
+    }
+  );
+
+  // Password protected links are unlocked through a mutation so the password stays out of the URL
+  const unlockMutation = trpc.share.unlock.useMutation();
+  const downloadMutation = trpc.share.getDownloadUrl.useMutation();
+
+  const data = unlockMutation.data ?? previewData;
+  const isLocked = error?.data?.code === 'UNAUTHORIZED' && !unlockMutation.data;
+  const unlockedPassword = unlockMutation.data ? password : undefined;
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) return;
+    unlockMutation.mutate({ token, password });
+  };
+
+  const handleDownload = async (fileId?: string) => {
+    try {
+      const result = await downloadMutation.mutateAsync({
+        token,
+        password: unlockedPassword,
+        fileId,
+      });
+      setDownloadsMade(count => count + 1);
+
+      const link = document.createElement('a');
+      link.href = result.url;
+      link.download = result.filename;
+      link.target = '_blank';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    } catch (error) {
+      console.error('Download failed:', error);
+    }
+  };
+
+  // Submit a form so the browser streams the ZIP straight to disk
+  const handleZipDownload = () => {
+    submitDownloadForm(`/api/share/${encodeURIComponent(token)}/zip`, {
+      password: unlockedPassword,
+    });
+    setDownloadsMade(count => count + 1);
+  };
+
+  const getFileIcon = (mimeType: string, size: 'sm' | 'lg' = 'lg') => {
+    const className = size === 'lg' ? 'w-16 h-16' : 'w-10 h-10';
+    if (mimeType.startsWith('image/')) {
+      return <Image className={`${className} text-blue-500`} />;
+    } else if (mimeType === 'application/pdf') {
+      return <FileText className={`${className} text-red-500`} />;
+    }
+    return <File className={`${className} text-gray-500`} />;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const isExpired = error?.data?.code === 'FORBIDDEN';
+  const file = data?.kind === 'file' ? data.files[0] : undefined;
+  const tags = file?.aiTags ? safeJsonParse<string[]>(file.aiTags, []) : [];
+  const downloadsRemaining = data?.downloadsRemaining == null
+    ? null
+    : Math.max(0, data.downloadsRemaining - downloadsMade);
+  const canDownload = !!data && !data.viewOnly && downloadsRemaining !== 0;
+
+  const renderDownloadStatus = () => {
+    if (!data) return null;
+
+    if (data.viewOnly) {
+      return (
+        <div className="flex items-center text-sm text-gray-600">
+          <Eye className="w-4 h-4 mr-2" />
+          {data.kind === 'file'
+            ? 'This file has been shared for viewing only'
+            : 'These files have been shared for viewing only'}
+        </div>
+      );
+    }
+
+    if (downloadsRemaining === 0) {
+      return (
+        <p className="text-sm text-gray-600">
+          This share link has reached its download limit
+        </p>
+      );
+    }
+
+    if (downloadsRemaining !== null) {
+      return (
+        <span className="text-sm text-gray-500">
+          {downloadsRemaining} download{downloadsRemaining === 1 ? '' : 's'} remaining
+        </span>
+      );
+    }
+
+    return null;
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-white">
+      {/* Header */}
+      <header className="bg-white shadow-sm">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center space-x-2 py-6">
+            <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center">
+              <Building className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold text-gray-900">Interior Design DAM</h1>
+              <p className="text-sm text-gray-500">Shared with you</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto py-12 px-4 sm:px-6 lg:px-8">
+        {isLocked ? (
+          <Card className="max-w-md mx-auto">
+            <CardContent className="p-8">
+              <Lock className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+              <h2 className="text-xl font-semibold text-gray-900 mb-2 text-center">
+                Password required
+              </h2>
+              <p className="text-sm text-gray-600 mb-6 text-center">
+                Enter the password you received from the sender to view this share.
+              </p>
+              <form onSubmit={handleUnlock} className="space-y-4">
+                <Input
+                  type="password"
+                  placeholder="Password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoFocus
+                />
+                {unlockMutation.error && (
+                  <p className="text-sm text-red-600">{unlockMutation.error.message}</p>
+                )}
+                <Button type="submit" className="w-full" loading={unlockMutation.isLoading}>
+                  Unlock
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        ) : error || !data || (data.kind === 'file' && !file) ? (
+          <Card className="max-w-md mx-auto text-center">
+            <CardContent className="p-8">
+              {isExpired ? (
+                <Clock className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+              ) : (
+                <AlertCircle className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+              )}
+              <h2 className="text-xl font-semibold text-gray-900 mb-2">
+                {isExpired ? 'Link expired' : 'Link not found'}
+              </h2>
+              <p className="text-sm text-gray-600">
+                {isExpired
+                  ? 'This share link is no longer available. Please ask the sender for a new link.'
+                  : 'This share link does not exist. Please check the URL or ask the sender for a new link.'}
+              </p>
+            </CardContent>
+          </Card>
+        ) : file ? (
+          <Card className="max-w-4xl mx-auto">
+            <CardHeader>
+              <CardTitle className="text-2xl break-words">{file.originalName}</CardTitle>
+              <p className="text-sm text-gray-600">
+                {data.siteName} · {data.clientName}
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {/* Preview */}
+              <div className="flex items-center justify-center bg-gray-50 rounded-lg min-h-[16rem]">
+                {file.thumbnailUrl ? (
+                  <img
+                    src={file.thumbnailUrl}
+                    alt={file.originalName}
+                    className="max-h-96 max-w-full object-contain rounded"
+                  />
+                ) : (
+                  getFileIcon(file.mimeType)
+                )}
+              </div>
+
+              {/* Details */}
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div><span className="font-medium">Size:</span> {formatFileSize(file.size)}</div>
+                <div><span className="font-medium">Category:</span> {formatCategoryLabel(file.category)}</div>
+                <div><span className="font-medium">Type:</span> {file.mimeType}</div>
+                <div><span className="font-medium">Link expires:</span> {formatDateTime(data.expiresAt)}</div>
+              </div>
+
+              {file.aiDescription && (
+                <div>
+                  <h4 className="font-medium mb-2">Description</h4>
+                  <p className="text-sm text-gray-600">{file.aiDescription}</p>
+                </div>
+              )}
+
+              {tags.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {tags.map((tag, index) => (
+                    <span
+                      key={index}
+                      className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded"
+                    >
+                      {tag}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex items-center space-x-4">
+                {canDownload && (
+                  <Button onClick={() => handleDownload()} loading={downloadMutation.isLoading}>
+                    <Download className="w-4 h-4 mr-2" />
+                    Download
+                  </Button>
+                )}
+                {renderDownloadStatus()}
+              </div>
+
+              {downloadMutation.error && (
+                <p className="text-sm text-red-600">{downloadMutation.error.message}</p>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            {/* Collection summary */}
+            <Card>
+              <CardContent className="p-6">
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                  <div>
+                    <h2 className="text-2xl font-bold text-gray-900 break-words">
+                      {data.title || (data.category ? formatCategoryLabel(data.category) : 'Shared files')}
+                    </h2>
+                    {data.siteName && (
+                      <p className="text-sm text-gray-600">
+                        {data.siteName} · {data.clientName}
+                      </p>
+                    )}
+                    <p className="text-sm text-gray-500 mt-1">
+                      {data.files.length} file{data.files.length === 1 ? '' : 's'} · {formatFileSize(data.totalSize)} · Link expires {formatDateTime(data.expiresAt)}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center space-x-4">
+                    {renderDownloadStatus()}
+                    {canDownload && data.files.length > 0 && (
+                      <Button onClick={handleZipDownload}>
+                        <Archive className="w-4 h-4 mr-2" />
+                        Download All (ZIP)
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {downloadMutation.error && (
+                  <p className="mt-4 text-sm text-red-600">{downloadMutation.error.message}</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Gallery */}
+            {data.files.length === 0 ? (
+              <div className="text-center py-12">
+                <File className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                <p className="text-gray-600">This collection is empty</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                {data.files.map((sharedFile) => (
+                  <Card key={sharedFile.id} className="overflow-hidden">
+                    <div className="aspect-square bg-gray-50 flex items-center justify-center">
+                      {sharedFile.thumbnailUrl ? (
+                        <img
+                          src={sharedFile.thumbnailUrl}
+                          alt={sharedFile.originalName}
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        getFileIcon(sharedFile.mimeType, 'sm')
+                      )}
+                    </div>
+                    <CardContent className="p-3">
+                      <div className="flex items-center justify-between">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-gray-900 truncate" title={sharedFile.originalName}>
+                            {sharedFile.originalName}
+                          </p>
+                          <p className="text-xs text-gray-500">{formatFileSize(sharedFile.size)}</p>
+                        </div>
+                        {canDownload && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleDownload(sharedFile.id)}
+                            disabled={downloadMutation.isLoading}
+                            className="h-8 w-8 p-0 flex-shrink-0"
+                          >
+                            <Download className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -16,14 +16,19 @@ import {
   SortDesc,
   Image,
   File,
-  FileText
+  FileText,
+  Archive,
+  Sparkles
 } from 'lucide-react';
 import { Button } from './ui/button';
 import { Card, CardContent } from './ui/card';
 import { SimpleModal } from './ui/modal';
+import { ShareLinksPanel } from './ShareLinksPanel';
+import { FileVersionsPanel } from './FileVersionsPanel';
+import { SimilarFilesPanel } from './SimilarFilesPanel';
 import { trpc } from '@/lib/trpc';
-import { formatFileSize, formatDate, formatDateTime, cn, formatCategoryLabel } from '@/lib/utils';
-import type { FileWithDetails, FileCategory } from '@/types';
+import { formatFileSize, formatDate, formatDateTime, cn, formatCategoryLabel, copyToClipboard, submitDownloadForm } from '@/lib/utils';
+import type { FileWithDetails, FileCategory, ResultAction } from '@/types';
 
 interface FileGridProps {
   files: FileWithDetails[];
@@ -33,6 +38,8 @@ interface FileGridProps {
   onShare?: (file: FileWithDetails) => void;
   onEdit?: (file: FileWithDetails) => void;
   onDelete?: (file: FileWithDetails) => void;
+  // Told when a file is opened or downloaded, e.g. to record clicks on search results
+  onFileAction?: (file: FileWithDetails, action: ResultAction) => void;
   selectable?: boolean;
   selectedFiles?: string[];
   onSelectionChange?: (selectedIds: string[]) => void;
@@ -60,6 +67,7 @@ export const FileGrid: React.FC<FileGridProps> = ({
   onShare,
   onEdit,
   onDelete,
+  onFileAction,
   selectable = false,
   selectedFiles = [],
   onSelectionChange,
@@ -73,25 +81,35 @@ export const FileGrid: React.FC<FileGridProps> = ({
 }) => {
   const [selectedFile, setSelectedFile] = useState<FileWithDetails | null>(null);
   const [showFileModal, setShowFileModal] = useState(false);
+  const [showSimilar, setShowSimilar] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [fileToDelete, setFileToDelete] = useState<FileWithDetails | null>(null);
+  // Keyed by thumbnail path so a new version's thumbnail replaces the old one
   const [thumbUrls, setThumbUrls] = useState<Record<string, string>>({});
 
   // Generate download URL mutation
   const downloadUrlMutation = trpc.files.getDownloadUrl.useMutation();
 
+  const utils = trpc.useContext();
+
   // Create share link mutation
-  const shareLinkMutation = trpc.files.createShareLink.useMutation();
+  const shareLinkMutation = trpc.files.createShareLink.useMutation({
+    onSuccess: () => utils.files.listShareLinks.invalidate(),
+  });
+
+  // Create share collection mutation for multi-select
+  const shareCollectionMutation = trpc.files.createShareCollection.useMutation();
 
   // Create view URL mutation
   const viewUrlMutation = trpc.files.getViewUrl.useMutation();
 
   useEffect(() => {
     files.forEach(async file => {
-      if (file.thumbnailPath && !thumbUrls[file.id]) {
+      const thumbnailPath = file.thumbnailPath;
+      if (thumbnailPath && !thumbUrls[thumbnailPath]) {
         try {
           const res = await viewUrlMutation.mutateAsync({ id: file.id, thumbnail: true });
-          setThumbUrls(prev => ({ ...prev, [file.id]: res.url }));
+          setThumbUrls(prev => ({ ...prev, [thumbnailPath]: res.url }));
         } catch {
           // ignore errors
         }
@@ -99,6 +117,13 @@ export const FileGrid: React.FC<FileGridProps> = ({
     });
   }, [files]);
 
+  // Keep the open file's details in step with refetched data, e.g. after a new version
+  useEffect(() => {
+    if (!selectedFile) return;
+    const updated = files.find(file => file.id === selectedFile.id);
+    if (updated) setSelectedFile(updated);
+  }, [files]);
+
   // Sort files based on current sort settings
   const sortedFiles = useMemo(() => {
     const sorted = [...files].sort((a, b) => {
@@ -140,15 +165,35 @@ export const FileGrid: React.FC<FileGridProps> = ({
         ? selectedFiles.filter(id => id !== file.id)
         : [...selectedFiles, file.id];
       onSelectionChange(newSelection);
-    } else if (onFileSelect) {
+      return;
+    }
+
+    onFileAction?.(file, 'open');
+    if (onFileSelect) {
       onFileSelect(file);
     } else {
       setSelectedFile(file);
+      setShowSimilar(false);
       setShowFileModal(true);
     }
   };
 
+  // Similar files may not be in the grid, so fetch their thumbnail for the modal
+  const handleSimilarSelect = async (file: FileWithDetails) => {
+    setSelectedFile(file);
+    const thumbnailPath = file.thumbnailPath;
+    if (thumbnailPath && !thumbUrls[thumbnailPath]) {
+      try {
+        const res = await viewUrlMutation.mutateAsync({ id: file.id, thumbnail: true });
+        setThumbUrls(prev => ({ ...prev, [thumbnailPath]: res.url }));
+      } catch {
+        // ignore errors
+      }
+    }
+  };
+
   const handleDownload = async (file: FileWithDetails, thumbnail = false) => {
+    onFileAction?.(file, 'download');
     if (onDownload) {
       onDownload(file);
       return;
@@ -179,9 +224,9 @@ export const FileGrid: React.FC<FileGridProps> = ({
     }
 
     try {
-      const result = await downloadUrlMutation.mutateAsync({
-        id: file.id,
-        thumbnail: false,
+      const result = await shareLinkMutation.mutateAsync({
+        fileId: file.id,
+        expiresInHours: 24,
       });
       const url = result.url;
       // Try Clipboard API, with fallback on error or absence
@@ -219,7 +264,29 @@ export const FileGrid: React.FC<FileGridProps> = ({
     }
   };
 
+  // Stream the selection as a single ZIP instead of one signed URL per file
+  const handleDownloadSelected = () => {
+    if (selectedFiles.length === 0) return;
+    submitDownloadForm('/api/files/zip', { fileIds: selectedFiles });
+  };
+
+  const handleShareSelected = async () => {
+    if (selectedFiles.length === 0) return;
+
+    try {
+      const result = await shareCollectionMutation.mutateAsync({
+        fileIds: selectedFiles,
+        expiresInHours: 24,
+      });
+      await copyToClipboard(result.url);
+      alert(`Share link for ${selectedFiles.length} files copied to clipboard!`);
+    } catch (error) {
+      console.error('Share failed:', error);
+    }
+  };
+
   const handleView = async (file: FileWithDetails, thumbnail = false) => {
+    onFileAction?.(file, 'open');
     try {
       const result = await viewUrlMutation.mutateAsync({ id: file.id, thumbnail });
       window.open(result.url, '_blank');
@@ -324,6 +391,27 @@ export const FileGrid: React.FC<FileGridProps> = ({
               <span className="text-sm text-gray-600">
                 {selectedFiles.length > 0 ? `${selectedFiles.length} selected` : 'Select all'}
               </span>
+              {selectedFiles.length > 0 && (
+                <>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={handleDownloadSelected}
+                  >
+                    <Archive className="w-4 h-4 mr-1" />
+                    Download ZIP
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={handleShareSelected}
+                    loading={shareCollectionMutation.isLoading}
+                  >
+                    <Share2 className="w-4 h-4 mr-1" />
+                    Share Selected
+                  </Button>
+                </>
+              )}
             </div>
           )}
 
@@ -397,9 +485,9 @@ export const FileGrid: React.FC<FileGridProps> = ({
                   'flex items-center justify-center bg-gray-50 rounded-lg mb-3',
                   compact ? 'h-24' : 'h-32'
                 )}>
-                  {thumbUrls[file.id] ? (
+                  {file.thumbnailPath && thumbUrls[file.thumbnailPath] ? (
                     <img
-                      src={thumbUrls[file.id]}
+                      src={thumbUrls[file.thumbnailPath]}
                       alt={file.originalName}
                       className="max-h-full max-w-full object-contain rounded"
                       loading="lazy"
@@ -629,9 +717,9 @@ export const FileGrid: React.FC<FileGridProps> = ({
           title="File Details"
           size="lg"
         >
-          {thumbUrls[selectedFile.id] && (
+          {selectedFile.thumbnailPath && thumbUrls[selectedFile.thumbnailPath] && (
             <div className="mb-4 text-center">
-              <img src={thumbUrls[selectedFile.id]} alt="Thumbnail" className="mx-auto max-h-40 object-contain" />
+              <img src={thumbUrls[selectedFile.thumbnailPath]} alt="Thumbnail" className="mx-auto max-h-40 object-contain" />
             </div>
           )}
           <div className="space-y-4">
@@ -641,6 +729,7 @@ export const FileGrid: React.FC<FileGridProps> = ({
               <div><span className="font-medium">Category:</span> {formatCategoryLabel(selectedFile.category)}</div>
               <div><span className="font-medium">Type:</span> {selectedFile.mimeType}</div>
               <div><span className="font-medium">Uploaded:</span> {formatDateTime(selectedFile.createdAt)}</div>
+              <div><span className="font-medium">Version:</span> {selectedFile.version ?? 1}</div>
               <div><span className="font-medium">Status:</span> 
                 <span className={cn(
                   'ml-2 px-2 py-1 text-xs rounded-full',
@@ -674,6 +763,15 @@ export const FileGrid: React.FC<FileGridProps> = ({
               </div>
             )}
 
+            <FileVersionsPanel
+              fileId={selectedFile.id}
+              siteId={selectedFile.siteId}
+              category={selectedFile.category}
+              enabled={showFileModal}
+            />
+
+            <ShareLinksPanel fileId={selectedFile.id} enabled={showFileModal} />
+
             <div className="flex space-x-2">
               <Button onClick={() => handleDownload(selectedFile)}>
                 <Download className="w-4 h-4 mr-2" />
@@ -687,7 +785,19 @@ export const FileGrid: React.FC<FileGridProps> = ({
                 <Eye className="w-4 h-4 mr-2" />
                 View
               </Button>
+              <Button variant="outline" onClick={() => setShowSimilar(!showSimilar)}>
+                <Sparkles className="w-4 h-4 mr-2" />
+                More like this
+              </Button>
             </div>
+
+            {showSimilar && (
+              <SimilarFilesPanel
+                fileId={selectedFile.id}
+                enabled={showFileModal}
+                onSelect={handleSimilarSelect}
+              />
+            )}
           </div>
         </SimpleModal>
       )}
@@ -702,7 +812,7 @@ export const FileGrid: React.FC<FileGridProps> = ({
         >
           <div className="space-y-4">
             <p className="text-sm text-gray-600">
-              Are you sure you want to delete "{fileToDelete.originalName}"? This action cannot be undone.
+              Are you sure you want to delete &quot;{fileToDelete.originalName}&quot;? This action cannot be undone.
             </p>
             <div className="flex space-x-2 justify-end">
               <Button variant="outline" onClick={() => setShowDeleteConfirm(false)}>
@@ -54,7 +54,9 @@ export const FileUpload: React.FC<FileUploadProps> = ({
     maxFiles: 20,
     onUploadComplete: (response) => {
       onUploadComplete?.(response.uploaded.length);
-      if (response.uploaded.length > 0) {
+      // Stay open when there are duplicate warnings so they can be read
+      const hasDuplicates = response.uploaded.some(file => file.duplicates && file.duplicates.length > 0);
+      if (response.uploaded.length > 0 && !hasDuplicates) {
         // Clear files and close modal after successful upload
         setTimeout(() => {
           clearFiles();
@@ -253,6 +255,9 @@ export const FileUpload: React.FC<FileUploadProps> = ({
                         {file.error && (
                           <p className="text-xs text-red-500 mt-1">{file.error}</p>
                         )}
+                        {file.warning && (
+                          <p className="text-xs text-amber-600 mt-1">{file.warning}</p>
+                        )}
                       </div>
                     </div>
 
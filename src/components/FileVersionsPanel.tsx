@@ -0,0 +1,184 @@
+import React, { useRef } from 'react';
+import { History, Upload, Download, RotateCcw, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { trpc } from '@/lib/trpc';
+import { useUpload } from '@/hooks/useUpload';
+import { formatDateTime, formatFileSize } from '@/lib/utils';
+import type { FileCategory, FileVersionInfo } from '@/types';
+
+interface FileVersionsPanelProps {
+  fileId: string;
+  siteId: string;
+  category: FileCategory;
+  enabled?: boolean;
+  onVersionChange?: () => void;
+}
+
+export const FileVersionsPanel: React.FC<FileVersionsPanelProps> = ({
+  fileId,
+  siteId,
+  category,
+  enabled = true,
+  onVersionChange,
+}) => {
+  const utils = trpc.useContext();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const { data: versions, isLoading } = trpc.files.getVersions.useQuery(
+    { fileId },
+    { enabled: enabled && !!fileId }
+  );
+
+  // The file list, search results and thumbnails all read the current version
+  const handleVersionChange = () => {
+    utils.files.invalidate();
+    onVersionChange?.();
+  };
+
+  const {
+    files: pendingFiles,
+    isUploading,
+    progress,
+    error: uploadError,
+    addFiles,
+    clearFiles,
+    startUpload,
+  } = useUpload({
+    siteId,
+    category,
+    versionOf: fileId,
+    maxFiles: 1,
+    onUploadComplete: () => {
+      clearFiles();
+      handleVersionChange();
+    },
+  });
+  const pendingFile = pendingFiles[0];
+
+  const restoreMutation = trpc.files.restoreVersion.useMutation({
+    onSuccess: handleVersionChange,
+  });
+
+  const downloadMutation = trpc.files.getDownloadUrl.useMutation({
+    onSuccess: (result) => window.open(result.url, '_blank'),
+  });
+
+  const handleFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = e.target.files?.[0];
+    e.target.value = '';
+    if (chosen) {
+      await addFiles([chosen]);
+    }
+  };
+
+  const currentVersion = versions?.find(version => version.isCurrent)?.versionNumber ?? 1;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-medium">Versions</h4>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => inputRef.current?.click()}
+          disabled={!!pendingFile}
+        >
+          <Upload className="w-4 h-4 mr-1" />
+          Upload New Version
+        </Button>
+        <input ref={inputRef} type="file" className="hidden" onChange={handleFileChosen} />
+      </div>
+
+      {pendingFile && (
+        <div className="border rounded-md p-3 mb-3 space-y-2 text-sm">
+          <div className="flex items-center justify-between">
+            <span className="truncate">
+              {pendingFile.file.name} ({formatFileSize(pendingFile.file.size)})
+            </span>
+            {!isUploading && (
+              <Button size="sm" variant="ghost" onClick={clearFiles}>
+                <X className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+          {isUploading ? (
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+                style={{ width: `${progress}%` }}
+              />
+            </div>
+          ) : (
+            <div className="flex justify-end">
+              <Button size="sm" onClick={() => startUpload(siteId, category)}>
+                Upload as Version {currentVersion + 1}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : !versions || versions.length === 0 ? (
+        <p className="text-sm text-gray-500">No version history</p>
+      ) : (
+        <div className="space-y-2">
+          {versions.map((version: FileVersionInfo) => (
+            <div
+              key={version.id}
+              className="flex items-center justify-between border rounded-md px-3 py-2 text-sm"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center space-x-2">
+                  <History className="w-3 h-3 text-gray-400" />
+                  <span className="font-medium">v{version.versionNumber}</span>
+                  <span className="truncate">{version.originalName}</span>
+                  {version.isCurrent && (
+                    <span className="px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800">
+                      current
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {version.uploaderName || 'Unknown user'} · {formatDateTime(version.createdAt)} · {formatFileSize(version.size)}
+                  {version.restoredFrom !== null && ` · restored from v${version.restoredFrom}`}
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-1 ml-2">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => downloadMutation.mutate({ id: fileId, versionId: version.id })}
+                  disabled={downloadMutation.isLoading}
+                >
+                  <Download className="w-4 h-4" />
+                </Button>
+                {!version.isCurrent && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => restoreMutation.mutate({ fileId, versionId: version.id })}
+                    disabled={restoreMutation.isLoading || isUploading}
+                  >
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    Restore
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(uploadError || restoreMutation.error || downloadMutation.error) && (
+        <p className="mt-2 text-sm text-red-600">
+          {uploadError || restoreMutation.error?.message || downloadMutation.error?.message}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default FileVersionsPanel;
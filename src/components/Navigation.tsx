@@ -16,11 +16,15 @@ import {
   HardDrive,
   Shield,
   Bell,
-  User
+  User,
+  Share2,
+  Activity,
+  SlidersHorizontal
 } from 'lucide-react';
 import { Button } from './ui/button';
 import { useAuth } from '@/hooks/useAuth';
 import { useSites } from '@/hooks/useSites';
+import { useSavedSearches } from '@/hooks/useSearch';
 import { cn, getInitials } from '@/lib/utils';
 import type { NavItem } from '@/types';
 
@@ -67,6 +71,21 @@ const NAV_ITEMS: NavItem[] = [
         href: '/dashboard/admin/users',
         icon: Users,
       },
+      {
+        label: 'Shared Links',
+        href: '/dashboard/admin/shares',
+        icon: Share2,
+      },
+      {
+        label: 'Processing',
+        href: '/dashboard/admin/processing',
+        icon: Activity,
+      },
+      {
+        label: 'Search Tuning',
+        href: '/dashboard/admin/search',
+        icon: SlidersHorizontal,
+      },
       {
         label: 'System',
         href: '/dashboard/admin/system',
@@ -84,6 +103,7 @@ export const Navigation: React.FC<NavigationProps> = ({
   const pathname = usePathname();
   const { user, logout, isAdmin } = useAuth();
   const { siteStats } = useSites();
+  const { totalNewMatches } = useSavedSearches({ enabled: !!user });
   const [expandedItems, setExpandedItems] = useState<string[]>([]);
 
   const handleLogout = async () => {
@@ -114,7 +134,12 @@ export const Navigation: React.FC<NavigationProps> = ({
     return expandedItems.includes(item.label) || (item.children?.some(child => pathname.startsWith(child.href)) ?? false);
   };
 
-  const filteredNavItems = NAV_ITEMS.filter(item => !item.adminOnly || isAdmin);
+  // Search shows how many new files match the user's saved searches
+  const filteredNavItems = NAV_ITEMS
+    .filter(item => !item.adminOnly || isAdmin)
+    .map(item => item.href === '/dashboard/search' && totalNewMatches > 0
+      ? { ...item, badge: totalNewMatches }
+      : item);
 
   return (
     <nav className={cn(
@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { Bookmark, BookmarkPlus, Check, Pencil, Trash2, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { useSavedSearches } from '@/hooks/useSearch';
+import { formatDate } from '@/lib/utils';
+import type { SavedSearchSummary, SearchFilters } from '@/types';
+
+interface SavedSearchesMenuProps {
+  query: string;
+  filters: SearchFilters;
+  canSave: boolean;
+  onRun: (query: string, filters: SearchFilters) => void;
+}
+
+export const SavedSearchesMenu: React.FC<SavedSearchesMenuProps> = ({
+  query,
+  filters,
+  canSave,
+  onRun,
+}) => {
+  const [showList, setShowList] = useState(false);
+  const [saveName, setSaveName] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+
+  const {
+    savedSearches,
+    totalNewMatches,
+    isLoading,
+    saveSearch,
+    renameSearch,
+    deleteSearch,
+    markViewed,
+    isSaving,
+    saveError,
+  } = useSavedSearches();
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!saveName?.trim()) return;
+
+    try {
+      await saveSearch(saveName.trim(), query, filters);
+      setSaveName(null);
+    } catch (error) {
+      console.error('Save search failed:', error);
+    }
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!renaming?.name.trim()) return;
+
+    try {
+      await renameSearch(renaming.id, renaming.name.trim());
+      setRenaming(null);
+    } catch (error) {
+      console.error('Rename saved search failed:', error);
+    }
+  };
+
+  const handleDelete = async (id: string, name: string) => {
+    if (confirm(`Delete the saved search "${name}"?`)) {
+      try {
+        await deleteSearch(id);
+      } catch (error) {
+        console.error('Delete saved search failed:', error);
+      }
+    }
+  };
+
+  const handleRun = (search: SavedSearchSummary) => {
+    onRun(search.query, search.filters);
+    setShowList(false);
+    markViewed(search.id).catch(error => console.error('Mark saved search viewed failed:', error));
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setSaveName(saveName === null ? query : null)}
+        disabled={!canSave}
+      >
+        <BookmarkPlus className="w-4 h-4 mr-2" />
+        Save Search
+      </Button>
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setShowList(!showList)}
+      >
+        <Bookmark className="w-4 h-4 mr-2" />
+        Saved
+        {totalNewMatches > 0 && (
+          <span className="ml-2 bg-red-500 text-white text-xs px-2 py-0.5 rounded-full">
+            {totalNewMatches}
+          </span>
+        )}
+      </Button>
+
+      {saveName !== null && (
+        <form onSubmit={handleSave} className="basis-full flex items-center gap-2 pt-2">
+          <Input
+            autoFocus
+            value={saveName}
+            onChange={(e) => setSaveName(e.target.value)}
+            placeholder="Name this search"
+            className="h-9 max-w-xs"
+          />
+          <Button type="submit" size="sm" disabled={isSaving || !saveName.trim()}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+          <Button type="button" size="sm" variant="ghost" onClick={() => setSaveName(null)}>
+            Cancel
+          </Button>
+          {saveError && <span className="text-sm text-red-600">{saveError}</span>}
+        </form>
+      )}
+
+      {showList && (
+        <Card className="basis-full mt-2">
+          <CardHeader className="py-3">
+            <CardTitle className="text-base">Saved Searches</CardTitle>
+          </CardHeader>
+          <CardContent className="pt-0">
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading saved searches...</p>
+            ) : savedSearches.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No saved searches yet. Run a search and save it to get told about new matches.
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {savedSearches.map(search => (
+                  <li key={search.id} className="flex items-center justify-between py-2 gap-2">
+                    {renaming?.id === search.id ? (
+                      <form onSubmit={handleRename} className="flex-1 flex items-center gap-2">
+                        <Input
+                          autoFocus
+                          value={renaming.name}
+                          onChange={(e) => setRenaming({ id: search.id, name: e.target.value })}
+                          className="h-8"
+                        />
+                        <Button type="submit" size="sm" variant="ghost" title="Save name">
+                          <Check className="w-4 h-4" />
+                        </Button>
+                        <Button type="button" size="sm" variant="ghost" onClick={() => setRenaming(null)} title="Cancel">
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </form>
+                    ) : (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => handleRun(search)}
+                          className="flex-1 min-w-0 text-left hover:text-blue-600"
+                        >
+                          <p className="text-sm font-medium truncate">
+                            {search.name}
+                            {search.newMatches > 0 && (
+                              <span className="ml-2 bg-blue-100 text-blue-800 text-xs px-2 py-0.5 rounded-full">
+                                {search.newMatches} new
+                              </span>
+                            )}
+                          </p>
+                          <p className="text-xs text-gray-500 truncate">
+                            {search.query} • viewed {formatDate(search.lastViewedAt)}
+                          </p>
+                        </button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setRenaming({ id: search.id, name: search.name })}
+                          title="Rename"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleDelete(search.id, search.name)}
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </>
+  );
+};
+
+export default SavedSearchesMenu;
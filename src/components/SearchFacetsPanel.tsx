@@ -0,0 +1,86 @@
+import React from 'react';
+import { Card, CardContent } from './ui/card';
+import { cn, formatCategoryLabel } from '@/lib/utils';
+import type { FacetBucket, SearchFacets } from '@/types';
+
+interface SearchFacetsPanelProps {
+  facets: SearchFacets;
+  isActive: (field: string, value: string) => boolean;
+  onToggle: (field: string, value: string) => void;
+}
+
+// Facets in display order, with the query field each one filters on
+const FACET_GROUPS: Array<{ key: keyof SearchFacets; field: string; title: string }> = [
+  { key: 'category', field: 'category', title: 'Category' },
+  { key: 'site', field: 'site', title: 'Site' },
+  { key: 'room', field: 'room', title: 'Room' },
+  { key: 'style', field: 'style', title: 'Style' },
+  { key: 'material', field: 'material', title: 'Material' },
+  { key: 'color', field: 'color', title: 'Color' },
+  { key: 'mimeType', field: 'type', title: 'File Type' },
+  { key: 'uploader', field: 'uploader', title: 'Uploaded By' },
+  { key: 'month', field: 'date', title: 'Uploaded' },
+];
+
+const formatMonth = (month: string) => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(year, monthNumber - 1, 1).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+};
+
+const bucketLabel = (key: keyof SearchFacets, bucket: FacetBucket) => {
+  switch (key) {
+    case 'category':
+      return formatCategoryLabel(bucket.value);
+    case 'month':
+      return formatMonth(bucket.value);
+    default:
+      return bucket.label;
+  }
+};
+
+export const SearchFacetsPanel: React.FC<SearchFacetsPanelProps> = ({
+  facets,
+  isActive,
+  onToggle,
+}) => {
+  const groups = FACET_GROUPS.filter(group => facets[group.key].length > 0);
+
+  if (groups.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-4 grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+        {groups.map(group => (
+          <div key={group.key}>
+            <h4 className="text-xs font-medium text-gray-500 uppercase mb-2">{group.title}</h4>
+            <div className="flex flex-wrap gap-1">
+              {facets[group.key].map(bucket => {
+                const active = isActive(group.field, bucket.value);
+                return (
+                  <button
+                    key={bucket.value}
+                    type="button"
+                    onClick={() => onToggle(group.field, bucket.value)}
+                    className={cn(
+                      'inline-flex items-center px-2 py-1 text-xs rounded-full border',
+                      active
+                        ? 'bg-blue-600 border-blue-600 text-white'
+                        : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-50'
+                    )}
+                  >
+                    <span className="capitalize truncate max-w-[10rem]">{bucketLabel(group.key, bucket)}</span>
+                    <span className={cn('ml-1', active ? 'text-blue-100' : 'text-gray-400')}>{bucket.count}</span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SearchFacetsPanel;
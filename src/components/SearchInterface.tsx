@@ -1,14 +1,17 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { Search, Filter, X, Calendar, Folder, File, Download, Share2, Eye, Clock } from 'lucide-react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { Search, Filter, X, Calendar, Folder, File, Download, Share2, Eye, Clock, ImagePlus } from 'lucide-react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { SimpleModal } from './ui/modal';
-import { useSearch } from '@/hooks/useSearch';
+import { SearchFacetsPanel } from './SearchFacetsPanel';
+import { SavedSearchesMenu } from './SavedSearchesMenu';
+import { useSearch, useSearchTracking } from '@/hooks/useSearch';
 import { useSites } from '@/hooks/useSites';
 import { trpc } from '@/lib/trpc';
 import { formatFileSize, formatDate, cn, formatCategoryLabel } from '@/lib/utils';
-import type { FileCategory, FileWithDetails } from '@/types';
+import { SUPPORTED_IMAGE_TYPES } from '@/types';
+import type { FileCategory, FileWithDetails, SearchMatch, SuggestionType } from '@/types';
 
 interface SearchInterfaceProps {
   defaultQuery?: string;
@@ -25,6 +28,35 @@ const FILE_CATEGORIES: { value: FileCategory; label: string }[] = [
   { value: 'finished', label: 'Finished' },
 ];
 
+// Why a result matched, as shown on its card
+const formatMatch = (match: SearchMatch) => {
+  switch (match.tier) {
+    case 'structured':
+      return 'Name & fields';
+    case 'fulltext':
+      return `Full text #${match.rank}`;
+    case 'semantic':
+      return match.score !== undefined
+        ? `Similar meaning ${Math.round(match.score * 100)}%`
+        : 'Similar meaning';
+    case 'visual':
+      return match.score !== undefined
+        ? `Looks similar ${Math.round(match.score * 100)}%`
+        : 'Looks similar';
+  }
+};
+
+// Suggestion groups in display order
+const SUGGESTION_GROUPS: Array<{ type: SuggestionType; title: string }> = [
+  { type: 'saved', title: 'Saved Searches' },
+  { type: 'tag', title: 'Tags' },
+  { type: 'site', title: 'Sites' },
+  { type: 'client', title: 'Clients' },
+  { type: 'room', title: 'Rooms' },
+  { type: 'material', title: 'Materials' },
+  { type: 'query', title: 'Popular Searches' },
+];
+
 const MIME_TYPE_FILTERS = [
   { value: 'image/', label: 'Images', icon: '🖼️' },
   { value: 'application/pdf', label: 'PDFs', icon: '📄' },
@@ -41,6 +73,7 @@ export const SearchInterface: React.FC<SearchInterfaceProps> = ({
   const [selectedFile, setSelectedFile] = useState<FileWithDetails | null>(null);
   const [showFileModal, setShowFileModal] = useState(false);
   const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
 
   const { sites } = useSites();
   
@@ -53,13 +86,23 @@ export const SearchInterface: React.FC<SearchInterfaceProps> = ({
     error,
     total,
     hasMore,
+    facets,
+    image,
+    searchId,
     setQuery,
     setFilters,
     search,
     loadMore,
     clearAll,
+    loadSearch,
+    toggleQueryFilter,
+    applySuggestion,
+    searchByImage,
+    clearImage,
+    hasQueryFilter,
     hasActiveSearch,
     hasResults,
+    queryError,
   } = useSearch({
     initialQuery: defaultQuery,
     autoSearch: true,
@@ -67,6 +110,8 @@ export const SearchInterface: React.FC<SearchInterfaceProps> = ({
     pageSize: compact ? 10 : 20,
   });
 
+  const { trackClick } = useSearchTracking(searchId, results);
+
   // Generate download URL mutation
   const downloadUrlMutation = trpc.files.getDownloadUrl.useMutation();
 
@@ -87,6 +132,7 @@ export const SearchInterface: React.FC<SearchInterfaceProps> = ({
   }, [selectedFile]);
 
   const handleFileClick = (file: FileWithDetails) => {
+    trackClick(file, 'open');
     if (onFileSelect) {
       onFileSelect(file);
     } else {
@@ -96,6 +142,7 @@ export const SearchInterface: React.FC<SearchInterfaceProps> = ({
   };
 
   const handleDownload = async (file: FileWithDetails, thumbnail = false) => {
+    trackClick(file, 'download');
     try {
       const result = await downloadUrlMutation.mutateAsync({
         id: file.id,
@@ -132,6 +179,7 @@ export const SearchInterface: React.FC<SearchInterfaceProps> = ({
 
   // Generate view URL and open in new tab
   const handleView = async (file: FileWithDetails, thumbnail = false) => {
+    trackClick(file, 'open');
     try {
       const result = await viewUrlMutation.mutateAsync({ id: file.id, thumbnail });
       window.open(result.url, '_blank');
@@ -214,37 +262,93 @@ export const SearchInterface: React.FC<SearchInterfaceProps> = ({
             placeholder="Search files by name, description, or tags..."
             value={query}
             onChange={(e) => setQuery(e.target.value)}
-            className="pl-10 pr-12"
+            className={cn('pl-10 pr-20', queryError && 'border-red-500 focus-visible:ring-red-500')}
           />
           {query && (
             <button
               onClick={() => setQuery('')}
-              className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
+              className="absolute right-11 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
             >
               <X className="w-5 h-5" />
             </button>
           )}
+          <button
+            onClick={() => imageInputRef.current?.click()}
+            className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
+            title="Search by image"
+          >
+            <ImagePlus className="w-5 h-5" />
+          </button>
+          <input
+            ref={imageInputRef}
+            type="file"
+            accept={SUPPORTED_IMAGE_TYPES.join(',')}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) searchByImage(file);
+              e.target.value = '';
+            }}
+          />
         </div>
 
+        {/* Image being searched with */}
+        {image && (
+          <div className="mt-2 flex items-center gap-3 p-2 border border-gray-200 rounded-md bg-gray-50">
+            <img
+              src={`data:${image.mimeType};base64,${image.data}`}
+              alt=""
+              className="h-12 w-12 object-cover rounded"
+            />
+            <p className="flex-1 min-w-0 text-sm text-gray-700 truncate">
+              Files that look like <span className="font-medium">{image.name}</span>
+            </p>
+            <button
+              onClick={clearImage}
+              className="text-gray-400 hover:text-gray-600"
+              title="Stop searching by image"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        )}
+
+        {queryError && (
+          <p className="mt-1 text-sm text-red-600">{queryError}</p>
+        )}
+
         {/* Suggestions */}
-        {suggestions.length > 0 && query && (
-          <div className="absolute top-full left-0 right-0 z-10 bg-white border border-gray-200 rounded-md shadow-lg mt-1">
-            {suggestions.map((suggestion, index) => (
-              <button
-                key={index}
-                onClick={() => setQuery(suggestion)}
-                className="w-full text-left px-4 py-2 hover:bg-gray-50 text-sm"
-              >
-                {suggestion}
-              </button>
-            ))}
+        {suggestions.length > 0 && query && !queryError && (
+          <div className="absolute top-full left-0 right-0 z-10 bg-white border border-gray-200 rounded-md shadow-lg mt-1 py-1">
+            {SUGGESTION_GROUPS.map(group => {
+              const groupSuggestions = suggestions.filter(suggestion => suggestion.type === group.type);
+              if (groupSuggestions.length === 0) return null;
+
+              return (
+                <div key={group.type}>
+                  <p className="px-4 pt-2 pb-1 text-xs font-medium text-gray-500 uppercase">{group.title}</p>
+                  {groupSuggestions.map(suggestion => (
+                    <button
+                      key={suggestion.value}
+                      onClick={() => applySuggestion(suggestion)}
+                      className="w-full flex items-center justify-between px-4 py-2 hover:bg-gray-50 text-sm text-left"
+                    >
+                      <span className="truncate">{suggestion.label}</span>
+                      {suggestion.count > 0 && (
+                        <span className="ml-2 text-xs text-gray-400">{suggestion.count}</span>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              );
+            })}
           </div>
         )}
       </div>
 
       {/* Search Actions */}
-      <div className="flex items-center justify-between">
-        <div className="flex items-center space-x-2">
+      <div className="flex items-start justify-between">
+        <div className="flex flex-1 flex-wrap items-center gap-2">
           {showFilters && (
             <Button
               variant="outline"
@@ -261,6 +365,15 @@ export const SearchInterface: React.FC<SearchInterfaceProps> = ({
             </Button>
           )}
           
+          {!compact && (
+            <SavedSearchesMenu
+              query={query}
+              filters={filters}
+              canSave={!!query.trim() && !queryError}
+              onRun={loadSearch}
+            />
+          )}
+
           {hasActiveSearch && (
             <Button
               variant="ghost"
@@ -272,7 +385,7 @@ export const SearchInterface: React.FC<SearchInterfaceProps> = ({
           )}
         </div>
 
-        <div className="text-sm text-gray-500">
+        <div className="ml-4 py-2 text-sm text-gray-500 whitespace-nowrap">
           {hasResults && `${total} file${total !== 1 ? 's' : ''} found`}
         </div>
       </div>
@@ -465,6 +578,15 @@ export const SearchInterface: React.FC<SearchInterfaceProps> = ({
       {/* Results */}
       {hasResults && (
         <div className="space-y-4">
+          {/* Facets, which refine the query; image searches have none to refine */}
+          {!compact && facets && !image && (
+            <SearchFacetsPanel
+              facets={facets}
+              isActive={hasQueryFilter}
+              onToggle={toggleQueryFilter}
+            />
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {results.map((file) => (
               <Card
@@ -495,6 +617,19 @@ export const SearchInterface: React.FC<SearchInterfaceProps> = ({
                     <span>{formatDate(file.createdAt)}</span>
                   </div>
 
+                  {file.matchedBy && file.matchedBy.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mb-3">
+                      {file.matchedBy.map(match => (
+                        <span
+                          key={match.tier}
+                          className="px-2 py-0.5 bg-gray-100 text-gray-600 text-xs rounded-full"
+                        >
+                          {formatMatch(match)}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+
                   <div className="flex items-center space-x-2">
                     <Button
                       size="sm"
@@ -540,7 +675,7 @@ export const SearchInterface: React.FC<SearchInterfaceProps> = ({
       )}
 
       {/* No Results */}
-      {!isLoading && !error && hasActiveSearch && !hasResults && (
+      {!isLoading && !error && !queryError && hasActiveSearch && !hasResults && (
         <div className="text-center py-8">
           <Search className="mx-auto h-12 w-12 text-gray-400 mb-4" />
           <p className="text-gray-600 mb-2">No files found</p>
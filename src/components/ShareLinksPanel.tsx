@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { Link2, Clock, XCircle, Lock, Eye, Download, Plus } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { trpc } from '@/lib/trpc';
+import { formatDateTime, cn } from '@/lib/utils';
+import type { ShareLinkStatus, ShareLinkWithDetails } from '@/types';
+
+interface ShareLinksPanelProps {
+  fileId: string;
+  enabled?: boolean;
+}
+
+const STATUS_COLORS: Record<ShareLinkStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  expired: 'bg-gray-100 text-gray-700',
+  revoked: 'bg-red-100 text-red-800',
+};
+
+export const ShareLinksPanel: React.FC<ShareLinksPanelProps> = ({
+  fileId,
+  enabled = true,
+}) => {
+  const utils = trpc.useContext();
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [password, setPassword] = useState('');
+  const [maxDownloads, setMaxDownloads] = useState('');
+  const [viewOnly, setViewOnly] = useState(false);
+
+  const { data: links, isLoading } = trpc.files.listShareLinks.useQuery(
+    { fileId },
+    { enabled: enabled && !!fileId }
+  );
+
+  const revokeMutation = trpc.files.revokeShareLink.useMutation({
+    onSuccess: () => utils.files.listShareLinks.invalidate(),
+  });
+
+  const extendMutation = trpc.files.extendShareLink.useMutation({
+    onSuccess: () => utils.files.listShareLinks.invalidate(),
+  });
+
+  const createMutation = trpc.files.createShareLink.useMutation({
+    onSuccess: () => {
+      setPassword('');
+      setMaxDownloads('');
+      setViewOnly(false);
+      setShowCreateForm(false);
+      utils.files.listShareLinks.invalidate();
+    },
+  });
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate({
+      fileId,
+      expiresInHours: 24,
+      password: password || undefined,
+      maxDownloads: !viewOnly && maxDownloads ? parseInt(maxDownloads, 10) : undefined,
+      viewOnly,
+    });
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-medium">Shared Links</h4>
+        <Button size="sm" variant="ghost" onClick={() => setShowCreateForm(!showCreateForm)}>
+          <Plus className="w-4 h-4 mr-1" />
+          New Link
+        </Button>
+      </div>
+
+      {showCreateForm && (
+        <form onSubmit={handleCreate} className="border rounded-md p-3 mb-3 space-y-3">
+          <Input
+            type="password"
+            placeholder="Password (optional)"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+          <Input
+            type="number"
+            min={1}
+            placeholder="Maximum downloads (optional)"
+            value={maxDownloads}
+            onChange={(e) => setMaxDownloads(e.target.value)}
+            disabled={viewOnly}
+          />
+          <label className="flex items-center space-x-2 text-sm">
+            <input
+              type="checkbox"
+              checked={viewOnly}
+              onChange={(e) => setViewOnly(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            <span>View only, no download</span>
+          </label>
+          <div className="flex justify-end">
+            <Button type="submit" size="sm" loading={createMutation.isLoading}>
+              Create 24h Link
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {createMutation.data && (
+        <Input readOnly value={createMutation.data.url} className="mb-3 text-xs" onFocus={(e) => e.target.select()} />
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : !links || links.length === 0 ? (
+        <p className="text-sm text-gray-500">This file has not been shared yet</p>
+      ) : (
+        <div className="space-y-2">
+          {links.map((link: ShareLinkWithDetails) => (
+            <div
+              key={link.id}
+              className="flex items-center justify-between border rounded-md px-3 py-2 text-sm"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center space-x-2">
+                  <Link2 className="w-3 h-3 text-gray-400" />
+                  <span className="font-medium truncate">{link.creatorName}</span>
+                  <span className={cn('px-2 py-0.5 text-xs rounded-full', STATUS_COLORS[link.status])}>
+                    {link.status}
+                  </span>
+                </div>
+                <div className="flex items-center text-xs text-gray-500 mt-1">
+                  <Clock className="w-3 h-3 mr-1" />
+                  {link.status === 'expired' ? 'Expired' : 'Expires'} {formatDateTime(link.expiresAt)}
+                </div>
+                <div className="flex items-center space-x-3 text-xs text-gray-500 mt-1">
+                  {link.hasPassword && (
+                    <span className="flex items-center"><Lock className="w-3 h-3 mr-1" />Password</span>
+                  )}
+                  {link.viewOnly ? (
+                    <span className="flex items-center"><Eye className="w-3 h-3 mr-1" />View only</span>
+                  ) : (
+                    <span className="flex items-center">
+                      <Download className="w-3 h-3 mr-1" />
+                      {link.downloadCount}{link.maxDownloads !== null ? ` / ${link.maxDownloads}` : ''}
+                    </span>
+                  )}
+                  <span>{link.accessCount} accesses</span>
+                </div>
+              </div>
+
+              {link.status !== 'revoked' && (
+                <div className="flex items-center space-x-1 ml-2">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => extendMutation.mutate({ id: link.id, expiresInHours: 24 })}
+                    disabled={extendMutation.isLoading}
+                  >
+                    +24h
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => revokeMutation.mutate({ id: link.id })}
+                    disabled={revokeMutation.isLoading}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    <XCircle className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(revokeMutation.error || extendMutation.error || createMutation.error) && (
+        <p className="mt-2 text-sm text-red-600">
+          {revokeMutation.error?.message || extendMutation.error?.message || createMutation.error?.message}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ShareLinksPanel;
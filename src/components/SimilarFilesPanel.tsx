@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { File as FileIcon } from 'lucide-react';
+import { trpc } from '@/lib/trpc';
+import type { FileWithDetails } from '@/types';
+
+interface SimilarFilesPanelProps {
+  fileId: string;
+  enabled?: boolean;
+  onSelect?: (file: FileWithDetails) => void;
+}
+
+export const SimilarFilesPanel: React.FC<SimilarFilesPanelProps> = ({
+  fileId,
+  enabled = true,
+  onSelect,
+}) => {
+  // Keyed by thumbnail path, as in the file grid
+  const [thumbUrls, setThumbUrls] = useState<Record<string, string>>({});
+
+  const { data, isLoading, error } = trpc.search.findSimilar.useQuery(
+    { fileId },
+    { enabled: enabled && !!fileId }
+  );
+  const similarFiles = (data?.files || []) as FileWithDetails[];
+
+  const viewUrlMutation = trpc.files.getViewUrl.useMutation();
+
+  useEffect(() => {
+    similarFiles.forEach(async file => {
+      const thumbnailPath = file.thumbnailPath;
+      if (thumbnailPath && !thumbUrls[thumbnailPath]) {
+        try {
+          const res = await viewUrlMutation.mutateAsync({ id: file.id, thumbnail: true });
+          setThumbUrls(prev => ({ ...prev, [thumbnailPath]: res.url }));
+        } catch {
+          // ignore errors
+        }
+      }
+    });
+  }, [data]);
+
+  return (
+    <div>
+      <h4 className="font-medium mb-2">More Like This</h4>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Finding similar files...</p>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error.message}</p>
+      ) : similarFiles.length === 0 ? (
+        <p className="text-sm text-gray-500">No similar files found</p>
+      ) : (
+        <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+          {similarFiles.map(file => (
+            <button
+              key={file.id}
+              type="button"
+              onClick={() => onSelect?.(file)}
+              className="text-left border rounded-md overflow-hidden hover:ring-2 hover:ring-blue-500"
+              title={file.originalName}
+            >
+              <div className="aspect-square bg-gray-100 flex items-center justify-center">
+                {file.thumbnailPath && thumbUrls[file.thumbnailPath] ? (
+                  <img
+                    src={thumbUrls[file.thumbnailPath]}
+                    alt={file.originalName}
+                    className="w-full h-full object-cover"
+                  />
+                ) : (
+                  <FileIcon className="w-6 h-6 text-gray-400" />
+                )}
+              </div>
+              <div className="px-2 py-1">
+                <p className="text-xs truncate">{file.originalName}</p>
+                {file.relevanceScore !== undefined && (
+                  <p className="text-xs text-gray-500">{Math.round(file.relevanceScore * 100)}% match</p>
+                )}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SimilarFilesPanel;
@@ -1,15 +1,21 @@
-import { useState, useCallback, useEffect, useMemo } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { trpc } from '../lib/trpc';
-import { debounce, parseSearchQuery } from '../lib/utils';
+import { debounce } from '../lib/utils';
+import { parseSearchQuery, formatFieldFilter, completeQuery } from '../lib/search-query';
 import type { 
   SearchState, 
   SearchFilters, 
   FileWithDetails, 
   FileCategory,
   SearchResult,
-  SearchRequest 
+  SearchRequest,
+  SearchSuggestion,
+  SearchImage,
+  SavedSearchSummary,
+  ResultAction
 } from '../types';
+import { MAX_SEARCH_IMAGE_SIZE, SUPPORTED_IMAGE_TYPES } from '../types';
 
 interface UseSearchOptions {
   initialQuery?: string;
@@ -20,6 +26,48 @@ interface UseSearchOptions {
   pageSize?: number;
 }
 
+// Write the filters to URL params, removing any that aren't set
+const setFilterParams = (params: URLSearchParams, filters: SearchFilters) => {
+  if (filters.siteIds?.length) {
+    params.set('sites', filters.siteIds.join(','));
+  } else {
+    params.delete('sites');
+  }
+  
+  if (filters.categories?.length) {
+    params.set('categories', filters.categories.join(','));
+  } else {
+    params.delete('categories');
+  }
+  
+  if (filters.dateFrom) {
+    params.set('dateFrom', filters.dateFrom);
+  } else {
+    params.delete('dateFrom');
+  }
+  
+  if (filters.dateTo) {
+    params.set('dateTo', filters.dateTo);
+  } else {
+    params.delete('dateTo');
+  }
+  
+  if (filters.mimeTypes?.length) {
+    params.set('mimeTypes', filters.mimeTypes.join(','));
+  } else {
+    params.delete('mimeTypes');
+  }
+};
+
+// A file's contents as base64, without the data URL prefix
+const readAsBase64 = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
 export const useSearch = (options: UseSearchOptions = {}) => {
   const {
     initialQuery = '',
@@ -39,7 +87,6 @@ export const useSearch = (options: UseSearchOptions = {}) => {
       const urlQuery = searchParams.get('q') || initialQuery;
       const urlSiteIds = searchParams.get('sites')?.split(',').filter(Boolean) || initialFilters.siteIds;
       const urlCategories = searchParams.get('categories')?.split(',').filter(Boolean) as FileCategory[] || initialFilters.categories;
-      const urlPage = parseInt(searchParams.get('page') || '1');
 
       return {
         query: urlQuery,
@@ -55,8 +102,11 @@ export const useSearch = (options: UseSearchOptions = {}) => {
         error: null,
         suggestions: [],
         total: 0,
-        page: urlPage,
+        nextCursor: null,
         hasMore: false,
+        facets: null,
+        image: null,
+        searchId: null,
       };
     }
 
@@ -68,21 +118,28 @@ export const useSearch = (options: UseSearchOptions = {}) => {
       error: null,
       suggestions: [],
       total: 0,
-      page: 1,
+      nextCursor: null,
       hasMore: false,
+      facets: null,
+      image: null,
+      searchId: null,
     };
   });
 
   // tRPC queries and mutations
   const searchMutation = trpc.search.search.useMutation({
-    onSuccess: (data: SearchResult) => {
+    onSuccess: (data: SearchResult, request: SearchRequest) => {
+      // Later pages are appended, and keep the facets of the first
       setSearchState(prev => ({
         ...prev,
-        results: prev.page === 1 ? data.files : [...prev.results, ...data.files],
+        results: request.cursor ? [...prev.results, ...data.files] : data.files,
         total: data.total,
         isLoading: false,
         error: null,
-        hasMore: data.files.length === pageSize && data.total > prev.results.length + data.files.length,
+        nextCursor: data.nextCursor,
+        hasMore: data.nextCursor !== null,
+        facets: data.facets ?? prev.facets,
+        searchId: request.cursor ? prev.searchId : data.searchId,
       }));
     },
     onError: (error) => {
@@ -117,9 +174,9 @@ export const useSearch = (options: UseSearchOptions = {}) => {
 
   // Debounced search function
   const debouncedSearch = useMemo(
-    () => debounce((query: string, filters: SearchFilters, page: number) => {
-      if (query.trim()) {
-        performSearch(query, filters, page);
+    () => debounce((query: string, filters: SearchFilters, image: SearchImage | null = null) => {
+      if (query.trim() || image) {
+        performSearch(query, filters, undefined, image);
       } else {
         clearResults();
       }
@@ -138,12 +195,20 @@ export const useSearch = (options: UseSearchOptions = {}) => {
   );
 
   // Perform search
+  // An image, when given, is searched with instead of the query
   const performSearch = useCallback(async (
     query: string,
     filters: SearchFilters = {},
-    page: number = 1
+    cursor?: string,
+    image: SearchImage | null = null
   ) => {
-    if (!query.trim()) {
+    if (!query.trim() && !image) {
+      clearResults();
+      return;
+    }
+
+    // Invalid queries are reported from parsedQuery rather than sent
+    if (!image && parseSearchQuery(query).error) {
       clearResults();
       return;
     }
@@ -152,17 +217,17 @@ export const useSearch = (options: UseSearchOptions = {}) => {
       ...prev,
       isLoading: true,
       error: null,
-      page,
     }));
 
     const searchRequest: SearchRequest = {
-      query: query.trim(),
+      query: image ? '' : query.trim(),
+      image: image || undefined,
       siteIds: filters.siteIds,
       categories: filters.categories,
       dateFrom: filters.dateFrom,
       dateTo: filters.dateTo,
       mimeTypes: filters.mimeTypes,
-      page,
+      cursor,
       limit: pageSize,
       sortBy: 'relevance',
       sortOrder: 'desc',
@@ -176,11 +241,12 @@ export const useSearch = (options: UseSearchOptions = {}) => {
   }, [searchMutation, pageSize]);
 
   // Update search query
+  // Typing a query switches back from searching by image
   const setQuery = useCallback((query: string) => {
     setSearchState(prev => ({
       ...prev,
       query,
-      page: 1,
+      image: null,
     }));
 
     // Update URL if enabled
@@ -191,13 +257,12 @@ export const useSearch = (options: UseSearchOptions = {}) => {
       } else {
         params.delete('q');
       }
-      params.set('page', '1');
       router.push(`?${params.toString()}`);
     }
 
     // Trigger search if auto-search is enabled
     if (autoSearch) {
-      debouncedSearch(query, searchState.filters, 1);
+      debouncedSearch(query, searchState.filters);
     }
 
     // Fetch suggestions
@@ -211,76 +276,112 @@ export const useSearch = (options: UseSearchOptions = {}) => {
     setSearchState(prev => ({
       ...prev,
       filters: newFilters,
-      page: 1,
     }));
 
     // Update URL if enabled
     if (saveToUrl) {
       const params = new URLSearchParams(searchParams?.toString() || '');
-      
-      if (newFilters.siteIds?.length) {
-        params.set('sites', newFilters.siteIds.join(','));
-      } else {
-        params.delete('sites');
-      }
-      
-      if (newFilters.categories?.length) {
-        params.set('categories', newFilters.categories.join(','));
-      } else {
-        params.delete('categories');
-      }
-      
-      if (newFilters.dateFrom) {
-        params.set('dateFrom', newFilters.dateFrom);
-      } else {
-        params.delete('dateFrom');
-      }
-      
-      if (newFilters.dateTo) {
-        params.set('dateTo', newFilters.dateTo);
-      } else {
-        params.delete('dateTo');
-      }
-      
-      if (newFilters.mimeTypes?.length) {
-        params.set('mimeTypes', newFilters.mimeTypes.join(','));
-      } else {
-        params.delete('mimeTypes');
-      }
-      
-      params.set('page', '1');
+      setFilterParams(params, newFilters);
       router.push(`?${params.toString()}`);
     }
 
-    // Trigger search if auto-search is enabled and we have a query
-    if (autoSearch && searchState.query.trim()) {
-      debouncedSearch(searchState.query, newFilters, 1);
+    // Trigger search if auto-search is enabled and we have a query or image
+    if (autoSearch && (searchState.query.trim() || searchState.image)) {
+      debouncedSearch(searchState.query, newFilters, searchState.image);
     }
-  }, [searchState.filters, searchState.query, saveToUrl, autoSearch, debouncedSearch, router, searchParams]);
+  }, [searchState.filters, searchState.query, searchState.image, saveToUrl, autoSearch, debouncedSearch, router, searchParams]);
 
-  // Load more results (pagination)
-  const loadMore = useCallback(() => {
-    if (!searchState.isLoading && searchState.hasMore && searchState.query.trim()) {
-      const nextPage = searchState.page + 1;
-      setSearchState(prev => ({ ...prev, page: nextPage }));
-      
-      // Update URL if enabled
-      if (saveToUrl) {
-        const params = new URLSearchParams(searchParams?.toString() || '');
-        params.set('page', nextPage.toString());
-        router.push(`?${params.toString()}`, { scroll: false });
-      }
+  // Replace the query and filters together and search, e.g. to run a saved search
+  const loadSearch = useCallback((query: string, filters: SearchFilters) => {
+    setSearchState(prev => ({
+      ...prev,
+      query,
+      filters,
+      image: null,
+    }));
+
+    if (saveToUrl) {
+      const params = new URLSearchParams();
+      params.set('q', query);
+      setFilterParams(params, filters);
+      router.push(`?${params.toString()}`);
+    }
+
+    performSearch(query, filters);
+  }, [saveToUrl, performSearch, router]);
 
-      performSearch(searchState.query, searchState.filters, nextPage);
+  // Load more results (the page after the last one loaded)
+  const loadMore = useCallback(() => {
+    if (!searchState.isLoading && searchState.nextCursor && (searchState.query.trim() || searchState.image)) {
+      performSearch(searchState.query, searchState.filters, searchState.nextCursor, searchState.image);
     }
-  }, [searchState, saveToUrl, performSearch, router, searchParams]);
+  }, [searchState, performSearch]);
+
+  // Whether the query already has this field filter
+  const hasQueryFilter = useCallback((field: string, value: string) => {
+    const filter = formatFieldFilter(field, value);
+    return ` ${searchState.query} `.includes(` ${filter} `);
+  }, [searchState.query]);
+
+  // Refine the query with a field filter, or take the filter out if it's already there
+  const toggleQueryFilter = useCallback((field: string, value: string) => {
+    const filter = formatFieldFilter(field, value);
+    const query = searchState.query.trim();
+    const padded = ` ${query} `;
+
+    setQuery(padded.includes(` ${filter} `)
+      ? padded.replace(` ${filter} `, ' ').trim()
+      : `${query} ${filter}`.trim());
+  }, [searchState.query, setQuery]);
+
+  // Term suggestions complete the word being typed; query suggestions replace the query
+  const applySuggestion = useCallback((suggestion: SearchSuggestion) => {
+    setQuery(suggestion.replaces === 'query'
+      ? suggestion.value
+      : completeQuery(searchState.query, suggestion.value));
+  }, [searchState.query, setQuery]);
 
   // Search with current params
   const search = useCallback(() => {
-    if (searchState.query.trim()) {
-      performSearch(searchState.query, searchState.filters, 1);
+    if (searchState.query.trim() || searchState.image) {
+      performSearch(searchState.query, searchState.filters, undefined, searchState.image);
     }
-  }, [searchState.query, searchState.filters, performSearch]);
+  }, [searchState.query, searchState.filters, searchState.image, performSearch]);
+
+  // Search for files that look like an image, replacing the query. The image is only
+  // sent for analysis, and is re-sent for later pages.
+  const searchByImage = useCallback(async (file: File) => {
+    if (!SUPPORTED_IMAGE_TYPES.includes(file.type)) {
+      setSearchState(prev => ({ ...prev, error: 'Choose a JPEG, PNG, GIF, WebP, BMP or TIFF image' }));
+      return;
+    }
+    if (file.size > MAX_SEARCH_IMAGE_SIZE) {
+      setSearchState(prev => ({ ...prev, error: 'Images to search with must be under 10MB' }));
+      return;
+    }
+
+    const image: SearchImage = {
+      data: await readAsBase64(file),
+      mimeType: file.type,
+      name: file.name,
+    };
+
+    setSearchState(prev => ({
+      ...prev,
+      query: '',
+      image,
+      suggestions: [],
+    }));
+
+    if (saveToUrl) {
+      const params = new URLSearchParams(searchParams?.toString() || '');
+      params.delete('q');
+      router.push(`?${params.toString()}`);
+    }
+
+    performSearch('', searchState.filters, undefined, image);
+  }, [searchState.filters, saveToUrl, performSearch, router, searchParams]);
+
 
   // Clear search results
   const clearResults = useCallback(() => {
@@ -288,12 +389,20 @@ export const useSearch = (options: UseSearchOptions = {}) => {
       ...prev,
       results: [],
       total: 0,
-      page: 1,
+      nextCursor: null,
       hasMore: false,
       error: null,
+      facets: null,
+      searchId: null,
     }));
   }, []);
 
+  // Stop searching by image
+  const clearImage = useCallback(() => {
+    setSearchState(prev => ({ ...prev, image: null }));
+    clearResults();
+  }, [clearResults]);
+
   // Clear everything (query, filters, results)
   const clearAll = useCallback(() => {
     setSearchState({
@@ -304,8 +413,11 @@ export const useSearch = (options: UseSearchOptions = {}) => {
       error: null,
       suggestions: [],
       total: 0,
-      page: 1,
+      nextCursor: null,
       hasMore: false,
+      facets: null,
+      image: null,
+      searchId: null,
     });
 
     // Clear URL params if enabled
@@ -317,10 +429,10 @@ export const useSearch = (options: UseSearchOptions = {}) => {
   // Quick search with a specific query
   const quickSearch = useCallback(async (query: string) => {
     setQuery(query);
-    await performSearch(query, searchState.filters, 1);
+    await performSearch(query, searchState.filters);
   }, [setQuery, performSearch, searchState.filters]);
 
-  // Get parsed search query (terms and filters)
+  // Get parsed search query (syntax tree, free-text terms and any syntax error)
   const parsedQuery = useMemo(() => {
     return parseSearchQuery(searchState.query);
   }, [searchState.query]);
@@ -338,8 +450,8 @@ export const useSearch = (options: UseSearchOptions = {}) => {
 
   // Check if search is active
   const hasActiveSearch = useMemo(() => {
-    return !!(searchState.query.trim() || hasFilters);
-  }, [searchState.query, hasFilters]);
+    return !!(searchState.query.trim() || searchState.image || hasFilters);
+  }, [searchState.query, searchState.image, hasFilters]);
 
   return {
     // State
@@ -350,8 +462,10 @@ export const useSearch = (options: UseSearchOptions = {}) => {
     isLoading: searchState.isLoading,
     error: searchState.error,
     total: searchState.total,
-    page: searchState.page,
     hasMore: searchState.hasMore,
+    facets: searchState.facets,
+    image: searchState.image,
+    searchId: searchState.searchId,
     
     // Actions
     setQuery,
@@ -361,9 +475,16 @@ export const useSearch = (options: UseSearchOptions = {}) => {
     clearResults,
     clearAll,
     quickSearch,
+    loadSearch,
+    toggleQueryFilter,
+    applySuggestion,
+    searchByImage,
+    clearImage,
     
     // Utilities
     parsedQuery,
+    queryError: parsedQuery.error,
+    hasQueryFilter,
     hasFilters,
     hasActiveSearch,
     hasResults: searchState.results.length > 0,
@@ -373,6 +494,48 @@ export const useSearch = (options: UseSearchOptions = {}) => {
   };
 };
 
+// Hook recording which results of a search were shown, and which of them were then
+// opened or downloaded, for click-through analytics and ranking. Positions are the
+// results' places in the list, from 1.
+export const useSearchTracking = (searchId: string | null, results: FileWithDetails[]) => {
+  const impressionsMutation = trpc.search.recordImpressions.useMutation();
+  const clickMutation = trpc.search.recordClick.useMutation();
+  // Results already recorded for the search, so each is recorded once as pages load
+  const recorded = useRef<{ searchId: string | null; fileIds: Set<string> }>({ searchId: null, fileIds: new Set() });
+
+  const describe = (file: FileWithDetails, index: number) => ({
+    fileId: file.id,
+    position: index + 1,
+    matchedBy: file.matchedBy || [],
+  });
+
+  useEffect(() => {
+    if (!searchId) return;
+    if (recorded.current.searchId !== searchId) {
+      recorded.current = { searchId, fileIds: new Set() };
+    }
+
+    const shown = results
+      .map(describe)
+      .filter(result => !recorded.current.fileIds.has(result.fileId));
+    if (shown.length === 0) return;
+
+    shown.forEach(result => recorded.current.fileIds.add(result.fileId));
+    impressionsMutation.mutateAsync({ searchId, results: shown })
+      .catch(error => console.error('Record impressions failed:', error));
+  }, [searchId, results]);
+
+  const trackClick = useCallback((file: FileWithDetails, action: ResultAction) => {
+    const index = results.findIndex(result => result.id === file.id);
+    if (!searchId || index === -1) return;
+
+    clickMutation.mutateAsync({ searchId, ...describe(file, index), action })
+      .catch(error => console.error('Record click failed:', error));
+  }, [searchId, results, clickMutation]);
+
+  return { trackClick };
+};
+
 // Hook for search analytics
 export const useSearchAnalytics = (dateFrom?: string, dateTo?: string) => {
   const { data, isLoading, error, refetch } = trpc.search.getSearchAnalytics.useQuery({
@@ -389,6 +552,69 @@ export const useSearchAnalytics = (dateFrom?: string, dateTo?: string) => {
   };
 };
 
+// Hook for the user's saved searches and their new matches
+export const useSavedSearches = (options: { enabled?: boolean } = {}) => {
+  const { enabled = true } = options;
+
+  const { data, isLoading, error, refetch } = trpc.search.listSavedSearches.useQuery(undefined, {
+    enabled,
+    refetchInterval: 5 * 60 * 1000, // New uploads show up within 5 minutes
+  });
+
+  const saveMutation = trpc.search.saveSearch.useMutation({
+    onSuccess: () => {
+      refetch();
+    },
+  });
+
+  const renameMutation = trpc.search.renameSavedSearch.useMutation({
+    onSuccess: () => {
+      refetch();
+    },
+  });
+
+  const deleteMutation = trpc.search.deleteSavedSearch.useMutation({
+    onSuccess: () => {
+      refetch();
+    },
+  });
+
+  const markViewedMutation = trpc.search.markSavedSearchViewed.useMutation({
+    onSuccess: () => {
+      refetch();
+    },
+  });
+
+  const saveSearch = useCallback(async (name: string, query: string, filters: SearchFilters) => {
+    return saveMutation.mutateAsync({ name, query, filters });
+  }, [saveMutation]);
+
+  const renameSearch = useCallback(async (id: string, name: string) => {
+    return renameMutation.mutateAsync({ id, name });
+  }, [renameMutation]);
+
+  const deleteSearch = useCallback(async (id: string) => {
+    return deleteMutation.mutateAsync({ id });
+  }, [deleteMutation]);
+
+  const markViewed = useCallback(async (id: string) => {
+    return markViewedMutation.mutateAsync({ id });
+  }, [markViewedMutation]);
+
+  return {
+    savedSearches: (data?.searches || []) as SavedSearchSummary[],
+    totalNewMatches: data?.totalNewMatches || 0,
+    isLoading,
+    error: error?.message,
+    saveSearch,
+    renameSearch,
+    deleteSearch,
+    markViewed,
+    isSaving: saveMutation.isLoading,
+    saveError: saveMutation.error?.message,
+  };
+};
+
 // Hook for clearing search history
 export const useClearSearchHistory = () => {
   const clearMutation = trpc.search.clearSearchHistory.useMutation();
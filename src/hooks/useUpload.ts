@@ -1,17 +1,53 @@
 import { useState, useCallback, useRef } from 'react';
 import { trpc } from '../lib/trpc';
-import { validateFileUpload, generateId } from '../lib/utils';
+import { validateFileUpload, generateId, formatCategoryLabel } from '../lib/utils';
+import { uploadFileResumable, uploadFileMultipart, UploadCancelledError } from '../lib/resumable-upload';
 import type { 
   FileCategory, 
   DragDropFile, 
   UploadState, 
-  FileUploadData,
+  UploadResult,
+  UploadSessionResponse,
+  DuplicateFile,
   UploadResponse 
 } from '../types';
 
+// Upload sessions are remembered per file so an interrupted upload resumes after a retry or reload
+const SESSION_STORAGE_PREFIX = 'dam-upload-session:';
+
+const getSessionKey = (siteId: string, category: FileCategory, file: File, versionOf?: string) =>
+  `${SESSION_STORAGE_PREFIX}${siteId}:${versionOf ? `version-of-${versionOf}` : category}:${file.name}:${file.size}:${file.lastModified}`;
+
+const readStoredSession = (key: string): string | null => {
+  try {
+    return window.localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+const storeSession = (key: string, sessionId: string | null) => {
+  try {
+    if (sessionId) {
+      window.localStorage.setItem(key, sessionId);
+    } else {
+      window.localStorage.removeItem(key);
+    }
+  } catch {
+    // Storage may be unavailable (private mode); uploads just won't resume across reloads
+  }
+};
+
+const getDuplicateWarning = (duplicates: DuplicateFile[]) =>
+  duplicates.length === 1
+    ? `Identical to "${duplicates[0].originalName}" (${formatCategoryLabel(duplicates[0].category)}) already in this site`
+    : `Identical to ${duplicates.length} files already in this site`;
+
 interface UseUploadOptions {
   siteId?: string;
   category?: FileCategory;
+  // Upload as the next version of this existing file instead of as a new file
+  versionOf?: string;
   onUploadComplete?: (response: UploadResponse) => void;
   onUploadError?: (error: string) => void;
   onProgressUpdate?: (progress: number) => void;
@@ -23,6 +59,7 @@ export const useUpload = (options: UseUploadOptions = {}) => {
   const {
     siteId: defaultSiteId,
     category: defaultCategory,
+    versionOf,
     onUploadComplete,
     onUploadError,
     onProgressUpdate,
@@ -39,41 +76,12 @@ export const useUpload = (options: UseUploadOptions = {}) => {
 
   const abortControllerRef = useRef<AbortController | null>(null);
 
-  // tRPC mutation for file upload
-  const uploadMutation = trpc.files.upload.useMutation({
-    onSuccess: (data) => {
-      setUploadState(prev => ({
-        ...prev,
-        isUploading: false,
-        progress: 100,
-        error: null,
-      }));
-      onUploadComplete?.(data);
-    },
-    onError: (error) => {
-      setUploadState(prev => ({
-        ...prev,
-        isUploading: false,
-        error: error.message,
-      }));
-      onUploadError?.(error.message);
-    },
-  });
+  const utils = trpc.useContext();
 
-  // Convert File to base64
-  const fileToBase64 = useCallback((file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => {
-        const result = reader.result as string;
-        // Remove data URL prefix
-        const base64 = result.split(',')[1];
-        resolve(base64);
-      };
-      reader.onerror = reject;
-    });
-  }, []);
+  // tRPC mutations for upload sessions
+  const createSessionMutation = trpc.files.createUploadSession.useMutation();
+  const partUrlsMutation = trpc.files.getUploadPartUrls.useMutation();
+  const completeUploadMutation = trpc.files.completeUpload.useMutation();
 
   // Add files to upload queue
   const addFiles = useCallback(async (newFiles: File[]) => {
@@ -162,6 +170,14 @@ export const useUpload = (options: UseUploadOptions = {}) => {
     }));
   }, []);
 
+  // Flag a file that uploaded fine but deserves the user's attention
+  const setFileWarning = useCallback((fileId: string, warning: string) => {
+    setUploadState(prev => ({
+      ...prev,
+      files: prev.files.map(f => (f.id === fileId ? { ...f, warning } : f)),
+    }));
+  }, []);
+
   // Start upload process
   const startUpload = useCallback(async (siteId: string, category: FileCategory) => {
     if (uploadState.files.length === 0) {
@@ -179,86 +195,136 @@ export const useUpload = (options: UseUploadOptions = {}) => {
       error: null,
     }));
 
-    try {
-      // Create abort controller for cancellation
-      abortControllerRef.current = new AbortController();
+    // Create abort controller for cancellation
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
 
-      // Convert files to upload format
-      const uploadFiles: FileUploadData[] = [];
-      const totalFiles = uploadState.files.length;
+    // Completed files are skipped so retries only send what is missing
+    const queue = uploadState.files.filter(f => f.status !== 'completed');
+    const totalBytes = queue.reduce((sum, f) => sum + f.file.size, 0);
+    const uploadedBytes: Record<string, number> = {};
 
-      for (let i = 0; i < uploadState.files.length; i++) {
-        const dragFile = uploadState.files[i];
-        
-        try {
-          // Update file status
-          updateFileProgress(dragFile.id, 0, 'uploading');
+    const reportProgress = (dragFile: DragDropFile, bytes: number) => {
+      uploadedBytes[dragFile.id] = bytes;
+      const fileProgress = dragFile.file.size > 0 ? Math.round((bytes / dragFile.file.size) * 100) : 100;
+      updateFileProgress(dragFile.id, fileProgress, 'uploading');
+
+      const sentBytes = Object.values(uploadedBytes).reduce((sum, value) => sum + value, 0);
+      const progress = totalBytes > 0 ? Math.round((sentBytes / totalBytes) * 100) : 100;
+      setUploadState(prev => ({ ...prev, progress }));
+      onProgressUpdate?.(progress);
+    };
 
-          // Convert to base64
-          const base64Data = await fileToBase64(dragFile.file);
+    const uploaded: UploadResult[] = [];
+    const errors: UploadResponse['errors'] = [];
 
-          uploadFiles.push({
-            name: dragFile.file.name,
-            size: dragFile.file.size,
-            type: dragFile.file.type,
-            data: base64Data,
-          });
+    try {
+      for (const dragFile of queue) {
+        const sessionKey = getSessionKey(siteId, category, dragFile.file, versionOf);
 
-          // Update progress
-          const progress = Math.round(((i + 1) / totalFiles) * 50); // First 50% for processing files
-          setUploadState(prev => ({ ...prev, progress }));
-          onProgressUpdate?.(progress);
+        try {
+          updateFileProgress(dragFile.id, 0, 'uploading');
 
+          // Resume a previous session for this file when storage still has it
+          let session: Pick<UploadSessionResponse, 'sessionId' | 'protocol' | 'uploadUrl' | 'chunkSize' | 'uploadedParts'> | null = null;
+          let isStored = false;
+          const storedSessionId = readStoredSession(sessionKey);
+          if (storedSessionId) {
+            try {
+              const existing = await utils.files.getUploadSession.fetch({ sessionId: storedSessionId });
+              session = existing;
+              isStored = existing.status === 'completed';
+            } catch {
+              storeSession(sessionKey, null);
+            }
+          }
+
+          if (!session) {
+            session = await createSessionMutation.mutateAsync({
+              siteId,
+              category,
+              name: dragFile.file.name,
+              size: dragFile.file.size,
+              type: dragFile.file.type,
+              versionOf,
+            });
+            storeSession(sessionKey, session.sessionId);
+          }
+
+          const { sessionId } = session;
+          const transferOptions = {
+            chunkSize: session.chunkSize,
+            signal: abortController.signal,
+            onProgress: (bytes: number) => reportProgress(dragFile, bytes),
+          };
+
+          // Completed sessions already have their bytes in storage; only registration is left
+          if (!isStored && session.protocol === 'multipart') {
+            await uploadFileMultipart(dragFile.file, {
+              ...transferOptions,
+              uploadedParts: session.uploadedParts,
+              getPartUrls: (partNumbers) => partUrlsMutation.mutateAsync({ sessionId, partNumbers }),
+            });
+          } else if (!isStored) {
+            await uploadFileResumable(dragFile.file, session.uploadUrl as string, transferOptions);
+          }
+
+          const result = await completeUploadMutation.mutateAsync({ sessionId });
+          storeSession(sessionKey, null);
+
+          uploaded.push(result);
+          uploadedBytes[dragFile.id] = dragFile.file.size;
+          updateFileProgress(dragFile.id, 100, 'completed');
+
+          if (result.duplicates.length > 0) {
+            setFileWarning(dragFile.id, getDuplicateWarning(result.duplicates));
+          }
         } catch (error) {
-          updateFileProgress(dragFile.id, 0, 'error', 'Failed to process file');
-          console.error(`Failed to process file ${dragFile.file.name}:`, error);
+          if (error instanceof UploadCancelledError) {
+            throw error;
+          }
+
+          console.error(`Failed to upload file ${dragFile.file.name}:`, error);
+          const message = (error instanceof Error && error.message) || 'Upload failed';
+          errors.push({ filename: dragFile.file.name, error: message });
+          updateFileProgress(dragFile.id, 0, 'error', message);
         }
       }
 
-      if (uploadFiles.length === 0) {
-        throw new Error('No valid files to upload');
-      }
-
-      // Upload to server
-      const response = await uploadMutation.mutateAsync({
-        siteId,
-        category,
-        files: uploadFiles,
-      });
-
-      // Update file statuses based on response
-      uploadState.files.forEach(dragFile => {
-        const wasUploaded = response.uploaded.some(
-          uploaded => uploaded.originalName === dragFile.file.name
-        );
-        const error = response.errors.find(
-          error => error.filename === dragFile.file.name
-        );
-
-        if (wasUploaded) {
-          updateFileProgress(dragFile.id, 100, 'completed');
-        } else if (error) {
-          updateFileProgress(dragFile.id, 0, 'error', error.error);
-        }
-      });
+      const response: UploadResponse = {
+        uploaded,
+        errors,
+        message: `Uploaded ${uploaded.length} file(s)${errors.length > 0 ? ` with ${errors.length} error(s)` : ''}`,
+      };
 
-      setUploadState(prev => ({ ...prev, progress: 100 }));
+      setUploadState(prev => ({
+        ...prev,
+        isUploading: false,
+        progress: 100,
+        error: uploaded.length === 0 && errors.length > 0 ? errors[0].error : null,
+      }));
       onProgressUpdate?.(100);
 
+      if (uploaded.length === 0 && errors.length > 0) {
+        onUploadError?.(errors[0].error);
+      } else {
+        onUploadComplete?.(response);
+      }
+
       return { 
-        success: true, 
+        success: uploaded.length > 0,
         response,
-        uploadedCount: response.uploaded.length,
-        errorCount: response.errors.length,
+        uploadedCount: uploaded.length,
+        errorCount: errors.length,
       };
 
     } catch (error: any) {
+      // Cancelled uploads keep their sessions so they can resume later
+      if (error instanceof UploadCancelledError) {
+        return { success: false, error: error.message };
+      }
+
       console.error('Upload error:', error);
-      
-      // Update all files as failed
-      uploadState.files.forEach(dragFile => {
-        updateFileProgress(dragFile.id, 0, 'error', error.message || 'Upload failed');
-      });
 
       const errorMessage = error.message || 'Upload failed';
       setUploadState(prev => ({
@@ -266,12 +332,13 @@ export const useUpload = (options: UseUploadOptions = {}) => {
         isUploading: false,
         error: errorMessage,
       }));
+      onUploadError?.(errorMessage);
 
       return { success: false, error: errorMessage };
     } finally {
       abortControllerRef.current = null;
     }
-  }, [uploadState.files, uploadState.isUploading, updateFileProgress, fileToBase64, uploadMutation, onProgressUpdate]);
+  }, [uploadState.files, uploadState.isUploading, versionOf, updateFileProgress, setFileWarning, utils, createSessionMutation, partUrlsMutation, completeUploadMutation, onUploadComplete, onUploadError, onProgressUpdate]);
 
   // Cancel upload
   const cancelUpload = useCallback(() => {
@@ -349,9 +416,6 @@ export const useUpload = (options: UseUploadOptions = {}) => {
     getUploadStats,
     canAddMore: uploadState.files.length < maxFiles,
     hasFiles: uploadState.files.length > 0,
-    
-    // Mutation state
-    isUploading: uploadMutation.isLoading || uploadState.isUploading,
   };
 };
 
@@ -0,0 +1,14 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  // Missing storage config fails startup rather than the first upload
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { getStorageDriver } = await import('./lib/storage');
+    getStorageDriver();
+  }
+
+  // The processing worker needs Node APIs, and can run as its own process instead (npm run worker)
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.JOB_WORKER_ENABLED !== 'false') {
+    const { startJobWorker } = await import('./lib/jobs');
+    startJobWorker();
+  }
+}
@@ -0,0 +1,200 @@
+import { readPdf, joinPdfPages } from '../pdf';
+import { readDxf, type DrawingMetadata } from '../dxf';
+import type { AIAnalysisResult, DocumentAnalysisResult, DocumentContent, ProcessingError } from './types';
+
+// Turns extracted document text into a description and tags, or null when it can't
+export type DocumentSummarizer = (text: string) => Promise<AIAnalysisResult | null>;
+
+// Product codes and SKUs such as "AB-1234" or "TL5502"
+const PRODUCT_CODE_PATTERN = /\b[A-Z]{1,4}-?\d{2,}[A-Z]?\b/g;
+
+// Common words left out of heuristic document keywords
+const STOP_WORDS = new Set([
+  'this', 'that', 'with', 'from', 'have', 'will', 'shall', 'been', 'were', 'which',
+  'their', 'there', 'these', 'those', 'into', 'such', 'each', 'other', 'than', 'also',
+  'page', 'must', 'should', 'where', 'when', 'only', 'more', 'your', 'they', 'what',
+]);
+
+// Extract keywords from filename
+export const extractFilenameKeywords = (filename: string): string[] => {
+  const name = filename.toLowerCase()
+    .replace(/\.[^/.]+$/, '') // Remove extension
+    .replace(/[_-]/g, ' ') // Replace underscores and hyphens with spaces
+    .replace(/[^a-z0-9\s]/g, '') // Remove special characters
+    .trim();
+
+  const words = name.split(/\s+/).filter(word => word.length > 2);
+  
+  // Common interior design terms to preserve
+  const designTerms = [
+    'modern', 'contemporary', 'traditional', 'rustic', 'industrial',
+    'minimalist', 'vintage', 'classic', 'luxury', 'bohemian',
+    'living', 'bedroom', 'kitchen', 'bathroom', 'dining',
+    'furniture', 'lighting', 'decor', 'textile', 'accessory',
+    'chair', 'table', 'sofa', 'lamp', 'cabinet', 'shelf',
+  ];
+
+  return words.filter(word => 
+    designTerms.includes(word) || word.length >= 4
+  ).slice(0, 5);
+};
+
+// Create fallback analysis when AI fails
+export const createFallbackAnalysis = (filename: string, mimeType: string): AIAnalysisResult => {
+  const filenameTags = extractFilenameKeywords(filename);
+  
+  return {
+    description: `Interior design asset: ${filename}`,
+    tags: filenameTags.length > 0 ? filenameTags : ['interior', 'design', 'asset'],
+    confidence: 0.3,
+  };
+};
+
+// Analyze PDF or CAD file. PDFs have their text layer extracted and summarised,
+// and their first page rendered for a thumbnail. DXF drawings are parsed for
+// layers, blocks and text, and rendered for a thumbnail. Without a summarizer,
+// or when it fails, PDF text is summarised heuristically.
+export const analyzeDocumentContents = async (
+  documentBuffer: Buffer,
+  mimeType: string,
+  filename: string,
+  summarize?: DocumentSummarizer
+): Promise<DocumentAnalysisResult | ProcessingError> => {
+  try {
+    const filenameTags = extractFilenameKeywords(filename);
+    const extension = filename.split('.').pop()?.toLowerCase();
+
+    if (extension === 'pdf' || mimeType === 'application/pdf') {
+      return await analyzePdf(documentBuffer, filename, filenameTags, summarize);
+    }
+
+    if (extension === 'dxf') {
+      const result = analyzeDxf(documentBuffer, filename, filenameTags);
+      if (result) return result;
+    }
+
+    let documentType = 'document';
+    let additionalTags: string[] = [];
+
+    switch (extension) {
+      case 'dwg':
+      case 'dxf':
+        documentType = 'CAD drawing';
+        additionalTags = ['cad', 'drawing', 'technical', 'blueprint'];
+        break;
+      default:
+        additionalTags = ['document'];
+    }
+
+    return {
+      description: `${documentType}: ${filename}`,
+      tags: Array.from(new Set([...filenameTags, ...additionalTags])),
+      confidence: 0.7,
+    };
+  } catch (error) {
+    // A document that can't be parsed won't parse on a retry either
+    console.error('Document analysis failed:', error);
+    return {
+      error: 'Document could not be read',
+      code: 'UNSUPPORTED_FORMAT',
+      retryable: false,
+    };
+  }
+};
+
+const analyzePdf = async (
+  buffer: Buffer,
+  filename: string,
+  filenameTags: string[],
+  summarize?: DocumentSummarizer
+): Promise<DocumentAnalysisResult> => {
+  const pdf = await readPdf(buffer);
+  const text = joinPdfPages(pdf.pages);
+  const content: DocumentContent = { text, preview: pdf.preview };
+  const pdfTags = ['pdf', 'document'];
+
+  // Scanned PDFs have no text layer to work from
+  if (!text.replace(/\f/g, '').trim()) {
+    return {
+      description: `PDF document: ${filename}`,
+      tags: Array.from(new Set([...filenameTags, ...pdfTags, 'specification'])),
+      pageCount: pdf.pageCount,
+      confidence: 0.5,
+      content,
+    };
+  }
+
+  const summary = (summarize && (await summarize(text))) || summarizeTextHeuristically(text, filename);
+
+  return {
+    ...summary,
+    tags: Array.from(new Set([...summary.tags, ...filenameTags, ...pdfTags])).slice(0, 30),
+    pageCount: pdf.pageCount,
+    content,
+  };
+};
+
+// Binary DXF and DWG files can't be parsed, so they get the generic CAD analysis
+const analyzeDxf = (
+  buffer: Buffer,
+  filename: string,
+  filenameTags: string[]
+): DocumentAnalysisResult | null => {
+  const dxf = readDxf(buffer);
+  if (!dxf) return null;
+
+  const { drawing } = dxf;
+  const details = [
+    drawing.layers.length > 0 && `${drawing.layers.length} layer${drawing.layers.length === 1 ? '' : 's'}`,
+    drawing.blocks.length > 0 && `${drawing.blocks.length} block${drawing.blocks.length === 1 ? '' : 's'}`,
+    drawing.extents && formatExtents(drawing),
+  ].filter(Boolean);
+
+  return {
+    description: `CAD drawing: ${filename}${details.length > 0 ? ` (${details.join(', ')})` : ''}`,
+    tags: Array.from(new Set([
+      ...filenameTags,
+      'cad',
+      'drawing',
+      'technical',
+      'blueprint',
+      'dxf',
+      ...drawing.layers.slice(0, 20),
+      ...drawing.blocks.slice(0, 20),
+    ])),
+    drawing,
+    confidence: 0.7,
+    content: { text: drawing.texts.join('\n'), preview: dxf.preview },
+  };
+};
+
+const formatExtents = ({ extents, units }: DrawingMetadata): string => {
+  if (!extents) return '';
+  const size = (value: number) => Number(value.toPrecision(4));
+  return `${size(extents.maxX - extents.minX)} × ${size(extents.maxY - extents.minY)}${units ? ` ${units}` : ''}`;
+};
+
+// Fallback summary: the opening sentences, frequent words and any product codes
+const summarizeTextHeuristically = (text: string, filename: string): AIAnalysisResult => {
+  const flattened = text.replace(/\f/g, ' ');
+  const opening = flattened.split(/(?<=[.!?])\s+/).slice(0, 2).join(' ').slice(0, 300);
+  const productCodes = Array.from(new Set(flattened.match(PRODUCT_CODE_PATTERN) || [])).slice(0, 20);
+
+  const counts = new Map<string, number>();
+  for (const word of flattened.toLowerCase().match(/[a-z]{4,}/g) || []) {
+    if (STOP_WORDS.has(word)) continue;
+    counts.set(word, (counts.get(word) || 0) + 1);
+  }
+  const keywords = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 10)
+    .map(([word]) => word);
+
+  return {
+    description: opening ? `PDF document: ${opening}` : `PDF document: ${filename}`,
+    tags: [...keywords, ...productCodes],
+    productCodes,
+    confidence: 0.5,
+  };
+};
+
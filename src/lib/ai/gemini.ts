@@ -0,0 +1,45 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { createModelProvider } from './model';
+import type { AIProvider } from './types';
+
+export interface GeminiProviderConfig {
+  apiKey: string;
+  model: string;
+  embeddingModel: string;
+  minSimilarity: number;
+}
+
+// Texts per batchEmbedContents request
+const EMBED_BATCH_SIZE = 100;
+
+export const createGeminiProvider = (config: GeminiProviderConfig): AIProvider => {
+  const genAI = new GoogleGenerativeAI(config.apiKey);
+  const model = genAI.getGenerativeModel({ model: config.model });
+  const embeddingModel = genAI.getGenerativeModel({ model: config.embeddingModel });
+
+  return createModelProvider('gemini', {
+    embeddingModel: `gemini/${config.embeddingModel}`,
+    minSimilarity: config.minSimilarity,
+    generate: async (prompt, image) => {
+      const result = await model.generateContent(
+        image
+          ? [prompt, { inlineData: { data: image.data.toString('base64'), mimeType: image.mimeType } }]
+          : prompt
+      );
+      const response = await result.response;
+      return response.text();
+    },
+    embed: async texts => {
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+        const { embeddings } = await embeddingModel.batchEmbedContents({
+          requests: texts.slice(i, i + EMBED_BATCH_SIZE).map(text => ({
+            content: { role: 'user', parts: [{ text }] },
+          })),
+        });
+        vectors.push(...embeddings.map(embedding => embedding.values));
+      }
+      return vectors;
+    },
+  });
+};
@@ -0,0 +1,159 @@
+import { createGeminiProvider } from './gemini';
+import { createOpenAIProvider } from './openai';
+import { createStubProvider } from './stub';
+import type {
+  AIAnalysisResult,
+  AIProvider,
+  AIProviderName,
+  DocumentAnalysisResult,
+  ProcessingError,
+} from './types';
+
+export type {
+  AIAnalysisResult,
+  AIProvider,
+  AIProviderName,
+  CameraMetadata,
+  DocumentAnalysisResult,
+  DocumentContent,
+  ProcessingError,
+} from './types';
+
+const AI_PROVIDER_NAMES: AIProviderName[] = ['gemini', 'openai', 'stub'];
+
+let provider: AIProvider | null = null;
+
+export const isAIProviderName = (name: string): name is AIProviderName =>
+  AI_PROVIDER_NAMES.includes(name as AIProviderName);
+
+// AI_PROVIDER picks the backend; without it Gemini is used when an API key is
+// configured, otherwise the offline stub
+export const getAIProviderName = (): AIProviderName => {
+  const configured = process.env.AI_PROVIDER;
+  if (configured && isAIProviderName(configured)) {
+    return configured;
+  }
+  if (configured) {
+    throw new Error(`Unknown AI_PROVIDER "${configured}" (expected ${AI_PROVIDER_NAMES.join(', ')})`);
+  }
+  return process.env.GEMINI_API_KEY ? 'gemini' : 'stub';
+};
+
+// Build a provider from environment config
+export const createAIProvider = (name: AIProviderName): AIProvider => {
+  if (name === 'gemini') {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new Error('GEMINI_API_KEY environment variable is required');
+    }
+
+    return createGeminiProvider({
+      apiKey,
+      model: process.env.GEMINI_MODEL || 'gemini-1.5-flash',
+      embeddingModel: process.env.GEMINI_EMBEDDING_MODEL || 'text-embedding-004',
+      // text-embedding-004 scores unrelated texts around 0.4-0.5
+      minSimilarity: parseFloat(process.env.GEMINI_MIN_SIMILARITY || '0.6'),
+    });
+  }
+
+  if (name === 'openai') {
+    return createOpenAIProvider({
+      baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+      apiKey: process.env.OPENAI_API_KEY || undefined,
+      model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+      embeddingModel: process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small',
+      // text-embedding-3-small scores unrelated texts around 0.1-0.25
+      minSimilarity: parseFloat(process.env.OPENAI_MIN_SIMILARITY || '0.35'),
+    });
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    console.warn('⚠️  Using the stub AI provider: files get filename and EXIF based tags only');
+  }
+  return createStubProvider();
+};
+
+// Providers are created on first use so importing this module never requires AI config
+export const getAIProvider = (): AIProvider => {
+  if (!provider) {
+    provider = createAIProvider(getAIProviderName());
+  }
+  return provider;
+};
+
+// Analyze an image for descriptions and tags
+export const analyzeImage = (
+  imageBuffer: Buffer,
+  mimeType: string,
+  filename: string
+): Promise<AIAnalysisResult | ProcessingError> =>
+  getAIProvider().analyzeImage(imageBuffer, mimeType, filename);
+
+// Analyze a PDF or CAD file, extracting its text and a preview where possible
+export const analyzeDocument = (
+  documentBuffer: Buffer,
+  mimeType: string,
+  filename: string
+): Promise<DocumentAnalysisResult | ProcessingError> =>
+  getAIProvider().analyzeDocument(documentBuffer, mimeType, filename);
+
+// Batch processing for multiple files
+export const batchAnalyzeFiles = async (
+  files: Array<{
+    buffer: Buffer;
+    mimeType: string;
+    filename: string;
+    id: string;
+  }>,
+  batchSize: number = 5
+): Promise<Array<{
+  id: string;
+  result: AIAnalysisResult | ProcessingError;
+}>> => {
+  const results: Array<{
+    id: string;
+    result: AIAnalysisResult | ProcessingError;
+  }> = [];
+
+  // Process in batches to avoid rate limiting
+  for (let i = 0; i < files.length; i += batchSize) {
+    const batch = files.slice(i, i + batchSize);
+    
+    const batchPromises = batch.map(async (file) => {
+      // Add delay between requests
+      await new Promise(resolve => setTimeout(resolve, 200 * (i % batchSize)));
+      
+      const result = file.mimeType.startsWith('image/') 
+        ? await analyzeImage(file.buffer, file.mimeType, file.filename)
+        : await analyzeDocument(file.buffer, file.mimeType, file.filename);
+
+      return {
+        id: file.id,
+        result,
+      };
+    });
+
+    const batchResults = await Promise.all(batchPromises);
+    results.push(...batchResults);
+
+    // Wait between batches to respect rate limits
+    if (i + batchSize < files.length) {
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+  }
+
+  return results;
+};
+
+// Check AI service health
+export const checkAIService = (): Promise<boolean> => getAIProvider().checkAIService();
+
+// Embedding vectors for texts, from the configured provider's embedding model
+export const embedTexts = (texts: string[]): Promise<number[][]> => getAIProvider().embed(texts);
+
+export default {
+  analyzeImage,
+  analyzeDocument,
+  batchAnalyzeFiles,
+  checkAIService,
+};
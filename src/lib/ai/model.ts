@@ -0,0 +1,186 @@
+import { analyzeDocumentContents, createFallbackAnalysis, extractFilenameKeywords } from './documents';
+import type { AIAnalysisResult, AIProvider, AIProviderName, ModelClient, ProcessingError } from './types';
+
+// Image analysis prompt for interior design context
+const ANALYSIS_PROMPT = `
+You are an expert interior design analyst. Analyze this image and provide detailed information for a digital asset management system used by interior designers.
+
+Please provide a JSON response with the following structure:
+{
+  "description": "A detailed description of what's shown in the image (2-3 sentences)",
+  "tags": ["relevant", "searchable", "keywords"],
+  "roomType": "living room|bedroom|kitchen|bathroom|dining room|office|hallway|outdoor|other",
+  "styleElements": ["modern", "traditional", "minimalist", "industrial", etc.],
+  "colors": ["primary", "color", "palette"],
+  "materials": ["wood", "metal", "fabric", "stone", etc.],
+  "objects": ["furniture", "lighting", "accessories", "etc."],
+  "confidence": 0.95
+}
+
+Focus on:
+1. Interior design elements and styles
+2. Furniture and fixtures
+3. Color schemes and materials
+4. Room layout and functionality
+5. Design trends and aesthetic qualities
+
+Be specific and use terminology that interior designers would search for.
+`;
+
+// Document analysis prompt, followed by the document's extracted text
+const DOCUMENT_PROMPT = `
+You are an expert interior design analyst. Below is the text extracted from a document (for example a specification, schedule, quote or product sheet) stored in a digital asset management system used by interior designers.
+
+Please provide a JSON response with the following structure:
+{
+  "description": "A summary of what the document is and covers (2-3 sentences)",
+  "tags": ["relevant", "searchable", "keywords"],
+  "roomType": "living room|bedroom|kitchen|bathroom|dining room|office|hallway|outdoor|other",
+  "materials": ["wood", "metal", "fabric", "stone", etc.],
+  "productCodes": ["product codes", "SKUs", "model numbers"]
+}
+
+Use terminology that interior designers would search for. Only include product codes that appear in the text.
+
+Document text:
+`;
+
+// Text sent to the model is capped to keep requests small; the full text is still stored
+const MAX_PROMPT_TEXT_LENGTH = 12_000;
+
+// Models often wrap JSON in markdown fences
+const stripCodeFences = (raw: string): string => {
+  const text = raw.trim();
+  if (text.startsWith('```')) {
+    return text.replace(/^```(?:json)?\r?\n?/, '').replace(/```$/, '').trim();
+  }
+  return text;
+};
+
+const stringList = (value: unknown, limit: number): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string').slice(0, limit) : [];
+
+const toProcessingError = (error: unknown): ProcessingError => {
+  const message = error instanceof Error ? error.message : '';
+  if (message.includes('quota') || message.includes('rate limit')) {
+    return {
+      error: 'AI service quota exceeded',
+      code: 'QUOTA_EXCEEDED',
+      retryable: true,
+    };
+  }
+
+  if (message.includes('invalid image') || message.includes('unsupported')) {
+    return {
+      error: 'Invalid or unsupported image format',
+      code: 'INVALID_IMAGE',
+      retryable: false,
+    };
+  }
+
+  return {
+    error: 'AI analysis service temporarily unavailable',
+    code: 'API_ERROR',
+    retryable: true,
+  };
+};
+
+// A provider backed by a generative model. Prompts and response handling are
+// shared; the client only moves prompts and responses over its API.
+export const createModelProvider = (name: AIProviderName, client: ModelClient): AIProvider => {
+  const analyzeImage = async (
+    imageBuffer: Buffer,
+    mimeType: string,
+    filename: string
+  ): Promise<AIAnalysisResult | ProcessingError> => {
+    try {
+      // Validate image format
+      if (!mimeType.startsWith('image/')) {
+        return {
+          error: 'File is not an image',
+          code: 'UNSUPPORTED_FORMAT',
+          retryable: false,
+        };
+      }
+
+      const text = stripCodeFences(await client.generate(ANALYSIS_PROMPT, { data: imageBuffer, mimeType }));
+
+      // Parse JSON response
+      try {
+        const analysisResult = JSON.parse(text);
+
+        // Validate and clean the response
+        const cleanedResult: AIAnalysisResult = {
+          description: analysisResult.description || 'Interior design asset',
+          tags: stringList(analysisResult.tags, 20),
+          roomType: analysisResult.roomType || undefined,
+          styleElements: stringList(analysisResult.styleElements, 10),
+          colors: stringList(analysisResult.colors, 10),
+          materials: stringList(analysisResult.materials, 10),
+          objects: stringList(analysisResult.objects, 15),
+          confidence: typeof analysisResult.confidence === 'number' ?
+            Math.max(0, Math.min(1, analysisResult.confidence)) :
+            0.8,
+        };
+
+        // Add filename-based tags
+        const filenameTags = extractFilenameKeywords(filename);
+        cleanedResult.tags = Array.from(new Set([...cleanedResult.tags, ...filenameTags]));
+
+        return cleanedResult;
+      } catch (parseError) {
+        console.error('Failed to parse AI response:', parseError);
+        console.error('Original AI Response:', text);
+
+        // Fallback to basic analysis
+        return createFallbackAnalysis(filename, mimeType);
+      }
+    } catch (error) {
+      console.error('AI analysis failed:', error);
+      return toProcessingError(error);
+    }
+  };
+
+  // Ask the model for a description and tags from a document's text, or null if it fails
+  const summarizeDocumentText = async (text: string): Promise<AIAnalysisResult | null> => {
+    try {
+      const excerpt = text.replace(/\f/g, '\n').slice(0, MAX_PROMPT_TEXT_LENGTH);
+      const parsed = JSON.parse(stripCodeFences(await client.generate(DOCUMENT_PROMPT + excerpt)));
+      const productCodes = stringList(parsed.productCodes, 20);
+
+      return {
+        description: parsed.description || 'Document',
+        tags: [...stringList(parsed.tags, 20), ...productCodes],
+        roomType: parsed.roomType || undefined,
+        materials: stringList(parsed.materials, 10),
+        productCodes,
+        confidence: 0.8,
+      };
+    } catch (error) {
+      console.error('Document summary failed:', error);
+      return null;
+    }
+  };
+
+  // Check AI service health
+  const checkAIService = async (): Promise<boolean> => {
+    try {
+      const text = await client.generate('Respond with just the word "OK" if you can read this.');
+      return text.trim().toLowerCase().includes('ok');
+    } catch (error) {
+      console.error('AI service health check failed:', error);
+      return false;
+    }
+  };
+
+  return {
+    name,
+    embeddingModel: client.embeddingModel,
+    minSimilarity: client.minSimilarity,
+    analyzeImage,
+    analyzeDocument: (documentBuffer, mimeType, filename) =>
+      analyzeDocumentContents(documentBuffer, mimeType, filename, summarizeDocumentText),
+    checkAIService,
+    embed: texts => client.embed(texts),
+  };
+};
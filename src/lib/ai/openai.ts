@@ -0,0 +1,80 @@
+import { createModelProvider } from './model';
+import type { AIProvider } from './types';
+
+export interface OpenAIProviderConfig {
+  // API root including the version, e.g. https://api.openai.com/v1 or http://localhost:11434/v1
+  baseUrl: string;
+  // Optional for local model servers that don't check it
+  apiKey?: string;
+  model: string;
+  embeddingModel: string;
+  minSimilarity: number;
+}
+
+const REQUEST_TIMEOUT = 2 * 60 * 1000;
+
+// Chat completions and embeddings over HTTP. Works with OpenAI and servers that implement its API,
+// such as Ollama, LM Studio, vLLM and llama.cpp.
+export const createOpenAIProvider = (config: OpenAIProviderConfig): AIProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  const request = async (path: string, body: object): Promise<any> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      // Worded so rate limiting is reported as a quota error
+      const reason = response.status === 429 ? 'rate limit exceeded' : `status ${response.status}`;
+      throw new Error(`Model request failed (${reason}): ${detail.slice(0, 500)}`);
+    }
+
+    return response.json();
+  };
+
+  return createModelProvider('openai', {
+    embeddingModel: `openai/${config.embeddingModel}`,
+    minSimilarity: config.minSimilarity,
+    generate: async (prompt, image) => {
+      const content = image
+        ? [
+            { type: 'text', text: prompt },
+            {
+              type: 'image_url',
+              image_url: { url: `data:${image.mimeType};base64,${image.data.toString('base64')}` },
+            },
+          ]
+        : prompt;
+
+      const data = await request('/chat/completions', {
+        model: config.model,
+        messages: [{ role: 'user', content }],
+        temperature: 0.2,
+      });
+
+      const message = data?.choices?.[0]?.message?.content;
+      if (typeof message !== 'string') {
+        throw new Error('Model response did not include any content');
+      }
+      return message;
+    },
+    embed: async texts => {
+      const data = await request('/embeddings', { model: config.embeddingModel, input: texts });
+      if (!Array.isArray(data?.data) || data.data.length !== texts.length) {
+        throw new Error('Embedding response did not include a vector per input');
+      }
+      // Results carry their input index and aren't guaranteed to be in order
+      const items: Array<{ index: number; embedding: number[] }> = data.data;
+      return [...items]
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding);
+    },
+  });
+};
@@ -0,0 +1,143 @@
+import sharp from 'sharp';
+import exifReader from 'exif-reader';
+import { analyzeDocumentContents, extractFilenameKeywords } from './documents';
+import type { AIAnalysisResult, AIProvider, CameraMetadata, ProcessingError } from './types';
+
+// Room types recognised in filenames, matched against the words of the name
+const ROOM_TYPES: Array<{ roomType: string; words: string[] }> = [
+  { roomType: 'living room', words: ['living', 'lounge'] },
+  { roomType: 'bedroom', words: ['bedroom', 'bed'] },
+  { roomType: 'kitchen', words: ['kitchen'] },
+  { roomType: 'bathroom', words: ['bathroom', 'bath', 'ensuite', 'shower'] },
+  { roomType: 'dining room', words: ['dining'] },
+  { roomType: 'office', words: ['office', 'study'] },
+  { roomType: 'hallway', words: ['hallway', 'hall', 'entrance'] },
+  { roomType: 'outdoor', words: ['outdoor', 'garden', 'patio', 'terrace'] },
+];
+
+// Size of the hashed bag-of-words vectors the stub uses as embeddings
+const STUB_EMBEDDING_DIMENSIONS = 256;
+
+interface ImageDetails {
+  width?: number;
+  height?: number;
+  camera: CameraMetadata | null;
+}
+
+const nameWords = (filename: string): string[] =>
+  filename.toLowerCase().replace(/\.[^/.]+$/, '').split(/[^a-z0-9]+/).filter(Boolean);
+
+const guessRoomType = (filename: string): string | undefined => {
+  const words = nameWords(filename);
+  return ROOM_TYPES.find(room => room.words.some(word => words.includes(word)))?.roomType;
+};
+
+const readImageDetails = async (buffer: Buffer): Promise<ImageDetails> => {
+  try {
+    const metadata = await sharp(buffer).metadata();
+    let camera: CameraMetadata | null = null;
+
+    if (metadata.exif) {
+      const exif = exifReader(metadata.exif);
+      const takenAt = exif.Photo?.DateTimeOriginal || exif.Image?.DateTime;
+      camera = {
+        make: exif.Image?.Make?.trim() || undefined,
+        model: exif.Image?.Model?.trim() || undefined,
+        lens: exif.Photo?.LensModel?.trim() || undefined,
+        takenAt: takenAt instanceof Date && !isNaN(takenAt.getTime()) ? takenAt.toISOString() : undefined,
+        hasLocation: exif.GPSInfo?.GPSLatitude !== undefined,
+      };
+    }
+
+    // EXIF orientations 5-8 are rotated a quarter turn
+    const rotated = (metadata.orientation || 1) >= 5;
+    return {
+      width: rotated ? metadata.height : metadata.width,
+      height: rotated ? metadata.width : metadata.height,
+      camera,
+    };
+  } catch (error) {
+    console.error('Failed to read image metadata:', error);
+    return { camera: null };
+  }
+};
+
+// Analysis derived only from the filename and EXIF data, so the same file always
+// gets the same result. For development and tests without a model.
+const analyzeImage = async (
+  imageBuffer: Buffer,
+  mimeType: string,
+  filename: string
+): Promise<AIAnalysisResult | ProcessingError> => {
+  if (!mimeType.startsWith('image/')) {
+    return {
+      error: 'File is not an image',
+      code: 'UNSUPPORTED_FORMAT',
+      retryable: false,
+    };
+  }
+
+  const { width, height, camera } = await readImageDetails(imageBuffer);
+  const roomType = guessRoomType(filename);
+  const tags = [...extractFilenameKeywords(filename)];
+
+  if (roomType) tags.push(roomType);
+  if (width && height) {
+    tags.push(width === height ? 'square' : width > height ? 'landscape' : 'portrait');
+  }
+  if (camera?.make || camera?.model) tags.push('photo');
+  if (camera?.make) tags.push(camera.make.split(/\s+/)[0].toLowerCase());
+  if (camera?.takenAt) tags.push(camera.takenAt.slice(0, 4));
+  if (camera?.hasLocation) tags.push('geotagged');
+
+  const cameraName = [camera?.make, camera?.model].filter(Boolean).join(' ');
+  const details = [
+    cameraName && `taken with ${cameraName}`,
+    camera?.takenAt && `on ${camera.takenAt.slice(0, 10)}`,
+  ].filter(Boolean);
+
+  return {
+    description: details.length > 0
+      ? `Photo ${details.join(' ')}: ${filename}`
+      : `Interior design asset: ${filename}`,
+    tags: Array.from(new Set(tags)),
+    roomType,
+    camera: camera || undefined,
+    confidence: 0.4,
+  };
+};
+
+// FNV-1a, so every process hashes a word to the same bucket
+const hashToken = (token: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Feature-hashed word counts, normalised to unit length. Texts sharing words
+// score as similar, which is enough to exercise vector search offline.
+const embedText = (text: string): number[] => {
+  const vector = new Array<number>(STUB_EMBEDDING_DIMENSIONS).fill(0);
+  for (const token of text.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length >= 3)) {
+    const hash = hashToken(token);
+    vector[hash % STUB_EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -1 : 1;
+  }
+
+  const length = Math.hypot(...vector);
+  return length > 0 ? vector.map(value => value / length) : vector;
+};
+
+export const createStubProvider = (): AIProvider => ({
+  name: 'stub',
+  embeddingModel: `stub/hashed-words-${STUB_EMBEDDING_DIMENSIONS}`,
+  // Texts without a word in common score about 0; one shared word among many is low
+  minSimilarity: 0.1,
+  analyzeImage,
+  analyzeDocument: (documentBuffer, mimeType, filename) =>
+    analyzeDocumentContents(documentBuffer, mimeType, filename),
+  checkAIService: async () => true,
+  embed: async texts => texts.map(embedText),
+});
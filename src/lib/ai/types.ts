@@ -0,0 +1,75 @@
+import type { DrawingMetadata } from '../dxf';
+
+export type AIProviderName = 'gemini' | 'openai' | 'stub';
+
+export interface AIAnalysisResult {
+  description: string;
+  tags: string[];
+  roomType?: string;
+  styleElements?: string[];
+  colors?: string[];
+  materials?: string[];
+  objects?: string[];
+  productCodes?: string[];
+  pageCount?: number;
+  drawing?: DrawingMetadata;
+  camera?: CameraMetadata;
+  confidence?: number;
+}
+
+// Capture details read from an image's EXIF data
+export interface CameraMetadata {
+  make?: string;
+  model?: string;
+  lens?: string;
+  takenAt?: string; // ISO 8601
+  hasLocation: boolean;
+}
+
+export interface ProcessingError {
+  error: string;
+  code: 'UNSUPPORTED_FORMAT' | 'API_ERROR' | 'INVALID_IMAGE' | 'QUOTA_EXCEEDED';
+  retryable: boolean;
+}
+
+// Extracted document contents, saved alongside the analysis rather than in metadata
+export interface DocumentContent {
+  text: string;
+  preview: Buffer | null; // Rendered page or drawing, used for the thumbnail
+}
+
+export type DocumentAnalysisResult = AIAnalysisResult & { content?: DocumentContent };
+
+// Everything the app needs from an AI backend
+export interface AIProvider {
+  readonly name: AIProviderName;
+  // Identifies the embedding model; vectors from different models aren't comparable
+  readonly embeddingModel: string;
+  // Cosine similarity below which the model's embeddings are of unrelated texts. Each
+  // model spreads its scores differently, so this is set per model.
+  readonly minSimilarity: number;
+
+  analyzeImage(imageBuffer: Buffer, mimeType: string, filename: string): Promise<AIAnalysisResult | ProcessingError>;
+  analyzeDocument(
+    documentBuffer: Buffer,
+    mimeType: string,
+    filename: string
+  ): Promise<DocumentAnalysisResult | ProcessingError>;
+  checkAIService(): Promise<boolean>;
+  // One embedding vector per text, in order. Throws when the request fails.
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface ModelImage {
+  data: Buffer;
+  mimeType: string;
+}
+
+// A generative model reached over some API: takes a prompt (and optionally an
+// image) and returns the model's text response, and embeds text
+export interface ModelClient {
+  readonly embeddingModel: string;
+  readonly minSimilarity: number;
+  generate(prompt: string, image?: ModelImage): Promise<string>;
+  embed(texts: string[]): Promise<number[][]>;
+}
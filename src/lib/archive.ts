@@ -0,0 +1,73 @@
+import archiver from 'archiver';
+import path from 'path';
+import { Readable } from 'stream';
+import { createFileReadStream } from './storage';
+
+export interface ArchiveEntry {
+  name: string;
+  storagePath: string;
+}
+
+// Stream a ZIP of stored files without buffering them in memory.
+// Entries are opened one at a time so only a single storage download is in flight.
+export const createZipStream = (entries: ArchiveEntry[]): ReadableStream<Uint8Array> => {
+  const archive = archiver('zip', { store: true });
+  const usedNames = new Set<string>();
+
+  archive.on('warning', (error) => {
+    console.warn('ZIP archive warning:', error);
+  });
+
+  const appendEntries = async () => {
+    for (const entry of entries) {
+      const name = getUniqueArchiveName(entry.name, usedNames);
+
+      await new Promise<void>((resolve, reject) => {
+        const onEntry = () => {
+          archive.off('error', onError);
+          resolve();
+        };
+        const onError = (error: Error) => {
+          archive.off('entry', onEntry);
+          reject(error);
+        };
+
+        archive.once('entry', onEntry);
+        archive.once('error', onError);
+        archive.append(createFileReadStream(entry.storagePath), { name });
+      });
+    }
+
+    await archive.finalize();
+  };
+
+  appendEntries().catch((error) => {
+    console.error('ZIP archive creation failed:', error);
+    archive.destroy(error);
+  });
+
+  return Readable.toWeb(archive) as ReadableStream<Uint8Array>;
+};
+
+// Keep original filenames, suffixing duplicates as "name (2).ext"
+export const getUniqueArchiveName = (originalName: string, usedNames: Set<string>): string => {
+  const safeName = originalName.replace(/[\\/]/g, '_') || 'file';
+  const ext = path.extname(safeName);
+  const base = safeName.slice(0, safeName.length - ext.length);
+
+  let name = safeName;
+  let counter = 2;
+  while (usedNames.has(name.toLowerCase())) {
+    name = `${base} (${counter})${ext}`;
+    counter++;
+  }
+
+  usedNames.add(name.toLowerCase());
+  return name;
+};
+
+// Build a Content-Disposition header that survives non-ASCII archive names
+export const getAttachmentHeader = (filename: string): string => {
+  const asciiName = filename.replace(/[^\x20-\x7e]/g, '_').replace(/"/g, '');
+  return `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+};
@@ -1,8 +1,10 @@
-import { drizzle } from 'drizzle-orm/libsql';
-import { drizzle as drizzlePg } from 'drizzle-orm/postgres-js';
-import { createClient } from '@libsql/client';
+import { drizzle, type LibSQLDatabase } from 'drizzle-orm/libsql';
+import { drizzle as drizzlePg, type PostgresJsDatabase } from 'drizzle-orm/postgres-js';
+import type { SQL } from 'drizzle-orm';
+import { createClient, type Client } from '@libsql/client';
 import postgres from 'postgres';
 import * as schema from '../../database/schema';
+import type { FullTextQuery } from './search-query';
 import { migrate } from 'drizzle-orm/libsql/migrator';
 import { migrate as migratePg } from 'drizzle-orm/postgres-js/migrator';
 import path from 'path';
@@ -11,8 +13,11 @@ import fs from 'fs';
 // Raw DB client for direct SQL operations
 let rawClient: any;
 
-// Driver client for queries
-let db: ReturnType<typeof drizzle> | ReturnType<typeof drizzlePg>;
+// Driver client for queries. Typed as the SQLite client to match the schema's
+// tables; queries must stick to what both dialects support, so no .run(), .all() or
+// .get() from SQLite and no .execute() from PostgreSQL.
+export type Database = LibSQLDatabase<typeof schema>;
+let db: Database;
 
 const isLocal = process.env.NODE_ENV === 'development';
 
@@ -28,7 +33,7 @@ if (isLocal) {
   const connectionString = process.env.DATABASE_URL;
   if (!connectionString) throw new Error('DATABASE_URL environment variable is required');
   rawClient = postgres(connectionString, { max:10, idle_timeout:20, connect_timeout:10 });
-  db = drizzlePg(rawClient, { schema });
+  db = drizzlePg(rawClient, { schema }) as unknown as Database;
 }
 
 // Database utilities
@@ -54,57 +59,147 @@ export const runMigrations = async () => {
   }
 };
 
-// Full-text search utilities
-export const searchFiles = async (query: string, siteIds: string[] = []) => {
+// Rows of a raw SQL query, for what the query builder can't express
+export const selectRows = async <T extends Record<string, unknown>>(query: SQL): Promise<T[]> => {
+  if (isLocal) return db.all<T>(query);
+  const rows = await (db as unknown as PostgresJsDatabase<typeof schema>).execute(query);
+  return Array.from(rows) as T[];
+};
+
+// Filters applied to full-text search, as passed to tier-2 search
+export interface FullTextSearchOptions {
+  siteIds: string[];
+  categories?: string[];
+  dateFrom?: string;
+  dateTo?: string;
+  mimeTypes?: string[];
+  limit: number;
+  // Other words each query word may match instead, e.g. synonyms, by lowercase word
+  alternatives?: Record<string, string[]>;
+}
+
+// Column weights for ranking: name, description, tags, then extracted text
+const FTS_WEIGHTS = { name: 10, description: 5, tags: 5, text: 1 };
+
+// Quote each word of the query as an FTS5 prefix term, so punctuation and operator
+// words in user input can't break the MATCH syntax. The words of a term are ANDed
+// together, and a word with alternatives matches any of them.
+const toFtsQuery = (query: FullTextQuery, alternatives: Record<string, string[]> = {}): string => {
+  const group = (parts: string[], operator: string) => {
+    const nonEmpty = parts.filter(Boolean);
+    return nonEmpty.length > 1 ? `(${nonEmpty.join(` ${operator} `)})` : nonEmpty[0] || '';
+  };
+
+  if (query.type !== 'term') {
+    return group(query.children.map(child => toFtsQuery(child, alternatives)), query.type.toUpperCase());
+  }
+  return group(
+    query.value
+      .split(/\s+/)
+      .map(word => word.replace(/"/g, ''))
+      .filter(Boolean)
+      .map(word => group(
+        [word, ...(alternatives[word.toLowerCase()] || [])].map(term => `"${term.replace(/"/g, '')}"*`),
+        'OR'
+      )),
+    'AND'
+  );
+};
+
+// Full-text search utilities. Returns matching file ids with the best match first.
+export const searchFiles = async (
+  query: FullTextQuery,
+  options: FullTextSearchOptions
+): Promise<Array<{ id: string; rank: number }>> => {
   const client = rawClient;
+  if (options.siteIds.length === 0) return [];
+
   if (isLocal) {
-    // LibSQL search (basic text search, FTS5 setup is more complex)
-    const siteFilter = siteIds.length > 0 
-      ? `AND site_id IN (${siteIds.map(() => '?').join(',')})`
-      : '';
-    
-    const params = [`%${query}%`, `%${query}%`, `%${query}%`, `%${query}%`];
-    if (siteIds.length > 0) {
-      params.push(...siteIds);
+    // SQLite FTS5, see setupFullTextSearch in scripts/setup-db.js
+    const ftsQuery = toFtsQuery(query, options.alternatives);
+    if (!ftsQuery) return [];
+
+    const placeholders = (values: unknown[]) => values.map(() => '?').join(', ');
+    const conditions = ['files_fts MATCH ?', `files.site_id IN (${placeholders(options.siteIds)})`];
+    const args: Array<string | number> = [ftsQuery, ...options.siteIds];
+
+    if (options.categories && options.categories.length > 0) {
+      conditions.push(`files.category IN (${placeholders(options.categories)})`);
+      args.push(...options.categories);
+    }
+    // Timestamps are stored in seconds
+    if (options.dateFrom) {
+      conditions.push('files.created_at >= ?');
+      args.push(Math.floor(new Date(options.dateFrom).getTime() / 1000));
+    }
+    if (options.dateTo) {
+      conditions.push('files.created_at <= ?');
+      args.push(Math.floor(new Date(options.dateTo).getTime() / 1000));
     }
-    
-    const result = await client.execute({
+    if (options.mimeTypes && options.mimeTypes.length > 0) {
+      conditions.push(`files.mime_type IN (${placeholders(options.mimeTypes)})`);
+      args.push(...options.mimeTypes);
+    }
+
+    // bm25 is lower for better matches. Index rows map to files through files_fts_rowids.
+    const result = await (client as Client).execute({
       sql: `
-        SELECT * FROM files
-        WHERE (
-          filename LIKE ? OR 
-          original_name LIKE ? OR 
-          ai_description LIKE ? OR 
-          ai_tags LIKE ?
-        ) ${siteFilter}
-        ORDER BY created_at DESC
-        LIMIT 50
+        SELECT files.id AS id,
+          bm25(files_fts, ${FTS_WEIGHTS.name}, ${FTS_WEIGHTS.description}, ${FTS_WEIGHTS.tags}, ${FTS_WEIGHTS.text}) AS rank
+        FROM files_fts
+        INNER JOIN files_fts_rowids ON files_fts_rowids.id = files_fts.rowid
+        INNER JOIN files ON files.id = files_fts_rowids.file_id
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY rank
+        LIMIT ?
       `,
-      args: params
+      args: [...args, options.limit],
     });
-    
-    return result.rows;
+
+    return result.rows.map(row => ({ id: String(row.id), rank: -Number(row.rank) }));
   } else {
     // PostgreSQL full-text search
-    const siteFilter = siteIds.length > 0 
-      ? `AND site_id = ANY($${siteIds.length + 1})`
-      : '';
-    
-    const result = await client`
-      SELECT *,
-        ts_rank(
-          to_tsvector('english', filename || ' ' || original_name || ' ' || COALESCE(ai_description, '') || ' ' || COALESCE(ai_tags, '')),
-          plainto_tsquery('english', ${query})
-        ) as rank
+    const sql = client as postgres.Sql;
+    const document = sql`
+      setweight(to_tsvector('english', original_name), 'A') ||
+      setweight(to_tsvector('english', COALESCE(ai_description, '') || ' ' || COALESCE(ai_tags, '')), 'B') ||
+      setweight(to_tsvector('english', COALESCE(extracted_text, '')), 'D')
+    `;
+    // Words with alternatives are ORed with them, and the words of a term ANDed
+    const alternatives = options.alternatives || {};
+    const toTsQuery = (node: FullTextQuery): postgres.PendingQuery<postgres.Row[]> => {
+      if (node.type !== 'term') {
+        const operator = node.type === 'and' ? sql`&&` : sql`||`;
+        return node.children
+          .map(toTsQuery)
+          .reduce((combined, next) => sql`(${combined}) ${operator} (${next})`);
+      }
+      const words = node.value.split(/\s+/).filter(Boolean);
+      if (!words.some(word => alternatives[word.toLowerCase()])) {
+        return sql`plainto_tsquery('english', ${node.value})`;
+      }
+      return words
+        .map(word => [word, ...(alternatives[word.toLowerCase()] || [])]
+          .map(term => sql`plainto_tsquery('english', ${term})`)
+          .reduce((either, next) => sql`${either} || ${next}`))
+        .reduce((both, next) => sql`(${both}) && (${next})`);
+    };
+    const tsQuery = sql`(${toTsQuery(query)})`;
+
+    const result = await sql`
+      SELECT id, ts_rank(${document}, ${tsQuery}) AS rank
       FROM files
-      WHERE to_tsvector('english', filename || ' ' || original_name || ' ' || COALESCE(ai_description, '') || ' ' || COALESCE(ai_tags, ''))
-        @@ plainto_tsquery('english', ${query})
-      ${siteFilter}
+      WHERE ${document} @@ ${tsQuery}
+        AND site_id IN ${sql(options.siteIds)}
+        ${options.categories && options.categories.length > 0 ? sql`AND category IN ${sql(options.categories)}` : sql``}
+        ${options.dateFrom ? sql`AND created_at >= ${new Date(options.dateFrom)}` : sql``}
+        ${options.dateTo ? sql`AND created_at <= ${new Date(options.dateTo)}` : sql``}
+        ${options.mimeTypes && options.mimeTypes.length > 0 ? sql`AND mime_type IN ${sql(options.mimeTypes)}` : sql``}
       ORDER BY rank DESC
-      LIMIT 50
+      LIMIT ${options.limit}
     `;
-    
-    return result;
+
+    return result.map(row => ({ id: String(row.id), rank: Number(row.rank) }));
   }
 };
 
@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { sql } from 'drizzle-orm';
+import { db } from './db';
+import { deleteFile } from './storage';
+import { releaseStoredObject } from './dedup';
+
+// Only the columns counting references touches
+vi.mock('./db', async () => {
+  const { createClient } = await import('@libsql/client');
+  const { drizzle } = await import('drizzle-orm/libsql');
+  const db = drizzle(createClient({ url: ':memory:' }));
+  await db.run(sql`CREATE TABLE files (id TEXT PRIMARY KEY, gcs_path TEXT NOT NULL)`);
+  await db.run(sql`CREATE TABLE file_versions (id TEXT PRIMARY KEY, gcs_path TEXT NOT NULL)`);
+  return { db };
+});
+
+vi.mock('./storage', () => ({ deleteFile: vi.fn(async () => true) }));
+
+describe('releaseStoredObject', () => {
+  beforeEach(async () => {
+    vi.mocked(deleteFile).mockClear();
+    await db.run(sql`DELETE FROM files`);
+    await db.run(sql`DELETE FROM file_versions`);
+  });
+
+  it('deletes an object nothing references', async () => {
+    await db.run(sql`INSERT INTO files (id, gcs_path) VALUES ('other', 'sites/a/other.jpg')`);
+    expect(await releaseStoredObject('sites/a/photo.jpg')).toBe(true);
+    expect(deleteFile).toHaveBeenCalledWith('sites/a/photo.jpg');
+  });
+
+  it('keeps an object another file shares', async () => {
+    await db.run(sql`INSERT INTO files (id, gcs_path) VALUES ('copy', 'sites/a/photo.jpg')`);
+    expect(await releaseStoredObject('sites/a/photo.jpg')).toBe(false);
+    expect(deleteFile).not.toHaveBeenCalled();
+  });
+
+  it('keeps an object an earlier version still points at', async () => {
+    await db.run(sql`INSERT INTO file_versions (id, gcs_path) VALUES ('v1', 'sites/a/photo.jpg')`);
+    expect(await releaseStoredObject('sites/a/photo.jpg')).toBe(false);
+    expect(deleteFile).not.toHaveBeenCalled();
+  });
+
+  it('reports whether the object was deleted', async () => {
+    vi.mocked(deleteFile).mockResolvedValueOnce(false);
+    expect(await releaseStoredObject('sites/a/missing.jpg')).toBe(false);
+  });
+});
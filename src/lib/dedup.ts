@@ -0,0 +1,86 @@
+import crypto from 'crypto';
+import type { Readable } from 'stream';
+import { eq, and, ne, sql } from 'drizzle-orm';
+import { db } from './db';
+import { deleteFile } from './storage';
+import { files, fileVersions } from '../../database/schema';
+
+export interface DuplicateFile {
+  id: string;
+  originalName: string;
+  category: string;
+  createdAt: Date;
+}
+
+// SHA-256 of a file's bytes, hex encoded, read a chunk at a time so large files
+// aren't held in memory
+export const computeContentHash = (stream: Readable): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    stream.on('data', chunk => hash.update(chunk));
+    stream.on('end', () => resolve(hash.digest('hex')));
+    stream.on('error', reject);
+  });
+
+// Files in a site with identical contents
+export const findDuplicateFiles = async (
+  siteId: string,
+  contentHash: string,
+  excludeFileId?: string
+): Promise<DuplicateFile[]> => {
+  const conditions = [eq(files.siteId, siteId), eq(files.contentHash, contentHash)];
+  if (excludeFileId) {
+    conditions.push(ne(files.id, excludeFileId));
+  }
+
+  return db
+    .select({
+      id: files.id,
+      originalName: files.originalName,
+      category: files.category,
+      createdAt: files.createdAt,
+    })
+    .from(files)
+    .where(and(...conditions))
+    .limit(10);
+};
+
+// An already stored object with these contents, so new uploads can share its bytes
+export const findStoredObject = async (
+  contentHash: string,
+  size: number
+): Promise<{ gcsPath: string; thumbnailPath: string | null } | null> => {
+  const [existing] = await db
+    .select({ gcsPath: files.gcsPath, thumbnailPath: files.thumbnailPath })
+    .from(files)
+    .where(and(eq(files.contentHash, contentHash), eq(files.size, size)))
+    .limit(1);
+
+  return existing || null;
+};
+
+// Number of file and version rows whose bytes live at this storage path
+export const countObjectReferences = async (gcsPath: string): Promise<number> => {
+  const [[fileResult], [versionResult]] = await Promise.all([
+    db
+      .select({ count: sql<number>`count(*)` })
+      .from(files)
+      .where(eq(files.gcsPath, gcsPath)),
+    db
+      .select({ count: sql<number>`count(*)` })
+      .from(fileVersions)
+      .where(eq(fileVersions.gcsPath, gcsPath)),
+  ]);
+
+  return Number(fileResult?.count || 0) + Number(versionResult?.count || 0);
+};
+
+// Delete a stored object (and its thumbnail) once nothing references it any more.
+// Call after removing the referencing row.
+export const releaseStoredObject = async (gcsPath: string): Promise<boolean> => {
+  if ((await countObjectReferences(gcsPath)) > 0) {
+    return false;
+  }
+
+  return deleteFile(gcsPath);
+};
@@ -0,0 +1,377 @@
+import DxfParser, {
+  type IDxf,
+  type IEntity,
+  type IPoint,
+  type ILineEntity,
+  type ILwpolylineEntity,
+  type IPolylineEntity,
+  type ICircleEntity,
+  type IArcEntity,
+  type ITextEntity,
+  type IMtextEntity,
+  type IInsertEntity,
+} from 'dxf-parser';
+
+// Width of the rendered preview in pixels; generateThumbnail scales it down from here
+const PREVIEW_WIDTH = 1000;
+// Caps keep huge drawings from producing enormous previews and metadata
+const MAX_PREVIEW_SHAPES = 20_000;
+const MAX_TEXT_ITEMS = 500;
+const MAX_BLOCK_DEPTH = 8;
+// Segments used to approximate a full circle when flattening arcs
+const ARC_SEGMENTS = 64;
+
+export interface DrawingExtents {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface DrawingMetadata {
+  layers: string[];
+  blocks: string[]; // Named blocks; anonymous and layout blocks are left out
+  texts: string[]; // TEXT and MTEXT content, formatting codes removed
+  extents: DrawingExtents | null;
+  units: string | null;
+  entityCounts: Record<string, number>;
+}
+
+export interface DxfContent {
+  drawing: DrawingMetadata;
+  preview: Buffer | null; // SVG rendering of model space
+}
+
+type Shape =
+  | { kind: 'path'; points: Point[]; closed: boolean }
+  | { kind: 'circle'; center: Point; radius: number }
+  | { kind: 'text'; position: Point; height: number; rotation: number; text: string };
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// 2D affine transform: x' = a*x + c*y + e, y' = b*x + d*y + f
+interface Transform {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+const IDENTITY: Transform = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+
+// $INSUNITS codes for the units a drawing is in
+const INSERT_UNITS: Record<number, string> = {
+  1: 'inches',
+  2: 'feet',
+  4: 'millimeters',
+  5: 'centimeters',
+  6: 'meters',
+  14: 'decimeters',
+};
+
+// Parse an ASCII DXF drawing. Returns null when the file can't be parsed,
+// e.g. binary DXF.
+export const readDxf = (buffer: Buffer): DxfContent | null => {
+  let dxf: IDxf | null;
+  try {
+    dxf = new DxfParser().parseSync(buffer.toString('utf8'));
+  } catch (error) {
+    console.error('DXF parsing failed:', error);
+    return null;
+  }
+  if (!dxf) return null;
+
+  const entities = dxf.entities || [];
+  const shapes: Shape[] = [];
+  collectShapes(dxf, entities, IDENTITY, 0, shapes);
+
+  const drawing: DrawingMetadata = {
+    layers: Object.keys(dxf.tables?.layer?.layers || {}).filter(name => name !== '0'),
+    blocks: Object.keys(dxf.blocks || {}).filter(name => !name.startsWith('*')),
+    texts: collectTexts(dxf, entities),
+    extents: headerExtents(dxf) || shapeExtents(shapes),
+    units: INSERT_UNITS[Number(dxf.header?.$INSUNITS)] || null,
+    entityCounts: countEntities(entities),
+  };
+
+  let preview: Buffer | null = null;
+  if (shapes.length > 0 && drawing.extents) {
+    preview = Buffer.from(renderSvg(shapes, drawing.extents));
+  }
+
+  return { drawing, preview };
+};
+
+const countEntities = (entities: IEntity[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  for (const entity of entities) {
+    counts[entity.type] = (counts[entity.type] || 0) + 1;
+  }
+  return counts;
+};
+
+// Text from model space and the blocks it uses, deduplicated
+const collectTexts = (dxf: IDxf, entities: IEntity[]): string[] => {
+  const texts = new Set<string>();
+  const blocks = Object.values(dxf.blocks || {});
+
+  for (const entity of [...entities, ...blocks.flatMap(block => block.entities || [])]) {
+    if (texts.size >= MAX_TEXT_ITEMS) break;
+
+    const text = entityText(entity);
+    if (text) texts.add(text);
+  }
+
+  return Array.from(texts);
+};
+
+const entityText = (entity: IEntity): string | null => {
+  let text: string | undefined;
+  if (entity.type === 'TEXT') {
+    text = (entity as ITextEntity).text;
+  } else if (entity.type === 'MTEXT') {
+    text = stripMtextFormatting((entity as IMtextEntity).text || '');
+  }
+
+  const cleaned = text?.replace(/\s+/g, ' ').trim();
+  return cleaned || null;
+};
+
+// MTEXT embeds formatting such as \P (paragraph), \fArial|b0; (font) and {...} groups
+const stripMtextFormatting = (text: string): string =>
+  text
+    .replace(/\\P/gi, ' ')
+    .replace(/\\[ACcFfHhQqTtWw][^;]*;/g, '')
+    .replace(/\\S([^;]*)[\^#/]([^;]*);/g, '$1/$2')
+    .replace(/\\[LlOoKkNn~]/g, ' ')
+    .replace(/\\(.)/g, '$1')
+    .replace(/[{}]/g, '');
+
+// Drawing extents saved by the CAD program, when present and sane
+const headerExtents = (dxf: IDxf): DrawingExtents | null => {
+  const min = dxf.header?.$EXTMIN as IPoint | undefined;
+  const max = dxf.header?.$EXTMAX as IPoint | undefined;
+  if (!min || !max || typeof min !== 'object' || typeof max !== 'object') return null;
+
+  // Unset extents are stored as +/-1e20
+  if (!(max.x > min.x && max.y > min.y) || Math.abs(min.x) >= 1e19 || Math.abs(max.x) >= 1e19) {
+    return null;
+  }
+
+  return { minX: min.x, minY: min.y, maxX: max.x, maxY: max.y };
+};
+
+const shapeExtents = (shapes: Shape[]): DrawingExtents | null => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  const include = (x: number, y: number) => {
+    if (!Number.isFinite(x) || !Number.isFinite(y)) return;
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  };
+
+  for (const shape of shapes) {
+    if (shape.kind === 'path') {
+      shape.points.forEach(point => include(point.x, point.y));
+    } else if (shape.kind === 'circle') {
+      include(shape.center.x - shape.radius, shape.center.y - shape.radius);
+      include(shape.center.x + shape.radius, shape.center.y + shape.radius);
+    } else {
+      include(shape.position.x, shape.position.y);
+    }
+  }
+
+  if (minX === Infinity) return null;
+  // A single point or line still needs an area to render
+  if (maxX === minX) maxX = minX + 1;
+  if (maxY === minY) maxY = minY + 1;
+
+  return { minX, minY, maxX, maxY };
+};
+
+const applyTransform = (point: Point, t: Transform): Point => ({
+  x: t.a * point.x + t.c * point.y + t.e,
+  y: t.b * point.x + t.d * point.y + t.f,
+});
+
+// Apply an inner transform, then an outer one
+const composeTransforms = (outer: Transform, inner: Transform): Transform => ({
+  a: outer.a * inner.a + outer.c * inner.b,
+  b: outer.b * inner.a + outer.d * inner.b,
+  c: outer.a * inner.c + outer.c * inner.d,
+  d: outer.b * inner.c + outer.d * inner.d,
+  e: outer.a * inner.e + outer.c * inner.f + outer.e,
+  f: outer.b * inner.e + outer.d * inner.f + outer.f,
+});
+
+// Placement of a block reference: scale, then rotate (degrees), then move
+const placementTransform = (
+  scaleX: number,
+  scaleY: number,
+  rotation: number,
+  offset: Point
+): Transform => {
+  const radians = (rotation * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return { a: cos * scaleX, b: sin * scaleX, c: -sin * scaleY, d: cos * scaleY, e: offset.x, f: offset.y };
+};
+
+const transformScale = (t: Transform): number => Math.hypot(t.a, t.b);
+
+// Circles stay circles unless a block reference stretches or skews them
+const preservesCircles = (t: Transform): boolean =>
+  Math.abs(Math.hypot(t.a, t.b) - Math.hypot(t.c, t.d)) < 1e-9 && Math.abs(t.a * t.c + t.b * t.d) < 1e-9;
+
+const arcPoints = (center: Point, radius: number, start: number, end: number): Point[] => {
+  const sweep = end > start ? end - start : end - start + Math.PI * 2;
+  const segments = Math.max(4, Math.ceil((sweep / (Math.PI * 2)) * ARC_SEGMENTS));
+  const points: Point[] = [];
+  for (let i = 0; i <= segments; i++) {
+    const angle = start + (sweep * i) / segments;
+    points.push({ x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) });
+  }
+  return points;
+};
+
+// Flatten model space into shapes in world coordinates, expanding block references
+const collectShapes = (
+  dxf: IDxf,
+  entities: IEntity[],
+  transform: Transform,
+  depth: number,
+  shapes: Shape[]
+) => {
+  for (const entity of entities) {
+    if (shapes.length >= MAX_PREVIEW_SHAPES) return;
+    if (entity.inPaperSpace || entity.visible === false) continue;
+
+    const path = (points: Point[], closed = false) => {
+      if (points.length < 2) return;
+      shapes.push({ kind: 'path', points: points.map(point => applyTransform(point, transform)), closed });
+    };
+
+    switch (entity.type) {
+      case 'LINE':
+        path((entity as ILineEntity).vertices || []);
+        break;
+      case 'LWPOLYLINE':
+      case 'POLYLINE': {
+        const polyline = entity as ILwpolylineEntity | IPolylineEntity;
+        path(polyline.vertices || [], polyline.shape);
+        break;
+      }
+      case 'CIRCLE': {
+        const circle = entity as ICircleEntity;
+        if (preservesCircles(transform)) {
+          shapes.push({
+            kind: 'circle',
+            center: applyTransform(circle.center, transform),
+            radius: circle.radius * transformScale(transform),
+          });
+        } else {
+          path(arcPoints(circle.center, circle.radius, 0, Math.PI * 2), true);
+        }
+        break;
+      }
+      case 'ARC': {
+        const arc = entity as IArcEntity;
+        path(arcPoints(arc.center, arc.radius, arc.startAngle, arc.endAngle));
+        break;
+      }
+      case 'TEXT':
+      case 'MTEXT': {
+        const text = entityText(entity);
+        if (!text) break;
+
+        const isMtext = entity.type === 'MTEXT';
+        const position = isMtext ? (entity as IMtextEntity).position : (entity as ITextEntity).startPoint;
+        const height = isMtext ? (entity as IMtextEntity).height : (entity as ITextEntity).textHeight;
+        if (!position) break;
+
+        shapes.push({
+          kind: 'text',
+          position: applyTransform(position, transform),
+          height: (height || 1) * Math.hypot(transform.c, transform.d),
+          rotation: ((entity as ITextEntity).rotation || 0) + (Math.atan2(transform.b, transform.a) * 180) / Math.PI,
+          text,
+        });
+        break;
+      }
+      case 'INSERT': {
+        const insert = entity as IInsertEntity;
+        const block = dxf.blocks?.[insert.name];
+        if (!block || depth >= MAX_BLOCK_DEPTH) break;
+
+        // Block contents are drawn relative to the block's base point
+        const base = block.position || { x: 0, y: 0, z: 0 };
+        const placement = placementTransform(
+          insert.xScale ?? 1,
+          insert.yScale ?? 1,
+          insert.rotation || 0,
+          insert.position || { x: 0, y: 0 }
+        );
+        const blockTransform = composeTransforms(
+          composeTransforms(transform, placement),
+          { ...IDENTITY, e: -base.x, f: -base.y }
+        );
+
+        collectShapes(dxf, block.entities || [], blockTransform, depth + 1, shapes);
+        break;
+      }
+    }
+  }
+};
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Black on white, with the y axis flipped so the drawing isn't upside down
+const renderSvg = (shapes: Shape[], extents: DrawingExtents): string => {
+  const drawingWidth = extents.maxX - extents.minX;
+  const drawingHeight = extents.maxY - extents.minY;
+  const margin = Math.max(drawingWidth, drawingHeight) * 0.02;
+  const viewWidth = drawingWidth + margin * 2;
+  const viewHeight = drawingHeight + margin * 2;
+  const height = Math.max(1, Math.round((PREVIEW_WIDTH * viewHeight) / viewWidth));
+  const strokeWidth = Math.max(viewWidth, viewHeight) / 800;
+
+  const x = (value: number) => +(value - extents.minX + margin).toFixed(3);
+  const y = (value: number) => +(extents.maxY - value + margin).toFixed(3);
+
+  const renderShape = (shape: Shape): string => {
+    if (shape.kind === 'path') {
+      const data = shape.points
+        .map((point, index) => `${index === 0 ? 'M' : 'L'}${x(point.x)} ${y(point.y)}`)
+        .join('');
+      return `<path d="${data}${shape.closed ? 'Z' : ''}"/>`;
+    }
+    if (shape.kind === 'circle') {
+      return `<circle cx="${x(shape.center.x)}" cy="${y(shape.center.y)}" r="${+shape.radius.toFixed(3)}"/>`;
+    }
+    const transform = `translate(${x(shape.position.x)} ${y(shape.position.y)}) rotate(${-shape.rotation})`;
+    return `<text transform="${transform}" font-size="${+shape.height.toFixed(3)}">${escapeXml(shape.text)}</text>`;
+  };
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${PREVIEW_WIDTH}" height="${height}" viewBox="0 0 ${+viewWidth.toFixed(3)} ${+viewHeight.toFixed(3)}">`,
+    `<rect width="100%" height="100%" fill="#ffffff"/>`,
+    `<g fill="none" stroke="#111111" stroke-width="${+strokeWidth.toFixed(4)}" stroke-linecap="round" stroke-linejoin="round">`,
+    ...shapes.filter(shape => shape.kind !== 'text').map(renderShape),
+    `</g>`,
+    `<g fill="#111111" font-family="sans-serif">`,
+    ...shapes.filter(shape => shape.kind === 'text').map(renderShape),
+    `</g>`,
+    `</svg>`,
+  ].join('\n');
+};
@@ -0,0 +1,236 @@
+import { eq, and, ne, inArray, notInArray, isNull, or, sql } from 'drizzle-orm';
+import { db } from './db';
+import { embedTexts, getAIProvider } from './ai';
+import { files, fileEmbeddings, ProcessingStatus, type File } from '../../database/schema';
+
+const isLocal = process.env.NODE_ENV === 'development';
+
+// Extracted document text included in a file's embedding input
+const MAX_EMBEDDED_TEXT_LENGTH = 4000;
+// Files embedded per provider request when backfilling
+const BACKFILL_BATCH_SIZE = 20;
+// Query embeddings kept for repeated searches
+const MAX_CACHED_QUERIES = 200;
+
+export interface EmbeddingMatch {
+  fileId: string;
+  score: number; // Cosine similarity, 1 is identical
+}
+
+export interface NearestFilesOptions {
+  siteIds: string[];
+  limit: number;
+  excludeFileIds?: string[];
+}
+
+interface IndexedVector {
+  fileId: string;
+  siteId: string;
+  vector: Float32Array; // Unit length
+}
+
+// SQLite has no vector type, so vectors for the current model are held in memory.
+// Writes here drop it; writes from another process, such as a separate worker, are
+// noticed from the row count and latest update time.
+let localIndex: { model: string; signature: string; entries: IndexedVector[] } | null = null;
+
+// Search query embeddings by model and query, oldest first
+const queryEmbeddings = new Map<string, number[]>();
+
+type EmbeddableFile = Pick<File, 'id' | 'originalName' | 'aiDescription' | 'aiTags' | 'extractedText'>;
+
+// The text a file is embedded from: its name, AI description and tags, and the
+// start of any extracted document text
+export const buildEmbeddingText = (file: EmbeddableFile): string => {
+  let tags: string[] = [];
+  try {
+    tags = file.aiTags ? JSON.parse(file.aiTags) : [];
+  } catch {
+    tags = [];
+  }
+
+  return [
+    file.originalName.replace(/\.[^/.]+$/, '').replace(/[_-]+/g, ' '),
+    file.aiDescription,
+    tags.length > 0 ? `Tags: ${tags.join(', ')}` : null,
+    file.extractedText?.replace(/\f/g, '\n').slice(0, MAX_EMBEDDED_TEXT_LENGTH),
+  ].filter(Boolean).join('\n');
+};
+
+const toUnitVector = (values: number[]): Float32Array => {
+  const vector = Float32Array.from(values);
+  let length = 0;
+  for (let i = 0; i < vector.length; i++) length += vector[i] * vector[i];
+  length = Math.sqrt(length);
+
+  if (length > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= length;
+  }
+  return vector;
+};
+
+const dotProduct = (a: Float32Array, b: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+};
+
+const saveEmbedding = async (fileId: string, model: string, embedding: number[]) => {
+  const now = new Date();
+  await db
+    .insert(fileEmbeddings)
+    .values({ fileId, model, dimensions: embedding.length, embedding, createdAt: now, updatedAt: now })
+    .onConflictDoUpdate({
+      target: fileEmbeddings.fileId,
+      set: { model, dimensions: embedding.length, embedding, updatedAt: now },
+    });
+  localIndex = null;
+};
+
+// Embed a file's current analysis and store the vector, replacing any earlier one
+export const updateFileEmbedding = async (file: EmbeddableFile): Promise<void> => {
+  const provider = getAIProvider();
+  const [embedding] = await provider.embed([buildEmbeddingText(file)]);
+  await saveEmbedding(file.id, provider.embeddingModel, embedding);
+};
+
+export const deleteFileEmbedding = async (fileId: string): Promise<void> => {
+  await db.delete(fileEmbeddings).where(eq(fileEmbeddings.fileId, fileId));
+  localIndex = null;
+};
+
+// Embed processed files that have no vector from the current model, e.g. files
+// processed before embeddings existed or after switching providers
+export const backfillEmbeddings = async (
+  onProgress?: (embedded: number) => void
+): Promise<number> => {
+  const provider = getAIProvider();
+  let embedded = 0;
+
+  while (true) {
+    const batch: EmbeddableFile[] = await db
+      .select({
+        id: files.id,
+        originalName: files.originalName,
+        aiDescription: files.aiDescription,
+        aiTags: files.aiTags,
+        extractedText: files.extractedText,
+      })
+      .from(files)
+      .leftJoin(fileEmbeddings, eq(fileEmbeddings.fileId, files.id))
+      .where(
+        and(
+          eq(files.processingStatus, ProcessingStatus.COMPLETED),
+          or(isNull(fileEmbeddings.fileId), ne(fileEmbeddings.model, provider.embeddingModel))
+        )
+      )
+      .limit(BACKFILL_BATCH_SIZE);
+
+    if (batch.length === 0) break;
+
+    const vectors = await provider.embed(batch.map(buildEmbeddingText));
+    for (let i = 0; i < batch.length; i++) {
+      await saveEmbedding(batch[i].id, provider.embeddingModel, vectors[i]);
+    }
+
+    embedded += batch.length;
+    onProgress?.(embedded);
+  }
+
+  return embedded;
+};
+
+// Embed a search query with the same model files are embedded with. Recent queries
+// are cached, so paging through a search embeds it once and ranks it the same way.
+export const embedQuery = async (query: string): Promise<number[]> => {
+  const key = `${getAIProvider().embeddingModel}:${query}`;
+  const cached = queryEmbeddings.get(key);
+  if (cached) return cached;
+
+  const [embedding] = await embedTexts([query]);
+  if (queryEmbeddings.size >= MAX_CACHED_QUERIES) {
+    queryEmbeddings.delete(queryEmbeddings.keys().next().value!);
+  }
+  queryEmbeddings.set(key, embedding);
+  return embedding;
+};
+
+const loadLocalIndex = async (model: string) => {
+  const [state] = await db
+    .select({
+      count: sql<number>`count(*)`,
+      lastUpdated: sql<number>`max(${fileEmbeddings.updatedAt})`,
+    })
+    .from(fileEmbeddings)
+    .where(eq(fileEmbeddings.model, model));
+  const signature = `${state?.count || 0}:${state?.lastUpdated || 0}`;
+
+  if (localIndex?.model === model && localIndex.signature === signature) {
+    return localIndex.entries;
+  }
+
+  const rows: Array<{ fileId: string; siteId: string; embedding: number[] }> = await db
+    .select({ fileId: fileEmbeddings.fileId, siteId: files.siteId, embedding: fileEmbeddings.embedding })
+    .from(fileEmbeddings)
+    .innerJoin(files, eq(fileEmbeddings.fileId, files.id))
+    .where(eq(fileEmbeddings.model, model));
+
+  const entries = rows.map(row => ({
+    fileId: row.fileId,
+    siteId: row.siteId,
+    vector: toUnitVector(row.embedding),
+  }));
+  localIndex = { model, signature, entries };
+  return entries;
+};
+
+// The files whose embeddings are closest to a vector, most similar first
+export const findNearestFiles = async (
+  embedding: number[],
+  options: NearestFilesOptions
+): Promise<EmbeddingMatch[]> => {
+  if (options.siteIds.length === 0) return [];
+
+  // Matches below the model's similarity floor aren't worth showing
+  const { embeddingModel: model, minSimilarity } = getAIProvider();
+  const excluded = new Set(options.excludeFileIds || []);
+
+  if (isLocal) {
+    const siteIds = new Set(options.siteIds);
+    const query = toUnitVector(embedding);
+    const entries = await loadLocalIndex(model);
+
+    return entries
+      .filter(entry =>
+        siteIds.has(entry.siteId) &&
+        !excluded.has(entry.fileId) &&
+        entry.vector.length === query.length
+      )
+      .map(entry => ({ fileId: entry.fileId, score: dotProduct(entry.vector, query) }))
+      .filter(match => match.score >= minSimilarity)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit);
+  }
+
+  // pgvector's <=> is cosine distance, i.e. 1 - cosine similarity
+  const distance = sql`${fileEmbeddings.embedding} <=> ${`[${embedding.join(',')}]`}::vector`;
+  const conditions = [
+    eq(fileEmbeddings.model, model),
+    eq(fileEmbeddings.dimensions, embedding.length),
+    inArray(files.siteId, options.siteIds),
+    sql`${distance} <= ${1 - minSimilarity}`,
+  ];
+  if (excluded.size > 0) {
+    conditions.push(notInArray(fileEmbeddings.fileId, Array.from(excluded)));
+  }
+
+  const rows: Array<{ fileId: string; distance: number }> = await db
+    .select({ fileId: fileEmbeddings.fileId, distance: sql<number>`${distance}` })
+    .from(fileEmbeddings)
+    .innerJoin(files, eq(fileEmbeddings.fileId, files.id))
+    .where(and(...conditions))
+    .orderBy(distance)
+    .limit(options.limit);
+
+  return rows.map(row => ({ fileId: row.fileId, score: 1 - Number(row.distance) }));
+};
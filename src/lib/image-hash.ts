@@ -0,0 +1,44 @@
+import sharp from 'sharp';
+
+// Bits in a perceptual hash, stored as 16 hex characters
+export const PERCEPTUAL_HASH_BITS = 64;
+
+const toHex = (bits: number) => `0000000${(bits >>> 0).toString(16)}`.slice(-8);
+
+const countBits = (value: number): number => {
+  let count = 0;
+  for (let bits = value >>> 0; bits !== 0; bits >>>= 1) count += bits & 1;
+  return count;
+};
+
+// Difference hash: shrink to a 9x8 greyscale grid and record whether each pixel is
+// brighter than its right-hand neighbour. Resizing, recompression and small edits
+// barely change it, so images that look alike have hashes a few bits apart. Throws
+// for images that can't be decoded.
+export const computePerceptualHash = async (imageBuffer: Buffer): Promise<string> => {
+  // Greyscale output keeps three (or, with alpha, four) identical channels per pixel
+  const { data: pixels, info } = await sharp(imageBuffer)
+    .rotate()
+    .greyscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const brightness = (row: number, col: number) => pixels[(row * 9 + col) * info.channels];
+
+  // Four rows of eight comparisons per 32-bit half
+  const halves = [0, 0];
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const brighter = brightness(row, col) > brightness(row, col + 1) ? 1 : 0;
+      const half = row < 4 ? 0 : 1;
+      halves[half] = (halves[half] << 1) | brighter;
+    }
+  }
+
+  return toHex(halves[0]) + toHex(halves[1]);
+};
+
+// Number of differing bits between two perceptual hashes
+export const hashDistance = (a: string, b: string): number =>
+  countBits(parseInt(a.slice(0, 8), 16) ^ parseInt(b.slice(0, 8), 16)) +
+  countBits(parseInt(a.slice(8, 16), 16) ^ parseInt(b.slice(8, 16), 16));
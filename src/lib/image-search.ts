@@ -0,0 +1,57 @@
+import { createHash } from 'crypto';
+import { analyzeImage, type ProcessingError } from './ai';
+import { computePerceptualHash } from './image-hash';
+import { buildEmbeddingText } from './embeddings';
+import { lookAttributes, type LookReference } from './similarity';
+
+// Analyses of recent search images kept, so paging through the results of an image
+// search doesn't analyse the image again
+const MAX_CACHED_IMAGES = 20;
+
+export interface SearchImageAnalysis extends LookReference {
+  // The analysis as text, embedded to find files described the same way
+  text: string;
+}
+
+// Search image analyses by content hash, oldest first. Only what's derived from an
+// image is kept, never the image itself.
+const imageAnalyses = new Map<string, SearchImageAnalysis>();
+
+// Analyse an image searched with the same way uploaded images are analysed, without
+// saving it anywhere
+export const analyzeSearchImage = async (
+  image: Buffer,
+  mimeType: string,
+  filename: string
+): Promise<SearchImageAnalysis | ProcessingError> => {
+  const key = createHash('sha256').update(image).digest('hex');
+  const cached = imageAnalyses.get(key);
+  if (cached) return cached;
+
+  const result = await analyzeImage(image, mimeType, filename);
+  if ('error' in result) return result;
+
+  // An image the hash can't decode is still searched for by its analysis
+  const perceptualHash = await computePerceptualHash(image).catch(error => {
+    console.error('Failed to hash search image:', error);
+    return null;
+  });
+
+  const analysis: SearchImageAnalysis = {
+    perceptualHash,
+    attributes: lookAttributes(result),
+    text: buildEmbeddingText({
+      id: key,
+      originalName: '',
+      aiDescription: result.description,
+      aiTags: JSON.stringify(result.tags),
+      extractedText: null,
+    }),
+  };
+
+  if (imageAnalyses.size >= MAX_CACHED_IMAGES) {
+    imageAnalyses.delete(imageAnalyses.keys().next().value!);
+  }
+  imageAnalyses.set(key, analysis);
+  return analysis;
+};
@@ -0,0 +1,504 @@
+import { eq, and, lt, lte, inArray, desc, sql } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { db } from './db';
+import { downloadFileBuffer, generateThumbnail } from './storage';
+import {
+  analyzeImage,
+  analyzeDocument,
+  type DocumentAnalysisResult,
+  type ProcessingError,
+} from './ai';
+import { retryWithBackoff } from './utils';
+import { updateFileEmbedding } from './embeddings';
+import { indexFileTerms } from './suggestions';
+import { computePerceptualHash } from './image-hash';
+import {
+  files,
+  fileVersions,
+  sites,
+  processingJobs,
+  ProcessingStatus,
+  JobStatus,
+  type File,
+  type ProcessingJob,
+} from '../../database/schema';
+
+// Attempts per job before it is marked failed
+const MAX_JOB_ATTEMPTS = parseInt(process.env.JOB_MAX_ATTEMPTS || '5', 10);
+// Jobs a single worker runs at once
+export const JOB_CONCURRENCY = Math.max(1, parseInt(process.env.JOB_CONCURRENCY || '2', 10));
+const POLL_INTERVAL = 5000;
+// A job still running after this long belongs to a worker that died, e.g. in a restart
+const JOB_LOCK_TIMEOUT = 10 * 60 * 1000;
+// Delay before a failed attempt runs again, doubled for each attempt
+const JOB_RETRY_BASE_DELAY = 30 * 1000;
+// Transient AI errors are first retried within the attempt
+const ANALYSIS_RETRIES = 2;
+const ANALYSIS_RETRY_DELAY = 1000;
+// Completed jobs are kept this long for the admin queue view
+const COMPLETED_JOB_RETENTION = 7 * 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL = 60 * 60 * 1000;
+
+export type JobStatusValue = typeof JobStatus[keyof typeof JobStatus];
+
+export interface ProcessingJobSummary {
+  id: string;
+  fileId: string;
+  fileName: string | null;
+  status: JobStatusValue;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  errorCode: string | null;
+  runAt: Date;
+  lockedAt: Date | null;
+  completedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Carries a retryable ProcessingError through retryWithBackoff
+class RetryableProcessingError extends Error {
+  constructor(public readonly result: ProcessingError) {
+    super(result.error);
+    this.name = 'RetryableProcessingError';
+  }
+}
+
+let workerTimer: ReturnType<typeof setInterval> | null = null;
+let activeJobs = 0;
+let isPolling = false;
+let lastPrunedAt = 0;
+
+// Queue AI processing of a file's current contents. A job that has not started
+// yet will read whatever the file holds when it runs, so it is reused.
+export const enqueueFileProcessing = async (fileId: string): Promise<string> => {
+  const now = new Date();
+
+  const [queued] = await db
+    .select({ id: processingJobs.id })
+    .from(processingJobs)
+    .where(and(eq(processingJobs.fileId, fileId), eq(processingJobs.status, JobStatus.QUEUED)))
+    .limit(1);
+
+  let jobId: string;
+  if (queued) {
+    jobId = queued.id;
+    await db
+      .update(processingJobs)
+      .set({ runAt: now, updatedAt: now })
+      .where(eq(processingJobs.id, jobId));
+  } else {
+    jobId = nanoid();
+    await db.insert(processingJobs).values({
+      id: jobId,
+      fileId,
+      status: JobStatus.QUEUED,
+      attempts: 0,
+      maxAttempts: MAX_JOB_ATTEMPTS,
+      runAt: now,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  await db
+    .update(files)
+    .set({ processingStatus: ProcessingStatus.PENDING, updatedAt: now })
+    .where(eq(files.id, fileId));
+
+  // Start straight away when this process runs a worker
+  if (workerTimer) {
+    void pollJobs();
+  }
+
+  return jobId;
+};
+
+// Give a failed job a fresh set of attempts
+export const retryJob = async (jobId: string): Promise<boolean> => {
+  const now = new Date();
+  const [job] = await db
+    .update(processingJobs)
+    .set({
+      status: JobStatus.QUEUED,
+      attempts: 0,
+      lastError: null,
+      errorCode: null,
+      runAt: now,
+      updatedAt: now,
+    })
+    .where(and(eq(processingJobs.id, jobId), eq(processingJobs.status, JobStatus.FAILED)))
+    .returning();
+
+  if (!job) {
+    return false;
+  }
+
+  await db
+    .update(files)
+    .set({ processingStatus: ProcessingStatus.PENDING, updatedAt: now })
+    .where(eq(files.id, job.fileId));
+
+  if (workerTimer) {
+    void pollJobs();
+  }
+
+  return true;
+};
+
+// Poll for due jobs until stopped
+export const startJobWorker = () => {
+  if (workerTimer) return;
+
+  console.log(`🛠️  Processing worker started (concurrency ${JOB_CONCURRENCY})`);
+  workerTimer = setInterval(() => void pollJobs(), POLL_INTERVAL);
+
+  enqueueOrphanedFiles()
+    .catch(error => console.error('Failed to queue unprocessed files:', error))
+    .finally(() => void pollJobs());
+};
+
+export const stopJobWorker = () => {
+  if (workerTimer) {
+    clearInterval(workerTimer);
+    workerTimer = null;
+  }
+};
+
+// Jobs currently running in this process
+export const getActiveJobCount = () => activeJobs;
+
+// Files left pending or processing without a job, e.g. uploaded before the queue existed
+const enqueueOrphanedFiles = async () => {
+  const orphaned: Array<{ id: string }> = await db
+    .select({ id: files.id })
+    .from(files)
+    .where(
+      and(
+        inArray(files.processingStatus, [ProcessingStatus.PENDING, ProcessingStatus.PROCESSING]),
+        sql`not exists (
+          select 1 from ${processingJobs}
+          where ${processingJobs.fileId} = ${files.id}
+            and ${processingJobs.status} in (${JobStatus.QUEUED}, ${JobStatus.RUNNING})
+        )`
+      )
+    );
+
+  for (const file of orphaned) {
+    await enqueueFileProcessing(file.id);
+  }
+
+  if (orphaned.length > 0) {
+    console.log(`Queued ${orphaned.length} file(s) left unprocessed`);
+  }
+};
+
+const pollJobs = async () => {
+  if (isPolling) return;
+  isPolling = true;
+
+  try {
+    await recoverStaleJobs();
+    await pruneCompletedJobs();
+
+    while (activeJobs < JOB_CONCURRENCY) {
+      const job = await claimNextJob();
+      if (!job) break;
+
+      activeJobs++;
+      // A job whose failure couldn't be recorded stays running until it's recovered as stale
+      runJob(job)
+        .finally(() => {
+          activeJobs--;
+          if (workerTimer) void pollJobs();
+        })
+        .catch(error => console.error(`Processing job ${job.id} failed unexpectedly:`, error));
+    }
+  } catch (error) {
+    console.error('Processing worker poll failed:', error);
+  } finally {
+    isPolling = false;
+  }
+};
+
+// Claim the next due job. Workers in other processes may race for the same row,
+// so the claim only succeeds while the job is still queued.
+const claimNextJob = async (): Promise<ProcessingJob | null> => {
+  const now = new Date();
+  const candidates: ProcessingJob[] = await db
+    .select()
+    .from(processingJobs)
+    .where(and(eq(processingJobs.status, JobStatus.QUEUED), lte(processingJobs.runAt, now)))
+    .orderBy(processingJobs.runAt)
+    .limit(JOB_CONCURRENCY);
+
+  for (const candidate of candidates) {
+    const [claimed] = await db
+      .update(processingJobs)
+      .set({
+        status: JobStatus.RUNNING,
+        attempts: candidate.attempts + 1,
+        lockedAt: now,
+        updatedAt: now,
+      })
+      .where(and(eq(processingJobs.id, candidate.id), eq(processingJobs.status, JobStatus.QUEUED)))
+      .returning();
+
+    if (claimed) {
+      return claimed;
+    }
+  }
+
+  return null;
+};
+
+// Put jobs abandoned by a dead worker back in the queue, or fail them when out of attempts
+const recoverStaleJobs = async () => {
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - JOB_LOCK_TIMEOUT);
+
+  const staleJobs: ProcessingJob[] = await db
+    .select()
+    .from(processingJobs)
+    .where(and(eq(processingJobs.status, JobStatus.RUNNING), lt(processingJobs.lockedAt, staleBefore)));
+
+  for (const job of staleJobs) {
+    await recordFailure(job, 'Processing was interrupted', null, true);
+  }
+};
+
+const pruneCompletedJobs = async () => {
+  if (Date.now() - lastPrunedAt < PRUNE_INTERVAL) return;
+  lastPrunedAt = Date.now();
+
+  await db
+    .delete(processingJobs)
+    .where(
+      and(
+        eq(processingJobs.status, JobStatus.COMPLETED),
+        lt(processingJobs.completedAt, new Date(Date.now() - COMPLETED_JOB_RETENTION))
+      )
+    );
+};
+
+const runJob = async (job: ProcessingJob) => {
+  try {
+    const [file] = await db
+      .select()
+      .from(files)
+      .where(eq(files.id, job.fileId))
+      .limit(1);
+
+    // The file was deleted while queued
+    if (!file) {
+      await db.delete(processingJobs).where(eq(processingJobs.id, job.id));
+      return;
+    }
+
+    await db
+      .update(files)
+      .set({ processingStatus: ProcessingStatus.PROCESSING, updatedAt: new Date() })
+      .where(eq(files.id, file.id));
+
+    const buffer = await downloadFileBuffer(file.gcsPath);
+    const result = await analyzeWithRetry(buffer, file.mimeType, file.originalName);
+
+    if ('error' in result) {
+      await recordFailure(job, result.error, result.code, false);
+      return;
+    }
+
+    await saveAnalysis(file, buffer, result);
+
+    const now = new Date();
+    await db
+      .update(processingJobs)
+      .set({
+        status: JobStatus.COMPLETED,
+        lastError: null,
+        errorCode: null,
+        lockedAt: null,
+        completedAt: now,
+        updatedAt: now,
+      })
+      .where(eq(processingJobs.id, job.id));
+  } catch (error) {
+    console.error(`Processing job ${job.id} for file ${job.fileId} failed:`, error);
+
+    if (error instanceof RetryableProcessingError) {
+      await recordFailure(job, error.result.error, error.result.code, true);
+    } else {
+      await recordFailure(job, (error instanceof Error && error.message) || 'Processing failed', null, true);
+    }
+  }
+};
+
+// Non-retryable errors come back as results; retryable ones are retried, then thrown
+const analyzeWithRetry = (
+  buffer: Buffer,
+  mimeType: string,
+  filename: string
+): Promise<DocumentAnalysisResult | ProcessingError> =>
+  retryWithBackoff(async () => {
+    const result = mimeType.startsWith('image/')
+      ? await analyzeImage(buffer, mimeType, filename)
+      : await analyzeDocument(buffer, mimeType, filename);
+
+    if ('error' in result && result.retryable) {
+      throw new RetryableProcessingError(result);
+    }
+    return result;
+  }, ANALYSIS_RETRIES, ANALYSIS_RETRY_DELAY);
+
+// Schedule another attempt with exponential backoff, or give up
+const recordFailure = async (
+  job: ProcessingJob,
+  message: string,
+  code: string | null,
+  retryable: boolean
+) => {
+  const now = new Date();
+  const willRetry = retryable && job.attempts < job.maxAttempts;
+  const delay = JOB_RETRY_BASE_DELAY * Math.pow(2, Math.max(0, job.attempts - 1));
+
+  await db
+    .update(processingJobs)
+    .set({
+      status: willRetry ? JobStatus.QUEUED : JobStatus.FAILED,
+      lastError: message,
+      errorCode: code,
+      lockedAt: null,
+      runAt: willRetry ? new Date(now.getTime() + delay) : job.runAt,
+      updatedAt: now,
+    })
+    .where(eq(processingJobs.id, job.id));
+
+  await db
+    .update(files)
+    .set({
+      processingStatus: willRetry ? ProcessingStatus.PENDING : ProcessingStatus.FAILED,
+      updatedAt: now,
+    })
+    .where(eq(files.id, job.fileId));
+};
+
+// Store the analysis, adding the site and client names as tags. Extracted document
+// text is stored for search, a rendered page replaces a missing thumbnail, the image
+// or page is hashed for finding similar files, and the file is embedded for semantic search.
+// Nothing is stored if a new version was uploaded while the file was analyzed; that
+// version has its own job.
+const saveAnalysis = async (file: File, buffer: Buffer, { content, ...result }: DocumentAnalysisResult) => {
+  const [siteInfo] = await db
+    .select({ siteName: sites.name, clientName: sites.clientName })
+    .from(files)
+    .innerJoin(sites, eq(files.siteId, sites.id))
+    .where(eq(files.id, file.id))
+    .limit(1);
+
+  const siteTags = siteInfo ? [siteInfo.siteName, siteInfo.clientName] : [];
+  const enrichedTags = Array.isArray(result.tags) ? [...result.tags, ...siteTags] : siteTags;
+
+  let thumbnailPath = file.thumbnailPath;
+  if (content?.preview && !thumbnailPath) {
+    thumbnailPath = await generateThumbnail(content.preview, file.gcsPath);
+
+    if (thumbnailPath) {
+      await db
+        .update(fileVersions)
+        .set({ thumbnailPath })
+        .where(and(eq(fileVersions.fileId, file.id), eq(fileVersions.versionNumber, file.version)));
+    }
+  }
+
+  // A hashing failure fails the attempt, so the job records it
+  const visual = file.mimeType.startsWith('image/') ? buffer : content?.preview;
+  const perceptualHash = visual
+    ? await computePerceptualHash(visual).catch(error => {
+        throw new Error(`Perceptual hash failed: ${error instanceof Error ? error.message : error}`);
+      })
+    : null;
+
+  const [saved] = await db
+    .update(files)
+    .set({
+      processingStatus: ProcessingStatus.COMPLETED,
+      aiDescription: result.description,
+      aiTags: JSON.stringify(enrichedTags),
+      metadata: JSON.stringify(result),
+      extractedText: content ? content.text : null,
+      perceptualHash,
+      thumbnailPath,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(files.id, file.id), eq(files.version, file.version), eq(files.gcsPath, file.gcsPath)))
+    .returning({ id: files.id });
+
+  if (!saved) {
+    return;
+  }
+
+  // A missing embedding only keeps the file out of semantic search until
+  // `npm run embed-files` backfills it, so it doesn't fail the job
+  try {
+    await updateFileEmbedding({
+      id: file.id,
+      originalName: file.originalName,
+      aiDescription: result.description,
+      aiTags: JSON.stringify(enrichedTags),
+      extractedText: content ? content.text : null,
+    });
+  } catch (error) {
+    console.error(`Failed to embed file ${file.id}:`, error);
+  }
+
+  // Likewise for suggestions, which `npm run index-suggestions` can rebuild
+  try {
+    await indexFileTerms(file, result);
+  } catch (error) {
+    console.error(`Failed to index suggestion terms for file ${file.id}:`, error);
+  }
+};
+
+// Queue depth by status, for the admin queue view
+export const getJobCounts = async (): Promise<Record<JobStatusValue, number>> => {
+  const rows: Array<{ status: JobStatusValue; count: number }> = await db
+    .select({ status: processingJobs.status, count: sql<number>`count(*)` })
+    .from(processingJobs)
+    .groupBy(processingJobs.status);
+
+  const counts: Record<JobStatusValue, number> = { queued: 0, running: 0, completed: 0, failed: 0 };
+  for (const row of rows) {
+    counts[row.status] = Number(row.count);
+  }
+  return counts;
+};
+
+// Most recently updated jobs with their file names
+export const listJobs = async (
+  status: JobStatusValue | undefined,
+  limit: number
+): Promise<ProcessingJobSummary[]> => {
+  const query = db
+    .select({
+      id: processingJobs.id,
+      fileId: processingJobs.fileId,
+      fileName: files.originalName,
+      status: processingJobs.status,
+      attempts: processingJobs.attempts,
+      maxAttempts: processingJobs.maxAttempts,
+      lastError: processingJobs.lastError,
+      errorCode: processingJobs.errorCode,
+      runAt: processingJobs.runAt,
+      lockedAt: processingJobs.lockedAt,
+      completedAt: processingJobs.completedAt,
+      createdAt: processingJobs.createdAt,
+      updatedAt: processingJobs.updatedAt,
+    })
+    .from(processingJobs)
+    .leftJoin(files, eq(processingJobs.fileId, files.id));
+
+  return (status ? query.where(eq(processingJobs.status, status)) : query)
+    .orderBy(desc(processingJobs.updatedAt))
+    .limit(limit);
+};
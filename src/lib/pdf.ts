@@ -0,0 +1,42 @@
+import { getDocumentProxy, extractText, renderPageAsImage } from 'unpdf';
+
+// Width of the rendered first page; generateThumbnail scales it down from here
+const PREVIEW_WIDTH = 800;
+// Stored text is capped so huge catalogues don't bloat the files table
+export const MAX_EXTRACTED_TEXT_LENGTH = 200_000;
+
+export interface PdfContent {
+  pageCount: number;
+  pages: string[]; // Text layer of each page, whitespace collapsed
+  preview: Buffer | null; // PNG of the first page
+}
+
+// Pull the text layer out of every page and render the first page as an image.
+// Scanned PDFs without a text layer come back with empty pages.
+export const readPdf = async (buffer: Buffer): Promise<PdfContent> => {
+  const pdf = await getDocumentProxy(new Uint8Array(buffer));
+
+  try {
+    const { totalPages, text } = await extractText(pdf, { mergePages: false });
+    const pages = text.map(page => page.replace(/\s+/g, ' ').trim());
+
+    let preview: Buffer | null = null;
+    try {
+      const image = await renderPageAsImage(pdf, 1, {
+        canvasImport: () => import('@napi-rs/canvas'),
+        width: PREVIEW_WIDTH,
+      });
+      preview = Buffer.from(image);
+    } catch (error) {
+      console.error('PDF preview rendering failed:', error);
+    }
+
+    return { pageCount: totalPages, pages, preview };
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+// Pages joined with form feeds so page boundaries survive storage
+export const joinPdfPages = (pages: string[]): string =>
+  pages.join('\f').slice(0, MAX_EXTRACTED_TEXT_LENGTH);
@@ -0,0 +1,238 @@
+// Browser side of the direct upload protocols used by upload sessions.
+// Resumable (GCS and local storage): chunks are PUT to one URL with a Content-Range
+// header; a 308 response means more bytes are expected and its Range header reports
+// what was persisted.
+// Multipart (S3-compatible storage): each chunk is a numbered part PUT to its own
+// presigned URL; the server assembles the parts when the upload is completed.
+
+const MAX_CHUNK_RETRIES = 3;
+const RETRY_BASE_DELAY = 1000;
+
+export interface ResumableUploadOptions {
+  chunkSize: number;
+  signal?: AbortSignal;
+  onProgress?: (uploadedBytes: number) => void;
+}
+
+export interface MultipartUploadOptions extends ResumableUploadOptions {
+  // Parts storage already holds from an earlier attempt
+  uploadedParts: Array<{ partNumber: number; size: number }>;
+  getPartUrls: (partNumbers: number[]) => Promise<Array<{ partNumber: number; url: string }>>;
+}
+
+// Presign this many part URLs per round trip
+const PART_URL_BATCH_SIZE = 10;
+
+export class UploadCancelledError extends Error {
+  constructor() {
+    super('Upload cancelled');
+    this.name = 'UploadCancelledError';
+  }
+}
+
+// Upload a file to a resumable session URL, continuing from whatever the server already has
+export const uploadFileResumable = async (
+  file: File,
+  uploadUrl: string,
+  options: ResumableUploadOptions
+): Promise<void> => {
+  const { chunkSize, signal, onProgress } = options;
+
+  let offset = await getUploadOffset(uploadUrl, file.size, signal);
+  onProgress?.(offset);
+
+  // Empty files still need one request to finalize the object
+  if (file.size === 0 && offset === 0) {
+    await sendRequest(uploadUrl, { contentRange: 'bytes */0', signal });
+    return;
+  }
+
+  while (offset < file.size) {
+    const end = Math.min(offset + chunkSize, file.size);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        offset = await putChunk(uploadUrl, file, offset, end, signal, onProgress);
+        break;
+      } catch (error) {
+        if (error instanceof UploadCancelledError || attempt >= MAX_CHUNK_RETRIES) {
+          throw error;
+        }
+
+        await wait(RETRY_BASE_DELAY * Math.pow(2, attempt), signal);
+        // Part of the chunk may have been persisted before the failure
+        offset = await getUploadOffset(uploadUrl, file.size, signal);
+        onProgress?.(offset);
+        if (offset >= end) break;
+      }
+    }
+
+    onProgress?.(offset);
+  }
+};
+
+// Upload a file as numbered parts, skipping any that were already stored
+export const uploadFileMultipart = async (
+  file: File,
+  options: MultipartUploadOptions
+): Promise<void> => {
+  const { chunkSize, signal, onProgress, uploadedParts, getPartUrls } = options;
+  const partCount = Math.max(1, Math.ceil(file.size / chunkSize));
+  const getPartSize = (partNumber: number) =>
+    Math.min(chunkSize, file.size - (partNumber - 1) * chunkSize);
+
+  // Only trust parts whose size matches what this file would produce
+  const storedParts = new Set(
+    uploadedParts
+      .filter(part => part.partNumber <= partCount && part.size === getPartSize(part.partNumber))
+      .map(part => part.partNumber)
+  );
+
+  let completedBytes = Array.from(storedParts).reduce((sum, partNumber) => sum + getPartSize(partNumber), 0);
+  onProgress?.(completedBytes);
+
+  const pendingParts: number[] = [];
+  for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+    if (!storedParts.has(partNumber)) pendingParts.push(partNumber);
+  }
+
+  for (let i = 0; i < pendingParts.length; i += PART_URL_BATCH_SIZE) {
+    if (signal?.aborted) throw new UploadCancelledError();
+    const partUrls = await getPartUrls(pendingParts.slice(i, i + PART_URL_BATCH_SIZE));
+
+    for (const { partNumber, url } of partUrls) {
+      const start = (partNumber - 1) * chunkSize;
+      const end = start + getPartSize(partNumber);
+
+      for (let attempt = 0; ; attempt++) {
+        try {
+          await sendRequest(url, {
+            body: file.slice(start, end),
+            signal,
+            onProgress: loaded => onProgress?.(completedBytes + loaded),
+          });
+          break;
+        } catch (error) {
+          if (error instanceof UploadCancelledError || attempt >= MAX_CHUNK_RETRIES) {
+            throw error;
+          }
+          await wait(RETRY_BASE_DELAY * Math.pow(2, attempt), signal);
+        }
+      }
+
+      completedBytes += end - start;
+      onProgress?.(completedBytes);
+    }
+  }
+};
+
+// Ask storage how many bytes of the upload it has committed
+export const getUploadOffset = async (
+  uploadUrl: string,
+  totalSize: number,
+  signal?: AbortSignal
+): Promise<number> => {
+  const response = await sendRequest(uploadUrl, {
+    contentRange: `bytes */${totalSize}`,
+    signal,
+  });
+
+  if (response.status === 200 || response.status === 201) {
+    return totalSize;
+  }
+
+  return parseCommittedRange(response.range);
+};
+
+// PUT one chunk and return the offset the server has committed up to
+const putChunk = async (
+  uploadUrl: string,
+  file: File,
+  start: number,
+  end: number,
+  signal?: AbortSignal,
+  onProgress?: (uploadedBytes: number) => void
+): Promise<number> => {
+  const response = await sendRequest(uploadUrl, {
+    body: file.slice(start, end),
+    contentRange: `bytes ${start}-${end - 1}/${file.size}`,
+    signal,
+    onProgress: loaded => onProgress?.(start + loaded),
+  });
+
+  if (response.status === 200 || response.status === 201) {
+    return file.size;
+  }
+
+  return parseCommittedRange(response.range);
+};
+
+// "bytes=0-1048575" means the first 1048576 bytes are stored; no header means none are
+const parseCommittedRange = (range: string | null): number => {
+  const match = range?.match(/bytes=0-(\d+)/);
+  return match ? parseInt(match[1], 10) + 1 : 0;
+};
+
+// XMLHttpRequest is used instead of fetch so request bodies report upload progress
+const sendRequest = (
+  url: string,
+  options: {
+    body?: Blob;
+    contentRange?: string;
+    signal?: AbortSignal;
+    onProgress?: (loaded: number) => void;
+  }
+): Promise<{ status: number; range: string | null }> => {
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(new UploadCancelledError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const handleAbort = () => xhr.abort();
+
+    xhr.open('PUT', url);
+    if (options.contentRange) {
+      xhr.setRequestHeader('Content-Range', options.contentRange);
+    }
+
+    if (options.onProgress) {
+      xhr.upload.onprogress = (event) => options.onProgress?.(event.loaded);
+    }
+
+    xhr.onload = () => {
+      options.signal?.removeEventListener('abort', handleAbort);
+
+      if (xhr.status === 200 || xhr.status === 201 || xhr.status === 308) {
+        resolve({ status: xhr.status, range: xhr.getResponseHeader('Range') });
+      } else if (xhr.status === 404 || xhr.status === 410) {
+        reject(new Error('Upload session has expired'));
+      } else {
+        reject(new Error(`Upload failed with status ${xhr.status}`));
+      }
+    };
+    xhr.onerror = () => {
+      options.signal?.removeEventListener('abort', handleAbort);
+      reject(new Error('Network error during upload'));
+    };
+    xhr.onabort = () => reject(new UploadCancelledError());
+
+    options.signal?.addEventListener('abort', handleAbort);
+    xhr.send(options.body ?? null);
+  });
+};
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort);
+      resolve();
+    }, ms);
+    const handleAbort = () => {
+      clearTimeout(timer);
+      reject(new UploadCancelledError());
+    };
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  });
+};
@@ -0,0 +1,49 @@
+import { and, gt, inArray, sql, type SQL } from 'drizzle-orm';
+import { db } from './db';
+import { files, type SavedSearch } from '../../database/schema';
+import { parseSearchQuery } from './search-query';
+import { compileSearchQuery, compileSearchFilters } from './search-conditions';
+import type { SearchFilters } from '../types';
+
+// Filters saved with a search; unreadable JSON counts as none
+export const readSavedFilters = (filters: string | null): SearchFilters => {
+  if (!filters) return {};
+  try {
+    const parsed = JSON.parse(filters);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+// Files in the given sites that match the saved search and were uploaded after it was
+// last viewed. Matching is structured (names, text and fields, as in the first search
+// tier), since the other tiers rank rather than match. Null if nothing can match.
+const newMatchCondition = (search: SavedSearch, accessibleSiteIds: string[]): SQL | null => {
+  const parsed = parseSearchQuery(search.query);
+  if (!parsed.ast) return null;
+
+  const filters = readSavedFilters(search.filters);
+  const siteIds = filters.siteIds?.length
+    ? filters.siteIds.filter(id => accessibleSiteIds.includes(id))
+    : accessibleSiteIds;
+  if (siteIds.length === 0) return null;
+
+  return and(
+    inArray(files.siteId, siteIds),
+    gt(files.createdAt, search.lastViewedAt),
+    ...compileSearchFilters(filters),
+    compileSearchQuery(parsed.ast, { includeTerms: true })
+  )!;
+};
+
+export const countNewMatches = async (search: SavedSearch, accessibleSiteIds: string[]): Promise<number> => {
+  const condition = newMatchCondition(search, accessibleSiteIds);
+  if (!condition) return 0;
+
+  const [result] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(files)
+    .where(condition);
+  return Number(result?.count || 0);
+};
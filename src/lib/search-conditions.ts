@@ -0,0 +1,160 @@
+import { eq, gt, gte, lt, lte, like, or, and, inArray, sql, type SQL } from 'drizzle-orm';
+import { files, sites, users } from '../../database/schema';
+import { FileCategory } from '../types';
+import type { DateRange, NumberRange, QueryNode, TextField } from './search-query';
+
+const isLocal = process.env.NODE_ENV === 'development';
+
+// Fields read from the stored analysis (files.metadata JSON)
+const METADATA_SCALARS: Partial<Record<TextField, string>> = {
+  room: 'roomType',
+};
+const METADATA_LISTS: Partial<Record<TextField, string>> = {
+  material: 'materials',
+  color: 'colors',
+  style: 'styleElements',
+};
+
+const containsPattern = (value: string) => `%${value.toLowerCase()}%`;
+
+// A free-text term matches any of the searchable columns
+const termCondition = (term: string): SQL =>
+  or(
+    like(files.filename, `%${term}%`),
+    like(files.originalName, `%${term}%`),
+    like(files.aiDescription, `%${term}%`),
+    like(files.aiTags, `%${term}%`),
+    like(files.extractedText, `%${term}%`)
+  )!;
+
+const metadataScalarCondition = (key: string, pattern: string): SQL =>
+  isLocal
+    ? sql`lower(json_extract(${files.metadata}, ${`$.${key}`})) LIKE ${pattern}`
+    : sql`lower(${files.metadata}::jsonb ->> ${key}) LIKE ${pattern}`;
+
+// Any element of a JSON array in the metadata matches
+const metadataListCondition = (key: string, pattern: string): SQL =>
+  isLocal
+    ? sql`EXISTS (SELECT 1 FROM json_each(${files.metadata}, ${`$.${key}`}) WHERE lower(json_each.value) LIKE ${pattern})`
+    : sql`EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(
+          CASE WHEN jsonb_typeof(${files.metadata}::jsonb -> ${key}) = 'array'
+            THEN ${files.metadata}::jsonb -> ${key} ELSE '[]'::jsonb END
+        ) AS element WHERE lower(element) LIKE ${pattern}
+      )`;
+
+const textCondition = (field: TextField, value: string): SQL => {
+  const pattern = containsPattern(value);
+
+  const scalarKey = METADATA_SCALARS[field];
+  if (scalarKey) return metadataScalarCondition(scalarKey, pattern);
+
+  const listKey = METADATA_LISTS[field];
+  if (listKey) return metadataListCondition(listKey, pattern);
+
+  switch (field) {
+    case 'category': {
+      // Not a category matches no files
+      const category = Object.values(FileCategory).find(known => known === value.toLowerCase());
+      return category ? eq(files.category, category) : sql`1 = 0`;
+    }
+    case 'type':
+      return sql`lower(${files.mimeType}) LIKE ${pattern}`;
+    case 'name':
+      return sql`lower(${files.originalName}) LIKE ${pattern}`;
+    case 'tag':
+      return sql`lower(${files.aiTags}) LIKE ${pattern}`;
+    case 'site':
+      return sql`${files.siteId} IN (
+        SELECT ${sites.id} FROM ${sites}
+        WHERE lower(${sites.name}) LIKE ${pattern} OR lower(${sites.clientName}) LIKE ${pattern}
+      )`;
+    case 'uploader':
+      return sql`${files.uploadedBy} IN (
+        SELECT ${users.id} FROM ${users}
+        WHERE lower(${users.name}) LIKE ${pattern} OR lower(${users.email}) LIKE ${pattern}
+      )`;
+  }
+
+  throw new Error(`Unhandled search field: ${field}`);
+};
+
+const sizeCondition = (range: NumberRange): SQL | undefined => {
+  const conditions: SQL[] = [];
+  if (range.min !== undefined) {
+    conditions.push(range.minExclusive ? gt(files.size, range.min) : gte(files.size, range.min));
+  }
+  if (range.max !== undefined) {
+    conditions.push(range.maxExclusive ? lt(files.size, range.max) : lte(files.size, range.max));
+  }
+  return and(...conditions);
+};
+
+const dateCondition = (range: DateRange): SQL | undefined => {
+  const conditions: SQL[] = [];
+  if (range.from) conditions.push(gte(files.createdAt, range.from));
+  if (range.to) conditions.push(lt(files.createdAt, range.to));
+  return and(...conditions);
+};
+
+// Compile a parsed query to a condition on files. Without `includeTerms`, free-text
+// terms are left out (treated as matching everything), for search tiers that match
+// the text themselves and only need the field filters. Negated terms are kept, since
+// those tiers only match the text that's wanted. Undefined means no restriction.
+export const compileSearchQuery = (
+  node: QueryNode,
+  options: { includeTerms: boolean }
+): SQL | undefined => {
+  switch (node.type) {
+    case 'and': {
+      const children = node.children
+        .map(child => compileSearchQuery(child, options))
+        .filter((child): child is SQL => child !== undefined);
+      return children.length > 0 ? and(...children) : undefined;
+    }
+    case 'or': {
+      const children = node.children.map(child => compileSearchQuery(child, options));
+      // An unrestricted branch makes the whole group unrestricted
+      if (children.some(child => child === undefined)) return undefined;
+      return or(...(children as SQL[]));
+    }
+    case 'not': {
+      const child = compileSearchQuery(node.child, { includeTerms: true });
+      // Files with a NULL column don't match the condition, so they pass its negation
+      return child ? sql`NOT COALESCE((${child}), FALSE)` : undefined;
+    }
+    case 'term':
+      return options.includeTerms ? termCondition(node.value) : undefined;
+    case 'text':
+      return textCondition(node.field, node.value);
+    case 'size':
+      return sizeCondition(node.range);
+    case 'date':
+      return dateCondition(node.range);
+  }
+};
+
+// Conditions for the filters chosen outside the query text
+export const compileSearchFilters = (filters: {
+  categories?: FileCategory[];
+  dateFrom?: string;
+  dateTo?: string;
+  mimeTypes?: string[];
+}): SQL[] => {
+  const conditions: SQL[] = [];
+
+  if (filters.categories && filters.categories.length > 0) {
+    conditions.push(inArray(files.category, filters.categories));
+  }
+  if (filters.dateFrom) {
+    conditions.push(gte(files.createdAt, new Date(filters.dateFrom)));
+  }
+  if (filters.dateTo) {
+    conditions.push(lte(files.createdAt, new Date(filters.dateTo)));
+  }
+  if (filters.mimeTypes && filters.mimeTypes.length > 0) {
+    conditions.push(inArray(files.mimeType, filters.mimeTypes));
+  }
+
+  return conditions;
+};
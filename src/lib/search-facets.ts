@@ -0,0 +1,129 @@
+import { eq, and, desc, isNotNull, sql, type SQL } from 'drizzle-orm';
+import type { AnySQLiteColumn } from 'drizzle-orm/sqlite-core';
+import { db, selectRows } from './db';
+import { files, sites, users } from '../../database/schema';
+import type { FacetBucket, SearchFacets } from '../types';
+
+const isLocal = process.env.NODE_ENV === 'development';
+
+// Most common values returned per facet
+const MAX_BUCKETS = 12;
+
+const fileCount = sql<number>`count(DISTINCT ${files.id})`;
+
+const toBuckets = (rows: Array<{ value: unknown; label?: unknown; count: unknown }>): FacetBucket[] =>
+  rows
+    .filter(row => row.value)
+    .map(row => ({
+      value: String(row.value),
+      label: String(row.label || row.value),
+      count: Number(row.count),
+    }));
+
+// Facet over a column or expression of the files table
+const columnFacet = async (value: SQL | AnySQLiteColumn, where: SQL | undefined): Promise<FacetBucket[]> => {
+  const rows = await db
+    .select({ value, count: fileCount })
+    .from(files)
+    .where(and(where, isNotNull(value)))
+    .groupBy(value)
+    .orderBy(desc(fileCount))
+    .limit(MAX_BUCKETS);
+  return toBuckets(rows);
+};
+
+// Facet over the elements of a JSON array in the analysis (files.metadata), each file
+// counted once per value. Raw SQL, as the query builder can't join a table function.
+const metadataListFacet = async (key: string, where: SQL | undefined): Promise<FacetBucket[]> => {
+  const condition = where ?? sql`1 = 1`;
+  const query = isLocal
+    ? sql`
+        SELECT lower(trim(element.value)) AS value, count(DISTINCT ${files.id}) AS count
+        FROM ${files}, json_each(${files.metadata}, ${`$.${key}`}) AS element
+        WHERE ${condition} AND trim(element.value) <> ''
+        GROUP BY 1 ORDER BY 2 DESC LIMIT ${MAX_BUCKETS}`
+    : sql`
+        SELECT lower(trim(element.value)) AS value, count(DISTINCT ${files.id}) AS count
+        FROM ${files} CROSS JOIN LATERAL jsonb_array_elements_text(
+          CASE WHEN jsonb_typeof(${files.metadata}::jsonb -> ${key}) = 'array'
+            THEN ${files.metadata}::jsonb -> ${key} ELSE '[]'::jsonb END
+        ) AS element(value)
+        WHERE ${condition} AND trim(element.value) <> ''
+        GROUP BY 1 ORDER BY 2 DESC LIMIT ${MAX_BUCKETS}`;
+
+  return toBuckets(await selectRows<{ value: string | null; count: number }>(query));
+};
+
+const siteFacet = async (where: SQL | undefined): Promise<FacetBucket[]> => {
+  const rows = await db
+    .select({ value: sites.name, count: fileCount })
+    .from(files)
+    .innerJoin(sites, eq(files.siteId, sites.id))
+    .where(where)
+    .groupBy(sites.id, sites.name)
+    .orderBy(desc(fileCount))
+    .limit(MAX_BUCKETS);
+  return toBuckets(rows);
+};
+
+// Filtered by email, which is unique, and shown by name
+const uploaderFacet = async (where: SQL | undefined): Promise<FacetBucket[]> => {
+  const rows = await db
+    .select({ value: users.email, label: users.name, count: fileCount })
+    .from(files)
+    .innerJoin(users, eq(files.uploadedBy, users.id))
+    .where(where)
+    .groupBy(users.id, users.email, users.name)
+    .orderBy(desc(fileCount))
+    .limit(MAX_BUCKETS);
+  return toBuckets(rows);
+};
+
+// Upload months, most recent first
+const monthFacet = async (where: SQL | undefined): Promise<FacetBucket[]> => {
+  const month = isLocal
+    ? sql<string>`strftime('%Y-%m', ${files.createdAt}, 'unixepoch')`
+    : sql<string>`to_char(${files.createdAt}, 'YYYY-MM')`;
+
+  const rows = await db
+    .select({ value: month, count: fileCount })
+    .from(files)
+    .where(where)
+    .groupBy(month)
+    .orderBy(desc(month))
+    .limit(MAX_BUCKETS);
+  return toBuckets(rows);
+};
+
+// Counts of each facet value over all files matching the condition
+export const computeFacets = async (where: SQL | undefined): Promise<SearchFacets> => {
+  const room = isLocal
+    ? sql<string>`lower(trim(json_extract(${files.metadata}, '$.roomType')))`
+    : sql<string>`lower(trim(${files.metadata}::jsonb ->> 'roomType'))`;
+
+  const [category, site, mimeType, roomBuckets, style, material, color, uploader, month] = await Promise.all([
+    columnFacet(files.category, where),
+    siteFacet(where),
+    columnFacet(files.mimeType, where),
+    columnFacet(room, where),
+    metadataListFacet('styleElements', where),
+    metadataListFacet('materials', where),
+    metadataListFacet('colors', where),
+    uploaderFacet(where),
+    monthFacet(where),
+  ]);
+
+  return { category, site, mimeType, room: roomBuckets, style, material, color, uploader, month };
+};
+
+export const EMPTY_FACETS: SearchFacets = {
+  category: [],
+  site: [],
+  mimeType: [],
+  room: [],
+  style: [],
+  material: [],
+  color: [],
+  uploader: [],
+  month: [],
+};
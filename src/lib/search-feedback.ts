@@ -0,0 +1,119 @@
+import { and, eq, gte, inArray, lte, sql } from 'drizzle-orm';
+import { db } from './db';
+import { searchImpressions, searchQueries } from '../../database/schema';
+import type { SearchMatch, SearchRelevance, SearchTier } from '../types';
+
+// Clicks older than this no longer affect rankings
+const CLICK_WINDOW_DAYS = 90;
+// Unclicked showings every file is assumed to have had, so one click on a file shown
+// once doesn't outweigh a long record
+const PRIOR_IMPRESSIONS = 5;
+// A file always clicked for a query scores up to this much more than one never clicked
+const MAX_CLICK_BOOST = 1;
+
+const TIERS: SearchTier[] = ['structured', 'fulltext', 'semantic', 'visual'];
+
+// Tiers that found a result as recorded; unreadable JSON counts as none
+export const readMatchedBy = (matchedBy: string | null): SearchMatch[] => {
+  if (!matchedBy) return [];
+  try {
+    const parsed = JSON.parse(matchedBy);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+// How much to boost each of the files for a query, from how often they were opened or
+// downloaded when shown for the same query, by anyone. Only what was recorded by
+// `asOf` counts, so every page of a search is ranked from the same clicks.
+export const clickBoosts = async (query: string, fileIds: string[], asOf: Date): Promise<Map<string, number>> => {
+  const boosts = new Map<string, number>();
+  const normalized = query.trim().toLowerCase();
+  if (!normalized || fileIds.length === 0) return boosts;
+
+  const since = new Date(asOf.getTime() - CLICK_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const rows: Array<{ fileId: string; impressions: number; clicks: number }> = await db
+    .select({
+      fileId: searchImpressions.fileId,
+      impressions: sql<number>`count(*)`,
+      clicks: sql<number>`count(CASE WHEN ${lte(searchImpressions.clickedAt, asOf)} THEN 1 END)`,
+    })
+    .from(searchImpressions)
+    .innerJoin(searchQueries, eq(searchImpressions.searchId, searchQueries.id))
+    .where(and(
+      sql`lower(${searchQueries.query}) = ${normalized}`,
+      inArray(searchImpressions.fileId, fileIds),
+      gte(searchImpressions.createdAt, since),
+      lte(searchImpressions.createdAt, asOf)
+    ))
+    .groupBy(searchImpressions.fileId);
+
+  rows.forEach(row => {
+    const clicks = Number(row.clicks);
+    if (clicks > 0) {
+      boosts.set(row.fileId, 1 + MAX_CLICK_BOOST * clicks / (Number(row.impressions) + PRIOR_IMPRESSIONS));
+    }
+  });
+
+  return boosts;
+};
+
+// Click-through and mean reciprocal rank over recorded impressions, overall and for
+// each tier that found results
+export const measureRelevance = (impressions: Array<{
+  searchId: string;
+  position: number;
+  matchedBy: string | null;
+  clickedAt: Date | null;
+}>): SearchRelevance => {
+  const rows = impressions.map(row => ({
+    searchId: row.searchId,
+    position: row.position,
+    matchedBy: readMatchedBy(row.matchedBy),
+    clicked: row.clickedAt !== null,
+  }));
+
+  // Mean over the searches of 1 / the best rank clicked, for rows with a rank
+  const meanReciprocalRank = (ranked: Array<{ searchId: string; rank: number; clicked: boolean }>) => {
+    const bestRanks = new Map<string, number>();
+    ranked.forEach(({ searchId, rank, clicked }) => {
+      const best = bestRanks.get(searchId) ?? 0;
+      bestRanks.set(searchId, clicked && (best === 0 || rank < best) ? rank : best);
+    });
+
+    let total = 0;
+    bestRanks.forEach(rank => {
+      total += rank > 0 ? 1 / rank : 0;
+    });
+    return bestRanks.size > 0 ? total / bestRanks.size : 0;
+  };
+
+  const clicks = rows.filter(row => row.clicked).length;
+
+  const tiers = TIERS.reduce<SearchRelevance['tiers']>((all, tier) => {
+    const found = rows.reduce<Array<{ searchId: string; rank: number; clicked: boolean }>>((tierRows, row) => {
+      const match = row.matchedBy.find(matched => matched.tier === tier);
+      return match ? tierRows.concat({ searchId: row.searchId, rank: match.rank, clicked: row.clicked }) : tierRows;
+    }, []);
+    if (found.length === 0) return all;
+
+    const tierClicks = found.filter(row => row.clicked).length;
+    return all.concat({
+      tier,
+      impressions: found.length,
+      clicks: tierClicks,
+      ctr: tierClicks / found.length,
+      mrr: meanReciprocalRank(found),
+    });
+  }, []);
+
+  return {
+    searches: new Set(rows.map(row => row.searchId)).size,
+    impressions: rows.length,
+    clicks,
+    ctr: rows.length > 0 ? clicks / rows.length : 0,
+    mrr: meanReciprocalRank(rows.map(row => ({ searchId: row.searchId, rank: row.position, clicked: row.clicked }))),
+    tiers,
+  };
+};
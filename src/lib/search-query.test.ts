@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { parseSearchQuery } from './search-query';
+
+describe('parseSearchQuery', () => {
+  it('joins terms and field filters with AND', () => {
+    expect(parseSearchQuery('oak table room:kitchen')).toEqual({
+      ast: {
+        type: 'and',
+        children: [
+          { type: 'term', value: 'oak' },
+          { type: 'term', value: 'table' },
+          { type: 'text', field: 'room', value: 'kitchen' },
+        ],
+      },
+      terms: ['oak', 'table'],
+      error: null,
+    });
+  });
+
+  it('returns no tree for an empty query', () => {
+    expect(parseSearchQuery('   ')).toEqual({ ast: null, terms: [], error: null });
+  });
+
+  it('binds OR more loosely than AND', () => {
+    expect(parseSearchQuery('oak table OR walnut').ast).toEqual({
+      type: 'or',
+      children: [
+        { type: 'and', children: [{ type: 'term', value: 'oak' }, { type: 'term', value: 'table' }] },
+        { type: 'term', value: 'walnut' },
+      ],
+    });
+  });
+
+  it('groups with parentheses and treats AND as the default', () => {
+    expect(parseSearchQuery('(uploader:alex OR uploader:sam) AND sofa').ast).toEqual({
+      type: 'and',
+      children: [
+        {
+          type: 'or',
+          children: [
+            { type: 'text', field: 'uploader', value: 'alex' },
+            { type: 'text', field: 'uploader', value: 'sam' },
+          ],
+        },
+        { type: 'term', value: 'sofa' },
+      ],
+    });
+  });
+
+  it('reads quoted phrases and quoted field values', () => {
+    const parsed = parseSearchQuery('"living room" color:"sage green"');
+    expect(parsed.ast).toEqual({
+      type: 'and',
+      children: [
+        { type: 'term', value: 'living room' },
+        { type: 'text', field: 'color', value: 'sage green' },
+      ],
+    });
+    expect(parsed.terms).toEqual(['living room']);
+  });
+
+  it('leaves negated terms out of the free text', () => {
+    const parsed = parseSearchQuery('sofa -draft -tag:old');
+    expect(parsed.ast).toEqual({
+      type: 'and',
+      children: [
+        { type: 'term', value: 'sofa' },
+        { type: 'not', child: { type: 'term', value: 'draft' } },
+        { type: 'not', child: { type: 'text', field: 'tag', value: 'old' } },
+      ],
+    });
+    expect(parsed.terms).toEqual(['sofa']);
+  });
+
+  it('maps field aliases and case', () => {
+    expect(parseSearchQuery('Colour:red').ast).toEqual({ type: 'text', field: 'color', value: 'red' });
+  });
+
+  it('parses size comparisons and ranges in bytes', () => {
+    expect(parseSearchQuery('size:>10mb').ast).toEqual({
+      type: 'size',
+      range: { min: 10 * 1024 ** 2, minExclusive: true },
+    });
+    expect(parseSearchQuery('size:500kb..1.5mb').ast).toEqual({
+      type: 'size',
+      range: { min: 500 * 1024, max: Math.round(1.5 * 1024 ** 2) },
+    });
+  });
+
+  it('parses dates as the UTC span they cover', () => {
+    expect(parseSearchQuery('date:2025-02').ast).toEqual({
+      type: 'date',
+      range: { from: new Date(Date.UTC(2025, 1, 1)), to: new Date(Date.UTC(2025, 2, 1)) },
+    });
+    expect(parseSearchQuery('date:2025-01..2025-03').ast).toEqual({
+      type: 'date',
+      range: { from: new Date(Date.UTC(2025, 0, 1)), to: new Date(Date.UTC(2025, 3, 1)) },
+    });
+    expect(parseSearchQuery('date:<=2024').ast).toEqual({
+      type: 'date',
+      range: { to: new Date(Date.UTC(2025, 0, 1)) },
+    });
+  });
+
+  it('reports errors with the character they were found at', () => {
+    expect(parseSearchQuery('oak "table').error).toBe('Missing closing quote (at character 5)');
+    expect(parseSearchQuery('(oak OR').error).toBe('Expected a search term (at character 8)');
+    expect(parseSearchQuery('oak)').error).toBe('Unmatched closing parenthesis (at character 4)');
+  });
+
+  it('rejects unknown fields, categories and malformed values', () => {
+    expect(parseSearchQuery('shape:round').error).toMatch(/^Unknown field "shape"/);
+    expect(parseSearchQuery('category:sketches').error).toMatch(/^Unknown category "sketches"/);
+    expect(parseSearchQuery('size:big').error).toMatch(/^Invalid size "big"/);
+    expect(parseSearchQuery('date:2025-02-30').error).toMatch(/^Invalid date "2025-02-30"/);
+    expect(parseSearchQuery('date:..').error).toBe('A range needs at least one end (at character 1)');
+    expect(parseSearchQuery('room:').error).toBe('Missing value for room: (at character 1)');
+  });
+
+  it('returns no tree or terms with an error', () => {
+    expect(parseSearchQuery('oak (table')).toEqual({
+      ast: null,
+      terms: [],
+      error: 'Missing closing parenthesis (at character 5)',
+    });
+  });
+});
@@ -0,0 +1,388 @@
+import { FileCategory } from '../../database/schema';
+
+// Search query language: free text with field filters, negation and OR groups, e.g.
+//   room:kitchen material:oak color:"sage green" -tag:draft size:>10mb
+//   date:2025-01..2025-03 (uploader:alex OR uploader:sam)
+// Parsed here on both client and server; the server compiles the tree to SQL.
+
+export type TextField = 'category' | 'type' | 'site' | 'room' | 'material' | 'color' | 'style' | 'tag' | 'uploader' | 'name';
+
+// Bounds are optional; a missing bound is open
+export interface NumberRange {
+  min?: number;
+  max?: number;
+  minExclusive?: boolean;
+  maxExclusive?: boolean;
+}
+
+// Dates are UTC; `from` is inclusive and `to` exclusive
+export interface DateRange {
+  from?: Date;
+  to?: Date;
+}
+
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'term'; value: string }
+  | { type: 'text'; field: TextField; value: string }
+  | { type: 'size'; range: NumberRange }
+  | { type: 'date'; range: DateRange };
+
+// The free text of a query for full-text search: words and phrases with how they're
+// combined
+export type FullTextQuery =
+  | { type: 'and' | 'or'; children: FullTextQuery[] }
+  | { type: 'term'; value: string };
+
+export interface ParsedSearchQuery {
+  ast: QueryNode | null;
+  // Free-text words and phrases that aren't negated, for full-text and semantic search
+  terms: string[];
+  error: string | null;
+}
+
+// Field names as typed, including aliases
+const FIELD_NAMES: Record<string, TextField | 'size' | 'date'> = {
+  category: 'category',
+  type: 'type',
+  site: 'site',
+  room: 'room',
+  material: 'material',
+  color: 'color',
+  colour: 'color',
+  style: 'style',
+  tag: 'tag',
+  uploader: 'uploader',
+  name: 'name',
+  size: 'size',
+  date: 'date',
+};
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+};
+
+class SearchQueryError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+    this.name = 'SearchQueryError';
+  }
+}
+
+type Token =
+  | { kind: 'word'; value: string; position: number }
+  | { kind: 'field'; field: string; value: string; position: number }
+  | { kind: 'not' | 'or' | 'open' | 'close'; position: number };
+
+const isSeparator = (char: string) => /\s/.test(char) || char === '(' || char === ')';
+
+const tokenize = (query: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = (): string => {
+    const start = i;
+    const end = query.indexOf('"', i + 1);
+    if (end === -1) {
+      throw new SearchQueryError('Missing closing quote', start);
+    }
+    i = end + 1;
+    return query.slice(start + 1, end);
+  };
+
+  while (i < query.length) {
+    const char = query[i];
+    const position = i;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(') {
+      tokens.push({ kind: 'open', position });
+      i++;
+    } else if (char === ')') {
+      tokens.push({ kind: 'close', position });
+      i++;
+    } else if (char === '-' && i + 1 < query.length && !isSeparator(query[i + 1])) {
+      tokens.push({ kind: 'not', position });
+      i++;
+    } else if (char === '"') {
+      const value = readQuoted();
+      if (value.trim()) tokens.push({ kind: 'word', value, position });
+    } else {
+      while (i < query.length && !isSeparator(query[i]) && query[i] !== '"') i++;
+      const word = query.slice(position, i);
+      const field = word.match(/^([a-z]+):(.*)$/i);
+
+      if (field) {
+        // The value may be quoted, e.g. color:"sage green"
+        const value = field[2] === '' && query[i] === '"' ? readQuoted() : field[2];
+        tokens.push({ kind: 'field', field: field[1].toLowerCase(), value, position });
+      } else if (word === 'OR') {
+        tokens.push({ kind: 'or', position });
+      } else if (word !== 'AND') {
+        // AND is the default between terms
+        tokens.push({ kind: 'word', value: word, position });
+      }
+    }
+  }
+
+  return tokens;
+};
+
+// 10mb, 1.5gb or a plain number of bytes
+const parseSize = (value: string, position: number): number => {
+  const match = value.toLowerCase().match(/^(\d+(?:\.\d+)?)(b|kb|mb|gb)?$/);
+  if (!match) {
+    throw new SearchQueryError(`Invalid size "${value}", expected e.g. 10mb or 500kb`, position);
+  }
+  return Math.round(parseFloat(match[1]) * SIZE_UNITS[match[2] || 'b']);
+};
+
+// The span of time a date covers: a whole year, month or day
+const parseDateSpan = (value: string, position: number): { start: Date; end: Date } => {
+  const match = value.match(/^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/);
+  const year = match ? parseInt(match[1], 10) : NaN;
+  const month = match?.[2] ? parseInt(match[2], 10) - 1 : null;
+  const day = match?.[3] ? parseInt(match[3], 10) : null;
+
+  const start = new Date(Date.UTC(year, month ?? 0, day ?? 1));
+  const valid = !!match &&
+    (month === null || (month >= 0 && month < 12)) &&
+    (day === null || start.getUTCDate() === day);
+
+  if (!valid) {
+    throw new SearchQueryError(`Invalid date "${value}", expected YYYY, YYYY-MM or YYYY-MM-DD`, position);
+  }
+
+  const end = day !== null
+    ? new Date(Date.UTC(year, month!, day + 1))
+    : month !== null
+      ? new Date(Date.UTC(year, month + 1, 1))
+      : new Date(Date.UTC(year + 1, 0, 1));
+
+  return { start, end };
+};
+
+// A comparison (>, >=, <, <=), a range (a..b, either end optional) or a single value
+const parseRange = <T>(
+  value: string,
+  position: number,
+  parse: (value: string, position: number) => T
+): { comparator?: string; from?: T; to?: T; exact?: T } => {
+  const comparison = value.match(/^(>=|<=|>|<)(.+)$/);
+  if (comparison) {
+    return { comparator: comparison[1], exact: parse(comparison[2], position) };
+  }
+
+  const range = value.split('..');
+  if (range.length === 2) {
+    if (!range[0] && !range[1]) {
+      throw new SearchQueryError('A range needs at least one end', position);
+    }
+    return {
+      from: range[0] ? parse(range[0], position) : undefined,
+      to: range[1] ? parse(range[1], position) : undefined,
+    };
+  }
+
+  return { exact: parse(value, position) };
+};
+
+const parseSizeRange = (value: string, position: number): NumberRange => {
+  const { comparator, from, to, exact } = parseRange(value, position, parseSize);
+  switch (comparator) {
+    case '>': return { min: exact, minExclusive: true };
+    case '>=': return { min: exact };
+    case '<': return { max: exact, maxExclusive: true };
+    case '<=': return { max: exact };
+  }
+  return exact !== undefined ? { min: exact, max: exact } : { min: from, max: to };
+};
+
+const parseDateRange = (value: string, position: number): DateRange => {
+  const { comparator, from, to, exact } = parseRange(value, position, parseDateSpan);
+  switch (comparator) {
+    case '>': return { from: exact!.end };
+    case '>=': return { from: exact!.start };
+    case '<': return { to: exact!.start };
+    case '<=': return { to: exact!.end };
+  }
+  return exact ? { from: exact.start, to: exact.end } : { from: from?.start, to: to?.end };
+};
+
+const parseField = (token: Extract<Token, { kind: 'field' }>): QueryNode => {
+  const field = FIELD_NAMES[token.field];
+  if (!field) {
+    throw new SearchQueryError(
+      `Unknown field "${token.field}". Fields: ${Object.keys(FIELD_NAMES).join(', ')}`,
+      token.position
+    );
+  }
+
+  const value = token.value.trim();
+  if (!value) {
+    throw new SearchQueryError(`Missing value for ${token.field}:`, token.position);
+  }
+
+  if (field === 'size') return { type: 'size', range: parseSizeRange(value.replace(/\s+/g, ''), token.position) };
+  if (field === 'date') return { type: 'date', range: parseDateRange(value, token.position) };
+
+  if (field === 'category' && !(Object.values(FileCategory) as string[]).includes(value.toLowerCase())) {
+    throw new SearchQueryError(
+      `Unknown category "${value}". Categories: ${Object.values(FileCategory).join(', ')}`,
+      token.position
+    );
+  }
+
+  return { type: 'text', field, value };
+};
+
+// Recursive descent; OR binds more loosely than the implicit AND between terms
+const parseTokens = (tokens: Token[], queryLength: number): QueryNode | null => {
+  let index = 0;
+  const peek = () => tokens[index];
+  const positionOf = (token?: Token) => (token ? token.position : queryLength);
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.kind === 'or') {
+      index++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children: QueryNode[] = [];
+    while (peek() && peek().kind !== 'or' && peek().kind !== 'close') {
+      children.push(parseUnary());
+    }
+    if (children.length === 0) {
+      throw new SearchQueryError('Expected a search term', positionOf(peek()));
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = peek();
+    index++;
+
+    switch (token.kind) {
+      case 'not':
+        if (!peek() || peek().kind === 'or' || peek().kind === 'close') {
+          throw new SearchQueryError('Expected a term after "-"', token.position);
+        }
+        return { type: 'not', child: parseUnary() };
+      case 'open': {
+        const group = parseOr();
+        if (peek()?.kind !== 'close') {
+          throw new SearchQueryError('Missing closing parenthesis', token.position);
+        }
+        index++;
+        return group;
+      }
+      case 'field':
+        return parseField(token);
+      case 'word':
+        return { type: 'term', value: token.value };
+      default:
+        throw new SearchQueryError('Unexpected token', token.position);
+    }
+  };
+
+  if (tokens.length === 0) return null;
+
+  const ast = parseOr();
+  if (index < tokens.length) {
+    const token = peek();
+    throw new SearchQueryError(
+      token.kind === 'close' ? 'Unmatched closing parenthesis' : 'Unexpected token',
+      token.position
+    );
+  }
+  return ast;
+};
+
+const collectTerms = (node: QueryNode, terms: string[]) => {
+  if (node.type === 'term') terms.push(node.value);
+  if (node.type === 'and' || node.type === 'or') node.children.forEach(child => collectTerms(child, terms));
+};
+
+// The free text of a query, keeping its ANDs and ORs. Negated text and field filters
+// are left out, since they filter rather than rank, and so are OR branches without
+// free text. Null if the query has no free text.
+export const fullTextQuery = (node: QueryNode): FullTextQuery | null => {
+  switch (node.type) {
+    case 'term':
+      return { type: 'term', value: node.value };
+    case 'and':
+    case 'or': {
+      const children = node.children
+        .map(fullTextQuery)
+        .filter((child): child is FullTextQuery => child !== null);
+      if (children.length === 0) return null;
+      return children.length === 1 ? children[0] : { type: node.type, children };
+    }
+    default:
+      return null;
+  }
+};
+
+// Parse a search query. Errors are returned rather than thrown, with the
+// character position they were found at.
+export const parseSearchQuery = (query: string): ParsedSearchQuery => {
+  try {
+    const ast = parseTokens(tokenize(query), query.length);
+    const terms: string[] = [];
+    if (ast) collectTerms(ast, terms);
+    return { ast, terms, error: null };
+  } catch (error) {
+    if (error instanceof SearchQueryError) {
+      return { ast: null, terms: [], error: `${error.message} (at character ${error.position + 1})` };
+    }
+    throw error;
+  }
+};
+
+// A field filter as it would be typed, with the value quoted if it has spaces or
+// parentheses. Quotes can't be escaped, so they're dropped from the value.
+export const formatFieldFilter = (field: string, value: string): string => {
+  const unquoted = value.replace(/"/g, '').trim();
+  return /[\s()]/.test(unquoted) ? `${field}:"${unquoted}"` : `${field}:${unquoted}`;
+};
+
+// The word being typed at the end of a query: where it starts, the field it's a value
+// of if any, and the text so far. The text is empty if the query ends in a space.
+export interface QueryFragment {
+  start: number;
+  field: string | null;
+  text: string;
+}
+
+export const queryFragment = (query: string): QueryFragment => {
+  let start = 0;
+  let inQuote = false;
+  for (let i = 0; i < query.length; i++) {
+    if (query[i] === '"') inQuote = !inQuote;
+    else if (!inQuote && isSeparator(query[i])) start = i + 1;
+  }
+  // A negation is kept when the fragment is completed
+  if (query[start] === '-') start++;
+
+  const word = query.slice(start);
+  const field = word.match(/^([a-z]+):(.*)$/i);
+  return {
+    start,
+    field: field ? FIELD_NAMES[field[1].toLowerCase()] || field[1].toLowerCase() : null,
+    text: (field ? field[2] : word).replace(/"/g, ''),
+  };
+};
+
+// The query with the word being typed replaced, ready for the next word
+export const completeQuery = (query: string, completion: string): string =>
+  `${query.slice(0, queryFragment(query).start)}${completion} `;
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { decodeCursor, encodeCursor, fuseRankings, pageAfter, MAX_TIER_MATCHES, type SortableResult } from './search-ranking';
+
+const results = (values: Array<[string, number | string]>): SortableResult[] =>
+  values.map(([id, value]) => ({ id, value }));
+
+describe('pageAfter', () => {
+  const sorted = results([['a', 5], ['b', 4], ['c', 4], ['d', 3], ['e', 1]]);
+
+  it('starts at the top without a cursor', () => {
+    const { page, nextCursor } = pageAfter(sorted, null, 2, 'desc');
+    expect(page.map(result => result.id)).toEqual(['a', 'b']);
+    expect(nextCursor).toEqual({ value: 4, id: 'b' });
+  });
+
+  it('continues after the cursor, between tied values', () => {
+    const { page, nextCursor } = pageAfter(sorted, { value: 4, id: 'b' }, 2, 'desc');
+    expect(page.map(result => result.id)).toEqual(['c', 'd']);
+    expect(nextCursor).toEqual({ value: 3, id: 'd' });
+  });
+
+  it('has no next cursor on the last page', () => {
+    const { page, nextCursor } = pageAfter(sorted, { value: 3, id: 'd' }, 2, 'desc');
+    expect(page.map(result => result.id)).toEqual(['e']);
+    expect(nextCursor).toBeNull();
+  });
+
+  it('continues from where a result that has since gone would have been', () => {
+    const { page } = pageAfter(sorted, { value: 4, id: 'bb' }, 2, 'desc');
+    expect(page.map(result => result.id)).toEqual(['c', 'd']);
+  });
+
+  it('returns an empty page past the end', () => {
+    expect(pageAfter(sorted, { value: 0, id: 'z' }, 2, 'desc')).toEqual({ page: [], nextCursor: null });
+  });
+
+  it('pages ascending lists', () => {
+    const ascending = results([['x', 'apple'], ['y', 'banana'], ['z', 'cherry']]);
+    const { page, nextCursor } = pageAfter(ascending, { value: 'apple', id: 'x' }, 1, 'asc');
+    expect(page.map(result => result.id)).toEqual(['y']);
+    expect(nextCursor).toEqual({ value: 'banana', id: 'y' });
+  });
+
+  it('visits every result once across pages', () => {
+    const many = Array.from({ length: 101 }, (_, i) => ({ id: `f${i}`, value: Math.floor(i / 3) }))
+      .sort((a, b) => b.value - a.value || (a.id < b.id ? -1 : 1));
+    const seen: string[] = [];
+    let cursor = null;
+    do {
+      const result: ReturnType<typeof pageAfter> = pageAfter(many, cursor, 7, 'desc');
+      seen.push(...result.page.map(item => item.id));
+      cursor = result.nextCursor;
+    } while (cursor);
+    expect(seen).toEqual(many.map(item => item.id));
+  });
+});
+
+describe('decodeCursor', () => {
+  it('reads back an encoded cursor', () => {
+    expect(decodeCursor(encodeCursor({ value: 0.5, id: 'a', rankedAt: 1700000000000 })))
+      .toEqual({ value: 0.5, id: 'a', rankedAt: 1700000000000 });
+    expect(decodeCursor(encodeCursor({ value: 'kitchen.jpg', id: 'b' }))).toEqual({ value: 'kitchen.jpg', id: 'b' });
+  });
+
+  it('drops unknown fields and a malformed ranking time', () => {
+    const encoded = Buffer.from(JSON.stringify({ value: 1, id: 'a', rankedAt: 'later', extra: true })).toString('base64');
+    expect(decodeCursor(encoded)).toEqual({ value: 1, id: 'a' });
+  });
+
+  it('rejects cursors it did not produce', () => {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64');
+    expect(decodeCursor('not base64 json')).toBeNull();
+    expect(decodeCursor(encode(null))).toBeNull();
+    expect(decodeCursor(encode({ value: 1 }))).toBeNull();
+    expect(decodeCursor(encode({ value: { nested: true }, id: 'a' }))).toBeNull();
+    expect(decodeCursor(encode({ value: 1, id: 2 }))).toBeNull();
+  });
+});
+
+describe('fuseRankings', () => {
+  it('ranks files found by more tiers higher', () => {
+    const ranked = fuseRankings([
+      { tier: 'structured', matches: [{ fileId: 'a' }, { fileId: 'b' }] },
+      { tier: 'fulltext', matches: [{ fileId: 'b' }, { fileId: 'c' }] },
+    ]);
+    expect(ranked.map(result => result.fileId)).toEqual(['b', 'a', 'c']);
+    expect(ranked[1].matchedBy).toEqual([{ tier: 'structured', rank: 1 }]);
+  });
+
+  it('ranks at most MAX_TIER_MATCHES files from each tier', () => {
+    const matches = Array.from({ length: MAX_TIER_MATCHES + 10 }, (_, i) => ({ fileId: `f${i}` }));
+    const ranked = fuseRankings([{ tier: 'structured', matches }]);
+    expect(ranked).toHaveLength(MAX_TIER_MATCHES);
+    expect(ranked.some(result => result.fileId === `f${MAX_TIER_MATCHES}`)).toBe(false);
+  });
+});
@@ -0,0 +1,132 @@
+import type { SearchMatch, SearchTier } from '../types';
+
+// Reciprocal rank fusion constant; larger values flatten the lead of the top ranks
+const RRF_K = 60;
+// Weight of each tier's ranking in the fused score
+const TIER_WEIGHTS: Record<SearchTier, number> = {
+  structured: 1,
+  fulltext: 1,
+  semantic: 0.8,
+  visual: 1,
+};
+// Matches ranked from each tier. The fused ranking, and so every page of it, covers
+// at most this many files per tier, however deep the page.
+export const MAX_TIER_MATCHES = 1000;
+
+export interface TierRanking {
+  tier: SearchTier;
+  // Best first. A boost multiplies what the match adds to the file's score.
+  matches: Array<{ fileId: string; score?: number; boost?: number }>;
+}
+
+export interface RankedFile {
+  fileId: string;
+  score: number; // 0-1, 1 is ranked first by every tier
+  matchedBy: SearchMatch[];
+}
+
+// A position in a sorted result list: the sort value and id of the last result shown,
+// and when the first page was ranked, so later pages rank from the same clicks
+export interface SearchCursor {
+  value: number | string;
+  id: string;
+  rankedAt?: number;
+}
+
+export interface SortableResult {
+  id: string;
+  value: number | string;
+}
+
+// Merge the tiers' rankings with weighted reciprocal rank fusion. Each file appears
+// once, with the tiers that found it; ties are broken by id so the order is stable.
+// Matches past the first `MAX_TIER_MATCHES` files of a tier aren't ranked.
+export const fuseRankings = (rankings: TierRanking[]): RankedFile[] => {
+  const merged = new Map<string, RankedFile>();
+
+  rankings.forEach(({ tier, matches }) => {
+    const seen = new Set<string>();
+    matches.forEach(({ fileId, score, boost = 1 }) => {
+      if (seen.has(fileId) || seen.size >= MAX_TIER_MATCHES) return;
+      seen.add(fileId);
+
+      const rank = seen.size;
+      const entry = merged.get(fileId) || { fileId, score: 0, matchedBy: [] };
+      entry.score += TIER_WEIGHTS[tier] * boost / (RRF_K + rank);
+      entry.matchedBy.push(score === undefined ? { tier, rank } : { tier, rank, score });
+      merged.set(fileId, entry);
+    });
+  });
+
+  // Boosted files can score more than first place everywhere, and then set the scale
+  let maxScore = rankings.reduce((total, { tier }) => total + TIER_WEIGHTS[tier] / (RRF_K + 1), 0);
+  merged.forEach(entry => {
+    maxScore = Math.max(maxScore, entry.score);
+  });
+
+  const results: RankedFile[] = [];
+  merged.forEach(entry => results.push({ ...entry, score: maxScore > 0 ? entry.score / maxScore : 0 }));
+
+  return results.sort((a, b) => compareResults(
+    { id: a.fileId, value: a.score },
+    { id: b.fileId, value: b.score },
+    'desc'
+  ));
+};
+
+export const compareResults = (a: SortableResult, b: SortableResult, direction: 'asc' | 'desc'): number => {
+  if (a.value !== b.value) {
+    const order = a.value < b.value ? -1 : 1;
+    return direction === 'asc' ? order : -order;
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+};
+
+// The page of a sorted list following the cursor, and the cursor for the page after it.
+// The list is sorted, so the page's start is found by binary search.
+export const pageAfter = <T extends SortableResult>(
+  sorted: T[],
+  cursor: SearchCursor | null,
+  limit: number,
+  direction: 'asc' | 'desc'
+): { page: T[]; nextCursor: SearchCursor | null } => {
+  let start = 0;
+  if (cursor) {
+    // The first result sorted after the cursor
+    let end = sorted.length;
+    while (start < end) {
+      const middle = (start + end) >>> 1;
+      if (compareResults(sorted[middle], cursor, direction) > 0) {
+        end = middle;
+      } else {
+        start = middle + 1;
+      }
+    }
+  }
+
+  const page = sorted.slice(start, start + limit);
+  const last = page[page.length - 1];
+  const hasMore = start + limit < sorted.length;
+
+  return {
+    page,
+    nextCursor: hasMore && last ? { value: last.value, id: last.id } : null,
+  };
+};
+
+export const encodeCursor = (cursor: SearchCursor): string =>
+  Buffer.from(JSON.stringify(cursor)).toString('base64');
+
+// Null if the cursor isn't one this module produced
+export const decodeCursor = (encoded: string): SearchCursor | null => {
+  try {
+    const cursor = JSON.parse(Buffer.from(encoded, 'base64').toString('utf8'));
+    const validValue = typeof cursor?.value === 'number' || typeof cursor?.value === 'string';
+    if (!validValue || typeof cursor.id !== 'string') return null;
+    return typeof cursor.rankedAt === 'number'
+      ? { value: cursor.value, id: cursor.id, rankedAt: cursor.rankedAt }
+      : { value: cursor.value, id: cursor.id };
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,106 @@
+import { and, inArray, type SQL } from 'drizzle-orm';
+import { db } from './db';
+import { files, searchSynonyms, searchBoosts } from '../../database/schema';
+import { parseSearchQuery, type QueryNode } from './search-query';
+import { compileSearchQuery } from './search-conditions';
+import { normalizeTerm } from './suggestions';
+
+export interface SearchTuning {
+  synonyms: Map<string, string[]>; // By normalized term
+  boosts: Array<{ term: string; condition: SQL; weight: number }>;
+}
+
+// Synonyms and boosts as admins last saved them. Both tables are small, so they're
+// read per search and edits apply straight away.
+export const loadSearchTuning = async (): Promise<SearchTuning> => {
+  const [synonymRows, boostRows]: [
+    Array<{ term: string; synonym: string }>,
+    Array<{ term: string; filter: string; weight: number | string }>
+  ] = await Promise.all([
+    db.select({ term: searchSynonyms.term, synonym: searchSynonyms.synonym }).from(searchSynonyms),
+    db
+      .select({ term: searchBoosts.term, filter: searchBoosts.filter, weight: searchBoosts.weight })
+      .from(searchBoosts),
+  ]);
+
+  const synonyms = new Map<string, string[]>();
+  synonymRows.forEach(({ term, synonym }) => {
+    synonyms.set(term, (synonyms.get(term) || []).concat(synonym));
+  });
+
+  // Filters are checked when saved; one that no longer parses is skipped
+  const boosts = boostRows.reduce<SearchTuning['boosts']>((all, row) => {
+    const parsed = parseSearchQuery(row.filter);
+    const condition = parsed.ast && compileSearchQuery(parsed.ast, { includeTerms: true });
+    if (!condition) return all;
+    return all.concat({ term: row.term, condition, weight: Number(row.weight) });
+  }, []);
+
+  return { synonyms, boosts };
+};
+
+// The query with each term and field value that has synonyms widened to match them
+// too, e.g. settee becomes (settee OR sofa) and room:wc (room:wc OR room:bathroom)
+export const expandQuery = (node: QueryNode, synonyms: Map<string, string[]>): QueryNode => {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return { ...node, children: node.children.map(child => expandQuery(child, synonyms)) };
+    case 'not':
+      return { ...node, child: expandQuery(node.child, synonyms) };
+    case 'term':
+    case 'text': {
+      const alternatives = synonyms.get(normalizeTerm(node.value));
+      return alternatives
+        ? { type: 'or', children: [node, ...alternatives.map(value => ({ ...node, value }))] }
+        : node;
+    }
+    default:
+      return node;
+  }
+};
+
+// Synonyms of the words in the free text, for full-text search. The index matches
+// words, so synonyms of whole phrases only widen the structured match.
+export const fullTextAlternatives = (terms: string[], synonyms: Map<string, string[]>): Record<string, string[]> => {
+  const alternatives: Record<string, string[]> = {};
+  terms.forEach(term => {
+    normalizeTerm(term).split(' ').forEach(word => {
+      const wordSynonyms = synonyms.get(word);
+      if (wordSynonyms) alternatives[word] = wordSynonyms;
+    });
+  });
+  return alternatives;
+};
+
+// How much to boost each of the files for a query with these terms. A boost applies
+// when its term is one of the query's terms or words, or it has no term; a file
+// matching several gets the product of their weights.
+export const boostWeights = async (
+  fileIds: string[],
+  terms: string[],
+  boosts: SearchTuning['boosts']
+): Promise<Map<string, number>> => {
+  const weights = new Map<string, number>();
+  if (fileIds.length === 0) return weights;
+
+  const queryTerms = new Set<string>();
+  terms.forEach(term => {
+    const normalized = normalizeTerm(term);
+    queryTerms.add(normalized);
+    normalized.split(' ').forEach(word => queryTerms.add(word));
+  });
+
+  for (const boost of boosts) {
+    if (boost.term && !queryTerms.has(boost.term)) continue;
+
+    const matches: Array<{ id: string }> = await db
+      .select({ id: files.id })
+      .from(files)
+      .where(and(inArray(files.id, fileIds), boost.condition));
+
+    matches.forEach(({ id }) => weights.set(id, (weights.get(id) ?? 1) * boost.weight));
+  }
+
+  return weights;
+};
@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { sql } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { db } from './db';
+import { claimShareDownload, type ResolvedShareLink } from './share';
+
+// Only the columns claiming a download touches
+vi.mock('./db', async () => {
+  const { createClient } = await import('@libsql/client');
+  const { drizzle } = await import('drizzle-orm/libsql');
+  const db = drizzle(createClient({ url: ':memory:' }));
+  await db.run(sql`
+    CREATE TABLE shared_links (
+      id TEXT PRIMARY KEY,
+      max_downloads INTEGER,
+      download_count INTEGER NOT NULL DEFAULT 0
+    )
+  `);
+  return { db };
+});
+
+const createLink = async (maxDownloads: number | null, downloadCount = 0): Promise<ResolvedShareLink> => {
+  await db.run(sql`INSERT INTO shared_links (id, max_downloads, download_count) VALUES ('link', ${maxDownloads}, ${downloadCount})`);
+  return {
+    id: 'link',
+    fileId: 'file',
+    siteId: null,
+    category: null,
+    title: null,
+    expiresAt: new Date(Date.now() + 60_000),
+    passwordHash: null,
+    maxDownloads,
+    downloadCount,
+    viewOnly: false,
+  };
+};
+
+const downloadCount = async () => {
+  const [row] = await db.all<{ download_count: number }>(sql`SELECT download_count FROM shared_links WHERE id = 'link'`);
+  return row.download_count;
+};
+
+describe('claimShareDownload', () => {
+  beforeEach(async () => {
+    await db.run(sql`DELETE FROM shared_links`);
+  });
+
+  it('counts downloads of unlimited links', async () => {
+    const link = await createLink(null);
+    await claimShareDownload(link);
+    await claimShareDownload(link);
+    expect(await downloadCount()).toBe(2);
+  });
+
+  it('refuses downloads past the limit', async () => {
+    const link = await createLink(2);
+    await claimShareDownload(link);
+    await claimShareDownload(link);
+    await expect(claimShareDownload(link)).rejects.toMatchObject({
+      code: 'FORBIDDEN',
+      message: 'This share link has reached its download limit',
+    });
+    expect(await downloadCount()).toBe(2);
+  });
+
+  it('checks the stored count rather than the one the link was resolved with', async () => {
+    const link = await createLink(1);
+    await db.run(sql`UPDATE shared_links SET download_count = 1 WHERE id = 'link'`);
+    await expect(claimShareDownload(link)).rejects.toBeInstanceOf(TRPCError);
+  });
+
+  it('lets only as many concurrent claims through as the limit allows', async () => {
+    const link = await createLink(3);
+    const claims = await Promise.allSettled(Array.from({ length: 5 }, () => claimShareDownload(link)));
+    expect(claims.filter(claim => claim.status === 'fulfilled')).toHaveLength(3);
+    expect(await downloadCount()).toBe(3);
+  });
+
+  it('refuses view-only links without counting', async () => {
+    const link = await createLink(null);
+    await expect(claimShareDownload({ ...link, viewOnly: true })).rejects.toMatchObject({
+      code: 'FORBIDDEN',
+      message: 'Downloads are disabled for this share link',
+    });
+    expect(await downloadCount()).toBe(0);
+  });
+
+  it('refuses links that no longer exist', async () => {
+    const link = await createLink(null);
+    await db.run(sql`DELETE FROM shared_links`);
+    await expect(claimShareDownload(link)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+});
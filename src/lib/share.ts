@@ -0,0 +1,196 @@
+import { TRPCError } from '@trpc/server';
+import { eq, and, or, isNull, sql, desc, asc } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import type { NextRequest } from 'next/server';
+import { db } from './db';
+import { verifyPassword } from './auth';
+import { getShareLinkStatus } from './utils';
+import { files, sharedLinks, sharedLinkFiles, shareLinkAccesses, sites } from '../../database/schema';
+import type { FileCategory } from '../types';
+
+// Upper bound on files resolved for a collection (site/category collections grow over time)
+export const MAX_COLLECTION_FILES = 500;
+
+export interface ResolvedShareLink {
+  id: string;
+  fileId: string | null;
+  siteId: string | null;
+  category: FileCategory | null;
+  title: string | null;
+  expiresAt: Date;
+  passwordHash: string | null;
+  maxDownloads: number | null;
+  downloadCount: number;
+  viewOnly: boolean;
+}
+
+export interface SharedFile {
+  id: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  category: string;
+  gcsPath: string;
+  thumbnailPath: string | null;
+  aiDescription: string | null;
+  aiTags: string | null;
+  createdAt: Date;
+  siteName: string;
+  clientName: string;
+}
+
+export type ShareAccessAction = 'view' | 'download' | 'denied';
+
+// Look up a share token and make sure it is still usable
+export const resolveShareLink = async (token: string): Promise<ResolvedShareLink> => {
+  const [link] = await db
+    .select()
+    .from(sharedLinks)
+    .where(eq(sharedLinks.token, token))
+    .limit(1);
+
+  if (!link) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Share link not found',
+    });
+  }
+
+  const status = getShareLinkStatus(link);
+  if (status !== 'active') {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: status === 'revoked'
+        ? 'This share link has been revoked'
+        : 'This share link has expired',
+    });
+  }
+
+  return link;
+};
+
+// Resolve the files a link points at: a single file, an explicit set, or a site/category filter
+export const getSharedLinkFiles = async (link: ResolvedShareLink): Promise<SharedFile[]> => {
+  const query = db
+    .select({
+      id: files.id,
+      originalName: files.originalName,
+      mimeType: files.mimeType,
+      size: files.size,
+      category: files.category,
+      gcsPath: files.gcsPath,
+      thumbnailPath: files.thumbnailPath,
+      aiDescription: files.aiDescription,
+      aiTags: files.aiTags,
+      createdAt: files.createdAt,
+      siteName: sites.name,
+      clientName: sites.clientName,
+    });
+
+  if (link.fileId) {
+    return query
+      .from(files)
+      .innerJoin(sites, eq(sites.id, files.siteId))
+      .where(eq(files.id, link.fileId))
+      .limit(1);
+  }
+
+  if (link.siteId) {
+    const conditions = [eq(files.siteId, link.siteId)];
+    if (link.category) {
+      conditions.push(eq(files.category, link.category));
+    }
+
+    return query
+      .from(files)
+      .innerJoin(sites, eq(sites.id, files.siteId))
+      .where(and(...conditions))
+      .orderBy(desc(files.createdAt))
+      .limit(MAX_COLLECTION_FILES);
+  }
+
+  return query
+    .from(sharedLinkFiles)
+    .innerJoin(files, eq(files.id, sharedLinkFiles.fileId))
+    .innerJoin(sites, eq(sites.id, files.siteId))
+    .where(eq(sharedLinkFiles.linkId, link.id))
+    .orderBy(asc(sharedLinkFiles.position))
+    .limit(MAX_COLLECTION_FILES);
+};
+
+// Require the correct password for protected links
+export const checkSharePassword = async (
+  link: ResolvedShareLink,
+  req: NextRequest,
+  password?: string
+): Promise<void> => {
+  if (!link.passwordHash) return;
+
+  if (!password) {
+    throw new TRPCError({
+      code: 'UNAUTHORIZED',
+      message: 'This share link is password protected',
+    });
+  }
+
+  const isValid = await verifyPassword(password, link.passwordHash);
+  if (!isValid) {
+    await recordShareAccess(link.id, req, 'denied');
+    throw new TRPCError({
+      code: 'UNAUTHORIZED',
+      message: 'Incorrect password',
+    });
+  }
+};
+
+// Enforce view-only and download limits, claiming a download slot atomically
+// so concurrent requests cannot exceed the limit
+export const claimShareDownload = async (link: ResolvedShareLink): Promise<void> => {
+  if (link.viewOnly) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'Downloads are disabled for this share link',
+    });
+  }
+
+  const [claimed] = await db
+    .update(sharedLinks)
+    .set({ downloadCount: sql`${sharedLinks.downloadCount} + 1` })
+    .where(
+      and(
+        eq(sharedLinks.id, link.id),
+        or(
+          isNull(sharedLinks.maxDownloads),
+          sql`${sharedLinks.downloadCount} < ${sharedLinks.maxDownloads}`
+        )
+      )
+    )
+    .returning({ downloadCount: sharedLinks.downloadCount });
+
+  if (!claimed) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'This share link has reached its download limit',
+    });
+  }
+};
+
+// Record an access to a share link; failures here should never block the visitor
+export const recordShareAccess = async (
+  linkId: string,
+  req: NextRequest,
+  action: ShareAccessAction
+): Promise<void> => {
+  try {
+    await db.insert(shareLinkAccesses).values({
+      id: nanoid(),
+      linkId,
+      action,
+      ipAddress: req.headers.get('x-forwarded-for')?.split(',')[0].trim() || null,
+      userAgent: req.headers.get('user-agent'),
+      createdAt: new Date(),
+    });
+  } catch (error) {
+    console.error('Failed to record share link access:', error);
+  }
+};
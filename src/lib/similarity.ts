@@ -0,0 +1,142 @@
+import { eq, and, ne, or, desc, inArray, isNotNull, type SQL } from 'drizzle-orm';
+import { db } from './db';
+import { hashDistance } from './image-hash';
+import type { AIAnalysisResult } from './ai';
+import { files, ProcessingStatus, type File } from '../../database/schema';
+
+// Hashes this many bits apart or more are treated as unrelated images
+const MAX_HASH_DISTANCE = 24;
+// Share of the score from the hashes when both files have one; the rest is attribute overlap
+const VISUAL_WEIGHT = 0.7;
+const MIN_SIMILARITY = 0.2;
+// Most recent files compared against, to bound the work on large libraries
+const MAX_CANDIDATES = 5000;
+
+// Analysis fields describing how a file looks
+const LOOK_ATTRIBUTES = ['colors', 'materials', 'styleElements'] as const;
+
+export interface SimilarMatch {
+  fileId: string;
+  score: number; // 0-1, 1 is identical
+}
+
+// How a file or an image searched with looks: its perceptual hash and its analysed
+// colors, materials and style elements
+export interface LookReference {
+  perceptualHash: string | null;
+  attributes: Set<string>;
+}
+
+export interface FindLikeOptions {
+  siteIds: string[];
+  limit: number;
+  excludeFileId?: string;
+  condition?: SQL; // Further restricts the files compared
+}
+
+type ComparableFile = Pick<File, 'id' | 'perceptualHash' | 'metadata'>;
+
+// Colors, materials and style elements from an analysis, prefixed with the field so
+// e.g. a color and a material with the same name don't match
+export const lookAttributes = (analysis: AIAnalysisResult): Set<string> => {
+  const attributes = new Set<string>();
+  LOOK_ATTRIBUTES.forEach(field => {
+    // Stored analyses are parsed from JSON, so the lists aren't trusted to hold strings
+    const values: unknown = analysis[field];
+    if (!Array.isArray(values)) return;
+    values.forEach((value: unknown) => {
+      if (typeof value === 'string' && value.trim()) {
+        attributes.add(`${field}:${value.trim().toLowerCase()}`);
+      }
+    });
+  });
+  return attributes;
+};
+
+// The look attributes of a file's stored analysis
+const readLookAttributes = (metadata: string | null): Set<string> => {
+  if (!metadata) return new Set();
+
+  try {
+    return lookAttributes(JSON.parse(metadata));
+  } catch {
+    // Unparseable metadata just has no attributes
+    return new Set();
+  }
+};
+
+// Jaccard index: shared attributes over all attributes of the two files
+const attributeOverlap = (a: Set<string>, b: Set<string>): number => {
+  let shared = 0;
+  a.forEach(attribute => {
+    if (b.has(attribute)) shared++;
+  });
+  const total = a.size + b.size - shared;
+  return total > 0 ? shared / total : 0;
+};
+
+const visualSimilarity = (a: string, b: string): number =>
+  Math.max(0, 1 - hashDistance(a, b) / MAX_HASH_DISTANCE);
+
+// Files in the given sites that look like the reference, most similar first. Compares
+// perceptual hashes of the images (or rendered pages) and the overlap in analysed
+// colors, materials and style elements, using whichever both have.
+export const findFilesLike = async (
+  reference: LookReference,
+  { siteIds, limit, excludeFileId, condition }: FindLikeOptions
+): Promise<SimilarMatch[]> => {
+  if (siteIds.length === 0 || (!reference.perceptualHash && reference.attributes.size === 0)) {
+    return [];
+  }
+
+  const candidates: ComparableFile[] = await db
+    .select({ id: files.id, perceptualHash: files.perceptualHash, metadata: files.metadata })
+    .from(files)
+    .where(
+      and(
+        inArray(files.siteId, siteIds),
+        excludeFileId ? ne(files.id, excludeFileId) : undefined,
+        eq(files.processingStatus, ProcessingStatus.COMPLETED),
+        or(isNotNull(files.perceptualHash), isNotNull(files.metadata)),
+        condition
+      )
+    )
+    .orderBy(desc(files.createdAt))
+    .limit(MAX_CANDIDATES);
+
+  return candidates
+    .map(candidate => {
+      const attributes = readLookAttributes(candidate.metadata);
+      const visual = reference.perceptualHash && candidate.perceptualHash
+        ? visualSimilarity(reference.perceptualHash, candidate.perceptualHash)
+        : null;
+      const overlap = reference.attributes.size > 0 && attributes.size > 0
+        ? attributeOverlap(reference.attributes, attributes)
+        : null;
+
+      let score = 0;
+      if (visual !== null && overlap !== null) {
+        score = VISUAL_WEIGHT * visual + (1 - VISUAL_WEIGHT) * overlap;
+      } else if (visual !== null) {
+        score = visual;
+      } else if (overlap !== null) {
+        score = overlap;
+      }
+
+      return { fileId: candidate.id, score };
+    })
+    .filter(match => match.score >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+// Files in the given sites that look like this one
+export const findSimilarFiles = (
+  file: ComparableFile,
+  siteIds: string[],
+  limit: number
+): Promise<SimilarMatch[]> =>
+  findFilesLike(
+    { perceptualHash: file.perceptualHash, attributes: readLookAttributes(file.metadata) },
+    { siteIds, limit, excludeFileId: file.id }
+  );
@@ -0,0 +1,130 @@
+import { Storage, StorageOptions, File as GcsFile } from '@google-cloud/storage';
+import { pipeline } from 'stream/promises';
+import { nanoid } from 'nanoid';
+import type { StorageDriver, StoredObject } from './types';
+
+export interface GcsDriverConfig {
+  bucketName: string;
+  projectId?: string;
+  keyFilename?: string;
+}
+
+const toStoredObject = (file: GcsFile): StoredObject => {
+  const metadata = file.metadata;
+  return {
+    name: file.name,
+    size: parseInt(String(metadata.size || '0'), 10),
+    contentType: metadata.contentType || null,
+    timeCreated: metadata.timeCreated || new Date(0).toISOString(),
+    updated: metadata.updated || metadata.timeCreated || new Date(0).toISOString(),
+    metadata: (metadata.metadata || {}) as Record<string, string>,
+  };
+};
+
+// Google Cloud Storage backend
+export const createGcsDriver = (config: GcsDriverConfig): StorageDriver => {
+  const storageConfig: StorageOptions = {
+    projectId: config.projectId,
+  };
+
+  if (config.keyFilename) {
+    storageConfig.keyFilename = config.keyFilename;
+  }
+
+  const bucket = new Storage(storageConfig).bucket(config.bucketName);
+
+  return {
+    name: 'gcs',
+
+    async upload(filePath, data, options) {
+      await bucket.file(filePath).save(data, {
+        metadata: {
+          contentType: options.contentType,
+          metadata: options.metadata,
+        },
+        resumable: false,
+      });
+    },
+
+    async uploadStream(filePath, data, size, options) {
+      await pipeline(data, bucket.file(filePath).createWriteStream({
+        metadata: {
+          contentType: options.contentType,
+          metadata: options.metadata,
+        },
+      }));
+    },
+
+    async download(filePath) {
+      const [contents] = await bucket.file(filePath).download();
+      return contents;
+    },
+
+    createReadStream(filePath) {
+      return bucket.file(filePath).createReadStream();
+    },
+
+    async createResumableUpload(filePath, options) {
+      const [uploadUrl] = await bucket.file(filePath).createResumableUpload({
+        metadata: {
+          contentType: options.contentType,
+          metadata: options.metadata,
+        },
+        // Session URIs are bound to the origin that will use them for CORS
+        origin: process.env.NEXT_PUBLIC_APP_URL,
+      });
+      return { protocol: 'resumable', uploadUrl };
+    },
+
+    async getSignedUrl(filePath, action, expiresIn) {
+      const [url] = await bucket.file(filePath).getSignedUrl({
+        action,
+        expires: Date.now() + expiresIn,
+        responseType: action === 'read' ? 'application/octet-stream' : undefined,
+      });
+      return url;
+    },
+
+    async stat(filePath) {
+      const file = bucket.file(filePath);
+      await file.getMetadata();
+      return toStoredObject(file);
+    },
+
+    async exists(filePath) {
+      const [exists] = await bucket.file(filePath).exists();
+      return exists;
+    },
+
+    async delete(filePath) {
+      await bucket.file(filePath).delete();
+    },
+
+    async copy(sourcePath, destinationPath) {
+      await bucket.file(sourcePath).copy(bucket.file(destinationPath));
+    },
+
+    async list(prefix, maxResults) {
+      const [files] = await bucket.getFiles({ prefix, maxResults });
+      return files.map(toStoredObject);
+    },
+
+    async checkAccess() {
+      const [exists] = await bucket.exists();
+      if (!exists) {
+        console.error(`Bucket ${config.bucketName} does not exist`);
+        return false;
+      }
+
+      // Test write access
+      const testFile = bucket.file(`test/${nanoid()}.txt`);
+      await testFile.save('test', { resumable: false });
+      await testFile.delete();
+      return true;
+    },
+
+    getUri(filePath) {
+      return `gs://${config.bucketName}/${filePath}`;
+    },
+  };
+};
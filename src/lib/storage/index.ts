@@ -0,0 +1,516 @@
+import { nanoid } from 'nanoid';
+import path from 'path';
+import { Readable } from 'stream';
+import sharp from 'sharp';
+import { createGcsDriver } from './gcs';
+import { createLocalDriver } from './local';
+import { createS3Driver } from './s3';
+import type { StorageDriver, StorageDriverName, StoredObject, UploadTarget, UploadedPart } from './types';
+
+export type { StorageDriver, StorageDriverName, StoredObject, UploadTarget, UploadedPart } from './types';
+export { UPLOAD_SESSION_TTL } from './types';
+export type { LocalStorageDriver } from './local';
+
+const STORAGE_DRIVER_NAMES: StorageDriverName[] = ['gcs', 'local', 's3'];
+
+let driver: StorageDriver | null = null;
+
+export const isStorageDriverName = (name: string): name is StorageDriverName =>
+  STORAGE_DRIVER_NAMES.includes(name as StorageDriverName);
+
+// STORAGE_DRIVER picks the backend; without it GCS is used when a bucket is configured
+export const getStorageDriverName = (): StorageDriverName => {
+  const configured = process.env.STORAGE_DRIVER;
+  if (configured && isStorageDriverName(configured)) {
+    return configured;
+  }
+  if (configured) {
+    throw new Error(`Unknown STORAGE_DRIVER "${configured}" (expected ${STORAGE_DRIVER_NAMES.join(', ')})`);
+  }
+  return process.env.GCS_BUCKET_NAME ? 'gcs' : 'local';
+};
+
+// Build a driver from environment config. Used directly by tooling that talks to two backends.
+export const createStorageDriver = (name: StorageDriverName): StorageDriver => {
+  if (name === 'gcs') {
+    const bucketName = process.env.GCS_BUCKET_NAME;
+    if (!bucketName) {
+      throw new Error('GCS_BUCKET_NAME environment variable is required');
+    }
+
+    return createGcsDriver({
+      bucketName,
+      projectId: process.env.GCS_PROJECT_ID,
+      // Use service account key locally or in development
+      keyFilename: process.env.NODE_ENV !== 'production' ? process.env.GCS_KEY_FILE : undefined,
+    });
+  }
+
+  if (name === 's3') {
+    const bucketName = process.env.S3_BUCKET_NAME;
+    if (!bucketName) {
+      throw new Error('S3_BUCKET_NAME environment variable is required');
+    }
+
+    return createS3Driver({
+      bucketName,
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      // MinIO and most self-hosted endpoints don't support virtual-hosted buckets
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+        ? process.env.S3_FORCE_PATH_STYLE === 'true'
+        : !!process.env.S3_ENDPOINT,
+    });
+  }
+
+  // Anyone knowing the secret can sign URLs, so only development may go without one
+  const signingSecret = process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET;
+  if (!signingSecret && process.env.NODE_ENV !== 'development') {
+    throw new Error('STORAGE_SIGNING_SECRET or JWT_SECRET environment variable is required for local storage');
+  }
+
+  return createLocalDriver({
+    rootDir: process.env.LOCAL_STORAGE_PATH || path.join(process.cwd(), 'uploads'),
+    signingSecret: signingSecret || 'development-storage-secret',
+    baseUrl: process.env.NEXT_PUBLIC_APP_URL,
+  });
+};
+
+// Drivers are created on first use so importing this module never requires storage config
+export const getStorageDriver = (): StorageDriver => {
+  if (!driver) {
+    driver = createStorageDriver(getStorageDriverName());
+  }
+  return driver;
+};
+
+// Multipart helpers are only available on drivers that issue multipart upload targets
+const getMultipartUploads = () => {
+  const multipart = getStorageDriver().multipart;
+  if (!multipart) {
+    throw new Error('Storage driver does not support multipart uploads');
+  }
+  return multipart;
+};
+
+const getObjectMetadata = (metadata: FileMetadata): Record<string, string> => ({
+  originalName: metadata.originalName,
+  uploadedAt: metadata.uploadedAt,
+  uploadedBy: metadata.uploadedBy,
+  siteId: metadata.siteId,
+  category: metadata.category,
+});
+
+export interface UploadResult {
+  filename: string;
+  gcsPath: string;
+  publicUrl: string;
+  size: number;
+  thumbnailPath?: string;
+}
+
+export interface FileMetadata {
+  contentType: string;
+  size: number;
+  originalName: string;
+  uploadedAt: string;
+  uploadedBy: string;
+  siteId: string;
+  category: string;
+}
+
+// File type validation
+const ALLOWED_MIME_TYPES = [
+  // Images
+  'image/jpeg',
+  'image/jpg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'image/bmp',
+  'image/tiff',
+  // Documents
+  'application/pdf',
+  // CAD files
+  'application/x-autocad',
+  'application/dwg',
+  'application/dxf',
+  'image/vnd.dwg',
+  'image/x-dwg',
+];
+
+const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100MB
+
+export const validateFile = (file: File): { valid: boolean; error?: string } => {
+  if (file.size > MAX_FILE_SIZE) {
+    return {
+      valid: false,
+      error: `File size exceeds maximum limit of ${MAX_FILE_SIZE / (1024 * 1024)}MB`,
+    };
+  }
+
+  if (!ALLOWED_MIME_TYPES.includes(file.type)) {
+    return {
+      valid: false,
+      error: `File type ${file.type} is not supported`,
+    };
+  }
+
+  return { valid: true };
+};
+
+// Generate organized file path
+export const generateFilePath = (
+  siteId: string,
+  category: string,
+  originalName: string,
+  userId: string
+): string => {
+  const fileId = nanoid();
+  const timestamp = new Date().toISOString().slice(0, 10); // YYYY-MM-DD
+  const extension = path.extname(originalName);
+  const baseName = path.basename(originalName, extension);
+  const safeName = baseName.replace(/[^a-zA-Z0-9-_]/g, '_');
+  
+  return `sites/${siteId}/${category}/${timestamp}/${fileId}_${safeName}${extension}`;
+};
+
+// Upload file to storage
+export const uploadFile = async (
+  file: Buffer,
+  filePath: string,
+  metadata: FileMetadata
+): Promise<UploadResult> => {
+  try {
+    const storage = getStorageDriver();
+
+    // Upload file
+    await storage.upload(filePath, file, {
+      contentType: metadata.contentType,
+      metadata: getObjectMetadata(metadata),
+    });
+
+    const publicUrl = storage.getUri(filePath);
+
+    const result: UploadResult = {
+      filename: path.basename(filePath),
+      gcsPath: filePath,
+      publicUrl,
+      size: file.length,
+    };
+
+    // Generate thumbnail for images
+    if (metadata.contentType.startsWith('image/')) {
+      try {
+        const thumbnailPath = await generateThumbnail(file, filePath);
+        if (thumbnailPath) {
+          result.thumbnailPath = thumbnailPath;
+        }
+      } catch (error) {
+        console.error('Thumbnail generation failed:', error);
+        // Continue without thumbnail
+      }
+    }
+
+    return result;
+  } catch (error) {
+    console.error('File upload failed:', error);
+    throw new Error('Failed to upload file to storage');
+  }
+};
+
+// Start a resumable upload session the browser can PUT chunks to directly
+export const createResumableUpload = async (
+  filePath: string,
+  metadata: FileMetadata
+): Promise<UploadTarget> => {
+  try {
+    return await getStorageDriver().createResumableUpload(filePath, {
+      contentType: metadata.contentType,
+      metadata: getObjectMetadata(metadata),
+    });
+  } catch (error) {
+    console.error('Resumable upload creation failed:', error);
+    throw new Error('Failed to start upload session');
+  }
+};
+
+// Presign an upload URL for one part of a multipart upload
+export const getUploadPartUrl = async (
+  filePath: string,
+  uploadId: string,
+  partNumber: number,
+  expiresIn: number = 60 * 60 * 1000 // 1 hour
+): Promise<string> => {
+  try {
+    return await getMultipartUploads().getPartUrl(filePath, uploadId, partNumber, expiresIn);
+  } catch (error) {
+    console.error('Upload part URL generation failed:', error);
+    throw new Error('Failed to generate upload URL');
+  }
+};
+
+// List the parts of a multipart upload that storage has received
+export const listUploadedParts = async (
+  filePath: string,
+  uploadId: string
+): Promise<UploadedPart[]> => {
+  try {
+    return await getMultipartUploads().listParts(filePath, uploadId);
+  } catch (error) {
+    console.error('List uploaded parts failed:', error);
+    throw new Error('Failed to read upload progress');
+  }
+};
+
+// Assemble the uploaded parts into the final object
+export const completeMultipartUpload = async (
+  filePath: string,
+  uploadId: string,
+  parts: UploadedPart[]
+): Promise<void> => {
+  try {
+    await getMultipartUploads().complete(filePath, uploadId, parts);
+  } catch (error) {
+    console.error('Multipart upload completion failed:', error);
+    throw new Error('Failed to complete upload');
+  }
+};
+
+// Download a stored file into memory
+export const downloadFileBuffer = async (filePath: string): Promise<Buffer> => {
+  try {
+    return await getStorageDriver().download(filePath);
+  } catch (error) {
+    console.error('File download failed:', error);
+    throw new Error('Failed to download file from storage');
+  }
+};
+
+// Generate thumbnail for images
+export const generateThumbnail = async (
+  imageBuffer: Buffer,
+  originalPath: string
+): Promise<string | null> => {
+  try {
+    const thumbnailBuffer = await sharp(imageBuffer)
+      .resize(300, 300, {
+        fit: 'inside',
+        withoutEnlargement: true,
+      })
+      .jpeg({ quality: 80 })
+      .toBuffer();
+
+    const thumbnailPath = originalPath.replace(
+      path.extname(originalPath),
+      '_thumb.jpg'
+    );
+
+    await getStorageDriver().upload(thumbnailPath, thumbnailBuffer, {
+      contentType: 'image/jpeg',
+      metadata: {
+        type: 'thumbnail',
+        originalPath,
+      },
+    });
+
+    return thumbnailPath;
+  } catch (error) {
+    console.error('Thumbnail generation error:', error);
+    return null;
+  }
+};
+
+// Generate signed URL for file access
+export const generateSignedUrl = async (
+  filePath: string,
+  action: 'read' | 'write' = 'read',
+  expiresIn: number = 24 * 60 * 60 * 1000 // 24 hours in milliseconds
+): Promise<string> => {
+  try {
+    return await getStorageDriver().getSignedUrl(filePath, action, expiresIn);
+  } catch (error) {
+    console.error('Signed URL generation failed:', error);
+    throw new Error('Failed to generate file access URL');
+  }
+};
+
+// Open a read stream for a stored file
+export const createFileReadStream = (filePath: string): Readable => {
+  return getStorageDriver().createReadStream(filePath);
+};
+
+// Get file metadata
+export const getFileMetadata = async (filePath: string): Promise<StoredObject> => {
+  try {
+    return await getStorageDriver().stat(filePath);
+  } catch (error) {
+    console.error('Get file metadata failed:', error);
+    throw new Error('Failed to get file metadata');
+  }
+};
+
+// Delete file from storage
+export const deleteFile = async (filePath: string): Promise<boolean> => {
+  try {
+    const storage = getStorageDriver();
+    await storage.delete(filePath);
+    
+    // Also delete thumbnail if it exists
+    const thumbnailPath = filePath.replace(
+      path.extname(filePath),
+      '_thumb.jpg'
+    );
+    
+    try {
+      await storage.delete(thumbnailPath);
+    } catch (error) {
+      // Thumbnail might not exist, ignore error
+    }
+
+    return true;
+  } catch (error) {
+    console.error('File deletion failed:', error);
+    return false;
+  }
+};
+
+// Copy file to new location
+export const copyFile = async (
+  sourcePath: string,
+  destinationPath: string
+): Promise<boolean> => {
+  try {
+    await getStorageDriver().copy(sourcePath, destinationPath);
+    return true;
+  } catch (error) {
+    console.error('File copy failed:', error);
+    return false;
+  }
+};
+
+// List files in a directory
+export const listFiles = async (
+  prefix: string,
+  maxResults: number = 1000
+): Promise<StoredObject[]> => {
+  try {
+    return await getStorageDriver().list(prefix, maxResults);
+  } catch (error) {
+    console.error('List files failed:', error);
+    return [];
+  }
+};
+
+// Check if storage is reachable and writable
+export const checkBucketAccess = async (): Promise<boolean> => {
+  try {
+    return await getStorageDriver().checkAccess();
+  } catch (error) {
+    console.error('Bucket access check failed:', error);
+    return false;
+  }
+};
+
+// Cleanup old files (for scheduled cleanup)
+export const cleanupOldFiles = async (
+  daysOld: number = 30,
+  dryRun: boolean = true
+): Promise<{ deleted: number; errors: number }> => {
+  const cutoffDate = new Date();
+  cutoffDate.setDate(cutoffDate.getDate() - daysOld);
+
+  let deleted = 0;
+  let errors = 0;
+
+  try {
+    const storage = getStorageDriver();
+    const files = await storage.list();
+
+    for (const file of files) {
+      const createdDate = new Date(file.timeCreated);
+
+      if (createdDate < cutoffDate) {
+        try {
+          if (!dryRun) {
+            await storage.delete(file.name);
+          }
+          deleted++;
+          console.log(`${dryRun ? '[DRY RUN] ' : ''}Deleted: ${file.name}`);
+        } catch (error) {
+          errors++;
+          console.error(`Failed to delete ${file.name}:`, error);
+        }
+      }
+    }
+  } catch (error) {
+    console.error('Cleanup operation failed:', error);
+    errors++;
+  }
+
+  return { deleted, errors };
+};
+
+// Get storage usage statistics
+export const getStorageStats = async (): Promise<{
+  totalFiles: number;
+  totalSize: number;
+  sizeByCategory: Record<string, number>;
+}> => {
+  try {
+    const files = await getStorageDriver().list();
+    
+    let totalSize = 0;
+    const sizeByCategory: Record<string, number> = {};
+
+    for (const file of files) {
+      const size = file.size;
+      totalSize += size;
+
+      // Extract category from file path
+      const pathParts = file.name.split('/');
+      if (pathParts.length >= 3 && pathParts[0] === 'sites') {
+        const category = pathParts[2];
+        sizeByCategory[category] = (sizeByCategory[category] || 0) + size;
+      }
+    }
+
+    return {
+      totalFiles: files.length,
+      totalSize,
+      sizeByCategory,
+    };
+  } catch (error) {
+    console.error('Storage stats failed:', error);
+    return {
+      totalFiles: 0,
+      totalSize: 0,
+      sizeByCategory: {},
+    };
+  }
+};
+
+export default {
+  getStorageDriver,
+  createStorageDriver,
+  validateFile,
+  generateFilePath,
+  uploadFile,
+  createResumableUpload,
+  getUploadPartUrl,
+  listUploadedParts,
+  completeMultipartUpload,
+  downloadFileBuffer,
+  generateThumbnail,
+  generateSignedUrl,
+  createFileReadStream,
+  getFileMetadata,
+  deleteFile,
+  copyFile,
+  listFiles,
+  checkBucketAccess,
+  cleanupOldFiles,
+  getStorageStats,
+};
\ No newline at end of file
@@ -0,0 +1,63 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { createLocalDriver } from './local';
+
+const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'local-storage-'));
+const driver = createLocalDriver({ rootDir, signingSecret: 'test-secret' });
+
+afterAll(() => fs.rmSync(rootDir, { recursive: true, force: true }));
+
+// The action, expiry and signature of a signed URL
+const signedParams = async (filePath: string, action: 'read' | 'write', expiresIn: number) => {
+  const params = new URL(await driver.getSignedUrl(filePath, action, expiresIn), 'http://localhost').searchParams;
+  return { expires: params.get('expires')!, signature: params.get('signature')! };
+};
+
+describe('verifySignature', () => {
+  it('accepts a URL it signed', async () => {
+    const { expires, signature } = await signedParams('sites/a/photo.jpg', 'read', 60_000);
+    expect(driver.verifySignature('sites/a/photo.jpg', 'read', expires, signature)).toBe(true);
+  });
+
+  it('accepts the same path written differently', async () => {
+    const { expires, signature } = await signedParams('sites/a/photo.jpg', 'read', 60_000);
+    expect(driver.verifySignature('/sites/a/./photo.jpg', 'read', expires, signature)).toBe(true);
+  });
+
+  it('rejects another path or action', async () => {
+    const { expires, signature } = await signedParams('sites/a/photo.jpg', 'read', 60_000);
+    expect(driver.verifySignature('sites/a/other.jpg', 'read', expires, signature)).toBe(false);
+    expect(driver.verifySignature('sites/a/photo.jpg', 'write', expires, signature)).toBe(false);
+  });
+
+  it('rejects a changed expiry', async () => {
+    const { expires, signature } = await signedParams('sites/a/photo.jpg', 'read', 60_000);
+    expect(driver.verifySignature('sites/a/photo.jpg', 'read', String(Number(expires) + 1), signature)).toBe(false);
+  });
+
+  it('rejects expired and malformed expiries', async () => {
+    const { expires, signature } = await signedParams('sites/a/photo.jpg', 'read', -1_000);
+    expect(driver.verifySignature('sites/a/photo.jpg', 'read', expires, signature)).toBe(false);
+    expect(driver.verifySignature('sites/a/photo.jpg', 'read', 'never', signature)).toBe(false);
+  });
+
+  it('rejects signatures from another secret', async () => {
+    const other = createLocalDriver({ rootDir, signingSecret: 'other-secret' });
+    const params = new URL(await other.getSignedUrl('sites/a/photo.jpg', 'read', 60_000), 'http://localhost').searchParams;
+    expect(driver.verifySignature('sites/a/photo.jpg', 'read', params.get('expires')!, params.get('signature')!)).toBe(false);
+  });
+
+  it('rejects truncated or non-hex signatures', async () => {
+    const { expires, signature } = await signedParams('sites/a/photo.jpg', 'read', 60_000);
+    expect(driver.verifySignature('sites/a/photo.jpg', 'read', expires, signature.slice(0, 32))).toBe(false);
+    expect(driver.verifySignature('sites/a/photo.jpg', 'read', expires, 'not a signature')).toBe(false);
+  });
+
+  it('rejects paths outside the storage root', async () => {
+    const { expires, signature } = await signedParams('sites/a/photo.jpg', 'read', 60_000);
+    expect(driver.verifySignature('../sites/a/photo.jpg', 'read', expires, signature)).toBe(false);
+    expect(driver.verifySignature('.metadata/sites/a/photo.jpg', 'read', expires, signature)).toBe(false);
+  });
+});
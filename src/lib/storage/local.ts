@@ -0,0 +1,279 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { nanoid } from 'nanoid';
+import { UPLOAD_SESSION_TTL, type StorageDriver, type StoredObject, type StoreObjectOptions } from './types';
+
+export interface LocalDriverConfig {
+  rootDir: string;
+  signingSecret: string;
+  // Origin prepended to signed URLs; relative URLs are returned when unset
+  baseUrl?: string;
+}
+
+export interface LocalUploadStatus {
+  committed: number;
+  complete: boolean;
+}
+
+// Local directory backend. Objects live under rootDir at their storage path, with
+// sidecar metadata and in-progress uploads kept in hidden directories beside them.
+export interface LocalStorageDriver extends StorageDriver {
+  readonly name: 'local';
+  verifySignature(filePath: string, action: 'read' | 'write', expires: string, signature: string): boolean;
+  getUploadStatus(filePath: string): Promise<LocalUploadStatus>;
+  writeUploadChunk(filePath: string, start: number, totalSize: number, body: Readable): Promise<LocalUploadStatus>;
+  writeStream(filePath: string, body: Readable, contentType: string): Promise<void>;
+}
+
+interface ObjectMetadata {
+  contentType: string | null;
+  metadata: Record<string, string>;
+  timeCreated: string;
+}
+
+const METADATA_DIR = '.metadata';
+const PARTIAL_DIR = '.partial';
+const LOCAL_ROUTE_PREFIX = '/api/storage/';
+
+// Reject anything that could escape the storage root or reach the hidden directories
+const normalizeKey = (filePath: string): string => {
+  const key = path.posix.normalize(filePath.replace(/\\/g, '/')).replace(/^\/+/, '');
+  if (!key || key === '.' || key.split('/').some(segment => segment === '..' || segment.startsWith('.'))) {
+    throw new Error(`Invalid storage path: ${filePath}`);
+  }
+  return key;
+};
+
+export const createLocalDriver = (config: LocalDriverConfig): LocalStorageDriver => {
+  const rootDir = path.resolve(config.rootDir);
+
+  const objectFile = (filePath: string) => path.join(rootDir, normalizeKey(filePath));
+  const metadataFile = (filePath: string) => path.join(rootDir, METADATA_DIR, `${normalizeKey(filePath)}.json`);
+  const partialFile = (filePath: string) => path.join(rootDir, PARTIAL_DIR, normalizeKey(filePath));
+
+  const sign = (key: string, action: string, expires: string) =>
+    crypto.createHmac('sha256', config.signingSecret).update(`${action}\n${key}\n${expires}`).digest('hex');
+
+  const signUrl = (filePath: string, action: 'read' | 'write', expiresIn: number) => {
+    const key = normalizeKey(filePath);
+    const expires = String(Date.now() + expiresIn);
+    const params = new URLSearchParams({ action, expires, signature: sign(key, action, expires) });
+    const encodedPath = key.split('/').map(encodeURIComponent).join('/');
+    return `${config.baseUrl || ''}${LOCAL_ROUTE_PREFIX}${encodedPath}?${params}`;
+  };
+
+  const readMetadata = async (filePath: string): Promise<ObjectMetadata | null> => {
+    try {
+      return JSON.parse(await fs.promises.readFile(metadataFile(filePath), 'utf8'));
+    } catch {
+      return null;
+    }
+  };
+
+  const writeMetadata = async (filePath: string, options: StoreObjectOptions) => {
+    const target = metadataFile(filePath);
+    const metadata: ObjectMetadata = {
+      contentType: options.contentType,
+      metadata: options.metadata || {},
+      timeCreated: new Date().toISOString(),
+    };
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.writeFile(target, JSON.stringify(metadata));
+  };
+
+  const statObject = async (filePath: string): Promise<StoredObject> => {
+    const key = normalizeKey(filePath);
+    const [stats, metadata] = await Promise.all([
+      fs.promises.stat(objectFile(key)),
+      readMetadata(key),
+    ]);
+
+    return {
+      name: key,
+      size: stats.size,
+      contentType: metadata?.contentType || null,
+      timeCreated: metadata?.timeCreated || stats.birthtime.toISOString(),
+      updated: stats.mtime.toISOString(),
+      metadata: metadata?.metadata || {},
+    };
+  };
+
+  const getFileSize = async (file: string): Promise<number | null> => {
+    try {
+      return (await fs.promises.stat(file)).size;
+    } catch {
+      return null;
+    }
+  };
+
+  // Walk a directory yielding storage keys, skipping the hidden bookkeeping directories
+  const walk = async (dir: string, results: string[]): Promise<void> => {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue;
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await walk(fullPath, results);
+      } else if (entry.isFile()) {
+        results.push(path.relative(rootDir, fullPath).split(path.sep).join('/'));
+      }
+    }
+  };
+
+  const driver: LocalStorageDriver = {
+    name: 'local',
+
+    async upload(filePath, data, options) {
+      const target = objectFile(filePath);
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+      await fs.promises.writeFile(target, data);
+      await writeMetadata(filePath, options);
+    },
+
+    async uploadStream(filePath, data, size, options) {
+      const target = objectFile(filePath);
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+      await pipeline(data, fs.createWriteStream(target));
+      await writeMetadata(filePath, options);
+    },
+
+    async download(filePath) {
+      return fs.promises.readFile(objectFile(filePath));
+    },
+
+    createReadStream(filePath) {
+      return fs.createReadStream(objectFile(filePath));
+    },
+
+    async createResumableUpload(filePath, options) {
+      const partial = partialFile(filePath);
+      await fs.promises.mkdir(path.dirname(partial), { recursive: true });
+      await fs.promises.writeFile(partial, '');
+      await writeMetadata(filePath, options);
+      return { protocol: 'resumable', uploadUrl: signUrl(filePath, 'write', UPLOAD_SESSION_TTL) };
+    },
+
+    async getSignedUrl(filePath, action, expiresIn) {
+      return signUrl(filePath, action, expiresIn);
+    },
+
+    stat: statObject,
+
+    async exists(filePath) {
+      return (await getFileSize(objectFile(filePath))) !== null;
+    },
+
+    async delete(filePath) {
+      await fs.promises.unlink(objectFile(filePath));
+      await fs.promises.rm(metadataFile(filePath), { force: true });
+    },
+
+    async copy(sourcePath, destinationPath) {
+      const target = objectFile(destinationPath);
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+      await fs.promises.copyFile(objectFile(sourcePath), target);
+
+      const metadata = await readMetadata(sourcePath);
+      if (metadata) {
+        await writeMetadata(destinationPath, {
+          contentType: metadata.contentType || 'application/octet-stream',
+          metadata: metadata.metadata,
+        });
+      }
+    },
+
+    async list(prefix = '', maxResults) {
+      // Only walk the directory that can contain matches
+      const prefixDir = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : '';
+      const keys: string[] = [];
+      await walk(prefixDir ? objectFile(prefixDir) : rootDir, keys);
+
+      const matches = keys.filter(key => key.startsWith(prefix)).sort();
+      const limited = maxResults ? matches.slice(0, maxResults) : matches;
+      return Promise.all(limited.map(key => statObject(key)));
+    },
+
+    async checkAccess() {
+      const testFile = path.join(rootDir, 'test', `${nanoid()}.txt`);
+      await fs.promises.mkdir(path.dirname(testFile), { recursive: true });
+      await fs.promises.writeFile(testFile, 'test');
+      await fs.promises.unlink(testFile);
+      return true;
+    },
+
+    getUri(filePath) {
+      return `file://${objectFile(filePath)}`;
+    },
+
+    verifySignature(filePath, action, expires, signature) {
+      const expiresAt = Number(expires);
+      if (!Number.isFinite(expiresAt) || expiresAt < Date.now()) return false;
+
+      let expected: Buffer;
+      try {
+        expected = Buffer.from(sign(normalizeKey(filePath), action, expires), 'hex');
+      } catch {
+        return false;
+      }
+      const provided = Buffer.from(signature, 'hex');
+      return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+    },
+
+    async getUploadStatus(filePath) {
+      const partialSize = await getFileSize(partialFile(filePath));
+      if (partialSize !== null) {
+        return { committed: partialSize, complete: false };
+      }
+
+      const size = await getFileSize(objectFile(filePath));
+      if (size !== null) {
+        return { committed: size, complete: true };
+      }
+
+      throw new Error('Upload session not found');
+    },
+
+    async writeUploadChunk(filePath, start, totalSize, body) {
+      const status = await driver.getUploadStatus(filePath);
+
+      // Out-of-order chunks are ignored; the client resumes from the committed offset
+      if (status.complete || start !== status.committed) {
+        return status;
+      }
+
+      const partial = partialFile(filePath);
+      await pipeline(body, fs.createWriteStream(partial, { flags: 'a' }));
+
+      let committed = (await getFileSize(partial)) ?? 0;
+      if (committed >= totalSize) {
+        await fs.promises.truncate(partial, totalSize);
+        const target = objectFile(filePath);
+        await fs.promises.mkdir(path.dirname(target), { recursive: true });
+        await fs.promises.rename(partial, target);
+        committed = totalSize;
+      }
+
+      return { committed, complete: committed >= totalSize };
+    },
+
+    async writeStream(filePath, body, contentType) {
+      const target = objectFile(filePath);
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+      await pipeline(body, fs.createWriteStream(target));
+      await writeMetadata(filePath, { contentType });
+      // The whole object was sent, so the upload is finished
+      await fs.promises.rm(partialFile(filePath), { force: true });
+    },
+  };
+
+  return driver;
+};
@@ -0,0 +1,253 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  HeadBucketCommand,
+  DeleteObjectCommand,
+  CopyObjectCommand,
+  ListObjectsV2Command,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  ListPartsCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { PassThrough, Readable } from 'stream';
+import { nanoid } from 'nanoid';
+import type { StorageDriver, StoredObject, UploadedPart } from './types';
+
+export interface S3DriverConfig {
+  bucketName: string;
+  region: string;
+  // Custom endpoint for MinIO, R2 and other S3-compatible services
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle?: boolean;
+}
+
+// Presigned URLs cannot outlive SigV4's one-week limit
+const MAX_PRESIGN_SECONDS = 7 * 24 * 60 * 60;
+
+const toPresignSeconds = (expiresIn: number) =>
+  Math.max(1, Math.min(MAX_PRESIGN_SECONDS, Math.floor(expiresIn / 1000)));
+
+// S3 signals missing objects with a 404 and no consistent error name
+const isNotFound = (error: unknown) => {
+  const { $metadata, name } = (error || {}) as { $metadata?: { httpStatusCode?: number }; name?: string };
+  return $metadata?.httpStatusCode === 404 || name === 'NotFound' || name === 'NoSuchKey';
+};
+
+// S3, MinIO, Cloudflare R2 and other S3-compatible backends
+export const createS3Driver = (config: S3DriverConfig): StorageDriver => {
+  const client = new S3Client({
+    region: config.region,
+    endpoint: config.endpoint,
+    forcePathStyle: config.forcePathStyle,
+    // Default checksums would be signed into presigned URLs for an empty body,
+    // breaking browser uploads, and are not supported by every S3-compatible service
+    requestChecksumCalculation: 'WHEN_REQUIRED',
+    responseChecksumValidation: 'WHEN_REQUIRED',
+    credentials: config.accessKeyId && config.secretAccessKey
+      ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+      : undefined,
+  });
+  const Bucket = config.bucketName;
+
+  const getObjectBody = async (filePath: string): Promise<Readable> => {
+    const response = await client.send(new GetObjectCommand({ Bucket, Key: filePath }));
+    return response.Body as Readable;
+  };
+
+  const listParts = async (filePath: string, uploadId: string): Promise<UploadedPart[]> => {
+    const parts: UploadedPart[] = [];
+    let marker: string | undefined;
+
+    do {
+      const response = await client.send(new ListPartsCommand({
+        Bucket,
+        Key: filePath,
+        UploadId: uploadId,
+        PartNumberMarker: marker,
+      }));
+
+      for (const part of response.Parts || []) {
+        parts.push({
+          partNumber: part.PartNumber as number,
+          size: part.Size || 0,
+          etag: part.ETag as string,
+        });
+      }
+      marker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+    } while (marker);
+
+    return parts;
+  };
+
+  return {
+    name: 's3',
+
+    async upload(filePath, data, options) {
+      await client.send(new PutObjectCommand({
+        Bucket,
+        Key: filePath,
+        Body: data,
+        ContentType: options.contentType,
+        Metadata: options.metadata,
+      }));
+    },
+
+    // A streamed body needs its length up front for a single PUT
+    async uploadStream(filePath, data, size, options) {
+      await client.send(new PutObjectCommand({
+        Bucket,
+        Key: filePath,
+        Body: data,
+        ContentLength: size,
+        ContentType: options.contentType,
+        Metadata: options.metadata,
+      }));
+    },
+
+    async download(filePath) {
+      const response = await client.send(new GetObjectCommand({ Bucket, Key: filePath }));
+      return Buffer.from(await response.Body!.transformToByteArray());
+    },
+
+    // The SDK fetches objects asynchronously, so hand back a stream and pipe into it once ready
+    createReadStream(filePath) {
+      const stream = new PassThrough();
+      getObjectBody(filePath)
+        .then(body => {
+          body.on('error', error => stream.destroy(error));
+          body.pipe(stream);
+        })
+        .catch(error => stream.destroy(error));
+      return stream;
+    },
+
+    async createResumableUpload(filePath, options) {
+      const response = await client.send(new CreateMultipartUploadCommand({
+        Bucket,
+        Key: filePath,
+        ContentType: options.contentType,
+        Metadata: options.metadata,
+      }));
+      return { protocol: 'multipart', uploadId: response.UploadId as string };
+    },
+
+    multipart: {
+      async getPartUrl(filePath, uploadId, partNumber, expiresIn) {
+        return getSignedUrl(
+          client,
+          new UploadPartCommand({ Bucket, Key: filePath, UploadId: uploadId, PartNumber: partNumber }),
+          { expiresIn: toPresignSeconds(expiresIn) }
+        );
+      },
+
+      listParts,
+
+      async complete(filePath, uploadId, parts) {
+        await client.send(new CompleteMultipartUploadCommand({
+          Bucket,
+          Key: filePath,
+          UploadId: uploadId,
+          MultipartUpload: {
+            Parts: parts.map(part => ({ PartNumber: part.partNumber, ETag: part.etag })),
+          },
+        }));
+      },
+
+      async abort(filePath, uploadId) {
+        await client.send(new AbortMultipartUploadCommand({ Bucket, Key: filePath, UploadId: uploadId }));
+      },
+    },
+
+    async getSignedUrl(filePath, action, expiresIn) {
+      const command = action === 'read'
+        ? new GetObjectCommand({ Bucket, Key: filePath })
+        : new PutObjectCommand({ Bucket, Key: filePath });
+      return getSignedUrl(client, command, { expiresIn: toPresignSeconds(expiresIn) });
+    },
+
+    async stat(filePath) {
+      const response = await client.send(new HeadObjectCommand({ Bucket, Key: filePath }));
+      const modified = (response.LastModified || new Date(0)).toISOString();
+      return {
+        name: filePath,
+        size: response.ContentLength || 0,
+        contentType: response.ContentType || null,
+        timeCreated: modified,
+        updated: modified,
+        metadata: response.Metadata || {},
+      };
+    },
+
+    async exists(filePath) {
+      try {
+        await client.send(new HeadObjectCommand({ Bucket, Key: filePath }));
+        return true;
+      } catch (error) {
+        if (isNotFound(error)) return false;
+        throw error;
+      }
+    },
+
+    async delete(filePath) {
+      await client.send(new DeleteObjectCommand({ Bucket, Key: filePath }));
+    },
+
+    async copy(sourcePath, destinationPath) {
+      await client.send(new CopyObjectCommand({
+        Bucket,
+        Key: destinationPath,
+        CopySource: `${Bucket}/${sourcePath.split('/').map(encodeURIComponent).join('/')}`,
+      }));
+    },
+
+    async list(prefix, maxResults) {
+      const objects: StoredObject[] = [];
+      let continuationToken: string | undefined;
+
+      do {
+        const response = await client.send(new ListObjectsV2Command({
+          Bucket,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+          MaxKeys: maxResults ? Math.min(1000, maxResults - objects.length) : undefined,
+        }));
+
+        for (const object of response.Contents || []) {
+          const modified = (object.LastModified || new Date(0)).toISOString();
+          objects.push({
+            name: object.Key as string,
+            size: object.Size || 0,
+            contentType: null, // Not returned by listings
+            timeCreated: modified,
+            updated: modified,
+            metadata: {},
+          });
+        }
+        continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+      } while (continuationToken && (!maxResults || objects.length < maxResults));
+
+      return objects;
+    },
+
+    async checkAccess() {
+      await client.send(new HeadBucketCommand({ Bucket }));
+
+      // Test write access
+      const testKey = `test/${nanoid()}.txt`;
+      await client.send(new PutObjectCommand({ Bucket, Key: testKey, Body: 'test' }));
+      await client.send(new DeleteObjectCommand({ Bucket, Key: testKey }));
+      return true;
+    },
+
+    getUri(filePath) {
+      return `s3://${config.bucketName}/${filePath}`;
+    },
+  };
+};
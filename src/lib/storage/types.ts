@@ -0,0 +1,68 @@
+import type { Readable } from 'stream';
+
+export type StorageDriverName = 'gcs' | 'local' | 's3';
+
+// How long an upload session, and the URL its bytes are sent to, stays usable. GCS
+// resumable session URIs are valid for a week.
+export const UPLOAD_SESSION_TTL = 6 * 24 * 60 * 60 * 1000;
+
+export interface StoredObject {
+  name: string;
+  size: number;
+  contentType: string | null;
+  timeCreated: string;
+  updated: string;
+  metadata: Record<string, string>;
+}
+
+export interface StoreObjectOptions {
+  contentType: string;
+  metadata?: Record<string, string>;
+}
+
+export interface UploadedPart {
+  partNumber: number;
+  size: number;
+  etag: string;
+}
+
+// Where the browser sends the bytes of a direct upload: a single resumable URL
+// (GCS protocol), or an S3 multipart upload whose parts get presigned URLs
+export type UploadTarget =
+  | { protocol: 'resumable'; uploadUrl: string }
+  | { protocol: 'multipart'; uploadId: string };
+
+export interface MultipartUploads {
+  getPartUrl(filePath: string, uploadId: string, partNumber: number, expiresIn: number): Promise<string>;
+  listParts(filePath: string, uploadId: string): Promise<UploadedPart[]>;
+  complete(filePath: string, uploadId: string, parts: UploadedPart[]): Promise<void>;
+  abort(filePath: string, uploadId: string): Promise<void>;
+}
+
+// Everything the app needs from a storage backend. Paths are bucket-relative keys
+// such as `sites/<siteId>/<category>/<date>/<fileId>.<ext>`.
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+
+  upload(filePath: string, data: Buffer, options: StoreObjectOptions): Promise<void>;
+  // Store an object without holding it in memory; `size` is its length in bytes
+  uploadStream(filePath: string, data: Readable, size: number, options: StoreObjectOptions): Promise<void>;
+  download(filePath: string): Promise<Buffer>;
+  createReadStream(filePath: string): Readable;
+
+  // Start a direct upload; drivers returning a multipart target must implement `multipart`
+  createResumableUpload(filePath: string, options: StoreObjectOptions): Promise<UploadTarget>;
+  readonly multipart?: MultipartUploads;
+  getSignedUrl(filePath: string, action: 'read' | 'write', expiresIn: number): Promise<string>;
+
+  stat(filePath: string): Promise<StoredObject>;
+  exists(filePath: string): Promise<boolean>;
+  delete(filePath: string): Promise<void>;
+  copy(sourcePath: string, destinationPath: string): Promise<void>;
+  list(prefix?: string, maxResults?: number): Promise<StoredObject[]>;
+
+  // Verify the backend is reachable and writable
+  checkAccess(): Promise<boolean>;
+  // Fully qualified location of an object, e.g. gs://bucket/path
+  getUri(filePath: string): string;
+}
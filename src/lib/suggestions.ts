@@ -0,0 +1,371 @@
+import { eq, and, or, gt, gte, desc, inArray, isNull, sql, type SQL } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { db } from './db';
+import { getAccessibleSites } from './permissions';
+import { queryFragment, formatFieldFilter } from './search-query';
+import {
+  files,
+  sites,
+  searchQueries,
+  searchTerms,
+  savedSearches,
+  ProcessingStatus,
+  type NewSearchTerm,
+  type Site,
+} from '../../database/schema';
+import type { AIAnalysisResult } from './ai';
+import type { SearchSuggestion } from '../types';
+
+type TermKind = NewSearchTerm['kind'];
+type ValueKind = Exclude<TermKind, 'query'>;
+
+// Characters typed before terms are suggested
+const MIN_FRAGMENT_LENGTH = 2;
+// A query must have been run this many times in a site to be suggested to others
+const MIN_POPULAR_QUERY_RUNS = 2;
+// Longer queries are one-offs, not worth suggesting
+const MAX_RECORDED_QUERY_LENGTH = 100;
+const MAX_QUERY_SUGGESTIONS = 3;
+const MAX_SAVED_SUGGESTIONS = 3;
+// Terms compared by edit distance when the prefix matches run short
+const MAX_FUZZY_CANDIDATES = 2000;
+// Files read per batch when rebuilding the index
+const REBUILD_BATCH_SIZE = 200;
+// Rows written per insert
+const INSERT_BATCH_SIZE = 100;
+
+const VALUE_KINDS: ValueKind[] = ['tag', 'room', 'material', 'site', 'client'];
+
+// The query field a term is filtered with; clients are matched by site:
+const KIND_FIELDS: Record<ValueKind, string> = {
+  tag: 'tag',
+  room: 'room',
+  material: 'material',
+  site: 'site',
+  client: 'site',
+};
+
+// Terms suggested while typing a field's value, e.g. site:har
+const FIELD_KINDS: Record<string, ValueKind[]> = {
+  tag: ['tag'],
+  room: ['room'],
+  material: ['material'],
+  site: ['site', 'client'],
+};
+
+interface TermRow {
+  kind: TermKind;
+  term: string;
+  normalized: string;
+  count: number;
+}
+
+export const normalizeTerm = (value: string): string =>
+  value.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Rows for the distinct non-empty values, first spelling kept
+const termRows = (
+  kind: TermKind,
+  values: unknown[],
+  source: { siteId: string | null; fileId: string | null }
+): NewSearchTerm[] => {
+  const seen = new Set<string>();
+  const rows: NewSearchTerm[] = [];
+  const now = new Date();
+
+  values.forEach(value => {
+    if (typeof value !== 'string') return;
+    const normalized = normalizeTerm(value);
+    if (!normalized || seen.has(normalized)) return;
+    seen.add(normalized);
+    rows.push({ id: nanoid(), kind, term: value.trim(), normalized, ...source, weight: 1, updatedAt: now });
+  });
+
+  return rows;
+};
+
+const insertTerms = async (rows: NewSearchTerm[]) => {
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    await db.insert(searchTerms).values(rows.slice(i, i + INSERT_BATCH_SIZE));
+  }
+};
+
+const listOf = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+// The AI's own tags, room type and materials; the site and client names added to a
+// file's tags are indexed once per site instead
+const fileTermRows = (
+  file: { id: string; siteId: string },
+  analysis: Partial<Pick<AIAnalysisResult, 'tags' | 'roomType' | 'materials'>>
+): NewSearchTerm[] => {
+  const source = { siteId: file.siteId, fileId: file.id };
+  return [
+    ...termRows('tag', listOf(analysis.tags), source),
+    ...termRows('room', [analysis.roomType], source),
+    ...termRows('material', listOf(analysis.materials), source),
+  ];
+};
+
+export const deleteFileTerms = async (fileId: string) => {
+  await db.delete(searchTerms).where(eq(searchTerms.fileId, fileId));
+};
+
+// Replace a file's terms with those from its latest analysis
+export const indexFileTerms = async (
+  file: { id: string; siteId: string },
+  analysis: Partial<Pick<AIAnalysisResult, 'tags' | 'roomType' | 'materials'>>
+) => {
+  await deleteFileTerms(file.id);
+  await insertTerms(fileTermRows(file, analysis));
+};
+
+const siteTermRows = (site: Pick<Site, 'id' | 'name' | 'clientName'>): NewSearchTerm[] => {
+  const source = { siteId: site.id, fileId: null };
+  return [...termRows('site', [site.name], source), ...termRows('client', [site.clientName], source)];
+};
+
+// Replace a site's name and client name, e.g. after it is renamed
+export const indexSiteTerms = async (site: Pick<Site, 'id' | 'name' | 'clientName'>) => {
+  await db
+    .delete(searchTerms)
+    .where(and(eq(searchTerms.siteId, site.id), isNull(searchTerms.fileId)));
+  await insertTerms(siteTermRows(site));
+};
+
+// Count a search that found something towards its query's popularity in each of
+// the sites it searched
+export const recordQueryTerm = async (query: string, siteIds: string[]) => {
+  const normalized = normalizeTerm(query);
+  if (!normalized || normalized.length > MAX_RECORDED_QUERY_LENGTH || siteIds.length === 0) return;
+
+  const existing: Array<{ id: string; siteId: string | null }> = await db
+    .select({ id: searchTerms.id, siteId: searchTerms.siteId })
+    .from(searchTerms)
+    .where(and(
+      eq(searchTerms.kind, 'query'),
+      eq(searchTerms.normalized, normalized),
+      inArray(searchTerms.siteId, siteIds)
+    ));
+
+  if (existing.length > 0) {
+    await db
+      .update(searchTerms)
+      .set({ weight: sql`${searchTerms.weight} + 1`, updatedAt: new Date() })
+      .where(inArray(searchTerms.id, existing.map(row => row.id)));
+  }
+
+  const counted = new Set(existing.map(row => row.siteId));
+  await insertTerms(siteIds
+    .filter(siteId => !counted.has(siteId))
+    .reduce<NewSearchTerm[]>((rows, siteId) => rows.concat(termRows('query', [query], { siteId, fileId: null })), []));
+};
+
+// Rebuild the whole index from sites, processed files and the search log, for data
+// from before the index existed or after it was cleared. Logged searches are counted
+// in the sites their users can access now, narrowed by the sites they filtered to.
+export const rebuildSuggestionIndex = async (
+  onProgress?: (filesIndexed: number) => void
+): Promise<{ sites: number; files: number; queries: number }> => {
+  await db.delete(searchTerms);
+
+  const allSites: Array<Pick<Site, 'id' | 'name' | 'clientName'>> = await db
+    .select({ id: sites.id, name: sites.name, clientName: sites.clientName })
+    .from(sites);
+  await insertTerms(allSites.reduce<NewSearchTerm[]>((rows, site) => rows.concat(siteTermRows(site)), []));
+
+  let filesIndexed = 0;
+  let lastId = '';
+  while (true) {
+    const batch: Array<{ id: string; siteId: string; metadata: string | null }> = await db
+      .select({ id: files.id, siteId: files.siteId, metadata: files.metadata })
+      .from(files)
+      .where(and(eq(files.processingStatus, ProcessingStatus.COMPLETED), gt(files.id, lastId)))
+      .orderBy(files.id)
+      .limit(REBUILD_BATCH_SIZE);
+
+    if (batch.length === 0) break;
+
+    const rows = batch.reduce<NewSearchTerm[]>((all, file) => {
+      try {
+        return all.concat(fileTermRows(file, file.metadata ? JSON.parse(file.metadata) : {}));
+      } catch {
+        return all;
+      }
+    }, []);
+    await insertTerms(rows);
+
+    filesIndexed += batch.length;
+    lastId = batch[batch.length - 1].id;
+    onProgress?.(filesIndexed);
+  }
+
+  const queries: Array<{ userId: string; filters: string | null; query: string; runs: number }> = await db
+    .select({
+      userId: searchQueries.userId,
+      filters: searchQueries.filters,
+      query: sql<string>`min(${searchQueries.query})`,
+      runs: sql<number>`count(*)`,
+    })
+    .from(searchQueries)
+    .where(and(gt(searchQueries.resultsCount, 0), sql`length(${searchQueries.query}) <= ${MAX_RECORDED_QUERY_LENGTH}`))
+    .groupBy(searchQueries.userId, searchQueries.filters, sql`lower(${searchQueries.query})`);
+
+  // Runs by query and site, first spelling kept
+  const userSites = new Map<string, string[]>();
+  const siteQueries = new Map<string, NewSearchTerm>();
+  for (const { userId, filters, query, runs } of queries) {
+    if (!userSites.has(userId)) userSites.set(userId, await getAccessibleSites(userId));
+    let searched = userSites.get(userId)!;
+    try {
+      const filteredTo = filters ? JSON.parse(filters).siteIds : undefined;
+      if (Array.isArray(filteredTo)) searched = searched.filter(siteId => filteredTo.includes(siteId));
+    } catch {
+      // Unreadable filters count as searching every accessible site
+    }
+
+    searched.forEach(siteId => {
+      termRows('query', [query], { siteId, fileId: null }).forEach(row => {
+        const key = `${siteId}:${row.normalized}`;
+        const counted = siteQueries.get(key);
+        siteQueries.set(key, counted ? { ...counted, weight: counted.weight! + Number(runs) } : { ...row, weight: Number(runs) });
+      });
+    });
+  }
+  const queryRows: NewSearchTerm[] = [];
+  siteQueries.forEach(row => queryRows.push(row));
+  await insertTerms(queryRows);
+
+  return { sites: allSites.length, files: filesIndexed, queries: queryRows.length };
+};
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, char => `\\${char}`);
+
+const likePattern = (pattern: string): SQL => sql`${searchTerms.normalized} LIKE ${pattern} ESCAPE '\\'`;
+
+// Terms that start with the text, or have a word that does
+const prefixCondition = (text: string): SQL =>
+  or(likePattern(`${escapeLike(text)}%`), likePattern(`% ${escapeLike(text)}%`))!;
+
+// Terms of the given kinds in the accessible sites, merged across files and most
+// common first
+const groupedTerms = (kinds: TermKind[], siteIds: string[], condition: SQL, limit: number): Promise<TermRow[]> => {
+  const count = sql<number>`sum(${searchTerms.weight})`;
+  return db
+    .select({
+      kind: searchTerms.kind,
+      normalized: searchTerms.normalized,
+      term: sql<string>`min(${searchTerms.term})`,
+      count,
+    })
+    .from(searchTerms)
+    .where(and(inArray(searchTerms.kind, kinds), inArray(searchTerms.siteId, siteIds), condition))
+    .groupBy(searchTerms.kind, searchTerms.normalized)
+    .orderBy(desc(count))
+    .limit(limit);
+};
+
+// Edits needed to turn the typed text into some prefix of the term, so "kitchn"
+// matches "kitchen island" with one edit. Swapped letters count as one edit.
+const prefixDistance = (typed: string, term: string): number => {
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: term.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= typed.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= term.length; j++) {
+      const substitution = previous[j - 1] + (typed[i - 1] === term[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+      if (i > 1 && j > 1 && typed[i - 1] === term[j - 2] && typed[i - 2] === term[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+  return Math.min(...previous);
+};
+
+// Typos allowed for the length typed; short fragments must match exactly
+const allowedEdits = (length: number) => (length >= 8 ? 2 : length >= 4 ? 1 : 0);
+
+// Prefix matches first, topped up with near misses when there are too few. Near
+// misses must get the first character right, which keeps the candidates few.
+const matchTerms = async (text: string, kinds: ValueKind[], siteIds: string[], limit: number): Promise<TermRow[]> => {
+  const prefixMatches = (await groupedTerms(kinds, siteIds, prefixCondition(text), limit))
+    .map(row => ({ row, starts: row.normalized.startsWith(text) }))
+    .sort((a, b) => Number(b.starts) - Number(a.starts))
+    .map(({ row }) => row);
+
+  const edits = allowedEdits(text.length);
+  if (prefixMatches.length >= limit || edits === 0) return prefixMatches;
+
+  const found = new Set(prefixMatches.map(row => `${row.kind}:${row.normalized}`));
+  const candidates = await groupedTerms(kinds, siteIds, likePattern(`${escapeLike(text[0])}%`), MAX_FUZZY_CANDIDATES);
+  const nearMisses = candidates
+    .filter(row => !found.has(`${row.kind}:${row.normalized}`))
+    .map(row => ({ row, distance: prefixDistance(text, row.normalized) }))
+    .filter(({ distance }) => distance <= edits)
+    .sort((a, b) => a.distance - b.distance || Number(b.row.count) - Number(a.row.count))
+    .map(({ row }) => row);
+
+  return prefixMatches.concat(nearMisses).slice(0, limit);
+};
+
+// Queries others have run in the accessible sites that start with what's typed
+const popularQueries = async (query: string, siteIds: string[]): Promise<SearchSuggestion[]> => {
+  const rows = await groupedTerms(
+    ['query'],
+    siteIds,
+    and(likePattern(`${escapeLike(query)}%`), gte(searchTerms.weight, MIN_POPULAR_QUERY_RUNS))!,
+    MAX_QUERY_SUGGESTIONS + 1
+  );
+
+  return rows
+    .filter(row => row.normalized !== query)
+    .slice(0, MAX_QUERY_SUGGESTIONS)
+    .map(row => ({ type: 'query', label: row.term, value: row.term, replaces: 'query', count: Number(row.count) }));
+};
+
+// The user's saved searches whose name or query contains what's typed
+const savedQueries = async (query: string, userId: string): Promise<SearchSuggestion[]> => {
+  const rows: Array<{ name: string; query: string }> = await db
+    .select({ name: savedSearches.name, query: savedSearches.query })
+    .from(savedSearches)
+    .where(eq(savedSearches.userId, userId))
+    .orderBy(desc(savedSearches.updatedAt));
+
+  return rows
+    .filter(row => normalizeTerm(row.name).includes(query) || normalizeTerm(row.query).includes(query))
+    .slice(0, MAX_SAVED_SUGGESTIONS)
+    .map(row => ({ type: 'saved', label: row.name, value: row.query, replaces: 'query', count: 0 }));
+};
+
+// Suggestions for a query as it's typed: terms completing its last word (restricted
+// to the field being typed, if any), then the user's saved searches and popular
+// queries that the whole query starts
+export const suggestTerms = async (
+  query: string,
+  { siteIds, userId, limit }: { siteIds: string[]; userId: string; limit: number }
+): Promise<SearchSuggestion[]> => {
+  const fragment = queryFragment(query);
+  const text = normalizeTerm(fragment.text);
+  const kinds = fragment.field ? FIELD_KINDS[fragment.field] || [] : VALUE_KINDS;
+  const whole = normalizeTerm(query);
+
+  const [terms, saved, popular] = await Promise.all([
+    text.length >= MIN_FRAGMENT_LENGTH && kinds.length > 0 && siteIds.length > 0
+      ? matchTerms(text, kinds, siteIds, limit)
+      : Promise.resolve([]),
+    savedQueries(whole, userId),
+    fragment.field || siteIds.length === 0 ? Promise.resolve([]) : popularQueries(whole, siteIds),
+  ]);
+
+  const termSuggestions = terms.map((row): SearchSuggestion => ({
+    type: row.kind,
+    label: row.term,
+    value: formatFieldFilter(KIND_FIELDS[row.kind as ValueKind], row.term),
+    replaces: 'fragment',
+    count: Number(row.count),
+  }));
+
+  return [...termSuggestions, ...saved, ...popular];
+};
@@ -1,4 +1,8 @@
 import { createTRPCReact } from '@trpc/react-query';
+import type { inferRouterOutputs } from '@trpc/server';
 import type { AppRouter } from '@/server/routers/_app';
 
-export const trpc = createTRPCReact<AppRouter>();
\ No newline at end of file
+export const trpc = createTRPCReact<AppRouter>();
+
+// What each procedure returns, e.g. RouterOutputs['search']['getSearchTuning']
+export type RouterOutputs = inferRouterOutputs<AppRouter>;
@@ -184,29 +184,26 @@ export function downloadFile(url: string, filename: string): void {
   document.body.removeChild(link)
 }
 
-// Parse search query into terms and filters
-export function parseSearchQuery(query: string): {
-  terms: string[]
-  filters: Record<string, string>
-} {
-  const terms: string[] = []
-  const filters: Record<string, string> = {}
-  
-  // Split by spaces, handling quoted strings
-  const parts = query.match(/(?:[^\s"]+|"[^"]*")+/g) || []
-  
-  for (const part of parts) {
-    if (part.includes(':')) {
-      const [key, value] = part.split(':', 2)
-      if (key && value) {
-        filters[key.toLowerCase()] = value.replace(/"/g, '')
-      }
-    } else {
-      terms.push(part.replace(/"/g, ''))
-    }
-  }
-  
-  return { terms, filters }
+// POST form fields to a download endpoint so the browser streams the response to disk
+export function submitDownloadForm(action: string, fields: Record<string, string | string[] | undefined>): void {
+  const form = document.createElement('form')
+  form.method = 'POST'
+  form.action = action
+
+  Object.entries(fields).forEach(([name, value]) => {
+    const values = Array.isArray(value) ? value : value ? [value] : []
+    values.forEach(v => {
+      const input = document.createElement('input')
+      input.type = 'hidden'
+      input.name = name
+      input.value = v
+      form.appendChild(input)
+    })
+  })
+
+  document.body.appendChild(form)
+  form.submit()
+  document.body.removeChild(form)
 }
 
 // Validate file upload
@@ -353,6 +350,17 @@ export async function retryWithBackoff<T>(
   throw lastError!
 }
 
+// Derive a share link's status from its revocation and expiry
+export function getShareLinkStatus(link: {
+  isActive: boolean
+  expiresAt: Date | string | number
+  revokedAt?: Date | string | number | null
+}): 'active' | 'expired' | 'revoked' {
+  if (link.revokedAt) return 'revoked'
+  if (!link.isActive || new Date(link.expiresAt).getTime() <= Date.now()) return 'expired'
+  return 'active'
+}
+
 // Format file category labels
 export function formatCategoryLabel(category: string): string {
   switch (category) {
@@ -0,0 +1,171 @@
+import { eq, and, lt, desc, sql } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { db } from './db';
+import { deleteFileEmbedding } from './embeddings';
+import { deleteFileTerms } from './suggestions';
+import { files, fileVersions, users, ProcessingStatus, type File, type FileVersion } from '../../database/schema';
+
+// The stored contents that differ between versions of a file
+export type VersionContents = Pick<
+  FileVersion,
+  'originalName' | 'mimeType' | 'size' | 'gcsPath' | 'thumbnailPath' | 'contentHash'
+>;
+
+export type FileVersionWithUploader = FileVersion & {
+  uploaderName: string | null;
+  isCurrent: boolean;
+};
+
+// Tries at taking the next version number while other uploads to the file race for it
+const VERSION_ATTEMPTS = 5;
+
+// Record a new file's contents as its first version, unless another request already has
+export const recordInitialVersion = async (
+  file: Pick<File, 'id' | 'version' | 'uploadedBy' | 'createdAt'> & VersionContents
+): Promise<void> => {
+  await db.insert(fileVersions).values({
+    id: nanoid(),
+    fileId: file.id,
+    versionNumber: file.version,
+    originalName: file.originalName,
+    mimeType: file.mimeType,
+    size: file.size,
+    gcsPath: file.gcsPath,
+    thumbnailPath: file.thumbnailPath,
+    contentHash: file.contentHash,
+    uploadedBy: file.uploadedBy,
+    restoredFrom: null,
+    createdAt: file.createdAt,
+  }).onConflictDoNothing();
+};
+
+// Files uploaded before version history existed have no version rows yet
+const ensureVersionHistory = async (file: File): Promise<void> => {
+  const [result] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(fileVersions)
+    .where(eq(fileVersions.fileId, file.id));
+
+  if (Number(result?.count || 0) === 0) {
+    await recordInitialVersion(file);
+  }
+};
+
+// Make new contents the current version of a file. The files row always mirrors
+// the current version, so search, thumbnails and downloads read it directly.
+export const addFileVersion = async (
+  file: File,
+  contents: VersionContents,
+  uploadedBy: string,
+  restoredFrom: number | null = null
+): Promise<FileVersion> => {
+  await ensureVersionHistory(file);
+
+  // Version numbers are unique per file, so of concurrent uploads only one gets each
+  // number and the others try the next
+  const now = new Date();
+  let version: FileVersion | null = null;
+  for (let attempt = 0; attempt < VERSION_ATTEMPTS && !version; attempt++) {
+    const [latest] = await db
+      .select({ versionNumber: sql<number | null>`max(${fileVersions.versionNumber})` })
+      .from(fileVersions)
+      .where(eq(fileVersions.fileId, file.id));
+
+    const candidate: FileVersion = {
+      ...contents,
+      id: nanoid(),
+      fileId: file.id,
+      versionNumber: Number(latest?.versionNumber || file.version) + 1,
+      uploadedBy,
+      restoredFrom,
+      createdAt: now,
+    };
+    const [inserted] = await db
+      .insert(fileVersions)
+      .values(candidate)
+      .onConflictDoNothing()
+      .returning({ id: fileVersions.id });
+
+    if (inserted) {
+      version = candidate;
+    }
+  }
+
+  if (!version) {
+    throw new Error(`Failed to add a version to file ${file.id}: too many concurrent uploads`);
+  }
+
+  // AI results, the embedding and suggestion terms describe the old contents, so clear
+  // them until processing reruns. A later version saved first is left current.
+  const [updated] = await db
+    .update(files)
+    .set({
+      ...contents,
+      filename: contents.gcsPath.split('/').pop() as string,
+      version: version.versionNumber,
+      aiDescription: null,
+      aiTags: null,
+      metadata: null,
+      extractedText: null,
+      perceptualHash: null,
+      processingStatus: ProcessingStatus.PENDING,
+      updatedAt: now,
+    })
+    .where(and(eq(files.id, file.id), lt(files.version, version.versionNumber)))
+    .returning({ id: files.id });
+
+  if (updated) {
+    await deleteFileEmbedding(file.id);
+    await deleteFileTerms(file.id);
+  }
+
+  return version;
+};
+
+// Version history, newest first
+export const listFileVersions = async (file: File): Promise<FileVersionWithUploader[]> => {
+  await ensureVersionHistory(file);
+
+  const rows: Array<FileVersion & { uploaderName: string | null }> = await db
+    .select({
+      id: fileVersions.id,
+      fileId: fileVersions.fileId,
+      versionNumber: fileVersions.versionNumber,
+      originalName: fileVersions.originalName,
+      mimeType: fileVersions.mimeType,
+      size: fileVersions.size,
+      gcsPath: fileVersions.gcsPath,
+      thumbnailPath: fileVersions.thumbnailPath,
+      contentHash: fileVersions.contentHash,
+      uploadedBy: fileVersions.uploadedBy,
+      restoredFrom: fileVersions.restoredFrom,
+      createdAt: fileVersions.createdAt,
+      uploaderName: users.name,
+    })
+    .from(fileVersions)
+    .leftJoin(users, eq(fileVersions.uploadedBy, users.id))
+    .where(eq(fileVersions.fileId, file.id))
+    .orderBy(desc(fileVersions.versionNumber));
+
+  return rows.map(row => ({ ...row, isCurrent: row.versionNumber === file.version }));
+};
+
+export const getFileVersion = async (versionId: string): Promise<FileVersion | null> => {
+  const [version] = await db
+    .select()
+    .from(fileVersions)
+    .where(eq(fileVersions.id, versionId))
+    .limit(1);
+
+  return version || null;
+};
+
+// Every storage path a file's history references, current contents included
+export const getVersionPaths = async (file: File): Promise<string[]> => {
+  const rows: Array<{ gcsPath: string }> = await db
+    .select({ gcsPath: fileVersions.gcsPath })
+    .from(fileVersions)
+    .where(eq(fileVersions.fileId, file.id));
+
+  return Array.from(new Set([file.gcsPath, ...rows.map(row => row.gcsPath)]));
+};
@@ -5,6 +5,7 @@ import { searchRouter } from './search';
 import { sitesRouter } from './sites';
 import { usersRouter } from './users';
 import { adminRouter } from './admin';
+import { shareRouter } from './share';
 
 /**
  * This is the primary router for your server.
@@ -18,6 +19,7 @@ export const appRouter = createTRPCRouter({
   sites: sitesRouter,
   users: usersRouter,
   admin: adminRouter,
+  share: shareRouter,
 });
 
 // Export type definition of API
@@ -1,6 +1,6 @@
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
-import { eq, and, desc, sql, gte } from 'drizzle-orm';
+import { eq, and, or, desc, sql, gte } from 'drizzle-orm';
 import { createTRPCRouter, adminProcedure } from '../trpc';
 import { 
   users, 
@@ -9,12 +9,27 @@ import {
   sitePermissions, 
   searchQueries, 
   sharedLinks,
-  ProcessingStatus 
+  ProcessingStatus,
+  JobStatus,
+  type SharedLink
 } from '../../../database/schema';
 import { checkConnection } from '../../lib/db';
 import { checkBucketAccess, getStorageStats } from '../../lib/storage';
-import { checkAIService } from '../../lib/ai';
+import { checkAIService, getAIProviderName } from '../../lib/ai';
 import { getPermissionStats } from '../../lib/permissions';
+import { enqueueFileProcessing, retryJob, getJobCounts, listJobs, JOB_CONCURRENCY } from '../../lib/jobs';
+
+// An active share link with what it shares and who made it; collections have no file
+type ActiveShareLink = Pick<
+  SharedLink,
+  'id' | 'token' | 'fileId' | 'title' | 'category' | 'createdBy' | 'expiresAt' | 'createdAt'
+> & {
+  fileName: string | null;
+  siteId: string | null;
+  siteName: string | null;
+  clientName: string | null;
+  creatorName: string;
+};
 
 export const adminRouter = createTRPCRouter({
   // Get system overview
@@ -468,18 +483,10 @@ export const adminRouter = createTRPCRouter({
           };
         }
 
-        // Update status to pending for retry
-        const fileIds = filesToRetry.map(f => f.id);
-        await ctx.db
-          .update(files)
-          .set({
-            processingStatus: ProcessingStatus.PENDING,
-            updatedAt: new Date(),
-          })
-          .where(sql`${files.id} IN (${fileIds.map(() => '?').join(',')})`);
-
-        // Here you would trigger the cloud function or background job
-        // to reprocess these files. For now, we'll just update the status.
+        // Queue each file again; this also resets its status to pending
+        for (const file of filesToRetry) {
+          await enqueueFileProcessing(file.id);
+        }
 
         return {
           message: `${filesToRetry.length} file(s) queued for reprocessing`,
@@ -498,6 +505,52 @@ export const adminRouter = createTRPCRouter({
       }
     }),
 
+  // Processing queue depth and recent jobs with their attempts and errors
+  getProcessingQueue: adminProcedure
+    .input(
+      z.object({
+        status: z.nativeEnum(JobStatus).optional(),
+        limit: z.number().min(1).max(200).default(50),
+      }).default({})
+    )
+    .query(async ({ input }) => {
+      try {
+        const [counts, jobs] = await Promise.all([
+          getJobCounts(),
+          listJobs(input.status, input.limit),
+        ]);
+
+        return {
+          counts,
+          jobs,
+          concurrency: JOB_CONCURRENCY,
+        };
+      } catch (error) {
+        console.error('Get processing queue error:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to get processing queue',
+        });
+      }
+    }),
+
+  // Give a failed processing job a fresh set of attempts
+  retryProcessingJob: adminProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input }) => {
+      const retried = await retryJob(input.id);
+      if (!retried) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Failed job not found',
+        });
+      }
+
+      return {
+        message: 'Job queued for another attempt',
+      };
+    }),
+
   // Clean up expired shared links
   cleanupExpiredLinks: adminProcedure
     .mutation(async ({ ctx }) => {
@@ -544,6 +597,71 @@ export const adminRouter = createTRPCRouter({
       }
     }),
 
+  // Get every active share link across all sites
+  getActiveShareLinks: adminProcedure
+    .input(
+      z.object({
+        page: z.number().min(1).default(1),
+        limit: z.number().min(1).max(100).default(50),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      try {
+        const now = new Date();
+        const activeCondition = and(
+          eq(sharedLinks.isActive, true),
+          sql`${sharedLinks.expiresAt} > ${now}`
+        );
+
+        // Get total count
+        const [countResult] = await ctx.db
+          .select({ count: sql<number>`count(*)` })
+          .from(sharedLinks)
+          .where(activeCondition);
+
+        const total = countResult?.count || 0;
+
+        const links: ActiveShareLink[] = await ctx.db
+          .select({
+            id: sharedLinks.id,
+            token: sharedLinks.token,
+            fileId: sharedLinks.fileId,
+            fileName: files.originalName,
+            title: sharedLinks.title,
+            category: sharedLinks.category,
+            siteId: sites.id,
+            siteName: sites.name,
+            clientName: sites.clientName,
+            createdBy: sharedLinks.createdBy,
+            creatorName: users.name,
+            expiresAt: sharedLinks.expiresAt,
+            createdAt: sharedLinks.createdAt,
+          })
+          .from(sharedLinks)
+          // Collections have no single file; site/category collections still resolve a site
+          .leftJoin(files, eq(files.id, sharedLinks.fileId))
+          .leftJoin(sites, or(eq(sites.id, files.siteId), eq(sites.id, sharedLinks.siteId)))
+          .innerJoin(users, eq(users.id, sharedLinks.createdBy))
+          .where(activeCondition)
+          .orderBy(sharedLinks.expiresAt)
+          .limit(input.limit)
+          .offset((input.page - 1) * input.limit);
+
+        return {
+          links,
+          total,
+          page: input.page,
+          limit: input.limit,
+        };
+      } catch (error) {
+        console.error('Get active share links error:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to get active share links',
+        });
+      }
+    }),
+
   // Get system configuration
   getSystemConfig: adminProcedure
     .query(async ({ ctx }) => {
@@ -558,8 +676,9 @@ export const adminRouter = createTRPCRouter({
         ],
         bucketName: process.env.GCS_BUCKET_NAME || 'not-configured',
         appUrl: process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000',
+        aiProvider: getAIProviderName(),
         features: {
-          aiProcessing: !!process.env.GEMINI_API_KEY,
+          aiProcessing: getAIProviderName() !== 'stub',
           cloudStorage: !!process.env.GCS_BUCKET_NAME,
           fullTextSearch: true,
         },
@@ -2,31 +2,85 @@ import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
 import { eq, and, desc, inArray, sql } from 'drizzle-orm';
 import { createTRPCRouter, protectedProcedure, adminProcedure } from '../trpc';
-import { files, sharedLinks, FileCategory, ProcessingStatus, sites } from '../../../database/schema';
+import { files, fileVersions, fileEmbeddings, processingJobs, searchImpressions, uploadSessions, sharedLinks, sharedLinkFiles, shareLinkAccesses, FileCategory, ProcessingStatus, sites, users, type UploadSession, type File as FileRecord } from '../../../database/schema';
 import { canViewSite, canUploadToSite, getAccessibleSites } from '../../lib/permissions';
-import { uploadFile, generateSignedUrl, deleteFile, validateFile } from '../../lib/storage';
-import { analyzeImage, analyzeDocument } from '../../lib/ai';
+import {
+  createResumableUpload,
+  getUploadPartUrl,
+  listUploadedParts,
+  completeMultipartUpload,
+  downloadFileBuffer,
+  createFileReadStream,
+  generateThumbnail,
+  getFileMetadata,
+  generateSignedUrl,
+  deleteFile,
+  validateFile,
+  UPLOAD_SESSION_TTL,
+} from '../../lib/storage';
+import { hashPassword } from '../../lib/auth';
+import { getShareLinkStatus } from '../../lib/utils';
+import { MAX_COLLECTION_FILES } from '../../lib/share';
+import {
+  computeContentHash,
+  findDuplicateFiles,
+  findStoredObject,
+  releaseStoredObject,
+  type DuplicateFile,
+} from '../../lib/dedup';
+import {
+  recordInitialVersion,
+  addFileVersion,
+  listFileVersions,
+  getFileVersion,
+  getVersionPaths,
+} from '../../lib/versions';
+import { enqueueFileProcessing } from '../../lib/jobs';
+import { deleteFileTerms } from '../../lib/suggestions';
 import { nanoid } from 'nanoid';
 import { db } from '../../lib/db';
 
+// Chunks must be a multiple of 256 KiB for GCS resumable uploads and at least
+// 5 MiB for S3 multipart parts
+const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024;
+
+// Options shared by single-file links and collections
+const shareLinkOptions = z.object({
+  expiresInHours: z.number().min(1).max(168).default(24), // Max 7 days
+  password: z.string().min(4).max(128).optional(),
+  maxDownloads: z.number().int().min(1).max(1000).optional(),
+  viewOnly: z.boolean().default(false),
+});
+
 export const filesRouter = createTRPCRouter({
-  // Upload file procedure
-  upload: protectedProcedure
+  // Start a direct-to-storage upload; the browser PUTs chunks to the returned URL,
+  // or to presigned part URLs when storage uses multipart uploads
+  createUploadSession: protectedProcedure
     .input(
       z.object({
         siteId: z.string().min(1, 'Site ID is required'),
         category: z.nativeEnum(FileCategory),
-        files: z.array(
-          z.object({
-            name: z.string(),
-            size: z.number(),
-            type: z.string(),
-            data: z.string(), // Base64 encoded file data
-          })
-        ).min(1, 'At least one file is required'),
+        name: z.string().min(1),
+        size: z.number().int().min(0),
+        type: z.string(),
+        // Upload a new version of this existing file instead of a new file
+        versionOf: z.string().optional(),
       })
     )
     .mutation(async ({ input, ctx }) => {
+      // New versions stay in the category of the file they replace
+      let category = input.category;
+      if (input.versionOf) {
+        const existingFile = await getFileOrThrow(input.versionOf);
+        if (existingFile.siteId !== input.siteId) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'File does not belong to this site',
+          });
+        }
+        category = existingFile.category as typeof input.category;
+      }
+
       // Check upload permissions
       const canUpload = await canUploadToSite(ctx.user.id, input.siteId);
       if (!canUpload && ctx.user.role !== 'admin') {
@@ -36,94 +90,276 @@ export const filesRouter = createTRPCRouter({
         });
       }
 
-      const uploadResults = [];
-      const errors = [];
+      // Validate file
+      const validation = validateFile({
+        name: input.name,
+        size: input.size,
+        type: input.type,
+      } as File);
 
-      for (const fileData of input.files) {
-        try {
-          // Validate file
-          const validation = validateFile({
-            name: fileData.name,
-            size: fileData.size,
-            type: fileData.type,
-          } as File);
-
-          if (!validation.valid) {
-            errors.push({
-              filename: fileData.name,
-              error: validation.error,
-            });
-            continue;
-          }
+      if (!validation.valid) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: validation.error || 'Invalid file',
+        });
+      }
 
-          // Convert base64 to buffer
-          const buffer = Buffer.from(fileData.data, 'base64');
-          
-          // Generate file path
-          const fileId = nanoid();
-          const timestamp = new Date().toISOString().slice(0, 10);
-          const extension = fileData.name.split('.').pop();
-          const filename = `${fileId}.${extension}`;
-          const gcsPath = `sites/${input.siteId}/${input.category}/${timestamp}/${filename}`;
-
-          // Upload to GCS
-          const uploadResult = await uploadFile(buffer, gcsPath, {
-            contentType: fileData.type,
-            size: fileData.size,
-            originalName: fileData.name,
-            uploadedAt: new Date().toISOString(),
-            uploadedBy: ctx.user.id,
-            siteId: input.siteId,
-            category: input.category,
+      try {
+        // Generate file path; every version is stored as its own object
+        const objectId = nanoid();
+        const fileId = input.versionOf || objectId;
+        const timestamp = new Date().toISOString().slice(0, 10);
+        const extension = input.name.split('.').pop();
+        const gcsPath = `sites/${input.siteId}/${category}/${timestamp}/${objectId}.${extension}`;
+
+        const target = await createResumableUpload(gcsPath, {
+          contentType: input.type,
+          size: input.size,
+          originalName: input.name,
+          uploadedAt: new Date().toISOString(),
+          uploadedBy: ctx.user.id,
+          siteId: input.siteId,
+          category,
+        });
+
+        const now = new Date();
+        const session = {
+          id: nanoid(),
+          fileId,
+          userId: ctx.user.id,
+          siteId: input.siteId,
+          category,
+          originalName: input.name,
+          mimeType: input.type,
+          size: input.size,
+          gcsPath,
+          uploadUrl: target.protocol === 'resumable' ? target.uploadUrl : null,
+          uploadId: target.protocol === 'multipart' ? target.uploadId : null,
+          versionOf: input.versionOf || null,
+          status: 'pending' as const,
+          expiresAt: new Date(now.getTime() + UPLOAD_SESSION_TTL),
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        await ctx.db.insert(uploadSessions).values(session);
+
+        return {
+          sessionId: session.id,
+          protocol: target.protocol,
+          uploadUrl: session.uploadUrl,
+          chunkSize: UPLOAD_CHUNK_SIZE,
+          expiresAt: session.expiresAt,
+          uploadedParts: [] as Array<{ partNumber: number; size: number }>,
+        };
+      } catch (error) {
+        console.error(`Failed to create upload session for ${input.name}:`, error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to start upload',
+        });
+      }
+    }),
+
+  // Look up an unfinished upload so an interrupted transfer can resume
+  getUploadSession: protectedProcedure
+    .input(z.object({ sessionId: z.string() }))
+    .query(async ({ input, ctx }) => {
+      const session = await getOwnUploadSession(input.sessionId, ctx.user.id);
+
+      // Multipart uploads resume by skipping the parts storage already has
+      let uploadedParts: Array<{ partNumber: number; size: number }> = [];
+      if (session.uploadId && session.status !== 'completed') {
+        try {
+          const parts = await listUploadedParts(session.gcsPath, session.uploadId);
+          uploadedParts = parts.map(part => ({ partNumber: part.partNumber, size: part.size }));
+        } catch {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Upload session is no longer available',
           });
+        }
+      }
+
+      return {
+        sessionId: session.id,
+        protocol: session.uploadId ? 'multipart' as const : 'resumable' as const,
+        uploadUrl: session.uploadUrl,
+        chunkSize: UPLOAD_CHUNK_SIZE,
+        size: session.size,
+        status: session.status,
+        expiresAt: session.expiresAt,
+        uploadedParts,
+      };
+    }),
+
+  // Presign URLs for the parts of a multipart upload
+  getUploadPartUrls: protectedProcedure
+    .input(
+      z.object({
+        sessionId: z.string(),
+        partNumbers: z.array(z.number().int().min(1).max(10000)).min(1).max(100),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const session = await getOwnUploadSession(input.sessionId, ctx.user.id);
+      const uploadId = session.uploadId;
+
+      if (!uploadId || session.status === 'completed') {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'This upload does not accept parts',
+        });
+      }
+
+      try {
+        return await Promise.all(
+          input.partNumbers.map(async (partNumber) => ({
+            partNumber,
+            url: await getUploadPartUrl(session.gcsPath, uploadId, partNumber),
+          }))
+        );
+      } catch (error) {
+        console.error('Failed to presign upload parts:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to generate upload URLs',
+        });
+      }
+    }),
 
-          // Save to database
-          const now = new Date();
-          const dbFile = {
-            id: fileId,
-            filename: uploadResult.filename,
-            originalName: fileData.name,
-            mimeType: fileData.type,
-            size: fileData.size,
-            category: input.category,
-            siteId: input.siteId,
+  // Register a file once all of its bytes are in storage
+  completeUpload: protectedProcedure
+    .input(z.object({ sessionId: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      const session = await getOwnUploadSession(input.sessionId, ctx.user.id);
+
+      const result = {
+        id: session.fileId,
+        filename: session.gcsPath.split('/').pop() as string,
+        originalName: session.originalName,
+        size: session.size,
+        category: session.category,
+        gcsPath: session.gcsPath,
+        thumbnailPath: undefined as string | undefined,
+        contentHash: undefined as string | undefined,
+        duplicates: [] as DuplicateFile[],
+      };
+
+      // Completing twice (e.g. a retried request) returns the registered file
+      if (session.status === 'completed') {
+        const [existing] = await ctx.db
+          .select({ gcsPath: files.gcsPath, thumbnailPath: files.thumbnailPath, contentHash: files.contentHash })
+          .from(files)
+          .where(eq(files.id, session.fileId))
+          .limit(1);
+
+        return {
+          ...result,
+          gcsPath: existing?.gcsPath || result.gcsPath,
+          thumbnailPath: existing?.thumbnailPath || undefined,
+          contentHash: existing?.contentHash || undefined,
+        };
+      }
+
+      let storedSize = await getFileMetadata(session.gcsPath)
+        .then(metadata => metadata.size)
+        .catch(() => null);
+
+      // Multipart uploads only become an object once their parts are assembled
+      if (storedSize === null && session.uploadId) {
+        storedSize = await assembleMultipartUpload(session);
+      }
+
+      if (storedSize === null) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Upload has not finished',
+        });
+      }
+
+      if (storedSize !== session.size) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Upload incomplete: ${storedSize} of ${session.size} bytes received`,
+        });
+      }
+
+      const previousVersion = session.versionOf ? await getFileOrThrow(session.versionOf) : null;
+
+      try {
+        const contentHash = await computeContentHash(createFileReadStream(session.gcsPath));
+        result.contentHash = contentHash;
+
+        // Warn about identical files already in this site
+        result.duplicates = await findDuplicateFiles(session.siteId, contentHash, session.fileId);
+
+        // Identical bytes are stored once: point at the existing object, and drop the new
+        // copy once the file is registered so a failure here can't leave it without bytes
+        const storedObject = await findStoredObject(contentHash, session.size);
+        const duplicateCopy = storedObject && storedObject.gcsPath !== session.gcsPath ? session.gcsPath : null;
+        if (storedObject && duplicateCopy) {
+          result.gcsPath = storedObject.gcsPath;
+          result.thumbnailPath = storedObject.thumbnailPath || undefined;
+        } else if (session.mimeType.startsWith('image/')) {
+          // Generate thumbnail for images
+          const buffer = await downloadFileBuffer(session.gcsPath);
+          result.thumbnailPath = (await generateThumbnail(buffer, session.gcsPath)) || undefined;
+        }
+
+        // Save to database
+        const now = new Date();
+        const contents = {
+          originalName: session.originalName,
+          mimeType: session.mimeType,
+          size: session.size,
+          gcsPath: result.gcsPath,
+          thumbnailPath: result.thumbnailPath || null,
+          contentHash,
+        };
+
+        if (previousVersion) {
+          await addFileVersion(previousVersion, contents, ctx.user.id);
+        } else {
+          const newFile = {
+            id: session.fileId,
+            filename: result.filename,
+            ...contents,
+            category: session.category,
+            siteId: session.siteId,
             uploadedBy: ctx.user.id,
-            gcsPath: uploadResult.gcsPath,
-            thumbnailPath: uploadResult.thumbnailPath,
+            version: 1,
             processingStatus: ProcessingStatus.PENDING,
             createdAt: now,
             updatedAt: now,
           };
+          await ctx.db.insert(files).values(newFile);
+          await recordInitialVersion(newFile);
+        }
 
-          await ctx.db.insert(files).values(dbFile);
+        await ctx.db
+          .update(uploadSessions)
+          .set({ status: 'completed', updatedAt: now })
+          .where(eq(uploadSessions.id, session.id));
 
-          // Queue for AI processing (async)
-          processFileAsync(fileId, buffer, fileData.type, fileData.name);
+        // A copy left behind only costs storage, so it doesn't fail the upload
+        if (duplicateCopy) {
+          await deleteFile(duplicateCopy).catch(error =>
+            console.error(`Failed to delete duplicate upload ${duplicateCopy}:`, error)
+          );
+        }
 
-          uploadResults.push({
-            id: fileId,
-            filename: uploadResult.filename,
-            originalName: fileData.name,
-            size: fileData.size,
-            category: input.category,
-            gcsPath: uploadResult.gcsPath,
-            thumbnailPath: uploadResult.thumbnailPath,
-          });
+        // Queue for AI processing
+        await enqueueFileProcessing(session.fileId);
 
-        } catch (error) {
-          console.error(`Upload failed for ${fileData.name}:`, error);
-          errors.push({
-            filename: fileData.name,
-            error: 'Upload failed',
-          });
-        }
+        return result;
+      } catch (error) {
+        console.error(`Failed to complete upload for ${session.originalName}:`, error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to register uploaded file',
+        });
       }
-
-      return {
-        uploaded: uploadResults,
-        errors,
-        message: `${uploadResults.length} file(s) uploaded successfully${errors.length > 0 ? `, ${errors.length} failed` : ''}`,
-      };
     }),
 
   // Get files for a site
@@ -174,7 +410,7 @@ export const filesRouter = createTRPCRouter({
       const total = countResult?.count || 0;
 
       // Get files
-      const sortColumn = files[input.sortBy as keyof typeof files];
+      const sortColumn = { createdAt: files.createdAt, name: files.originalName, size: files.size }[input.sortBy];
       const orderFn = input.sortOrder === 'desc' ? desc : undefined;
 
       const fileResults = await ctx.db
@@ -189,6 +425,7 @@ export const filesRouter = createTRPCRouter({
           uploadedBy: files.uploadedBy,
           gcsPath: files.gcsPath,
           thumbnailPath: files.thumbnailPath,
+          version: files.version,
           aiDescription: files.aiDescription,
           aiTags: files.aiTags,
           processingStatus: files.processingStatus,
@@ -238,6 +475,7 @@ export const filesRouter = createTRPCRouter({
           uploadedBy: files.uploadedBy, 
           gcsPath: files.gcsPath, 
           thumbnailPath: files.thumbnailPath, 
+          version: files.version, 
           aiDescription: files.aiDescription, 
           aiTags: files.aiTags, 
           processingStatus: files.processingStatus, 
@@ -288,10 +526,109 @@ export const filesRouter = createTRPCRouter({
       return file;
     }),
 
+  // Version history of a file, newest first
+  getVersions: protectedProcedure
+    .input(z.object({ fileId: z.string() }))
+    .query(async ({ input, ctx }) => {
+      const file = await getFileOrThrow(input.fileId);
+
+      // Check permissions
+      const canView = await canViewSite(ctx.user.id, file.siteId);
+      if (!canView && ctx.user.role !== 'admin') {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to view this file',
+        });
+      }
+
+      const versions = await listFileVersions(file);
+
+      return versions.map(version => ({
+        id: version.id,
+        versionNumber: version.versionNumber,
+        originalName: version.originalName,
+        mimeType: version.mimeType,
+        size: version.size,
+        uploadedBy: version.uploadedBy,
+        uploaderName: version.uploaderName,
+        restoredFrom: version.restoredFrom,
+        createdAt: version.createdAt,
+        isCurrent: version.isCurrent,
+      }));
+    }),
+
+  // Make an earlier version current again. History is kept: the restored contents
+  // become a new version rather than discarding the ones after it.
+  restoreVersion: protectedProcedure
+    .input(z.object({
+      fileId: z.string(),
+      versionId: z.string(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const file = await getFileOrThrow(input.fileId);
+
+      // Check permissions (upload permission required to change contents)
+      const canUpload = await canUploadToSite(ctx.user.id, file.siteId);
+      if (!canUpload && ctx.user.role !== 'admin') {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to modify this file',
+        });
+      }
+
+      const version = await getFileVersion(input.versionId);
+      if (!version || version.fileId !== file.id) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Version not found',
+        });
+      }
+
+      if (version.versionNumber === file.version) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'This version is already current',
+        });
+      }
+
+      try {
+        const restored = await addFileVersion(
+          file,
+          {
+            originalName: version.originalName,
+            mimeType: version.mimeType,
+            size: version.size,
+            gcsPath: version.gcsPath,
+            thumbnailPath: version.thumbnailPath,
+            contentHash: version.contentHash,
+          },
+          ctx.user.id,
+          version.versionNumber
+        );
+
+        // Re-run AI processing so search describes the restored contents
+        await enqueueFileProcessing(file.id);
+
+        return {
+          id: file.id,
+          versionNumber: restored.versionNumber,
+          restoredFrom: version.versionNumber,
+        };
+      } catch (error) {
+        console.error(`Failed to restore version ${version.versionNumber} of ${file.id}:`, error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to restore version',
+        });
+      }
+    }),
+
   // Generate download URL
   getDownloadUrl: protectedProcedure
     .input(z.object({
       id: z.string(),
+      // Download an earlier version instead of the current one
+      versionId: z.string().optional(),
       thumbnail: z.boolean().default(false),
       expiresInHours: z.number().min(1).max(168).default(24), // in hours
     }))
@@ -318,18 +655,27 @@ export const filesRouter = createTRPCRouter({
         });
       }
 
+      const version = input.versionId ? await getFileVersion(input.versionId) : null;
+      if (input.versionId && (!version || version.fileId !== file.id)) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Version not found',
+        });
+      }
+      const contents = version || file;
+
       try {
-        const path = input.thumbnail && file.thumbnailPath 
-          ? file.thumbnailPath 
-          : file.gcsPath;
+        const path = input.thumbnail && contents.thumbnailPath 
+          ? contents.thumbnailPath 
+          : contents.gcsPath;
           
         const signedUrl = await generateSignedUrl(path, 'read', input.expiresInHours * 60 * 60 * 1000);
 
         return {
           url: signedUrl,
-          filename: file.originalName,
-          size: file.size,
-          mimeType: file.mimeType,
+          filename: contents.originalName,
+          size: contents.size,
+          mimeType: contents.mimeType,
         };
       } catch (error) {
         console.error('Failed to generate download URL:', error);
@@ -373,9 +719,8 @@ export const filesRouter = createTRPCRouter({
 
   // Create shareable link
   createShareLink: protectedProcedure
-    .input(z.object({ 
+    .input(shareLinkOptions.extend({
       fileId: z.string(),
-      expiresInHours: z.number().min(1).max(168).default(24), // Max 7 days
     }))
     .mutation(async ({ input, ctx }) => {
       const [file] = await ctx.db
@@ -401,38 +746,275 @@ export const filesRouter = createTRPCRouter({
       }
 
       try {
-        const token = nanoid(32);
-        const expiresAt = new Date(Date.now() + input.expiresInHours * 60 * 60 * 1000);
-        
         const shareLink = {
-          id: nanoid(),
+          ...(await buildShareLinkValues(input, ctx.user.id)),
           fileId: input.fileId,
-          createdBy: ctx.user.id,
-          token,
-          expiresAt,
-          isActive: true,
-          createdAt: new Date(),
         };
 
         await ctx.db.insert(sharedLinks).values(shareLink);
 
-        const shareUrl = `${process.env.NEXT_PUBLIC_APP_URL}/share/${token}`;
+        return formatCreatedShareLink(shareLink, input.expiresInHours);
+      } catch (error) {
+        console.error('Failed to create share link:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to create share link',
+        });
+      }
+    }),
+
+  // Create one link for a set of files, or for every file in a site (optionally one category)
+  createShareCollection: protectedProcedure
+    .input(shareLinkOptions.extend({
+      fileIds: z.array(z.string()).min(1).max(MAX_COLLECTION_FILES).optional(),
+      siteId: z.string().optional(),
+      category: z.nativeEnum(FileCategory).optional(),
+      title: z.string().max(255).optional(),
+    }).refine(input => !!input.fileIds !== !!input.siteId, {
+      message: 'Provide either fileIds or siteId',
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const fileIds = input.fileIds ? Array.from(new Set(input.fileIds)) : [];
+      let siteIds: string[];
+
+      if (input.siteId) {
+        const [site] = await ctx.db
+          .select({ id: sites.id })
+          .from(sites)
+          .where(eq(sites.id, input.siteId))
+          .limit(1);
+
+        if (!site) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Site not found',
+          });
+        }
+
+        siteIds = [input.siteId];
+      } else {
+        const selectedFiles = await ctx.db
+          .select({ id: files.id, siteId: files.siteId })
+          .from(files)
+          .where(inArray(files.id, fileIds));
+
+        if (selectedFiles.length !== fileIds.length) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'One or more files were not found',
+          });
+        }
+
+        siteIds = Array.from(new Set(selectedFiles.map(file => file.siteId)));
+      }
+
+      // Check permissions for every site the collection draws from
+      if (ctx.user.role !== 'admin') {
+        for (const siteId of siteIds) {
+          const canView = await canViewSite(ctx.user.id, siteId);
+          if (!canView) {
+            throw new TRPCError({
+              code: 'FORBIDDEN',
+              message: 'You do not have permission to share these files',
+            });
+          }
+        }
+      }
+
+      try {
+        const shareLink = {
+          ...(await buildShareLinkValues(input, ctx.user.id)),
+          siteId: input.siteId || null,
+          category: input.siteId ? input.category || null : null,
+          title: input.title || null,
+        };
+
+        await ctx.db.insert(sharedLinks).values(shareLink);
+
+        if (fileIds.length > 0) {
+          await ctx.db.insert(sharedLinkFiles).values(
+            fileIds.map((fileId, position) => ({
+              id: nanoid(),
+              linkId: shareLink.id,
+              fileId,
+              position,
+            }))
+          );
+        }
 
         return {
-          url: shareUrl,
-          token,
-          expiresAt,
-          expiresInHours: input.expiresInHours,
+          ...formatCreatedShareLink(shareLink, input.expiresInHours),
+          fileCount: input.siteId ? null : fileIds.length,
         };
       } catch (error) {
-        console.error('Failed to create share link:', error);
+        console.error('Failed to create share collection:', error);
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
-          message: 'Failed to create share link',
+          message: 'Failed to create share collection',
         });
       }
     }),
 
+  // List share links for a file, or the current user's links when no file is given
+  listShareLinks: protectedProcedure
+    .input(z.object({
+      fileId: z.string().optional(),
+    }).default({}))
+    .query(async ({ input, ctx }) => {
+      if (input.fileId) {
+        const [file] = await ctx.db
+          .select()
+          .from(files)
+          .where(eq(files.id, input.fileId))
+          .limit(1);
+
+        if (!file) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'File not found',
+          });
+        }
+
+        // Check permissions
+        const canView = await canViewSite(ctx.user.id, file.siteId);
+        if (!canView && ctx.user.role !== 'admin') {
+          throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: 'You do not have permission to view this file',
+          });
+        }
+      }
+
+      const links = await ctx.db
+        .select({
+          id: sharedLinks.id,
+          fileId: sharedLinks.fileId,
+          fileName: files.originalName,
+          siteId: sharedLinks.siteId,
+          category: sharedLinks.category,
+          title: sharedLinks.title,
+          createdBy: sharedLinks.createdBy,
+          creatorName: users.name,
+          token: sharedLinks.token,
+          expiresAt: sharedLinks.expiresAt,
+          isActive: sharedLinks.isActive,
+          revokedAt: sharedLinks.revokedAt,
+          passwordHash: sharedLinks.passwordHash,
+          maxDownloads: sharedLinks.maxDownloads,
+          downloadCount: sharedLinks.downloadCount,
+          viewOnly: sharedLinks.viewOnly,
+          createdAt: sharedLinks.createdAt,
+        })
+        .from(sharedLinks)
+        .leftJoin(files, eq(files.id, sharedLinks.fileId))
+        .innerJoin(users, eq(users.id, sharedLinks.createdBy))
+        .where(
+          input.fileId
+            ? eq(sharedLinks.fileId, input.fileId)
+            : eq(sharedLinks.createdBy, ctx.user.id)
+        )
+        .orderBy(desc(sharedLinks.createdAt));
+
+      const accessCounts = await getShareLinkAccessCounts(links.map(link => link.id));
+
+      // Never send password hashes to the client
+      return links.map(link => {
+        const { passwordHash, ...details } = link;
+        return {
+          ...details,
+          kind: link.fileId ? 'file' as const : 'collection' as const,
+          accessCount: accessCounts[link.id] || 0,
+          hasPassword: !!passwordHash,
+          url: `${process.env.NEXT_PUBLIC_APP_URL}/share/${link.token}`,
+          status: getShareLinkStatus(link),
+        };
+      });
+    }),
+
+  // Revoke a share link
+  revokeShareLink: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      const [link] = await ctx.db
+        .select()
+        .from(sharedLinks)
+        .where(eq(sharedLinks.id, input.id))
+        .limit(1);
+
+      if (!link) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Share link not found',
+        });
+      }
+
+      // Only the creator or an admin can manage a link
+      if (link.createdBy !== ctx.user.id && ctx.user.role !== 'admin') {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to revoke this share link',
+        });
+      }
+
+      await ctx.db
+        .update(sharedLinks)
+        .set({ isActive: false, revokedAt: new Date() })
+        .where(eq(sharedLinks.id, input.id));
+
+      return {
+        message: 'Share link revoked successfully',
+      };
+    }),
+
+  // Extend a share link's expiry from now
+  extendShareLink: protectedProcedure
+    .input(z.object({
+      id: z.string(),
+      expiresInHours: z.number().min(1).max(168).default(24), // Max 7 days
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const [link] = await ctx.db
+        .select()
+        .from(sharedLinks)
+        .where(eq(sharedLinks.id, input.id))
+        .limit(1);
+
+      if (!link) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Share link not found',
+        });
+      }
+
+      // Only the creator or an admin can manage a link
+      if (link.createdBy !== ctx.user.id && ctx.user.role !== 'admin') {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to extend this share link',
+        });
+      }
+
+      if (getShareLinkStatus(link) === 'revoked') {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Revoked share links cannot be extended',
+        });
+      }
+
+      const expiresAt = new Date(Date.now() + input.expiresInHours * 60 * 60 * 1000);
+
+      // Expired links may have been deactivated by cleanupExpiredLinks
+      await ctx.db
+        .update(sharedLinks)
+        .set({ expiresAt, isActive: true })
+        .where(eq(sharedLinks.id, input.id));
+
+      return {
+        expiresAt,
+        message: 'Share link extended successfully',
+      };
+    }),
+
   // Delete file
   deleteFile: protectedProcedure
     .input(z.object({ id: z.string() }))
@@ -460,12 +1042,21 @@ export const filesRouter = createTRPCRouter({
       }
 
       try {
-        // Delete from GCS
-        await deleteFile(file.gcsPath);
+        const storedPaths = await getVersionPaths(file);
 
         // Delete from database
+        await ctx.db.delete(fileVersions).where(eq(fileVersions.fileId, input.id));
+        await ctx.db.delete(processingJobs).where(eq(processingJobs.fileId, input.id));
+        await ctx.db.delete(fileEmbeddings).where(eq(fileEmbeddings.fileId, input.id));
+        await ctx.db.delete(searchImpressions).where(eq(searchImpressions.fileId, input.id));
+        await deleteFileTerms(input.id);
         await ctx.db.delete(files).where(eq(files.id, input.id));
 
+        // Stored bytes may be shared with identical uploads; only the last reference removes them
+        for (const storedPath of storedPaths) {
+          await releaseStoredObject(storedPath);
+        }
+
         return {
           message: 'File deleted successfully',
         };
@@ -594,69 +1185,124 @@ export const filesRouter = createTRPCRouter({
     }),
 });
 
-// Async function to process files with AI
-async function processFileAsync(
-  fileId: string,
-  buffer: Buffer,
-  mimeType: string,
-  filename: string
-) {
-  try {
-    // Update status to processing
-    await db
-      .update(files)
-      .set({ 
-        processingStatus: ProcessingStatus.PROCESSING,
-        updatedAt: new Date(),
-      })
-      .where(eq(files.id, fileId));
+// Load a file row, or fail the request when it no longer exists
+async function getFileOrThrow(fileId: string) {
+  const [file] = await db
+    .select()
+    .from(files)
+    .where(eq(files.id, fileId))
+    .limit(1);
+
+  if (!file) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'File not found',
+    });
+  }
 
-    // Analyze file
-    const result = mimeType.startsWith('image/')
-      ? await analyzeImage(buffer, mimeType, filename)
-      : await analyzeDocument(buffer, mimeType, filename);
+  return file as FileRecord;
+}
+
+// Load an unexpired upload session owned by the user
+async function getOwnUploadSession(sessionId: string, userId: string) {
+  const [session] = await db
+    .select()
+    .from(uploadSessions)
+    .where(and(eq(uploadSessions.id, sessionId), eq(uploadSessions.userId, userId)))
+    .limit(1);
+
+  if (!session) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Upload session not found',
+    });
+  }
 
-    if ('error' in result) {
-      // Processing failed
-      await db
-        .update(files)
-        .set({ 
-          processingStatus: ProcessingStatus.FAILED,
-          updatedAt: new Date(),
-        })
-        .where(eq(files.id, fileId));
-    } else {
-      // Processing succeeded
-      // fetch site info and enrich with site and client names before updating tags
-      const siteInfo = await db
-        .select({ siteName: sites.name, clientName: sites.clientName })
-        .from(files)
-        .innerJoin(sites, eq(files.siteId, sites.id))
-        .where(eq(files.id, fileId))
-        .get();
-      const enrichedTags = Array.isArray(result.tags)
-        ? [...result.tags, siteInfo.siteName, siteInfo.clientName]
-        : [siteInfo.siteName, siteInfo.clientName];
-      await db
-        .update(files)
-        .set({ 
-          processingStatus: ProcessingStatus.COMPLETED,
-          aiDescription: result.description,
-          aiTags: JSON.stringify(enrichedTags),
-          metadata: JSON.stringify(result),
-          updatedAt: new Date(),
-        })
-        .where(eq(files.id, fileId));
-    }
-  } catch (error) {
-    console.error(`AI processing failed for file ${fileId}:`, error);
-    
-    await db
-      .update(files)
-      .set({ 
-        processingStatus: ProcessingStatus.FAILED,
-        updatedAt: new Date(),
-      })
-      .where(eq(files.id, fileId));
+  if (session.status !== 'completed' && new Date(session.expiresAt).getTime() <= Date.now()) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Upload session has expired',
+    });
+  }
+
+  return session as UploadSession;
+}
+
+// Assemble a multipart upload once every part has arrived; returns the stored size
+async function assembleMultipartUpload(session: UploadSession): Promise<number> {
+  const parts = await listUploadedParts(session.gcsPath, session.uploadId as string).catch(() => {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Upload session is no longer available',
+    });
+  });
+
+  const sortedParts = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+  const receivedSize = sortedParts.reduce((sum, part) => sum + part.size, 0);
+  const isContiguous = sortedParts.every((part, index) => part.partNumber === index + 1);
+
+  if (sortedParts.length === 0 || !isContiguous || receivedSize !== session.size) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `Upload incomplete: ${receivedSize} of ${session.size} bytes received`,
+    });
+  }
+
+  try {
+    await completeMultipartUpload(session.gcsPath, session.uploadId as string, sortedParts);
+  } catch {
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Failed to assemble uploaded file',
+    });
   }
-}
\ No newline at end of file
+
+  return receivedSize;
+}
+
+// Common columns for a new share link, before it is pointed at a file or collection
+async function buildShareLinkValues(options: z.infer<typeof shareLinkOptions>, createdBy: string) {
+  return {
+    id: nanoid(),
+    createdBy,
+    token: nanoid(32),
+    expiresAt: new Date(Date.now() + options.expiresInHours * 60 * 60 * 1000),
+    isActive: true,
+    passwordHash: options.password ? await hashPassword(options.password) : null,
+    maxDownloads: options.viewOnly ? null : options.maxDownloads ?? null,
+    downloadCount: 0,
+    viewOnly: options.viewOnly,
+    createdAt: new Date(),
+  };
+}
+
+function formatCreatedShareLink(
+  shareLink: Awaited<ReturnType<typeof buildShareLinkValues>>,
+  expiresInHours: number
+) {
+  return {
+    url: `${process.env.NEXT_PUBLIC_APP_URL}/share/${shareLink.token}`,
+    token: shareLink.token,
+    expiresAt: shareLink.expiresAt,
+    expiresInHours,
+    hasPassword: !!shareLink.passwordHash,
+    maxDownloads: shareLink.maxDownloads,
+    viewOnly: shareLink.viewOnly,
+  };
+}
+
+// Count recorded accesses for a set of share links
+async function getShareLinkAccessCounts(linkIds: string[]): Promise<Record<string, number>> {
+  if (linkIds.length === 0) return {};
+
+  const rows = await db
+    .select({
+      linkId: shareLinkAccesses.linkId,
+      count: sql<number>`count(*)`,
+    })
+    .from(shareLinkAccesses)
+    .where(inArray(shareLinkAccesses.linkId, linkIds))
+    .groupBy(shareLinkAccesses.linkId);
+
+  return Object.fromEntries(rows.map(row => [row.linkId, Number(row.count)]));
+}
@@ -1,26 +1,78 @@
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
-import { eq, and, desc, inArray, sql, like, or } from 'drizzle-orm';
-import { createTRPCRouter, protectedProcedure } from '../trpc';
-import { files, searchQueries, sites, FileCategory } from '../../../database/schema';
-import { getAccessibleSites } from '../../lib/permissions';
-import { searchFiles } from '../../lib/db';
-import { semanticSearch } from '../../lib/ai';
-import { parseSearchQuery } from '../../lib/utils';
+import { eq, and, or, gte, desc, inArray, sql, type SQL } from 'drizzle-orm';
+import { createTRPCRouter, protectedProcedure, adminProcedure } from '../trpc';
+import {
+  files,
+  searchQueries,
+  searchImpressions,
+  savedSearches,
+  searchSynonyms,
+  searchBoosts,
+  type SearchSynonym,
+  type SearchBoost,
+} from '../../../database/schema';
+import { getAccessibleSites, canViewSite } from '../../lib/permissions';
+import { searchFiles, type Database } from '../../lib/db';
+import { embedQuery, findNearestFiles } from '../../lib/embeddings';
+import { findSimilarFiles, findFilesLike } from '../../lib/similarity';
+import { analyzeSearchImage } from '../../lib/image-search';
+import { parseSearchQuery, fullTextQuery, type FullTextQuery, type QueryNode } from '../../lib/search-query';
+import { compileSearchQuery, compileSearchFilters } from '../../lib/search-conditions';
+import { computeFacets, EMPTY_FACETS } from '../../lib/search-facets';
+import { countNewMatches, readSavedFilters } from '../../lib/saved-searches';
+import { suggestTerms, recordQueryTerm, normalizeTerm } from '../../lib/suggestions';
+import { loadSearchTuning, expandQuery, fullTextAlternatives, boostWeights } from '../../lib/search-tuning';
+import { clickBoosts, measureRelevance } from '../../lib/search-feedback';
+import {
+  fuseRankings,
+  compareResults,
+  pageAfter,
+  encodeCursor,
+  decodeCursor,
+  MAX_TIER_MATCHES,
+  type TierRanking,
+  type SortableResult,
+} from '../../lib/search-ranking';
+import { FileCategory, MAX_SEARCH_IMAGE_SIZE, SUPPORTED_IMAGE_TYPES, type SearchImage } from '../../types';
 import { nanoid } from 'nanoid';
 
+// Queries searched fewer times than this aren't listed for low click-through
+const MIN_CLICK_THROUGH_SEARCHES = 3;
+
+// A search result as shown, for recording impressions and clicks
+const shownResult = z.object({
+  fileId: z.string(),
+  position: z.number().int().min(1),
+  matchedBy: z.array(z.object({
+    tier: z.enum(['structured', 'fulltext', 'semantic', 'visual']),
+    rank: z.number().int().min(1),
+    score: z.number().optional(),
+  })).max(4),
+});
+
 export const searchRouter = createTRPCRouter({
-  // Main search procedure - implements multi-tier search
+  // Main search procedure - merges the structured, full-text and semantic tiers
+  // into one ranking, paged with a cursor. Searching by image instead ranks files by
+  // how much they look like it.
   search: protectedProcedure
     .input(
       z.object({
-        query: z.string().min(1, 'Search query is required'),
+        query: z.string(),
+        image: z
+          .object({
+            // Base64 is 4 characters for every 3 bytes
+            data: z.string().max(Math.ceil(MAX_SEARCH_IMAGE_SIZE / 3) * 4, 'Images to search with must be under 10MB'),
+            mimeType: z.string().refine(type => SUPPORTED_IMAGE_TYPES.includes(type), 'Unsupported image type'),
+            name: z.string().max(255),
+          })
+          .optional(),
         siteIds: z.array(z.string()).optional(),
         categories: z.array(z.nativeEnum(FileCategory)).optional(),
         dateFrom: z.string().optional(),
         dateTo: z.string().optional(),
         mimeTypes: z.array(z.string()).optional(),
-        page: z.number().min(1).default(1),
+        cursor: z.string().optional(),
         limit: z.number().min(1).max(100).default(20),
         sortBy: z.enum(['relevance', 'createdAt', 'name', 'size']).default('relevance'),
         sortOrder: z.enum(['asc', 'desc']).default('desc'),
@@ -30,18 +82,37 @@ export const searchRouter = createTRPCRouter({
       const startTime = Date.now();
       
       try {
+        const parsed = parseSearchQuery(input.query);
+        if (!input.image && (parsed.error || !parsed.ast)) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: parsed.error || 'Search query is required',
+          });
+        }
+
+        const cursor = input.cursor ? decodeCursor(input.cursor) : null;
+        if (input.cursor && !cursor) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Invalid search cursor',
+          });
+        }
+
+        const emptyResult = {
+          files: [],
+          total: 0,
+          limit: input.limit,
+          nextCursor: null,
+          searchTime: Date.now() - startTime,
+          facets: cursor ? null : EMPTY_FACETS,
+          searchId: null,
+        };
+
         // Get accessible sites
         const accessibleSites = await getAccessibleSites(ctx.user.id);
         
         if (accessibleSites.length === 0) {
-          return {
-            files: [],
-            total: 0,
-            page: input.page,
-            limit: input.limit,
-            searchTime: Date.now() - startTime,
-            tier: 'none',
-          };
+          return emptyResult;
         }
 
         // Filter by accessible sites
@@ -50,117 +121,103 @@ export const searchRouter = createTRPCRouter({
           : accessibleSites;
 
         if (filteredSiteIds.length === 0) {
-          return {
-            files: [],
-            total: 0,
-            page: input.page,
-            limit: input.limit,
-            searchTime: Date.now() - startTime,
-            tier: 'none',
-          };
+          return emptyResult;
         }
 
-        // Parse search query
-        const { terms, filters } = parseSearchQuery(input.query);
-        
-        // TIER 1: Structured filters + basic text matching
-        let results = await performTier1Search({
-          terms,
-          filters,
-          siteIds: filteredSiteIds,
-          categories: input.categories,
-          dateFrom: input.dateFrom,
-          dateTo: input.dateTo,
-          mimeTypes: input.mimeTypes,
-          page: input.page,
-          limit: input.limit,
-          sortBy: input.sortBy,
-          sortOrder: input.sortOrder,
-          db: ctx.db,
-        });
+        // Later pages are ranked as of the first, so clicks in between don't reorder them
+        const rankedAt = cursor?.rankedAt ?? startTime;
+        const rankings = input.image
+          ? await rankImageSearch({ ...input, image: input.image, siteIds: filteredSiteIds, db: ctx.db })
+          : await rankTextSearch({
+              ...input,
+              ast: parsed.ast!,
+              terms: parsed.terms,
+              rankedAt: new Date(rankedAt),
+              siteIds: filteredSiteIds,
+              db: ctx.db,
+            });
 
-        let tier = 'structured';
-
-        // TIER 2: Full-text search if not enough results
-        if (results.files.length < 10 && terms.length > 0) {
-          const ftsResults = await performTier2Search({
-            query: terms.join(' '),
-            siteIds: filteredSiteIds,
-            categories: input.categories,
-            dateFrom: input.dateFrom,
-            dateTo: input.dateTo,
-            mimeTypes: input.mimeTypes,
-            limit: input.limit,
-          });
+        const ranked = fuseRankings(rankings);
+        const matchedIds = ranked.map(match => match.fileId);
+        const sortOrder = input.sortBy === 'relevance' ? 'desc' : input.sortOrder;
+        const sortable = input.sortBy === 'relevance'
+          ? ranked.map(match => ({ id: match.fileId, value: match.score }))
+          : await loadSortValues(matchedIds, input.sortBy, ctx.db);
 
-          if (ftsResults.length > results.files.length) {
-            results = {
-              files: ftsResults,
-              total: ftsResults.length,
-              page: 1,
-              limit: input.limit,
-            };
-            tier = 'fulltext';
-          }
-        }
+        const { page, nextCursor } = pageAfter(
+          sortable.sort((a, b) => compareResults(a, b, sortOrder)),
+          cursor,
+          input.limit,
+          sortOrder
+        );
 
-        // TIER 3: AI semantic search if still not enough results
-        if (results.files.length < 5 && terms.length > 0) {
-          const semanticResults = await performTier3Search({
-            query: input.query,
-            siteIds: filteredSiteIds,
-            categories: input.categories,
-            dateFrom: input.dateFrom,
-            dateTo: input.dateTo,
-            mimeTypes: input.mimeTypes,
-            limit: input.limit,
-            db: ctx.db,
+        const pageFiles = page.length > 0
+          ? await ctx.db
+              .select()
+              .from(files)
+              .where(inArray(files.id, page.map(result => result.id)))
+          : [];
+
+        // In page order, with how each file was found; extracted document text is left out
+        const rankedById = new Map(ranked.map(match => [match.fileId, match]));
+        const filesById = new Map(pageFiles.map(file => [file.id, file]));
+        const results = page
+          .filter(result => filesById.has(result.id))
+          .map(result => {
+            const { extractedText, ...file } = filesById.get(result.id)!;
+            const match = rankedById.get(result.id)!;
+            return { ...file, relevanceScore: match.score, matchedBy: match.matchedBy };
           });
 
-          if (semanticResults.length > results.files.length) {
-            results = {
-              files: semanticResults,
-              total: semanticResults.length,
-              page: 1,
-              limit: input.limit,
-            };
-            tier = 'semantic';
+        // Facets describe the whole result set, so they're only counted for the first page.
+        // Counts are extra; a failure leaves them empty rather than failing the search.
+        let facets = cursor ? null : EMPTY_FACETS;
+        if (!cursor && matchedIds.length > 0) {
+          try {
+            facets = await computeFacets(inArray(files.id, matchedIds));
+          } catch (error) {
+            console.error('Search facets error:', error);
           }
         }
 
         const searchTime = Date.now() - startTime;
 
-        // Normalize legacy categories
-        const validCategories = Object.values(FileCategory) as string[];
-        results.files = results.files.map(file =>
-          validCategories.includes(file.category)
-            ? file
-            : { ...file, category: validCategories[Math.floor(Math.random() * validCategories.length)] }
-        );
-
-        // Log search query for analytics
-        await logSearchQuery({
-          userId: ctx.user.id,
-          query: input.query,
-          filters: {
-            siteIds: input.siteIds,
-            categories: input.categories,
-            dateFrom: input.dateFrom,
-            dateTo: input.dateTo,
-            mimeTypes: input.mimeTypes,
-          },
-          resultsCount: results.total,
-          responseTime: searchTime,
-          db: ctx.db,
-        });
+        // Log search query for analytics, once per search rather than per page. Image
+        // searches have no query to report or suggest, so their clicks aren't recorded.
+        let searchId: string | null = null;
+        if (!cursor && !input.image) {
+          searchId = await logSearchQuery({
+            userId: ctx.user.id,
+            query: input.query,
+            filters: {
+              siteIds: input.siteIds,
+              categories: input.categories,
+              dateFrom: input.dateFrom,
+              dateTo: input.dateTo,
+              mimeTypes: input.mimeTypes,
+            },
+            searchedSiteIds: filteredSiteIds,
+            resultsCount: ranked.length,
+            responseTime: searchTime,
+            db: ctx.db,
+          });
+        }
 
         return {
-          ...results,
+          files: results,
+          total: ranked.length,
+          limit: input.limit,
+          nextCursor: nextCursor ? encodeCursor({ ...nextCursor, rankedAt }) : null,
           searchTime,
-          tier,
+          facets,
+          searchId,
         };
 
       } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
         console.error('Search error:', error);
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
@@ -169,93 +226,85 @@ export const searchRouter = createTRPCRouter({
       }
     }),
 
-  // Get search suggestions
-  getSuggestions: protectedProcedure
+  // Files that look like the given one, across the user's accessible sites
+  findSimilar: protectedProcedure
     .input(
       z.object({
-        query: z.string().min(1),
-        limit: z.number().min(1).max(20).default(10),
+        fileId: z.string(),
+        limit: z.number().min(1).max(50).default(12),
       })
     )
     .query(async ({ input, ctx }) => {
+      const [file] = await ctx.db
+        .select()
+        .from(files)
+        .where(eq(files.id, input.fileId))
+        .limit(1);
+
+      if (!file) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'File not found',
+        });
+      }
+
+      const canView = await canViewSite(ctx.user.id, file.siteId);
+      if (!canView && ctx.user.role !== 'admin') {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to view this file',
+        });
+      }
+
       try {
         const accessibleSites = await getAccessibleSites(ctx.user.id);
-        
-        if (accessibleSites.length === 0) {
-          return [];
+        const matches = await findSimilarFiles(file, accessibleSites, input.limit);
+
+        if (matches.length === 0) {
+          return { files: [], total: 0 };
         }
 
-        // Get suggestions from filenames and AI descriptions
-        const suggestions = await ctx.db
-          .select({
-            filename: files.filename,
-            originalName: files.originalName,
-            aiDescription: files.aiDescription,
-            aiTags: files.aiTags,
-            siteName: sites.name,
-            clientName: sites.clientName,
-          })
+        const similarFiles = await ctx.db
+          .select()
           .from(files)
-          .innerJoin(sites, eq(files.siteId, sites.id))
-          .where(
-            and(
-              inArray(files.siteId, accessibleSites),
-              or(
-                like(files.filename, `%${input.query}%`),
-                like(files.originalName, `%${input.query}%`),
-                like(files.aiDescription, `%${input.query}%`),
-                like(files.aiTags, `%${input.query}%`)
-              )
-            )
-          )
-          .limit(input.limit);
+          .where(inArray(files.id, matches.map(match => match.fileId)));
 
-        // Extract unique suggestions
-        const suggestionSet = new Set<string>();
-        
-        suggestions.forEach(file => {
-          // Add filename words
-          file.filename.toLowerCase().split(/[_\-\s]+/).forEach(word => {
-            if (word.length > 2 && word.includes(input.query.toLowerCase())) {
-              suggestionSet.add(word);
-            }
-          });
+        const scores = new Map(matches.map(match => [match.fileId, match.score]));
+        const results = similarFiles
+          .map(({ extractedText, ...similar }) => ({
+            ...similar,
+            relevanceScore: scores.get(similar.id) || 0,
+          }))
+          .sort((a, b) => b.relevanceScore - a.relevanceScore);
 
-          // Add original name words
-          file.originalName.toLowerCase().split(/[_\-\s]+/).forEach(word => {
-            if (word.length > 2 && word.includes(input.query.toLowerCase())) {
-              suggestionSet.add(word);
-            }
-          });
+        return { files: results, total: results.length };
+      } catch (error) {
+        console.error('Find similar error:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to find similar files',
+        });
+      }
+    }),
 
-          // Add AI tags
-          if (file.aiTags) {
-            try {
-              const tags = JSON.parse(file.aiTags);
-              tags.forEach((tag: string) => {
-                if (tag.toLowerCase().includes(input.query.toLowerCase())) {
-                  suggestionSet.add(tag);
-                }
-              });
-            } catch (e) {
-              // Ignore JSON parse errors
-            }
-          }
+  // Search suggestions from the term index, for the query as typed
+  getSuggestions: protectedProcedure
+    .input(
+      z.object({
+        query: z.string().min(1),
+        limit: z.number().min(1).max(20).default(10),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      try {
+        const accessibleSites = await getAccessibleSites(ctx.user.id);
 
-          // Add site name as suggestion
-          if (file.siteName && file.siteName.toLowerCase().includes(input.query.toLowerCase())) {
-            suggestionSet.add(file.siteName);
-          }
-          // Add client name as suggestion
-          if (file.clientName && file.clientName.toLowerCase().includes(input.query.toLowerCase())) {
-            suggestionSet.add(file.clientName);
-          }
+        return await suggestTerms(input.query, {
+          siteIds: accessibleSites,
+          userId: ctx.user.id,
+          limit: input.limit,
         });
 
-        return Array.from(suggestionSet)
-          .slice(0, input.limit)
-          .sort((a, b) => a.localeCompare(b));
-
       } catch (error) {
         console.error('Suggestions error:', error);
         return [];
@@ -314,6 +363,18 @@ export const searchRouter = createTRPCRouter({
           .from(searchQueries)
           .where(and(...conditions));
 
+        // Results shown for these searches and whether they were clicked
+        const impressions = await ctx.db
+          .select({
+            searchId: searchImpressions.searchId,
+            position: searchImpressions.position,
+            matchedBy: searchImpressions.matchedBy,
+            clickedAt: searchImpressions.clickedAt,
+          })
+          .from(searchImpressions)
+          .innerJoin(searchQueries, eq(searchImpressions.searchId, searchQueries.id))
+          .where(and(...conditions));
+
         return {
           recentSearches,
           popularSearches,
@@ -322,6 +383,7 @@ export const searchRouter = createTRPCRouter({
             avgResponseTime: 0,
             avgResultsCount: 0,
           },
+          relevance: measureRelevance(impressions),
         };
 
       } catch (error) {
@@ -337,6 +399,13 @@ export const searchRouter = createTRPCRouter({
   clearSearchHistory: protectedProcedure
     .mutation(async ({ ctx }) => {
       try {
+        await ctx.db
+          .delete(searchImpressions)
+          .where(inArray(
+            searchImpressions.searchId,
+            ctx.db.select({ id: searchQueries.id }).from(searchQueries).where(eq(searchQueries.userId, ctx.user.id))
+          ));
+
         await ctx.db
           .delete(searchQueries)
           .where(eq(searchQueries.userId, ctx.user.id));
@@ -352,120 +421,786 @@ export const searchRouter = createTRPCRouter({
         });
       }
     }),
+
+  // Record the results of one of the user's searches as shown; results already
+  // recorded, e.g. when the page re-renders, are skipped
+  recordImpressions: protectedProcedure
+    .input(
+      z.object({
+        searchId: z.string(),
+        results: z.array(shownResult).min(1).max(100),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      await findOwnSearch(input.searchId, ctx.user.id, ctx.db);
+      await checkSearchableFiles(input.results.map(result => result.fileId), ctx.user.id, ctx.db);
+
+      try {
+        const recorded: Array<{ fileId: string }> = await ctx.db
+          .select({ fileId: searchImpressions.fileId })
+          .from(searchImpressions)
+          .where(and(
+            eq(searchImpressions.searchId, input.searchId),
+            inArray(searchImpressions.fileId, input.results.map(result => result.fileId))
+          ));
+
+        const recordedIds = new Set(recorded.map(row => row.fileId));
+        const shown = input.results.filter(result => !recordedIds.has(result.fileId));
+        if (shown.length > 0) {
+          await ctx.db.insert(searchImpressions).values(
+            shown.map(result => ({
+              id: nanoid(),
+              searchId: input.searchId,
+              fileId: result.fileId,
+              position: result.position,
+              matchedBy: JSON.stringify(result.matchedBy),
+              createdAt: new Date(),
+            }))
+          );
+        }
+
+        return { recorded: shown.length };
+      } catch (error) {
+        console.error('Record impressions error:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to record search results shown',
+        });
+      }
+    }),
+
+  // Record that a result of one of the user's searches was opened or downloaded. The
+  // first click is kept; a download counts over an open.
+  recordClick: protectedProcedure
+    .input(
+      shownResult.extend({
+        searchId: z.string(),
+        action: z.enum(['open', 'download']),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      await findOwnSearch(input.searchId, ctx.user.id, ctx.db);
+      await checkSearchableFiles([input.fileId], ctx.user.id, ctx.db);
+
+      try {
+        const now = new Date();
+        const [impression] = await ctx.db
+          .select()
+          .from(searchImpressions)
+          .where(and(eq(searchImpressions.searchId, input.searchId), eq(searchImpressions.fileId, input.fileId)))
+          .limit(1);
+
+        if (impression) {
+          await ctx.db
+            .update(searchImpressions)
+            .set({
+              clickedAt: impression.clickedAt || now,
+              action: impression.action === 'download' ? 'download' : input.action,
+            })
+            .where(eq(searchImpressions.id, impression.id));
+        } else {
+          // Clicked before its impression was recorded
+          await ctx.db.insert(searchImpressions).values({
+            id: nanoid(),
+            searchId: input.searchId,
+            fileId: input.fileId,
+            position: input.position,
+            matchedBy: JSON.stringify(input.matchedBy),
+            clickedAt: now,
+            action: input.action,
+            createdAt: now,
+          });
+        }
+
+        return { message: 'Click recorded' };
+      } catch (error) {
+        console.error('Record click error:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to record click',
+        });
+      }
+    }),
+
+  // The user's saved searches, each with the number of files uploaded since they
+  // last viewed it that match it
+  listSavedSearches: protectedProcedure
+    .query(async ({ ctx }) => {
+      try {
+        const searches = await ctx.db
+          .select()
+          .from(savedSearches)
+          .where(eq(savedSearches.userId, ctx.user.id))
+          .orderBy(desc(savedSearches.updatedAt));
+
+        const accessibleSites = await getAccessibleSites(ctx.user.id);
+        const withCounts = await Promise.all(
+          searches.map(async search => ({
+            id: search.id,
+            name: search.name,
+            query: search.query,
+            filters: readSavedFilters(search.filters),
+            lastViewedAt: search.lastViewedAt,
+            createdAt: search.createdAt,
+            newMatches: await countNewMatches(search, accessibleSites),
+          }))
+        );
+
+        return {
+          searches: withCounts,
+          totalNewMatches: withCounts.reduce((total: number, search: { newMatches: number }) => total + search.newMatches, 0),
+        };
+      } catch (error) {
+        console.error('List saved searches error:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to get saved searches',
+        });
+      }
+    }),
+
+  // Save a query and its filters to re-run later
+  saveSearch: protectedProcedure
+    .input(
+      z.object({
+        name: z.string().trim().min(1, 'Name is required').max(255),
+        query: z.string().min(1, 'Search query is required'),
+        filters: z.object({
+          siteIds: z.array(z.string()).optional(),
+          categories: z.array(z.nativeEnum(FileCategory)).optional(),
+          dateFrom: z.string().optional(),
+          dateTo: z.string().optional(),
+          mimeTypes: z.array(z.string()).optional(),
+        }).default({}),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const parsed = parseSearchQuery(input.query);
+      if (parsed.error) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: parsed.error,
+        });
+      }
+
+      try {
+        const now = new Date();
+        const savedSearch = {
+          id: nanoid(),
+          userId: ctx.user.id,
+          name: input.name,
+          query: input.query.trim(),
+          filters: JSON.stringify(input.filters),
+          lastViewedAt: now,
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        await ctx.db.insert(savedSearches).values(savedSearch);
+
+        return { id: savedSearch.id, name: savedSearch.name };
+      } catch (error) {
+        console.error('Save search error:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to save search',
+        });
+      }
+    }),
+
+  renameSavedSearch: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        name: z.string().trim().min(1, 'Name is required').max(255),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      await findOwnSavedSearch(input.id, ctx.user.id, ctx.db);
+
+      try {
+        await ctx.db
+          .update(savedSearches)
+          .set({ name: input.name, updatedAt: new Date() })
+          .where(eq(savedSearches.id, input.id));
+
+        return { id: input.id, name: input.name };
+      } catch (error) {
+        console.error('Rename saved search error:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to rename saved search',
+        });
+      }
+    }),
+
+  deleteSavedSearch: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      await findOwnSavedSearch(input.id, ctx.user.id, ctx.db);
+
+      try {
+        await ctx.db
+          .delete(savedSearches)
+          .where(eq(savedSearches.id, input.id));
+
+        return { message: 'Saved search deleted successfully' };
+      } catch (error) {
+        console.error('Delete saved search error:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to delete saved search',
+        });
+      }
+    }),
+
+  // Mark a saved search as viewed when it's run, which clears its new matches
+  markSavedSearchViewed: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      await findOwnSavedSearch(input.id, ctx.user.id, ctx.db);
+
+      try {
+        await ctx.db
+          .update(savedSearches)
+          .set({ lastViewedAt: new Date() })
+          .where(eq(savedSearches.id, input.id));
+
+        return { id: input.id };
+      } catch (error) {
+        console.error('Mark saved search viewed error:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to update saved search',
+        });
+      }
+    }),
+
+  // Queries that found nothing, most searched first, for admins to fix with synonyms
+  getZeroResultQueries: adminProcedure
+    .input(
+      z.object({
+        days: z.number().min(1).max(365).default(30),
+        limit: z.number().min(1).max(200).default(50),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      try {
+        const since = new Date(Date.now() - input.days * 24 * 60 * 60 * 1000);
+        const searchCount = sql<number>`count(*)`;
+
+        const queries: Array<{ query: string; searches: number; users: number; lastSearchedAt: Date }> = await ctx.db
+          .select({
+            query: sql<string>`min(${searchQueries.query})`,
+            searches: searchCount,
+            users: sql<number>`count(DISTINCT ${searchQueries.userId})`,
+            lastSearchedAt: sql<Date>`max(${searchQueries.createdAt})`.mapWith(searchQueries.createdAt),
+          })
+          .from(searchQueries)
+          .where(and(eq(searchQueries.resultsCount, 0), gte(searchQueries.createdAt, since)))
+          .groupBy(sql`lower(${searchQueries.query})`)
+          .orderBy(desc(searchCount))
+          .limit(input.limit);
+
+        const [totals] = await ctx.db
+          .select({
+            total: searchCount,
+            zeroResults: sql<number>`sum(CASE WHEN ${searchQueries.resultsCount} = 0 THEN 1 ELSE 0 END)`,
+          })
+          .from(searchQueries)
+          .where(gte(searchQueries.createdAt, since));
+
+        return {
+          queries: queries.map(row => ({
+            query: row.query,
+            searches: Number(row.searches),
+            users: Number(row.users),
+            lastSearchedAt: row.lastSearchedAt,
+          })),
+          totalSearches: Number(totals?.total || 0),
+          zeroResultSearches: Number(totals?.zeroResults || 0),
+        };
+      } catch (error) {
+        console.error('Zero-result queries error:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch zero-result queries',
+        });
+      }
+    }),
+
+  // Queries whose results are seldom opened, least often first: they find files, but
+  // not the ones people wanted
+  getLowClickThroughQueries: adminProcedure
+    .input(
+      z.object({
+        days: z.number().min(1).max(365).default(30),
+        limit: z.number().min(1).max(200).default(50),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      try {
+        const since = new Date(Date.now() - input.days * 24 * 60 * 60 * 1000);
+        const searchCount = sql<number>`count(DISTINCT ${searchImpressions.searchId})`;
+        const clickedCount = sql<number>`count(DISTINCT CASE WHEN ${searchImpressions.clickedAt} IS NOT NULL THEN ${searchImpressions.searchId} END)`;
+
+        const queries: Array<{ query: string; searches: number; clickedSearches: number; impressions: number }> = await ctx.db
+          .select({
+            query: sql<string>`min(${searchQueries.query})`,
+            searches: searchCount,
+            clickedSearches: clickedCount,
+            impressions: sql<number>`count(*)`,
+          })
+          .from(searchImpressions)
+          .innerJoin(searchQueries, eq(searchImpressions.searchId, searchQueries.id))
+          .where(gte(searchQueries.createdAt, since))
+          .groupBy(sql`lower(${searchQueries.query})`)
+          .having(sql`${searchCount} >= ${MIN_CLICK_THROUGH_SEARCHES}`)
+          .orderBy(sql`CAST(${clickedCount} AS REAL) / ${searchCount}`, desc(searchCount))
+          .limit(input.limit);
+
+        return {
+          queries: queries.map(row => ({
+            query: row.query,
+            searches: Number(row.searches),
+            clickedSearches: Number(row.clickedSearches),
+            impressions: Number(row.impressions),
+            // Share of searches where a result was opened or downloaded
+            clickThrough: Number(row.clickedSearches) / Number(row.searches),
+          })),
+        };
+      } catch (error) {
+        console.error('Low click-through queries error:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch low click-through queries',
+        });
+      }
+    }),
+
+  // Synonyms and boosts applied to text searches
+  getSearchTuning: adminProcedure
+    .query(async ({ ctx }) => {
+      try {
+        const [synonyms, boosts]: [
+          Array<Pick<SearchSynonym, 'id' | 'term' | 'synonym' | 'createdAt'>>,
+          Array<Pick<SearchBoost, 'id' | 'term' | 'filter' | 'weight' | 'createdAt'>>
+        ] = await Promise.all([
+          ctx.db
+            .select({
+              id: searchSynonyms.id,
+              term: searchSynonyms.term,
+              synonym: searchSynonyms.synonym,
+              createdAt: searchSynonyms.createdAt,
+            })
+            .from(searchSynonyms)
+            .orderBy(searchSynonyms.term, searchSynonyms.synonym),
+          ctx.db
+            .select({
+              id: searchBoosts.id,
+              term: searchBoosts.term,
+              filter: searchBoosts.filter,
+              weight: searchBoosts.weight,
+              createdAt: searchBoosts.createdAt,
+            })
+            .from(searchBoosts)
+            .orderBy(searchBoosts.term, searchBoosts.createdAt),
+        ]);
+
+        return {
+          synonyms,
+          boosts: boosts.map(boost => ({ ...boost, weight: Number(boost.weight) })),
+        };
+      } catch (error) {
+        console.error('Get search tuning error:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch synonyms and boosts',
+        });
+      }
+    }),
+
+  // Make a term also match a synonym, e.g. settee -> sofa, optionally the other way too
+  addSynonym: adminProcedure
+    .input(
+      z.object({
+        term: z.string().min(1, 'Term is required').max(255),
+        synonym: z.string().min(1, 'Synonym is required').max(255),
+        bothWays: z.boolean().default(false),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const term = normalizeTerm(input.term);
+      const synonym = normalizeTerm(input.synonym);
+      if (!term || !synonym || term === synonym) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'A synonym must be different from its term',
+        });
+      }
+
+      const pairs = input.bothWays ? [[term, synonym], [synonym, term]] : [[term, synonym]];
+
+      try {
+        const existing: Array<{ term: string; synonym: string }> = await ctx.db
+          .select({ term: searchSynonyms.term, synonym: searchSynonyms.synonym })
+          .from(searchSynonyms)
+          .where(or(...pairs.map(([from, to]) => and(eq(searchSynonyms.term, from), eq(searchSynonyms.synonym, to)))));
+
+        const added = pairs.filter(([from, to]) => !existing.some(row => row.term === from && row.synonym === to));
+        if (added.length === 0) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: 'That synonym already exists',
+          });
+        }
+
+        await ctx.db.insert(searchSynonyms).values(
+          added.map(([from, to]) => ({
+            id: nanoid(),
+            term: from,
+            synonym: to,
+            createdBy: ctx.user.id,
+            createdAt: new Date(),
+          }))
+        );
+
+        return { added: added.length };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        console.error('Add synonym error:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to add synonym',
+        });
+      }
+    }),
+
+  deleteSynonym: adminProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await ctx.db
+          .delete(searchSynonyms)
+          .where(eq(searchSynonyms.id, input.id));
+
+        return { message: 'Synonym deleted successfully' };
+      } catch (error) {
+        console.error('Delete synonym error:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to delete synonym',
+        });
+      }
+    }),
+
+  // Rank files matching a filter higher (or, with a weight below 1, lower) in searches
+  // for a term, or in every search when the term is empty
+  addBoost: adminProcedure
+    .input(
+      z.object({
+        term: z.string().max(255).default(''),
+        filter: z.string().min(1, 'Filter is required').max(500),
+        weight: z.number().min(0.1).max(10),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const parsed = parseSearchQuery(input.filter);
+      if (parsed.error || !parsed.ast) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Invalid filter: ${parsed.error || 'filter is empty'}`,
+        });
+      }
+      if (input.weight === 1) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'A weight of 1 would leave rankings unchanged',
+        });
+      }
+
+      try {
+        const boost = {
+          id: nanoid(),
+          term: normalizeTerm(input.term),
+          filter: input.filter.trim(),
+          weight: input.weight,
+          createdBy: ctx.user.id,
+          createdAt: new Date(),
+        };
+
+        await ctx.db.insert(searchBoosts).values(boost);
+
+        return { boost };
+      } catch (error) {
+        console.error('Add boost error:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to add boost',
+        });
+      }
+    }),
+
+  deleteBoost: adminProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await ctx.db
+          .delete(searchBoosts)
+          .where(eq(searchBoosts.id, input.id));
+
+        return { message: 'Boost deleted successfully' };
+      } catch (error) {
+        console.error('Delete boost error:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to delete boost',
+        });
+      }
+    }),
 });
 
-// TIER 1: Structured search with basic text matching
-async function performTier1Search(params: {
-  terms: string[];
-  filters: Record<string, string>;
+// A logged search run by the user, or NOT_FOUND
+async function findOwnSearch(id: string, userId: string, db: Database) {
+  const [search] = await db
+    .select({ id: searchQueries.id })
+    .from(searchQueries)
+    .where(and(eq(searchQueries.id, id), eq(searchQueries.userId, userId)))
+    .limit(1);
+
+  if (!search) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Search not found',
+    });
+  }
+
+  return search;
+}
+
+// NOT_FOUND unless every file is in one of the user's sites, so a search's results
+// can only be files it could have found
+async function checkSearchableFiles(fileIds: string[], userId: string, db: Database) {
+  const accessibleSites = await getAccessibleSites(userId);
+  const uniqueIds = Array.from(new Set(fileIds));
+  const found: Array<{ id: string }> = accessibleSites.length > 0
+    ? await db
+        .select({ id: files.id })
+        .from(files)
+        .where(and(inArray(files.id, uniqueIds), inArray(files.siteId, accessibleSites)))
+    : [];
+
+  if (found.length < uniqueIds.length) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'File not found',
+    });
+  }
+}
+
+// A saved search belonging to the user, or NOT_FOUND; other users' searches aren't revealed
+async function findOwnSavedSearch(id: string, userId: string, db: Database) {
+  const [savedSearch] = await db
+    .select()
+    .from(savedSearches)
+    .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)))
+    .limit(1);
+
+  if (!savedSearch) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Saved search not found',
+    });
+  }
+
+  return savedSearch;
+}
+
+interface TierSearchParams {
   siteIds: string[];
   categories?: FileCategory[];
   dateFrom?: string;
   dateTo?: string;
   mimeTypes?: string[];
-  page: number;
-  limit: number;
-  sortBy: string;
-  sortOrder: string;
-  db: any;
-}) {
-  const conditions = [inArray(files.siteId, params.siteIds)];
-
-  // Add category filter
-  if (params.categories && params.categories.length > 0) {
-    conditions.push(inArray(files.category, params.categories));
-  }
+  db: Database;
+}
 
-  // Add date range filter
-  if (params.dateFrom) {
-    conditions.push(sql`${files.createdAt} >= ${new Date(params.dateFrom)}`);
-  }
-  if (params.dateTo) {
-    conditions.push(sql`${files.createdAt} <= ${new Date(params.dateTo)}`);
-  }
+// Rankings for a text query: its structured match, plus full-text and semantic
+// rankings of its free text. Admins' synonyms widen the structured and full-text
+// matches, and their boosts reweight them. Files often opened from the same query
+// rank higher in every tier, counting the clicks recorded by `rankedAt`.
+async function rankTextSearch(params: TierSearchParams & {
+  query: string;
+  ast: QueryNode;
+  terms: string[];
+  rankedAt: Date;
+}): Promise<TierRanking[]> {
+  const tuning = await loadSearchTuning();
+  const ast = expandQuery(params.ast, tuning.synonyms);
 
-  // Add mime type filter
-  if (params.mimeTypes && params.mimeTypes.length > 0) {
-    conditions.push(inArray(files.mimeType, params.mimeTypes));
-  }
+  // TIER 1: Structured filters + basic text matching
+  const rankings: TierRanking[] = [{
+    tier: 'structured',
+    matches: await performTier1Search({
+      condition: and(
+        inArray(files.siteId, params.siteIds),
+        ...compileSearchFilters(params),
+        compileSearchQuery(ast, { includeTerms: true })
+      ),
+      db: params.db,
+    }),
+  }];
 
-  // Add text search conditions
+  // Only the free text is ranked by the other tiers
   if (params.terms.length > 0) {
-    const textConditions = params.terms.map(term =>
-      or(
-        like(files.filename, `%${term}%`),
-        like(files.originalName, `%${term}%`),
-        like(files.aiDescription, `%${term}%`),
-        like(files.aiTags, `%${term}%`)
-      )
-    );
-    conditions.push(and(...textConditions));
-  }
+    const tierParams = {
+      ...params,
+      query: params.terms.join(' '),
+      // Field filters from the query, for the tiers that match the text themselves
+      queryFilter: compileSearchQuery(ast, { includeTerms: false }),
+    };
 
-  // Apply filters from parsed query
-  Object.entries(params.filters).forEach(([key, value]) => {
-    switch (key) {
-      case 'category':
-        if (Object.values(FileCategory).includes(value as FileCategory)) {
-          conditions.push(eq(files.category, value));
-        }
-        break;
-      case 'type':
-        conditions.push(like(files.mimeType, `%${value}%`));
-        break;
-      case 'site':
-        conditions.push(like(files.siteId, `%${value}%`));
-        break;
+    // TIER 2: Full-text search, over the free text as the user combined it
+    const fullText = fullTextQuery(params.ast);
+    if (fullText) {
+      rankings.push({
+        tier: 'fulltext',
+        matches: await performTier2Search({
+          ...tierParams,
+          fullText,
+          alternatives: fullTextAlternatives(params.terms, tuning.synonyms),
+        }),
+      });
     }
+
+    // TIER 3: Embedding similarity search; embeddings already place synonyms close
+    rankings.push({ tier: 'semantic', matches: await performTier3Search(tierParams) });
+  }
+
+  // Boosts apply to the structured and full-text matches
+  const boosted = rankings.filter(ranking => ranking.tier !== 'semantic');
+  if (tuning.boosts.length > 0) {
+    const weights = await boostWeights(rankedFileIds(boosted), params.terms, tuning.boosts);
+    boostMatches(boosted, weights);
+  }
+
+  boostMatches(rankings, await clickBoosts(params.query, rankedFileIds(rankings), params.rankedAt));
+
+  return rankings;
+}
+
+// Every file in the rankings, once
+function rankedFileIds(rankings: TierRanking[]): string[] {
+  const fileIds = new Set<string>();
+  rankings.forEach(ranking => ranking.matches.forEach(match => fileIds.add(match.fileId)));
+  return Array.from(fileIds);
+}
+
+// Multiply the boost of each file's matches by its weight
+function boostMatches(rankings: TierRanking[], weights: Map<string, number>) {
+  if (weights.size === 0) return;
+
+  rankings.forEach(ranking => {
+    ranking.matches = ranking.matches.map(match =>
+      weights.has(match.fileId) ? { ...match, boost: (match.boost ?? 1) * weights.get(match.fileId)! } : match
+    );
   });
+}
 
-  // Get total count
-  const [countResult] = await params.db
-    .select({ count: sql<number>`count(*)` })
-    .from(files)
-    .where(and(...conditions));
+// Rankings for an image: files whose perceptual hash and analysed look are close to
+// its own, and files described like it, found by embedding its analysis as a query
+async function rankImageSearch(params: TierSearchParams & {
+  image: SearchImage;
+}): Promise<TierRanking[]> {
+  const analysis = await analyzeSearchImage(
+    Buffer.from(params.image.data, 'base64'),
+    params.image.mimeType,
+    params.image.name
+  );
 
-  const total = countResult?.count || 0;
+  if ('error' in analysis) {
+    throw new TRPCError({
+      code: analysis.retryable ? 'INTERNAL_SERVER_ERROR' : 'BAD_REQUEST',
+      message: `Could not analyse the image: ${analysis.error}`,
+    });
+  }
 
-  // Get files
-  const sortColumn = files[params.sortBy as keyof typeof files] || files.createdAt;
-  const orderFn = params.sortOrder === 'desc' ? desc : undefined;
+  return [
+    {
+      tier: 'visual',
+      matches: await findFilesLike(analysis, {
+        siteIds: params.siteIds,
+        limit: MAX_TIER_MATCHES,
+        condition: and(...compileSearchFilters(params)),
+      }),
+    },
+    { tier: 'semantic', matches: await performTier3Search({ ...params, query: analysis.text }) },
+  ];
+}
 
-  const fileResults = await params.db
-    .select()
+// TIER 1: Structured search with basic text matching, newest first
+async function performTier1Search(params: {
+  condition?: SQL;
+  db: Database;
+}): Promise<TierRanking['matches']> {
+  const matches = await params.db
+    .select({ fileId: files.id })
     .from(files)
-    .where(and(...conditions))
-    .orderBy(orderFn ? orderFn(sortColumn) : sortColumn)
-    .limit(params.limit)
-    .offset((params.page - 1) * params.limit);
-
-  return {
-    files: fileResults,
-    total,
-    page: params.page,
-    limit: params.limit,
-  };
+    .where(params.condition)
+    .orderBy(desc(files.createdAt), files.id)
+    .limit(MAX_TIER_MATCHES);
+
+  return matches;
 }
 
-// TIER 2: Full-text search
+// TIER 2: Full-text search, best matches first
 async function performTier2Search(params: {
-  query: string;
+  fullText: FullTextQuery;
   siteIds: string[];
   categories?: FileCategory[];
   dateFrom?: string;
   dateTo?: string;
   mimeTypes?: string[];
-  limit: number;
-}) {
+  queryFilter?: SQL;
+  alternatives?: Record<string, string[]>;
+  db: Database;
+}): Promise<TierRanking['matches']> {
   try {
-    return await searchFiles(params.query, params.siteIds);
+    const matches = await searchFiles(params.fullText, {
+      siteIds: params.siteIds,
+      categories: params.categories,
+      dateFrom: params.dateFrom,
+      dateTo: params.dateTo,
+      mimeTypes: params.mimeTypes,
+      limit: MAX_TIER_MATCHES,
+      alternatives: params.alternatives,
+    });
+
+    if (matches.length === 0) {
+      return [];
+    }
+
+    const matchedIds = matches.map(match => match.id);
+    const filtered = params.queryFilter
+      ? await params.db
+          .select({ id: files.id })
+          .from(files)
+          .where(and(inArray(files.id, matchedIds), params.queryFilter))
+      : matches;
+
+    // Keep the full-text ranking order
+    const kept = new Set(filtered.map((file: { id: string }) => file.id));
+    return matchedIds.filter(id => kept.has(id)).map(fileId => ({ fileId }));
   } catch (error) {
     console.error('Full-text search error:', error);
     return [];
   }
 }
 
-// TIER 3: AI semantic search
+// TIER 3: Semantic search over file embeddings, most similar first
 async function performTier3Search(params: {
   query: string;
   siteIds: string[];
@@ -473,42 +1208,34 @@ async function performTier3Search(params: {
   dateFrom?: string;
   dateTo?: string;
   mimeTypes?: string[];
-  limit: number;
-  db: any;
-}) {
+  queryFilter?: SQL;
+  db: Database;
+}): Promise<TierRanking['matches']> {
   try {
-    // Get all files with AI descriptions in accessible sites
-    const allFiles = await params.db
-      .select()
-      .from(files)
-      .where(
-        and(
-          inArray(files.siteId, params.siteIds),
-          sql`${files.aiDescription} IS NOT NULL AND ${files.aiDescription} != ''`
-        )
-      )
-      .limit(1000); // Limit to prevent too much data
-
-    if (allFiles.length === 0) {
+    const embedding = await embedQuery(params.query);
+    // Filters are applied to the nearest files
+    const matches = await findNearestFiles(embedding, {
+      siteIds: params.siteIds,
+      limit: MAX_TIER_MATCHES,
+    });
+
+    if (matches.length === 0) {
       return [];
     }
 
-    // Extract descriptions for semantic search
-    const descriptions = allFiles.map(file => file.aiDescription || '');
-    
-    // Perform semantic search
-    const semanticResults = await semanticSearch(params.query, descriptions);
-    
-    // Map results back to files
-    const rankedFiles = semanticResults
-      .map(result => ({
-        ...allFiles[result.index],
-        relevanceScore: result.score,
-      }))
-      .sort((a, b) => b.relevanceScore - a.relevanceScore)
-      .slice(0, params.limit);
-
-    return rankedFiles;
+    const conditions = [inArray(files.id, matches.map(match => match.fileId)), ...compileSearchFilters(params)];
+    if (params.queryFilter) {
+      conditions.push(params.queryFilter);
+    }
+
+    const matchedFiles = await params.db
+      .select({ id: files.id })
+      .from(files)
+      .where(and(...conditions));
+
+    // Cosine similarity of each file's embedding to the query's, in the order found
+    const kept = new Set(matchedFiles.map((file: { id: string }) => file.id));
+    return matches.filter(match => kept.has(match.fileId));
 
   } catch (error) {
     console.error('Semantic search error:', error);
@@ -516,18 +1243,46 @@ async function performTier3Search(params: {
   }
 }
 
-// Log search query for analytics
+// Values of the sort column for the matched files, for sorting by something other
+// than relevance. Names sort case-insensitively and dates by timestamp.
+async function loadSortValues(
+  fileIds: string[],
+  sortBy: 'createdAt' | 'name' | 'size',
+  db: Database
+): Promise<SortableResult[]> {
+  if (fileIds.length === 0) {
+    return [];
+  }
+
+  const rows = await db
+    .select({ id: files.id, createdAt: files.createdAt, originalName: files.originalName, size: files.size })
+    .from(files)
+    .where(inArray(files.id, fileIds));
+
+  return rows.map(row => ({
+    id: row.id,
+    value: sortBy === 'name'
+      ? row.originalName.toLowerCase()
+      : sortBy === 'size'
+        ? Number(row.size)
+        : new Date(row.createdAt).getTime(),
+  }));
+}
+
+// Log search query for analytics; the logged search's id, or null if it wasn't logged
 async function logSearchQuery(params: {
   userId: string;
   query: string;
   filters: any;
+  searchedSiteIds: string[];
   resultsCount: number;
   responseTime: number;
-  db: any;
-}) {
+  db: Database;
+}): Promise<string | null> {
   try {
+    const id = nanoid();
     await params.db.insert(searchQueries).values({
-      id: nanoid(),
+      id,
       userId: params.userId,
       query: params.query,
       filters: JSON.stringify(params.filters),
@@ -535,8 +1290,16 @@ async function logSearchQuery(params: {
       responseTime: params.responseTime,
       createdAt: new Date(),
     });
+
+    // Searches that found nothing aren't worth suggesting
+    if (params.resultsCount > 0) {
+      await recordQueryTerm(params.query, params.searchedSiteIds);
+    }
+
+    return id;
   } catch (error) {
     console.error('Failed to log search query:', error);
     // Don't throw error, just log it
+    return null;
   }
 }
\ No newline at end of file
@@ -0,0 +1,134 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { createTRPCRouter, publicProcedure } from '../trpc';
+import { generateSignedUrl } from '../../lib/storage';
+import {
+  resolveShareLink,
+  getSharedLinkFiles,
+  checkSharePassword,
+  claimShareDownload,
+  recordShareAccess,
+  type ResolvedShareLink,
+  type SharedFile,
+} from '../../lib/share';
+
+const shareAccessInput = z.object({
+  token: z.string().min(1),
+  password: z.string().optional(),
+});
+
+export const shareRouter = createTRPCRouter({
+  // Resolve a public share token to a preview of its file or collection
+  getShared: publicProcedure
+    .input(z.object({ token: z.string().min(1) }))
+    .query(async ({ input, ctx }) => {
+      const link = await resolveShareLink(input.token);
+      await checkSharePassword(link, ctx.req);
+      await recordShareAccess(link.id, ctx.req, 'view');
+
+      return buildSharePreview(link, await getSharedLinkFiles(link));
+    }),
+
+  // Unlock a password protected share link (a mutation so the password is never put in a URL)
+  unlock: publicProcedure
+    .input(shareAccessInput)
+    .mutation(async ({ input, ctx }) => {
+      const link = await resolveShareLink(input.token);
+      await checkSharePassword(link, ctx.req, input.password);
+      await recordShareAccess(link.id, ctx.req, 'view');
+
+      return buildSharePreview(link, await getSharedLinkFiles(link));
+    }),
+
+  // Generate a short-lived download URL for a shared file
+  getDownloadUrl: publicProcedure
+    .input(shareAccessInput.extend({
+      fileId: z.string().optional(), // Required for collections
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const link = await resolveShareLink(input.token);
+      await checkSharePassword(link, ctx.req, input.password);
+
+      const sharedFiles = await getSharedLinkFiles(link);
+      const file = link.fileId
+        ? sharedFiles[0]
+        : sharedFiles.find(f => f.id === input.fileId);
+
+      if (!file) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'File not found in this share link',
+        });
+      }
+
+      await claimShareDownload(link);
+      await recordShareAccess(link.id, ctx.req, 'download');
+
+      try {
+        const signedUrl = await generateSignedUrl(file.gcsPath, 'read', 5 * 60 * 1000); // 5 minutes
+
+        return {
+          url: signedUrl,
+          filename: file.originalName,
+          size: file.size,
+          mimeType: file.mimeType,
+        };
+      } catch (error) {
+        console.error('Failed to generate shared download URL:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to generate download URL',
+        });
+      }
+    }),
+});
+
+// Public preview of a shared file or collection; never includes storage paths or the password hash
+async function buildSharePreview(link: ResolvedShareLink, sharedFiles: SharedFile[]) {
+  // Thumbnail URLs never outlive the share link itself
+  const expiresIn = Math.min(60 * 60 * 1000, new Date(link.expiresAt).getTime() - Date.now());
+
+  const previewFiles = await Promise.all(
+    sharedFiles.map(async (file) => {
+      let thumbnailUrl: string | null = null;
+      if (file.thumbnailPath) {
+        try {
+          thumbnailUrl = await generateSignedUrl(file.thumbnailPath, 'read', expiresIn);
+        } catch (error) {
+          console.error('Failed to generate shared thumbnail URL:', error);
+        }
+      }
+
+      return {
+        id: file.id,
+        originalName: file.originalName,
+        mimeType: file.mimeType,
+        size: file.size,
+        category: file.category,
+        aiDescription: file.aiDescription,
+        aiTags: file.aiTags,
+        createdAt: file.createdAt,
+        thumbnailUrl,
+      };
+    })
+  );
+
+  // Only show the site when every file comes from the same one
+  const siteNames = new Set(sharedFiles.map(file => file.siteName));
+  const firstFile = sharedFiles[0];
+
+  return {
+    kind: link.fileId ? 'file' as const : 'collection' as const,
+    title: link.title,
+    category: link.category,
+    siteName: siteNames.size === 1 ? firstFile.siteName : null,
+    clientName: siteNames.size === 1 ? firstFile.clientName : null,
+    files: previewFiles,
+    totalSize: sharedFiles.reduce((sum, file) => sum + file.size, 0),
+    expiresAt: link.expiresAt,
+    viewOnly: link.viewOnly,
+    downloadsRemaining: link.maxDownloads === null
+      ? null
+      : Math.max(0, link.maxDownloads - link.downloadCount),
+  };
+}
@@ -4,6 +4,7 @@ import { eq, and, desc, sql, inArray } from 'drizzle-orm';
 import { createTRPCRouter, protectedProcedure, adminProcedure } from '../trpc';
 import { sites, sitePermissions, files, users } from '../../../database/schema';
 import { getUserSitePermissions, canViewSite } from '../../lib/permissions';
+import { indexSiteTerms } from '../../lib/suggestions';
 import { nanoid } from 'nanoid';
 
 export const sitesRouter = createTRPCRouter({
@@ -191,6 +192,7 @@ export const sitesRouter = createTRPCRouter({
         };
 
         await ctx.db.insert(sites).values(newSite);
+        await indexSiteTerms(newSite);
 
         return {
           site: newSite,
@@ -253,6 +255,14 @@ export const sitesRouter = createTRPCRouter({
           .set(updateData)
           .where(eq(sites.id, input.id));
 
+        if (input.name !== undefined || input.clientName !== undefined) {
+          await indexSiteTerms({
+            id: input.id,
+            name: input.name ?? existingSite.name,
+            clientName: input.clientName ?? existingSite.clientName,
+          });
+        }
+
         return {
           message: 'Site updated successfully',
         };
@@ -1,13 +1,13 @@
 import { initTRPC, TRPCError } from '@trpc/server';
-import { type CreateNextContextOptions } from '@trpc/server/adapters/next';
+import type { NextRequest } from 'next/server';
 import { ZodError } from 'zod';
 import superjson from 'superjson';
 import { db } from '../lib/db';
 import { getCurrentUser, type AuthUser } from '../lib/auth';
 
 // Create context for tRPC requests
-export const createTRPCContext = async (opts: CreateNextContextOptions) => {
-  const { req, res } = opts;
+export const createTRPCContext = async (opts: { req: NextRequest }) => {
+  const { req } = opts;
 
   // Get the session from the server
   const user = await getCurrentUser();
@@ -16,7 +16,6 @@ export const createTRPCContext = async (opts: CreateNextContextOptions) => {
     db,
     user,
     req,
-    res,
   };
 };
 
@@ -1,6 +1,6 @@
 // Re-export database types
-import type { User, NewUser, Site, NewSite, SitePermission, NewSitePermission, File as DBFile, NewFile, SearchQuery, NewSearchQuery, SharedLink, NewSharedLink } from '../../database/schema';
-export type { User, NewUser, Site, NewSite, SitePermission, NewSitePermission, DBFile as File, NewFile, SearchQuery, NewSearchQuery, SharedLink, NewSharedLink };
+import type { User, NewUser, Site, NewSite, SitePermission, NewSitePermission, File as DBFile, NewFile, SearchQuery, NewSearchQuery, SharedLink, NewSharedLink, ShareLinkAccess, NewShareLinkAccess } from '../../database/schema';
+export type { User, NewUser, Site, NewSite, SitePermission, NewSitePermission, DBFile as File, NewFile, SearchQuery, NewSearchQuery, SharedLink, NewSharedLink, ShareLinkAccess, NewShareLinkAccess };
 
 import { FileCategory as FileCategoryEnum, ProcessingStatus as ProcessingStatusEnum } from '../../database/schema';
 
@@ -33,17 +33,28 @@ export interface RegisterData {
 }
 
 // File upload types
-export interface FileUploadData {
+export interface UploadSessionRequest {
+  siteId: string;
+  category: FileCategory;
   name: string;
   size: number;
   type: string;
-  data: string; // Base64 encoded
 }
 
-export interface UploadRequest {
-  siteId: string;
-  category: FileCategory;
-  files: FileUploadData[];
+export interface UploadSessionResponse {
+  sessionId: string;
+  protocol: 'resumable' | 'multipart';
+  uploadUrl: string | null; // Resumable upload URL the browser PUTs chunks to
+  chunkSize: number;
+  expiresAt: Date;
+  uploadedParts: Array<{ partNumber: number; size: number }>; // Multipart parts already stored
+}
+
+export interface DuplicateFile {
+  id: string;
+  originalName: string;
+  category: string;
+  createdAt: Date;
 }
 
 export interface UploadResult {
@@ -54,6 +65,8 @@ export interface UploadResult {
   category: string;
   gcsPath: string;
   thumbnailPath?: string;
+  contentHash?: string;
+  duplicates?: DuplicateFile[]; // Identical files already in the same site
 }
 
 export interface UploadResponse {
@@ -74,14 +87,22 @@ export interface SearchFilters {
   mimeTypes?: string[];
 }
 
+// An image searched with instead of text; it's analysed for the search and not kept
+export interface SearchImage {
+  data: string; // Base64
+  mimeType: string;
+  name: string;
+}
+
 export interface SearchRequest {
-  query: string;
+  query: string; // Ignored when searching by image
+  image?: SearchImage;
   siteIds?: string[];
   categories?: FileCategory[];
   dateFrom?: string;
   dateTo?: string;
   mimeTypes?: string[];
-  page?: number;
+  cursor?: string; // nextCursor of the previous page
   limit?: number;
   sortBy?: 'relevance' | 'createdAt' | 'name' | 'size';
   sortOrder?: 'asc' | 'desc';
@@ -90,10 +111,85 @@ export interface SearchRequest {
 export interface SearchResult {
   files: FileWithDetails[];
   total: number;
-  page: number;
   limit: number;
+  nextCursor: string | null; // Null on the last page
   searchTime: number;
-  tier: 'structured' | 'fulltext' | 'semantic' | 'none';
+  facets: SearchFacets | null; // Only on the first page
+  searchId: string | null; // The logged search, for recording clicks; first page of text searches only
+}
+
+// What was done with a search result: opened (shown or viewed) or downloaded
+export type ResultAction = 'open' | 'download';
+
+// How well results were ranked, from which of them were opened or downloaded. MRR is
+// the mean over searches of 1 / the position of the first result clicked (0 if none);
+// per tier, positions are the tier's own ranks.
+export interface SearchRelevance {
+  searches: number;
+  impressions: number;
+  clicks: number;
+  ctr: number; // Clicks per impression, 0-1
+  mrr: number; // 0-1
+  tiers: Array<{
+    tier: SearchTier;
+    impressions: number;
+    clicks: number;
+    ctr: number;
+    mrr: number;
+  }>;
+}
+
+// A saved search as listed, with how many files uploaded since it was last viewed match it
+export interface SavedSearchSummary {
+  id: string;
+  name: string;
+  query: string;
+  filters: SearchFilters;
+  lastViewedAt: number | string | Date;
+  createdAt: number | string | Date;
+  newMatches: number;
+}
+
+// Where a suggestion comes from. Term suggestions complete the word being typed;
+// popular and saved queries replace the whole query.
+export type SuggestionType = 'tag' | 'room' | 'material' | 'site' | 'client' | 'query' | 'saved';
+
+export interface SearchSuggestion {
+  type: SuggestionType;
+  label: string; // As shown
+  value: string; // As inserted, e.g. material:oak
+  replaces: 'fragment' | 'query';
+  count: number; // Files with the term or times the query was run; 0 for saved searches
+}
+
+// How a search found a file: name and field matching, the full-text index, embedding
+// similarity, or looking like the image searched with
+export type SearchTier = 'structured' | 'fulltext' | 'semantic' | 'visual';
+
+export interface SearchMatch {
+  tier: SearchTier;
+  rank: number; // 1-based position in that tier's results
+  score?: number; // Cosine similarity for semantic matches, 0-1 look similarity for visual ones
+}
+
+// A value of a facet and how many matching files have it. `value` is what a
+// query filter for it uses, `label` how it's shown.
+export interface FacetBucket {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  category: FacetBucket[];
+  site: FacetBucket[];
+  mimeType: FacetBucket[];
+  room: FacetBucket[];
+  style: FacetBucket[];
+  material: FacetBucket[];
+  color: FacetBucket[];
+  uploader: FacetBucket[];
+  month: FacetBucket[]; // Upload month, YYYY-MM
 }
 
 // Detailed file type including storage and metadata
@@ -107,11 +203,12 @@ export interface FileWithDetails {
   siteId: string;
   uploadedBy: string;
   gcsPath: string;
-  thumbnailPath?: string;
-  aiDescription?: string;
-  aiTags?: string;
+  thumbnailPath?: string | null;
+  version?: number;
+  aiDescription?: string | null;
+  aiTags?: string | null;
   processingStatus: ProcessingStatus;
-  metadata?: string;
+  metadata?: string | null;
   createdAt: number | string | Date;
   updatedAt: number | string | Date;
   // Extended UI details
@@ -121,6 +218,21 @@ export interface FileWithDetails {
   canEdit?: boolean;
   canDelete?: boolean;
   relevanceScore?: number;
+  matchedBy?: SearchMatch[];
+}
+
+// One entry in a file's version history
+export interface FileVersionInfo {
+  id: string;
+  versionNumber: number;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  uploadedBy: string;
+  uploaderName: string | null;
+  restoredFrom: number | null; // Version whose contents were restored
+  createdAt: number | string | Date;
+  isCurrent: boolean;
 }
 
 // Site types
@@ -195,6 +307,7 @@ export interface SearchAnalytics {
     avgResponseTime: number;
     avgResultsCount: number;
   };
+  relevance: SearchRelevance;
 }
 
 export interface SystemHealth {
@@ -275,6 +388,9 @@ export interface PaginationProps {
 export interface ShareLinkRequest {
   fileId: string;
   expiresInHours: number;
+  password?: string;
+  maxDownloads?: number;
+  viewOnly?: boolean;
 }
 
 export interface ShareLinkResponse {
@@ -282,6 +398,46 @@ export interface ShareLinkResponse {
   token: string;
   expiresAt: Date;
   expiresInHours: number;
+  hasPassword: boolean;
+  maxDownloads: number | null;
+  viewOnly: boolean;
+}
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+export interface ShareCollectionRequest {
+  fileIds?: string[];
+  siteId?: string;
+  category?: FileCategory;
+  title?: string;
+  expiresInHours: number;
+  password?: string;
+  maxDownloads?: number;
+  viewOnly?: boolean;
+}
+
+export interface ShareLinkWithDetails {
+  id: string;
+  kind: 'file' | 'collection';
+  fileId: string | null;
+  fileName: string | null;
+  siteId: string | null;
+  category: FileCategory | null;
+  title: string | null;
+  createdBy: string;
+  creatorName: string;
+  token: string;
+  url: string;
+  expiresAt: Date;
+  isActive: boolean;
+  revokedAt: Date | null;
+  hasPassword: boolean;
+  maxDownloads: number | null;
+  downloadCount: number;
+  viewOnly: boolean;
+  accessCount: number;
+  createdAt: Date;
+  status: ShareLinkStatus;
 }
 
 // Drag and drop types
@@ -291,6 +447,7 @@ export interface DragDropFile {
   progress?: number;
   status: 'pending' | 'uploading' | 'completed' | 'error';
   error?: string;
+  warning?: string;
 }
 
 // Navigation types
@@ -323,10 +480,13 @@ export interface SearchState {
   results: FileWithDetails[];
   isLoading: boolean;
   error: string | null;
-  suggestions: string[];
+  suggestions: SearchSuggestion[];
   total: number;
-  page: number;
+  nextCursor: string | null;
   hasMore: boolean;
+  facets: SearchFacets | null;
+  image: SearchImage | null; // Set when searching by image rather than text
+  searchId: string | null; // The logged search the results belong to
 }
 
 // API response types
@@ -439,6 +599,7 @@ export const PROCESSING_STATUSES = Object.values(ProcessingStatus);
 export const USER_ROLES = Object.values(UserRole);
 
 export const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100MB
+export const MAX_SEARCH_IMAGE_SIZE = 10 * 1024 * 1024; // 10MB
 export const SUPPORTED_IMAGE_TYPES = [
   'image/jpeg',
   'image/jpg',
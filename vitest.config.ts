@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+    // The schema exports its SQLite tables, which tests run against in memory
+    env: { NODE_ENV: 'development' },
+  },
+});